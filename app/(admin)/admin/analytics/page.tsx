@@ -1,15 +1,131 @@
+import { Suspense } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { getAdminAnalytics } from "@/app/actions/admin/analytics";
+import { AnalyticsBreakdowns } from "@/components/admin/analytics-breakdowns";
+import { AnalyticsCohortTable } from "@/components/admin/analytics-cohort-table";
+import { AnalyticsFunnelChart } from "@/components/admin/analytics-funnel-chart";
+import { AnalyticsRefreshButton } from "@/components/admin/analytics-refresh-button";
+import { AnalyticsWorkspacesTable } from "@/components/admin/analytics-workspaces-table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ANALYTICS_COHORT_WEEKS, ANALYTICS_ENGAGEMENT_DAYS } from "@/lib/analytics";
+
+export const metadata = {
+  title: "Analytics | Admin",
+  description: "Funnel, retention and engagement across the app",
+};
+
+async function AnalyticsContent() {
+  const result = await getAdminAnalytics();
+
+  if (!result.success || !result.data) {
+    return (
+      <div className="flex h-[50vh] items-center justify-center">
+        <div className="text-center">
+          <p className="text-destructive">{result.error || "Failed to load analytics"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const analytics = result.data;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Updated {formatDistanceToNow(new Date(analytics.computedAt), { addSuffix: true })}.
+          Reports are recomputed every hour.
+        </p>
+        <AnalyticsRefreshButton />
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Activation Funnel</CardTitle>
+            <CardDescription>
+              How far users got after signing up, as a share of all signups
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AnalyticsFunnelChart funnel={analytics.funnel} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Onboarding Answers</CardTitle>
+            <CardDescription>
+              How far onboarded users got, by what they told us during onboarding
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AnalyticsBreakdowns breakdowns={analytics.breakdowns} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Weekly Retention</CardTitle>
+          <CardDescription>
+            Share of each signup week that posted a message or signed in, by
+            weeks since signing up
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AnalyticsCohortTable cohorts={analytics.cohorts} weeks={ANALYTICS_COHORT_WEEKS} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Most Engaged Workspaces</CardTitle>
+          <CardDescription>
+            Ranked by messages over the last {ANALYTICS_ENGAGEMENT_DAYS} days
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AnalyticsWorkspacesTable workspaces={analytics.workspaces} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
 /**
- * Renders the admin analytics page with a header and description.
+ * Renders the admin analytics page: activation funnel, onboarding
+ * breakdowns, weekly retention and workspace engagement
  */
 export default function AdminAnalyticsPage() {
   return (
-    <section className="container mx-auto px-4 py-12 sm:px-6 lg:px-8">
-      <header>
-        <h1 className="text-3xl font-semibold tracking-tight">Analytics</h1>
-        <p className="text-muted-foreground mt-2 max-w-2xl">
-          Monitor admin-level insights and performance. Additional reports will appear here soon.
-        </p>
-      </header>
-    </section>
+    <div className="container mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="flex flex-col gap-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
+          <p className="text-muted-foreground mt-1">
+            Activation, retention and engagement, computed from the app&apos;s own data.
+          </p>
+        </div>
+
+        <Suspense
+          fallback={
+            <div className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+              <Skeleton className="h-[320px]" />
+              <Skeleton className="h-[320px]" />
+            </div>
+          }
+        >
+          <AnalyticsContent />
+        </Suspense>
+      </div>
+    </div>
   );
 }
@@ -1,12 +1,126 @@
+import { Suspense } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { getApiKeys } from "@/app/actions/admin/api-keys";
+import { ApiKeyRevokeButton } from "@/components/admin/api-key-revoke-button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDate } from "@/lib/format";
+
+export const metadata = {
+  title: "API Keys | Admin",
+  description: "API keys issued across all workspaces",
+};
+
+async function ApiKeysContent() {
+  const result = await getApiKeys();
+
+  if (!result.success || !result.data) {
+    return (
+      <div className="flex h-[50vh] items-center justify-center">
+        <div className="text-center">
+          <p className="text-destructive">{result.error || "Failed to load API keys"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const apiKeys = result.data;
+
+  if (apiKeys.length === 0) {
+    return <p className="text-sm text-muted-foreground">No API keys yet</p>;
+  }
+
+  const now = new Date();
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Key</TableHead>
+            <TableHead>Workspace</TableHead>
+            <TableHead>Created by</TableHead>
+            <TableHead>Scopes</TableHead>
+            <TableHead>Last used</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead className="w-24" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {apiKeys.map((apiKey) => {
+            const isExpired = apiKey.expiresAt !== null && apiKey.expiresAt <= now;
+
+            return (
+              <TableRow key={apiKey.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{apiKey.name}</span>
+                    {apiKey.revokedAt ? (
+                      <Badge variant="destructive">revoked</Badge>
+                    ) : isExpired ? (
+                      <Badge variant="outline">expired</Badge>
+                    ) : null}
+                  </div>
+                  <span className="font-mono text-xs text-muted-foreground">{apiKey.prefix}…</span>
+                </TableCell>
+                <TableCell>{apiKey.workspace.name}</TableCell>
+                <TableCell className="text-muted-foreground">{apiKey.createdBy.email}</TableCell>
+                <TableCell>
+                  <div className="flex max-w-[320px] flex-wrap gap-1">
+                    {apiKey.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary" className="font-mono">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-muted-foreground whitespace-nowrap">
+                  {apiKey.lastUsedAt
+                    ? formatDistanceToNow(apiKey.lastUsedAt, { addSuffix: true })
+                    : "Never"}
+                </TableCell>
+                <TableCell className="text-muted-foreground whitespace-nowrap">
+                  {apiKey.expiresAt ? formatDate(apiKey.expiresAt, { month: "short" }) : "Never"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {!apiKey.revokedAt && <ApiKeyRevokeButton apiKey={apiKey} />}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+/**
+ * Renders every API key issued across workspaces, with a way to revoke
+ * them. Keys are created and rotated by workspace admins in their settings
+ */
 export default function ApiKeysPage() {
   return (
-    <section className="container mx-auto px-4 py-12 sm:px-6 lg:px-8">
-      <header>
-        <h1 className="text-3xl font-semibold tracking-tight">API Keys</h1>
-        <p className="text-muted-foreground mt-2 max-w-2xl">
-          Issue and rotate API credentials. Key management screens will be released soon.
-        </p>
-      </header>
-    </section>
+    <div className="container mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="flex flex-col gap-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">API Keys</h1>
+          <p className="text-muted-foreground mt-1">
+            Keys issued by workspace admins for the REST API.
+          </p>
+        </div>
+
+        <Suspense fallback={<Skeleton className="h-[400px] w-full" />}>
+          <ApiKeysContent />
+        </Suspense>
+      </div>
+    </div>
   );
 }
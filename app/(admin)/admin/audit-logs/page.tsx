@@ -1,15 +1,74 @@
+import { Suspense } from "react";
+import { getAuditLogs } from "@/app/actions/admin/audit-logs";
+import { AuditLogsDataTable } from "@/components/admin/audit-logs-data-table";
+import { DataTableSkeleton } from "@/components/data-table/data-table-skeleton";
+
+export const metadata = {
+  title: "Audit Logs | Admin",
+  description: "Review sensitive changes across the app",
+};
+
+interface PageProps {
+  searchParams: Promise<{
+    page?: string;
+    perPage?: string;
+    sort?: string;
+    filters?: string;
+    joinOperator?: string;
+  }>;
+}
+
+async function AuditLogsContent({ searchParams }: PageProps) {
+  const params = await searchParams;
+  const result = await getAuditLogs(params);
+
+  if (!result.success || !result.data) {
+    return (
+      <div className="flex h-[50vh] items-center justify-center">
+        <div className="text-center">
+          <p className="text-destructive">{result.error || "Failed to load audit logs"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <AuditLogsDataTable
+      data={result.data.logs}
+      pageCount={result.data.pageCount}
+      total={result.data.total}
+    />
+  );
+}
+
 /**
- * Renders the Audit Logs page with a header and description.
+ * Renders the Audit Logs page: a filterable timeline of sensitive changes
  */
-export default function AuditLogsPage() {
+export default function AuditLogsPage(props: PageProps) {
   return (
-    <section className="container mx-auto px-4 py-12 sm:px-6 lg:px-8">
-      <header>
-        <h1 className="text-3xl font-semibold tracking-tight">Audit Logs</h1>
-        <p className="text-muted-foreground mt-2 max-w-2xl">
-          Review system activity and trace changes. Log timelines will be available shortly.
-        </p>
-      </header>
-    </section>
+    <div className="container mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="flex flex-col gap-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Logs</h1>
+          <p className="text-muted-foreground mt-1">
+            Who changed what, and from where. Entries can&apos;t be edited or removed.
+          </p>
+        </div>
+
+        <Suspense
+          fallback={
+            <DataTableSkeleton
+              columnCount={6}
+              rowCount={8}
+              filterCount={1}
+              withViewOptions={true}
+              withPagination={true}
+            />
+          }
+        >
+          <AuditLogsContent searchParams={props.searchParams} />
+        </Suspense>
+      </div>
+    </div>
   );
 }
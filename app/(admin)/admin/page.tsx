@@ -1,9 +1,184 @@
-import { AdminEmptyState } from "@/components/admin/empty-state"
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import {
+  getDashboardStats,
+  getRecentActivity,
+  getRecentUsers,
+  type CountStats,
+} from "@/app/actions/admin/dashboard";
+import { SectionCards, type SectionCard } from "@/components/section-cards";
+import { DashboardCharts } from "@/components/admin/dashboard-charts";
+import { DashboardRangeToggle } from "@/components/admin/dashboard-range-toggle";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { DASHBOARD_RANGE_DAYS, type DashboardRange } from "@/types/admin";
+
+export const metadata = {
+  title: "Overview | Admin",
+  description: "Growth and engagement across the app",
+};
+
+interface PageProps {
+  searchParams: Promise<{
+    range?: string;
+  }>;
+}
+
+function countCard(title: string, stats: CountStats, days: number): SectionCard {
+  return {
+    title,
+    value: stats.total.toLocaleString(),
+    trend: stats.trend,
+    summary: `${stats.new.toLocaleString()} new in the last ${days} days`,
+    description: `Compared with the ${days} days before`,
+  };
+}
+
+/**
+ * Renders the admin overview: counts and trends for the selected window,
+ * signups, active users, and the latest users and audited changes
+ */
+export default async function AdminPage(props: PageProps) {
+  const { range: rangeParam } = await props.searchParams;
+  const range: DashboardRange =
+    rangeParam && rangeParam in DASHBOARD_RANGE_DAYS ? (rangeParam as DashboardRange) : "30d";
+  const days = DASHBOARD_RANGE_DAYS[range];
+
+  const [statsResult, usersResult, activityResult] = await Promise.all([
+    getDashboardStats(range),
+    getRecentUsers(),
+    getRecentActivity(),
+  ]);
+
+  if (!statsResult.success || !statsResult.data) {
+    return (
+      <div className="flex h-[50vh] items-center justify-center">
+        <div className="text-center">
+          <p className="text-destructive">{statsResult.error || "Failed to load dashboard"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const stats = statsResult.data;
+  const recentUsers = usersResult.success ? usersResult.data ?? [] : [];
+  const recentActivity = activityResult.success ? activityResult.data ?? [] : [];
+
+  const cards: SectionCard[] = [
+    {
+      ...countCard("Users", stats.users, days),
+      description: `${stats.users.active.toLocaleString()} signed in during the last ${days} days`,
+    },
+    countCard("Workspaces", stats.workspaces, days),
+    countCard("Threads", stats.threads, days),
+    countCard("Messages", stats.messages, days),
+    countCard("Wiki Pages", stats.wikiPages, days),
+    {
+      title: "Monthly Active Users",
+      value: stats.activeUsers.monthly.toLocaleString(),
+      summary: `${stats.activeUsers.daily.toLocaleString()} daily, ${stats.activeUsers.weekly.toLocaleString()} weekly`,
+      description: "Signed in or used a session",
+    },
+    {
+      title: "Invitation Conversion",
+      value: `${stats.invitations.conversionRate}%`,
+      summary: `${stats.invitations.accepted.toLocaleString()} of ${stats.invitations.sent.toLocaleString()} accepted`,
+      description: `Invitations sent in the last ${days} days`,
+    },
+  ];
 
-export default async function AdminPage() {
   return (
-    <div className="flex items-center justify-center min-h-[calc(100vh-200px)] p-8">
-      <AdminEmptyState />
+    <div className="@container/main flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+      <div className="flex flex-col gap-4 px-4 sm:flex-row sm:items-end sm:justify-between lg:px-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Overview</h1>
+          <p className="text-muted-foreground mt-1">
+            Growth and engagement over the last {days} days
+          </p>
+        </div>
+        <DashboardRangeToggle />
+      </div>
+
+      <SectionCards cards={cards} />
+
+      <DashboardCharts stats={stats} />
+
+      <div className="grid grid-cols-1 gap-4 px-4 lg:px-6 @5xl/main:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Users</CardTitle>
+            <CardDescription>The latest signups</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recentUsers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No users yet</p>
+            ) : (
+              <ul className="space-y-3">
+                {recentUsers.map((user) => (
+                  <li key={user.id} className="flex items-center gap-3">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={user.image || undefined} alt={user.name || user.email} />
+                      <AvatarFallback>
+                        {(user.name || user.email).charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 flex-1">
+                      <Link
+                        href={`/admin/users/${user.id}`}
+                        className="block truncate text-sm font-medium hover:underline"
+                      >
+                        {user.name || user.email}
+                      </Link>
+                      <p className="truncate text-xs text-muted-foreground">{user.email}</p>
+                    </div>
+                    {user.status !== "ACTIVE" && (
+                      <Badge variant="outline">{user.status.toLowerCase()}</Badge>
+                    )}
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {formatDistanceToNow(new Date(user.createdAt), { addSuffix: true })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Activity</CardTitle>
+            <CardDescription>
+              The latest audited changes.{" "}
+              <Link href="/admin/audit-logs" className="underline underline-offset-4">
+                View all
+              </Link>
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recentActivity.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No activity yet</p>
+            ) : (
+              <ul className="space-y-3">
+                {recentActivity.map((item) => (
+                  <li key={item.id} className="flex items-start justify-between gap-3">
+                    <span className="text-sm">{item.description}</span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {formatDistanceToNow(new Date(item.timestamp), { addSuffix: true })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
     </div>
-  )
+  );
 }
@@ -0,0 +1,147 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { format, formatDistanceToNow } from "date-fns";
+import { ArrowLeft } from "lucide-react";
+import { getUserById, getUserLoginHistory, getUserSessions } from "@/app/actions/admin/users";
+import { LoginHistoryTable } from "@/components/login-history-table";
+import { UserSessionsCard } from "@/components/admin/user-sessions-card";
+import { UserTwoFactorResetButton } from "@/components/admin/user-two-factor-reset-button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export const metadata = {
+  title: "User Details | Admin",
+  description: "Account details, sessions and sign-in history",
+};
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function UserDetailPage(props: PageProps) {
+  const { id } = await props.params;
+
+  const [userResult, sessionsResult, historyResult] = await Promise.all([
+    getUserById(id),
+    getUserSessions(id),
+    getUserLoginHistory(id),
+  ]);
+
+  if (!userResult.success || !userResult.data) {
+    notFound();
+  }
+
+  const user = userResult.data;
+  const initials = user.name
+    ? user.name
+        .split(" ")
+        .map((n: string) => n[0])
+        .join("")
+        .toUpperCase()
+    : user.email[0].toUpperCase();
+
+  const details = [
+    { label: "Role", value: user.role },
+    { label: "Status", value: user.status },
+    { label: "Email", value: user.emailVerified ? "Verified" : "Unverified" },
+    { label: "Two-factor", value: user.twoFactorEnabled ? "On" : "Off" },
+    { label: "Phone", value: user.phone || "—" },
+    {
+      label: "Last login",
+      value: user.lastLoginAt
+        ? formatDistanceToNow(new Date(user.lastLoginAt), { addSuffix: true })
+        : "Never",
+    },
+    { label: "Created", value: format(new Date(user.createdAt), "MMM d, yyyy") },
+  ];
+
+  return (
+    <div className="container mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="flex flex-col gap-6">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="mb-4 -ml-2">
+            <Link href="/admin/users">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to users
+            </Link>
+          </Button>
+          <div className="flex items-center gap-4">
+            <Avatar className="h-12 w-12">
+              <AvatarImage src={user.image || undefined} alt={user.name || user.email} />
+              <AvatarFallback>{initials}</AvatarFallback>
+            </Avatar>
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">{user.name || "No name"}</h1>
+              <p className="text-muted-foreground mt-1">{user.email}</p>
+            </div>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <CardTitle>Account</CardTitle>
+            {user.twoFactorEnabled && (
+              <UserTwoFactorResetButton userId={user.id} userName={user.name || user.email} />
+            )}
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+              {details.map((detail) => (
+                <div key={detail.label}>
+                  <dt className="text-sm text-muted-foreground">{detail.label}</dt>
+                  <dd className="text-sm font-medium">{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+            {user.workspaces.length > 0 && (
+              <div className="mt-6">
+                <p className="text-sm text-muted-foreground mb-2">Workspaces</p>
+                <div className="flex flex-wrap gap-2">
+                  {user.workspaces.map((membership: { id: string; role: string; workspace: { name: string } }) => (
+                    <Badge key={membership.id} variant="secondary">
+                      {membership.workspace.name} · {membership.role}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {sessionsResult.success && sessionsResult.data ? (
+          <UserSessionsCard userId={user.id} sessions={sessionsResult.data} />
+        ) : (
+          <p className="text-destructive">
+            {sessionsResult.error || "Failed to load sessions"}
+          </p>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sign-in History</CardTitle>
+            <CardDescription>
+              Most recent sign-in attempts, including failed ones
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {historyResult.success && historyResult.data ? (
+              <LoginHistoryTable entries={historyResult.data} />
+            ) : (
+              <p className="text-destructive">
+                {historyResult.error || "Failed to load sign-in history"}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { redirect } from "next/navigation";
+import { getCurrentUser } from "@/app/actions/user";
+import { AccountDeletionPending } from "@/components/auth/account-deletion-pending";
+
+export const dynamic = 'force-dynamic';
+
+export default async function AccountDeletionPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  if (user.status !== "DELETED" || !user.deletionScheduledAt) {
+    redirect("/dashboard");
+  }
+
+  return <AccountDeletionPending scheduledAt={user.deletionScheduledAt} />;
+}
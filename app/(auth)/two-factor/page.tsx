@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+import TwoFactorAuth from "@/components/auth/two-factor";
+import SignInSkeleton from "@/components/auth/sign-in-skeleton";
+
+export default function TwoFactor() {
+  return (
+    <Suspense fallback={<SignInSkeleton />}>
+      <TwoFactorAuth />
+    </Suspense>
+  );
+}
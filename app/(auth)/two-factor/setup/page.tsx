@@ -0,0 +1,46 @@
+import { redirect } from "next/navigation";
+import { getCurrentUser } from "@/app/actions/user";
+import { getMyLinkedAccounts } from "@/app/actions/user-settings";
+import { TwoFactorSetupRequired } from "@/components/auth/two-factor-setup-required";
+import { workspacesRequiringTwoFactor } from "@/lib/two-factor";
+import { getSessionRestriction } from "@/lib/session-access";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+
+export const dynamic = 'force-dynamic';
+
+export default async function TwoFactorSetupPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  // This session already passed, or nothing asks for it
+  if (!session || (await getSessionRestriction(session)) !== "two_factor") {
+    redirect("/dashboard");
+  }
+
+  const [workspaces, accountsResult] = await Promise.all([
+    workspacesRequiringTwoFactor(user.id),
+    getMyLinkedAccounts(),
+  ]);
+
+  // Google and magic link accounts need a password before turning 2FA on
+  const hasPassword = (accountsResult.data ?? []).some(
+    (account) => account.providerId === "credential"
+  );
+
+  // With 2FA already on, only signing in again verifies the session
+  return (
+    <TwoFactorSetupRequired
+      workspaces={workspaces}
+      needsSignIn={user.twoFactorEnabled === true}
+      hasPassword={hasPassword}
+    />
+  );
+}
@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+import VerifyEmailAuth from "@/components/auth/verify-email";
+import SignInSkeleton from "@/components/auth/sign-in-skeleton";
+
+export default function VerifyEmail() {
+  return (
+    <Suspense fallback={<SignInSkeleton />}>
+      <VerifyEmailAuth />
+    </Suspense>
+  );
+}
@@ -1,5 +1,6 @@
 import { redirect } from "next/navigation";
 import { getCurrentUser } from "@/app/actions/user";
+import { isEmailVerificationRequired, verifyEmailRedirect } from "@/lib/email-verification";
 import { AcceptInvitationClient } from "@/components/invitations/accept-invitation-client";
 
 interface AcceptInvitationPageProps {
@@ -26,6 +27,10 @@ export default async function AcceptInvitationPage({
     redirect(`/sign-up?callbackUrl=${callbackUrl}`);
   }
 
+  if (!user.emailVerified && isEmailVerificationRequired("invitations")) {
+    redirect(verifyEmailRedirect(`/accept-invitation?token=${token}`));
+  }
+
   // User is authenticated, render client component to handle acceptance
   return <AcceptInvitationClient token={token} userEmail={user.email} />;
 }
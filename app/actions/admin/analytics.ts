@@ -0,0 +1,63 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import prisma from "@/lib/prisma";
+import type { ActionResult } from "@/types/actions";
+import type { AdminAnalytics } from "@/types/admin";
+import { getAnalytics, refreshAnalytics } from "@/lib/analytics";
+
+// Helper to check if user is admin
+async function checkAdmin(): Promise<ActionResult<boolean>> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized - Not authenticated" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    });
+
+    if (user?.role !== "admin") {
+      return { success: false, error: "Unauthorized - Admin access required" };
+    }
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("Error checking admin status:", error);
+    return { success: false, error: "Failed to verify permissions" };
+  }
+}
+
+// Get the latest analytics snapshot, refreshed hourly by the job runner
+export async function getAdminAnalytics(): Promise<ActionResult<AdminAnalytics>> {
+  const authCheck = await checkAdmin();
+  if (!authCheck.success) return { success: false, error: authCheck.error };
+
+  try {
+    const analytics = await getAnalytics();
+    return { success: true, data: analytics };
+  } catch (error) {
+    console.error("Error fetching analytics:", error);
+    return { success: false, error: "Failed to fetch analytics" };
+  }
+}
+
+// Recompute the analytics now instead of waiting for the next refresh
+export async function refreshAdminAnalytics(): Promise<ActionResult<{ computedAt: Date }>> {
+  const authCheck = await checkAdmin();
+  if (!authCheck.success) return { success: false, error: authCheck.error };
+
+  try {
+    const analytics = await refreshAnalytics();
+    return { success: true, data: { computedAt: analytics.computedAt } };
+  } catch (error) {
+    console.error("Error refreshing analytics:", error);
+    return { success: false, error: "Failed to refresh analytics" };
+  }
+}
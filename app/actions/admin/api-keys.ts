@@ -0,0 +1,118 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import prisma from "@/lib/prisma";
+import { ZodError } from "zod";
+import { apiKeyIdSchema, type ApiKeyIdInput } from "@/lib/validations/workspace";
+import { revalidatePath } from "next/cache";
+import type { ActionResult } from "@/types/actions";
+import type { AdminApiKey } from "@/types/admin";
+import { recordAuditLog } from "@/lib/audit-log";
+import { revokeApiKey } from "@/lib/api-keys";
+
+// Helper to check if user is admin
+async function checkAdmin(): Promise<ActionResult<boolean>> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized - Not authenticated" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    });
+
+    if (user?.role !== "admin") {
+      return { success: false, error: "Unauthorized - Admin access required" };
+    }
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("Error checking admin status:", error);
+    return { success: false, error: "Failed to verify permissions" };
+  }
+}
+
+// Get every API key across all workspaces, active ones first
+export async function getApiKeys(): Promise<ActionResult<AdminApiKey[]>> {
+  const authCheck = await checkAdmin();
+  if (!authCheck.success) return { success: false, error: authCheck.error };
+
+  try {
+    const apiKeys = await prisma.apiKey.findMany({
+      select: {
+        id: true,
+        name: true,
+        prefix: true,
+        scopes: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        revokedAt: true,
+        createdAt: true,
+        workspace: {
+          select: { id: true, name: true },
+        },
+        createdBy: {
+          select: { id: true, email: true },
+        },
+      },
+      orderBy: [{ revokedAt: { sort: "desc", nulls: "first" } }, { createdAt: "desc" }],
+    });
+
+    return { success: true, data: apiKeys };
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    return { success: false, error: "Failed to fetch API keys" };
+  }
+}
+
+// Revoke any workspace's API key
+export async function revokeApiKeyAsAdmin(input: ApiKeyIdInput): Promise<ActionResult> {
+  const authCheck = await checkAdmin();
+  if (!authCheck.success) return { success: false, error: authCheck.error };
+
+  try {
+    // Validate input
+    const validatedData = apiKeyIdSchema.parse(input);
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { id: validatedData.apiKeyId },
+      select: { id: true, name: true, workspaceId: true, revokedAt: true },
+    });
+
+    if (!apiKey) {
+      return { success: false, error: "API key not found" };
+    }
+
+    if (apiKey.revokedAt) {
+      return { success: false, error: "API key is already revoked" };
+    }
+
+    await revokeApiKey(apiKey.id);
+
+    await recordAuditLog(await headers(), {
+      action: "api_key.revoke",
+      targetType: "api_key",
+      targetId: apiKey.id,
+      targetLabel: apiKey.name,
+      workspaceId: apiKey.workspaceId,
+    });
+
+    revalidatePath("/admin/api-keys");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+
+    if (error instanceof ZodError) {
+      return { success: false, error: error.issues[0]?.message ?? "Validation failed" };
+    }
+
+    return { success: false, error: "Failed to revoke API key" };
+  }
+}
@@ -0,0 +1,120 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import prisma from "@/lib/prisma";
+import type { ActionResult } from "@/types/actions";
+import type { AdminAuditLog, AuditLogChanges } from "@/types/admin";
+import {
+  AUDIT_LOG_EXPORT_LIMIT,
+  auditLogsToCsv,
+  auditLogWhere,
+  parseAuditLogQuery,
+  type AuditLogQuery,
+} from "@/lib/audit-log";
+
+// The timeline's URL search params
+type AuditLogParams = Record<string, string | undefined>;
+
+// Helper to check if user is admin
+async function checkAdmin(): Promise<ActionResult<boolean>> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized - Not authenticated" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    });
+
+    if (user?.role !== "admin") {
+      return { success: false, error: "Unauthorized - Admin access required" };
+    }
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("Error checking admin status:", error);
+    return { success: false, error: "Failed to verify permissions" };
+  }
+}
+
+function orderBy(sort: AuditLogQuery["sort"]) {
+  // Newest first between entries that tie on the chosen column
+  return [
+    ...sort.map((item) => ({ [item.id]: item.desc ? "desc" : "asc" })),
+    { createdAt: "desc" },
+    { id: "desc" },
+  ] as { [key: string]: "asc" | "desc" }[];
+}
+
+// Get a page of audit log entries, filtered and sorted as in the timeline
+export async function getAuditLogs(
+  params: AuditLogParams
+): Promise<ActionResult<{ logs: AdminAuditLog[]; total: number; pageCount: number }>> {
+  const authCheck = await checkAdmin();
+  if (!authCheck.success) return { success: false, error: authCheck.error };
+
+  try {
+    const query = parseAuditLogQuery(params);
+    const where = auditLogWhere(query.filters, query.joinOperator);
+
+    const [total, logs] = await Promise.all([
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.findMany({
+        where,
+        orderBy: orderBy(query.sort),
+        skip: (query.page - 1) * query.perPage,
+        take: query.perPage,
+      }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        logs: logs.map((log) => ({ ...log, changes: log.changes as AuditLogChanges | null })),
+        total,
+        pageCount: Math.ceil(total / query.perPage),
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching audit logs:", error);
+    return { success: false, error: "Failed to fetch audit logs" };
+  }
+}
+
+// Export the entries matching the timeline's filters as CSV
+export async function exportAuditLogs(
+  params: AuditLogParams
+): Promise<ActionResult<{ csv: string; truncated: boolean }>> {
+  const authCheck = await checkAdmin();
+  if (!authCheck.success) return { success: false, error: authCheck.error };
+
+  try {
+    const query = parseAuditLogQuery(params);
+    const logs = await prisma.auditLog.findMany({
+      where: auditLogWhere(query.filters, query.joinOperator),
+      orderBy: orderBy(query.sort),
+      take: AUDIT_LOG_EXPORT_LIMIT + 1,
+    });
+
+    const rows = logs
+      .slice(0, AUDIT_LOG_EXPORT_LIMIT)
+      .map((log) => ({ ...log, changes: log.changes as AuditLogChanges | null }));
+
+    return {
+      success: true,
+      data: {
+        csv: auditLogsToCsv(rows),
+        truncated: logs.length > AUDIT_LOG_EXPORT_LIMIT,
+      },
+    };
+  } catch (error) {
+    console.error("Error exporting audit logs:", error);
+    return { success: false, error: "Failed to export audit logs" };
+  }
+}
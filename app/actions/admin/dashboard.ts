@@ -4,6 +4,10 @@ import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import prisma from "@/lib/prisma";
 import type { ActionResult } from "@/types/actions";
+import { describeAuditLog } from "@/lib/audit-log";
+import { DASHBOARD_RANGE_DAYS, type DashboardRange } from "@/types/admin";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // Helper to check if user is admin
 async function checkAdmin(): Promise<ActionResult<boolean>> {
@@ -35,13 +39,32 @@ async function checkAdmin(): Promise<ActionResult<boolean>> {
   }
 }
 
+export interface CountStats {
+  total: number;
+  new: number; // Created within the selected window
+  trend: number; // Percentage change vs the window before it
+}
+
 export interface DashboardStats {
-  users: {
-    total: number;
-    new: number; // Last 30 days
-    active: number; // Last 30 days with login
-    trend: number; // Percentage change vs previous period
+  range: DashboardRange;
+  users: CountStats & {
+    active: number; // Signed in within the selected window
+  };
+  workspaces: CountStats;
+  threads: CountStats;
+  messages: CountStats;
+  wikiPages: CountStats;
+  activeUsers: {
+    daily: number;
+    weekly: number;
+    monthly: number;
+  };
+  invitations: {
+    sent: number; // Within the selected window, cancelled ones excluded
+    accepted: number;
+    conversionRate: number; // Percentage of sent invitations accepted
   };
+  signups: { date: string; count: number }[]; // One entry per UTC day
 }
 
 export interface RecentUser {
@@ -56,60 +79,129 @@ export interface RecentUser {
 
 export interface ActivityItem {
   id: string;
-  type: "user_registered" | "workspace_created" | "user_status_changed";
+  type: string; // Audit log action, e.g. "member.role_update"
   description: string;
   timestamp: Date;
   metadata?: any;
 }
 
-// Get dashboard statistics
-export async function getDashboardStats(): Promise<
-  ActionResult<DashboardStats>
-> {
+function percentChange(current: number, previous: number): number {
+  const change = previous === 0 ? (current === 0 ? 0 : 100) : ((current - previous) / previous) * 100;
+  return Math.round(change * 10) / 10;
+}
+
+// Total, created in the window and created in the window before it
+type CountModel = {
+  count: (args?: { where?: { createdAt?: { gte?: Date; lt?: Date } } }) => Promise<number>;
+};
+
+async function countStats(model: CountModel, windowStart: Date, previousStart: Date): Promise<CountStats> {
+  const [total, current, previous] = await Promise.all([
+    model.count(),
+    model.count({ where: { createdAt: { gte: windowStart } } }),
+    model.count({ where: { createdAt: { gte: previousStart, lt: windowStart } } }),
+  ]);
+
+  return { total, new: current, trend: percentChange(current, previous) };
+}
+
+// Users who signed in, or used a session, since the given date
+function countActiveUsers(since: Date) {
+  return prisma.user.count({
+    where: {
+      status: { not: "DELETED" },
+      OR: [
+        { lastLoginAt: { gte: since } },
+        { sessions: { some: { updatedAt: { gte: since } } } },
+      ],
+    },
+  });
+}
+
+// Signups per UTC day, including days without any. createdAt is stored in UTC
+// without a time zone, so truncating it as is keeps the buckets in UTC
+async function signupsPerDay(days: number, now: Date): Promise<DashboardStats["signups"]> {
+  const firstDay = new Date(now);
+  firstDay.setUTCHours(0, 0, 0, 0);
+  firstDay.setUTCDate(firstDay.getUTCDate() - (days - 1));
+
+  const rows = await prisma.$queryRaw<Array<{ day: Date; count: bigint }>>`
+    SELECT date_trunc('day', u."createdAt") AS "day", COUNT(*) AS "count"
+    FROM "user" u
+    WHERE u."createdAt" >= ${firstDay}
+    GROUP BY 1
+  `;
+
+  const counts = new Map(rows.map((row) => [row.day.toISOString().slice(0, 10), Number(row.count)]));
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(firstDay.getTime() + index * DAY_MS).toISOString().slice(0, 10);
+    return { date, count: counts.get(date) ?? 0 };
+  });
+}
+
+// Get dashboard statistics for the last 7, 30 or 90 days
+export async function getDashboardStats(
+  range: DashboardRange = "30d"
+): Promise<ActionResult<DashboardStats>> {
   const authCheck = await checkAdmin();
   if (!authCheck.success) return { success: false, error: authCheck.error };
 
   try {
+    const days = DASHBOARD_RANGE_DAYS[range] ?? DASHBOARD_RANGE_DAYS["30d"];
     const now = new Date();
-    const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    const sixtyDaysAgo = new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000);
+    const windowStart = new Date(now.getTime() - days * DAY_MS);
+    const previousStart = new Date(now.getTime() - 2 * days * DAY_MS);
 
-    // User statistics
     const [
-      totalUsers,
-      newUsersLast30Days,
-      newUsersPrevious30Days,
+      users,
       activeUsers,
+      workspaces,
+      threads,
+      messages,
+      wikiPages,
+      daily,
+      weekly,
+      monthly,
+      invitationsSent,
+      invitationsAccepted,
+      signups,
     ] = await Promise.all([
-      prisma.user.count(),
-      prisma.user.count({
-        where: { createdAt: { gte: thirtyDaysAgo } },
-      }),
-      prisma.user.count({
-        where: {
-          createdAt: { gte: sixtyDaysAgo, lt: thirtyDaysAgo },
-        },
+      countStats(prisma.user, windowStart, previousStart),
+      countActiveUsers(windowStart),
+      countStats(prisma.workspace, windowStart, previousStart),
+      countStats(prisma.thread, windowStart, previousStart),
+      countStats(prisma.message, windowStart, previousStart),
+      countStats(prisma.wikiPage, windowStart, previousStart),
+      countActiveUsers(new Date(now.getTime() - DAY_MS)),
+      countActiveUsers(new Date(now.getTime() - 7 * DAY_MS)),
+      countActiveUsers(new Date(now.getTime() - 30 * DAY_MS)),
+      prisma.workspaceInvitation.count({
+        where: { createdAt: { gte: windowStart } },
       }),
-      prisma.user.count({
-        where: { lastLoginAt: { gte: thirtyDaysAgo } },
+      prisma.workspaceInvitation.count({
+        where: { createdAt: { gte: windowStart }, acceptedAt: { not: null } },
       }),
+      signupsPerDay(days, now),
     ]);
 
-    // Calculate user trend
-    const userTrend =
-      newUsersPrevious30Days === 0
-        ? 100
-        : ((newUsersLast30Days - newUsersPrevious30Days) /
-            newUsersPrevious30Days) *
-          100;
-
     const stats: DashboardStats = {
-      users: {
-        total: totalUsers,
-        new: newUsersLast30Days,
-        active: activeUsers,
-        trend: Math.round(userTrend * 10) / 10,
+      range,
+      users: { ...users, active: activeUsers },
+      workspaces,
+      threads,
+      messages,
+      wikiPages,
+      activeUsers: { daily, weekly, monthly },
+      invitations: {
+        sent: invitationsSent,
+        accepted: invitationsAccepted,
+        conversionRate:
+          invitationsSent === 0
+            ? 0
+            : Math.round((invitationsAccepted / invitationsSent) * 1000) / 10,
       },
+      signups,
     };
 
     return { success: true, data: stats };
@@ -146,7 +238,7 @@ export async function getRecentUsers(): Promise<ActionResult<RecentUser[]>> {
   }
 }
 
-// Get recent activity feed
+// Get the latest audit log entries as an activity feed
 export async function getRecentActivity(): Promise<
   ActionResult<ActivityItem[]>
 > {
@@ -154,49 +246,24 @@ export async function getRecentActivity(): Promise<
   if (!authCheck.success) return { success: false, error: authCheck.error };
 
   try {
-    // Get recent users
-    const recentUsers = await prisma.user.findMany({
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        createdAt: true,
-      },
+    const logs = await prisma.auditLog.findMany({
       orderBy: { createdAt: "desc" },
-      take: 3,
+      take: 5,
     });
 
-    // Get recent workspaces
-    const recentWorkspaces = await prisma.workspace.findMany({
-      select: {
-        id: true,
-        name: true,
-        createdAt: true,
+    const activities: ActivityItem[] = logs.map((log) => ({
+      id: log.id,
+      type: log.action,
+      description: describeAuditLog(log),
+      timestamp: log.createdAt,
+      metadata: {
+        targetType: log.targetType,
+        targetId: log.targetId,
+        impersonatorEmail: log.impersonatorEmail,
       },
-      orderBy: { createdAt: "desc" },
-      take: 3,
-    });
+    }));
 
-    // Combine and format activities
-    const activities: ActivityItem[] = [
-      ...recentUsers.map((user) => ({
-        id: `user-${user.id}`,
-        type: "user_registered" as const,
-        description: `User "${user.name || user.email}" registered`,
-        timestamp: user.createdAt,
-      })),
-      ...recentWorkspaces.map((workspace) => ({
-        id: `workspace-${workspace.id}`,
-        type: "workspace_created" as const,
-        description: `Workspace "${workspace.name}" created`,
-        timestamp: workspace.createdAt,
-      })),
-    ];
-
-    // Sort by timestamp and take 5
-    activities.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-
-    return { success: true, data: activities.slice(0, 5) };
+    return { success: true, data: activities };
   } catch (error) {
     console.error("Error fetching recent activity:", error);
     return { success: false, error: "Failed to fetch recent activity" };
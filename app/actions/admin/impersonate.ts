@@ -5,6 +5,7 @@ import { headers } from "next/headers";
 import prisma from "@/lib/prisma";
 import { revalidatePath } from "next/cache";
 import type { ActionResult } from "@/types/actions";
+import { recordAuditLog } from "@/lib/audit-log";
 
 // Helper to check if user is admin
 async function checkAdmin(): Promise<ActionResult<boolean>> {
@@ -164,6 +165,14 @@ export async function impersonateUser(userId: string): Promise<ActionResult> {
       return { success: false, error: "Failed to impersonate user" };
     }
 
+    // Recorded with the admin's own session, which the request still carries
+    await recordAuditLog(await headers(), {
+      action: "user.impersonate",
+      targetType: "user",
+      targetId: targetUser.id,
+      targetLabel: targetUser.email,
+    });
+
     revalidatePath("/admin/impersonate");
     revalidatePath("/dashboard");
 
@@ -186,6 +195,14 @@ export async function stopImpersonating(): Promise<ActionResult> {
       return { success: false, error: "Not currently impersonating" };
     }
 
+    // Recorded first, while the impersonation session still exists
+    await recordAuditLog(await headers(), {
+      action: "user.impersonate_stop",
+      targetType: "user",
+      targetId: status.data.impersonatedUser?.id,
+      targetLabel: status.data.impersonatedUser?.email,
+    });
+
     // Call Better Auth admin API to stop impersonating
     await auth.api.stopImpersonating({
       headers: await headers(),
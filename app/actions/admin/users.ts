@@ -13,6 +13,15 @@ import {
 } from "@/lib/validations/user";
 import { revalidatePath } from "next/cache";
 import type { ActionResult } from "@/types/actions";
+import { getLoginHistory, type LoginHistoryEntry } from "@/lib/login-history";
+import {
+  listActiveSessions,
+  revokeSession,
+  revokeSessions,
+  type ActiveSession,
+} from "@/lib/sessions";
+import { resetTwoFactor } from "@/lib/two-factor";
+import { recordAuditLog } from "@/lib/audit-log";
 
 // Helper to check if user is admin
 async function checkAdmin(): Promise<ActionResult<boolean>> {
@@ -92,6 +101,7 @@ export async function getUsers(params?: {
         status: true,
         phone: true,
         emailVerified: true,
+        twoFactorEnabled: true,
         lastLoginAt: true,
         createdAt: true,
         updatedAt: true,
@@ -167,6 +177,170 @@ export async function getUserById(id: string): Promise<ActionResult<any>> {
   }
 }
 
+// Get a user's recent sign-in attempts
+export async function getUserLoginHistory(id: string): Promise<ActionResult<LoginHistoryEntry[]>> {
+  const authCheck = await checkAdmin();
+  if (!authCheck.success) return { success: false, error: authCheck.error };
+
+  try {
+    const entries = await getLoginHistory(id);
+    return { success: true, data: entries };
+  } catch (error) {
+    console.error("Error fetching login history:", error);
+    return { success: false, error: "Failed to fetch login history" };
+  }
+}
+
+// Get the sessions a user is signed in with
+export async function getUserSessions(id: string): Promise<ActionResult<ActiveSession[]>> {
+  const authCheck = await checkAdmin();
+  if (!authCheck.success) return { success: false, error: authCheck.error };
+
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    const sessions = await listActiveSessions(id, session?.session.id);
+    return { success: true, data: sessions };
+  } catch (error) {
+    console.error("Error fetching user sessions:", error);
+    return { success: false, error: "Failed to fetch sessions" };
+  }
+}
+
+// Sign a user out of one session
+export async function revokeUserSession(
+  userId: string,
+  sessionId: string
+): Promise<ActionResult> {
+  const authCheck = await checkAdmin();
+  if (!authCheck.success) return { success: false, error: authCheck.error };
+
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (session?.session.id === sessionId) {
+      return { success: false, error: "Cannot revoke your current session" };
+    }
+
+    const revoked = await revokeSession(userId, sessionId);
+    if (!revoked) {
+      return { success: false, error: "Session not found" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    await recordAuditLog(await headers(), {
+      action: "user.session_revoke",
+      targetType: "user",
+      targetId: userId,
+      targetLabel: user?.email,
+      before: { sessionId },
+    });
+
+    revalidatePath(`/admin/users/${userId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error revoking user session:", error);
+    return { success: false, error: "Failed to revoke session" };
+  }
+}
+
+// Sign a user out of every session, except the admin's own when it is their account
+export async function revokeAllUserSessions(
+  userId: string
+): Promise<ActionResult<{ count: number }>> {
+  const authCheck = await checkAdmin();
+  if (!authCheck.success) return { success: false, error: authCheck.error };
+
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    const count = await revokeSessions(
+      userId,
+      session?.user.id === userId ? session.session.id : undefined
+    );
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    await recordAuditLog(await headers(), {
+      action: "user.sessions_revoke",
+      targetType: "user",
+      targetId: userId,
+      targetLabel: user?.email,
+      after: { revokedSessions: count },
+    });
+
+    revalidatePath(`/admin/users/${userId}`);
+
+    return { success: true, data: { count } };
+  } catch (error) {
+    console.error("Error revoking user sessions:", error);
+    return { success: false, error: "Failed to revoke sessions" };
+  }
+}
+
+// Turn off 2FA for a user locked out of their authenticator and backup codes
+// Their sessions are revoked too, in case the reset was asked for by whoever
+// took over the account
+export async function resetUserTwoFactor(userId: string): Promise<ActionResult> {
+  const authCheck = await checkAdmin();
+  if (!authCheck.success) return { success: false, error: authCheck.error };
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    if (!user.twoFactorEnabled) {
+      return { success: false, error: "Two-factor authentication is not enabled" };
+    }
+
+    await resetTwoFactor(userId);
+
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+    const revokedSessions = await revokeSessions(
+      userId,
+      session?.user.id === userId ? session.session.id : undefined
+    );
+
+    await recordAuditLog(await headers(), {
+      action: "user.two_factor_reset",
+      targetType: "user",
+      targetId: userId,
+      targetLabel: user.email,
+      before: { twoFactorEnabled: true },
+      after: { twoFactorEnabled: false, revokedSessions },
+    });
+
+    revalidatePath(`/admin/users/${userId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error resetting two-factor authentication:", error);
+    return { success: false, error: "Failed to reset two-factor authentication" };
+  }
+}
+
 // Create a new user
 export async function createUser(input: CreateUserInput): Promise<ActionResult<any>> {
   const authCheck = await checkAdmin();
@@ -277,6 +451,29 @@ export async function updateUser(input: UpdateUserInput): Promise<ActionResult<a
       },
     });
 
+    await recordAuditLog(await headers(), {
+      action: "user.update",
+      targetType: "user",
+      targetId: user.id,
+      targetLabel: user.email,
+      before: {
+        email: existingUser.email,
+        name: existingUser.name,
+        role: existingUser.role,
+        status: existingUser.status,
+        phone: existingUser.phone,
+        image: existingUser.image,
+      },
+      after: {
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        status: user.status,
+        phone: user.phone,
+        image: user.image,
+      },
+    });
+
     revalidatePath("/admin/users");
     revalidatePath(`/admin/users/${validatedData.id}`);
 
@@ -324,6 +521,19 @@ export async function deleteUser(input: DeleteUserInput): Promise<ActionResult>
       where: { id: validatedData.id },
     });
 
+    await recordAuditLog(await headers(), {
+      action: "user.delete",
+      targetType: "user",
+      targetId: existingUser.id,
+      targetLabel: existingUser.email,
+      before: {
+        email: existingUser.email,
+        name: existingUser.name,
+        role: existingUser.role,
+        status: existingUser.status,
+      },
+    });
+
     revalidatePath("/admin/users");
 
     return { success: true };
@@ -13,6 +13,7 @@ import {
 } from "@/lib/validations/workspace";
 import { revalidatePath } from "next/cache";
 import type { ActionResult } from "@/types/actions";
+import { recordAuditLog } from "@/lib/audit-log";
 
 // Helper to check if user is admin
 async function checkAdmin(): Promise<ActionResult<boolean>> {
@@ -322,6 +323,19 @@ export async function deleteWorkspace(input: DeleteWorkspaceInput): Promise<Acti
       where: { id: validatedData.id },
     });
 
+    await recordAuditLog(await headers(), {
+      action: "workspace.delete",
+      targetType: "workspace",
+      targetId: existingWorkspace.id,
+      targetLabel: existingWorkspace.name,
+      workspaceId: existingWorkspace.id,
+      before: {
+        name: existingWorkspace.name,
+        slug: existingWorkspace.slug,
+        members: existingWorkspace._count.members,
+      },
+    });
+
     revalidatePath("/admin/workspaces");
 
     return { success: true };
@@ -27,50 +27,6 @@ async function checkAuthentication(): Promise<ActionResult<boolean>> {
   }
 }
 
-/**
- * Send welcome email to a new user
- *
- * @param data - Welcome email template data
- * @param to - Recipient email address
- * @returns Promise with action result containing email ID
- */
-export async function sendWelcomeEmail(
-  data: EmailTemplateData[EmailTemplateId.WORKSPACE_WELCOME],
-  to: string
-): Promise<ActionResult<{ emailId: string }>> {
-  const authCheck = await checkAuthentication();
-  if (!authCheck.success) {
-    return { success: false, error: authCheck.error };
-  }
-
-  if (!isValidEmail(to)) {
-    return { success: false, error: "Invalid email address" };
-  }
-
-  try {
-    const result = await sendTemplateEmail(
-      EmailTemplateId.WORKSPACE_WELCOME,
-      data,
-      { to }
-    );
-
-    if (!result.success) {
-      return { success: false, error: result.error };
-    }
-
-    return {
-      success: true,
-      data: { emailId: result.id },
-    };
-  } catch (error) {
-    console.error("Failed to send welcome email:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to send welcome email",
-    };
-  }
-}
-
 /**
  * Send workspace invitation email
  *
@@ -3,6 +3,7 @@
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import prisma from "@/lib/prisma";
+import { scheduleLifecycleEmails } from "@/lib/jobs/lifecycle-emails";
 
 export interface OnboardingData {
   role?: string;
@@ -78,6 +79,14 @@ export async function completeOnboarding(data: OnboardingData) {
       return { workspace, user };
     });
 
+    // Welcome email now, follow-ups over the next week. Onboarding is done
+    // either way, so a queue failure is only logged
+    try {
+      await scheduleLifecycleEmails(session.user.id);
+    } catch (error) {
+      console.error("Error scheduling lifecycle emails:", error);
+    }
+
     return { success: true, workspace: result.workspace };
   } catch (error) {
     console.error("Error completing onboarding:", error);
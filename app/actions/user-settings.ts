@@ -1,13 +1,55 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { APIError } from "better-auth/api";
+import { ZodError } from "zod";
+import { auth } from "@/lib/auth";
 import prisma from "@/lib/prisma";
 import { getCurrentUser } from "./user";
 import type { ActionResult } from "@/types/actions";
+import type { LinkedAccount } from "@/types/user";
+import { getLoginHistory, type LoginHistoryEntry } from "@/lib/login-history";
+import {
+  unsubscribeFromLifecycleEmails,
+  verifyLifecycleUnsubscribeToken,
+} from "@/lib/jobs/lifecycle-emails";
+import {
+  AccountDeletionError,
+  cancelAccountDeletion,
+  checkAccountDeletion,
+  scheduleAccountDeletion,
+  type AccountDeletionCheck,
+} from "@/lib/account-deletion";
+import {
+  cancelEmailChange,
+  confirmEmailChange,
+  EmailChangeError,
+  getPendingEmailChange,
+  requestEmailChange,
+  type EmailChangeConfirmation,
+  type PendingEmailChange,
+} from "@/lib/email-change";
 import {
   updateProfileSchema,
+  revokeSessionSchema,
+  changeEmailSchema,
+  changePasswordSchema,
+  setPasswordSchema,
+  unlinkAccountSchema,
   type UpdateProfileInput,
+  type RevokeSessionInput,
+  type ChangeEmailInput,
+  type ChangePasswordInput,
+  type SetPasswordInput,
+  type UnlinkAccountInput,
 } from "@/lib/validations/user-settings";
+import {
+  listActiveSessions,
+  revokeSession,
+  revokeSessions,
+  type ActiveSession,
+} from "@/lib/sessions";
 
 /**
  * Update the current user's profile settings
@@ -57,34 +99,449 @@ export async function updateUserProfile(
 }
 
 /**
- * Delete the current user's account (soft delete by setting status to DELETED)
+ * Get the current user's recent sign-in attempts
  */
-export async function deleteUserAccount(): Promise<ActionResult<void>> {
+export async function getMyLoginHistory(): Promise<ActionResult<LoginHistoryEntry[]>> {
   try {
-    // Check authentication
     const currentUser = await getCurrentUser();
     if (!currentUser) {
       return { success: false, error: "Unauthorized" };
     }
 
-    // Soft delete by setting status to DELETED
-    await prisma.user.update({
-      where: { id: currentUser.id },
-      data: {
-        status: "DELETED",
-        updatedAt: new Date(),
+    const entries = await getLoginHistory(currentUser.id);
+
+    return { success: true, data: entries };
+  } catch (error) {
+    console.error("Error fetching login history:", error);
+    return {
+      success: false,
+      error: "Failed to load sign-in history. Please try again.",
+    };
+  }
+}
+
+/**
+ * Get the sessions the current user is signed in with
+ */
+export async function getMySessions(): Promise<ActionResult<ActiveSession[]>> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const sessions = await listActiveSessions(session.user.id, session.session.id);
+
+    return { success: true, data: sessions };
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    return {
+      success: false,
+      error: "Failed to load sessions. Please try again.",
+    };
+  }
+}
+
+/**
+ * Sign the current user out of another device
+ */
+export async function revokeMySession(input: RevokeSessionInput): Promise<ActionResult<void>> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const validatedData = revokeSessionSchema.parse(input);
+
+    // The current session ends with the regular sign-out instead
+    if (validatedData.sessionId === session.session.id) {
+      return { success: false, error: "Use Sign out to end the current session" };
+    }
+
+    const revoked = await revokeSession(session.user.id, validatedData.sessionId);
+    if (!revoked) {
+      return { success: false, error: "Session not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    return {
+      success: false,
+      error: "Failed to sign out the session. Please try again.",
+    };
+  }
+}
+
+/**
+ * Sign the current user out everywhere except this browser
+ */
+export async function revokeMyOtherSessions(): Promise<ActionResult<{ count: number }>> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const count = await revokeSessions(session.user.id, session.session.id);
+
+    return { success: true, data: { count } };
+  } catch (error) {
+    console.error("Error revoking other sessions:", error);
+    return {
+      success: false,
+      error: "Failed to sign out other sessions. Please try again.",
+    };
+  }
+}
+
+/**
+ * Get the current user's email change that is waiting for confirmation
+ */
+export async function getMyEmailChange(): Promise<ActionResult<PendingEmailChange | null>> {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const pending = await getPendingEmailChange(currentUser.id);
+
+    return { success: true, data: pending };
+  } catch (error) {
+    console.error("Error fetching email change:", error);
+    return {
+      success: false,
+      error: "Failed to load email change. Please try again.",
+    };
+  }
+}
+
+/**
+ * Start changing the current user's email address
+ * Confirmation links go to both the current and the new address
+ */
+export async function requestMyEmailChange(
+  input: ChangeEmailInput
+): Promise<ActionResult<PendingEmailChange>> {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const validatedData = changeEmailSchema.parse(input);
+
+    const pending = await requestEmailChange(currentUser, validatedData.newEmail);
+
+    return { success: true, data: pending };
+  } catch (error) {
+    console.error("Error requesting email change:", error);
+
+    if (error instanceof ZodError) {
+      return {
+        success: false,
+        error: error.issues[0]?.message ?? "Validation failed",
+      };
+    }
+
+    if (error instanceof EmailChangeError) {
+      return { success: false, error: error.message };
+    }
+
+    return {
+      success: false,
+      error: "Failed to change email. Please try again.",
+    };
+  }
+}
+
+/**
+ * Drop the current user's pending email change
+ */
+export async function cancelMyEmailChange(): Promise<ActionResult<void>> {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    await cancelEmailChange(currentUser.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error canceling email change:", error);
+    return {
+      success: false,
+      error: "Failed to cancel email change. Please try again.",
+    };
+  }
+}
+
+/**
+ * Confirm an email change from the link in one of its two emails
+ * The token stands in for a session, so this works signed out
+ */
+export async function confirmEmailChangeLink(
+  token: string
+): Promise<ActionResult<EmailChangeConfirmation>> {
+  try {
+    const confirmation = await confirmEmailChange(token);
+
+    if (confirmation.completed) {
+      revalidatePath("/dashboard");
+    }
+
+    return { success: true, data: confirmation };
+  } catch (error) {
+    console.error("Error confirming email change:", error);
+
+    if (error instanceof EmailChangeError) {
+      return { success: false, error: error.message };
+    }
+
+    return {
+      success: false,
+      error: "Failed to confirm email change. Please try again.",
+    };
+  }
+}
+
+/**
+ * The ways the current user can sign in: a password and linked social accounts
+ */
+export async function getMyLinkedAccounts(): Promise<ActionResult<LinkedAccount[]>> {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const accounts = await prisma.account.findMany({
+      where: { userId: currentUser.id },
+      select: { providerId: true, createdAt: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return { success: true, data: accounts };
+  } catch (error) {
+    console.error("Error fetching linked accounts:", error);
+    return {
+      success: false,
+      error: "Failed to load sign-in methods. Please try again.",
+    };
+  }
+}
+
+/**
+ * Change the current user's password after checking the current one
+ */
+export async function changeMyPassword(input: ChangePasswordInput): Promise<ActionResult<void>> {
+  try {
+    const validatedData = changePasswordSchema.parse(input);
+
+    await auth.api.changePassword({
+      body: {
+        currentPassword: validatedData.currentPassword,
+        newPassword: validatedData.newPassword,
+        revokeOtherSessions: validatedData.revokeOtherSessions,
       },
+      headers: await headers(),
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error changing password:", error);
+
+    if (error instanceof ZodError) {
+      return {
+        success: false,
+        error: error.issues[0]?.message ?? "Validation failed",
+      };
+    }
+
+    if (error instanceof APIError) {
+      return { success: false, error: error.body?.message ?? error.message };
+    }
+
+    return {
+      success: false,
+      error: "Failed to change password. Please try again.",
+    };
+  }
+}
+
+/**
+ * Add a password to an account that only signs in with Google
+ */
+export async function setMyPassword(input: SetPasswordInput): Promise<ActionResult<void>> {
+  try {
+    const validatedData = setPasswordSchema.parse(input);
+
+    await auth.api.setPassword({
+      body: { newPassword: validatedData.newPassword },
+      headers: await headers(),
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error setting password:", error);
+
+    if (error instanceof ZodError) {
+      return {
+        success: false,
+        error: error.issues[0]?.message ?? "Validation failed",
+      };
+    }
+
+    if (error instanceof APIError) {
+      return { success: false, error: error.body?.message ?? error.message };
+    }
+
+    return {
+      success: false,
+      error: "Failed to set password. Please try again.",
+    };
+  }
+}
+
+/**
+ * Disconnect a social account. Better Auth refuses to remove the last way
+ * to sign in
+ */
+export async function unlinkMyAccount(input: UnlinkAccountInput): Promise<ActionResult<void>> {
+  try {
+    const validatedData = unlinkAccountSchema.parse(input);
+
+    await auth.api.unlinkAccount({
+      body: { providerId: validatedData.providerId },
+      headers: await headers(),
     });
 
+    return { success: true };
+  } catch (error) {
+    console.error("Error unlinking account:", error);
+
+    if (error instanceof APIError) {
+      return { success: false, error: error.body?.message ?? error.message };
+    }
+
+    return {
+      success: false,
+      error: "Failed to disconnect the account. Please try again.",
+    };
+  }
+}
+
+/**
+ * Stop the post-onboarding email sequence from an unsubscribe link
+ * The signed token stands in for a session, so this works signed out
+ */
+export async function unsubscribeLifecycleEmails(token: string): Promise<ActionResult<void>> {
+  try {
+    const userId = verifyLifecycleUnsubscribeToken(token);
+    if (!userId) {
+      return { success: false, error: "This unsubscribe link is invalid" };
+    }
+
+    await unsubscribeFromLifecycleEmails(userId);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error unsubscribing from lifecycle emails:", error);
+    return {
+      success: false,
+      error: "Failed to unsubscribe. Please try again.",
+    };
+  }
+}
+
+/**
+ * What deleting the current user's account would do to the workspaces they own
+ */
+export async function getAccountDeletionCheck(): Promise<ActionResult<AccountDeletionCheck>> {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const check = await checkAccountDeletion(currentUser.id);
+
+    return { success: true, data: check };
+  } catch (error) {
+    console.error("Error checking account deletion:", error);
+    return {
+      success: false,
+      error: "Failed to check your workspaces",
+    };
+  }
+}
+
+/**
+ * Delete the current user's account. Signs it out everywhere; the data is
+ * purged after the grace period unless the deletion is cancelled
+ */
+export async function deleteUserAccount(): Promise<ActionResult<{ scheduledAt: Date }>> {
+  try {
+    // Check authentication
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const scheduledAt = await scheduleAccountDeletion(currentUser.id);
+
     // Revalidate paths
     revalidatePath("/dashboard");
 
-    return { success: true };
+    return { success: true, data: { scheduledAt } };
   } catch (error) {
     console.error("Error deleting user account:", error);
+
+    if (error instanceof AccountDeletionError) {
+      return { success: false, error: error.message };
+    }
+
     return {
       success: false,
       error: "Failed to delete account. Please try again.",
     };
   }
 }
+
+/**
+ * Restore the current user's account during the deletion grace period
+ */
+export async function cancelMyAccountDeletion(): Promise<ActionResult<void>> {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    await cancelAccountDeletion(currentUser.id);
+
+    revalidatePath("/dashboard");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error canceling account deletion:", error);
+
+    if (error instanceof AccountDeletionError) {
+      return { success: false, error: error.message };
+    }
+
+    return {
+      success: false,
+      error: "Failed to restore your account. Please try again.",
+    };
+  }
+}
@@ -26,6 +26,8 @@ export async function getCurrentUser(): Promise<CurrentUser> {
         role: true,
         status: true,
         emailVerified: true,
+        twoFactorEnabled: true,
+        deletionScheduledAt: true,
         onboardingCompleted: true,
         createdAt: true,
       },
@@ -0,0 +1,179 @@
+"use server";
+
+import prisma from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import type { ActionResult } from "@/types/actions";
+import type { AuditLogChanges } from "@/types/admin";
+import type { WorkspaceActivityEntry, WorkspaceActivityFilters } from "@/types/workspace";
+import { getActiveWorkspace } from "@/lib/workspace-context";
+import {
+  AUDIT_LOG_EXPORT_LIMIT,
+  auditLogsToCsv,
+  workspaceActivityWhere,
+} from "@/lib/audit-log";
+
+const ACTIVITY_PAGE_SIZE = 50;
+
+const activitySelect = {
+  id: true,
+  action: true,
+  actorId: true,
+  actorEmail: true,
+  targetType: true,
+  targetLabel: true,
+  changes: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Check if user is workspace admin (OWNER or ADMIN)
+ */
+async function checkWorkspaceAdmin(
+  userId: string,
+  workspaceId: string
+): Promise<ActionResult<boolean>> {
+  const member = await prisma.workspaceMember.findUnique({
+    where: {
+      userId_workspaceId: {
+        userId,
+        workspaceId,
+      },
+    },
+    select: { role: true },
+  });
+
+  if (!member || (member.role !== "OWNER" && member.role !== "ADMIN")) {
+    return {
+      success: false,
+      error: "Workspace admin access required",
+    };
+  }
+
+  return { success: true, data: true };
+}
+
+/**
+ * The session's active workspace, if the user may see its activity
+ */
+async function activityWorkspaceId(): Promise<ActionResult<string>> {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user?.id) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const active = await getActiveWorkspace(session);
+
+  if (!active) {
+    return { success: false, error: "No workspace found" };
+  }
+
+  const adminCheck = await checkWorkspaceAdmin(session.user.id, active.workspace.id);
+  if (!adminCheck.success) {
+    return { success: false, error: adminCheck.error };
+  }
+
+  return { success: true, data: active.workspace.id };
+}
+
+/**
+ * Get a page of the active workspace's activity, newest first, along with
+ * everyone who appears in it for the actor filter
+ */
+export async function getWorkspaceActivity(
+  filters: WorkspaceActivityFilters,
+  page = 1
+): Promise<
+  ActionResult<{
+    entries: WorkspaceActivityEntry[];
+    hasMore: boolean;
+    actors: { id: string; email: string }[];
+  }>
+> {
+  try {
+    const workspace = await activityWorkspaceId();
+    if (!workspace.success || !workspace.data) {
+      return { success: false, error: workspace.error };
+    }
+
+    const where = workspaceActivityWhere(workspace.data, filters);
+
+    const [entries, actors] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        select: activitySelect,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        skip: (Math.max(1, page) - 1) * ACTIVITY_PAGE_SIZE,
+        take: ACTIVITY_PAGE_SIZE + 1,
+      }),
+      prisma.auditLog.findMany({
+        where: { ...workspaceActivityWhere(workspace.data, {}), actorId: { not: null } },
+        select: { actorId: true, actorEmail: true },
+        distinct: ["actorId"],
+        orderBy: { actorId: "asc" },
+      }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        entries: entries
+          .slice(0, ACTIVITY_PAGE_SIZE)
+          .map((entry) => ({ ...entry, changes: entry.changes as AuditLogChanges | null })),
+        hasMore: entries.length > ACTIVITY_PAGE_SIZE,
+        actors: actors
+          .map((actor) => ({ id: actor.actorId!, email: actor.actorEmail ?? actor.actorId! }))
+          .sort((a, b) => a.email.localeCompare(b.email)),
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching workspace activity:", error);
+    return { success: false, error: "Failed to fetch workspace activity" };
+  }
+}
+
+/**
+ * Export the active workspace's activity matching the filters as CSV
+ */
+export async function exportWorkspaceActivity(
+  filters: WorkspaceActivityFilters
+): Promise<ActionResult<{ csv: string; truncated: boolean }>> {
+  try {
+    const workspace = await activityWorkspaceId();
+    if (!workspace.success || !workspace.data) {
+      return { success: false, error: workspace.error };
+    }
+
+    const entries = await prisma.auditLog.findMany({
+      where: workspaceActivityWhere(workspace.data, filters),
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: AUDIT_LOG_EXPORT_LIMIT + 1,
+    });
+
+    const rows = entries
+      .slice(0, AUDIT_LOG_EXPORT_LIMIT)
+      .map((entry) => ({ ...entry, changes: entry.changes as AuditLogChanges | null }));
+
+    return {
+      success: true,
+      data: {
+        // Request details and impersonating admins stay in the admin audit log
+        csv: auditLogsToCsv(rows, [
+          "createdAt",
+          "action",
+          "actorEmail",
+          "targetType",
+          "targetLabel",
+          "changes",
+        ]),
+        truncated: entries.length > AUDIT_LOG_EXPORT_LIMIT,
+      },
+    };
+  } catch (error) {
+    console.error("Error exporting workspace activity:", error);
+    return { success: false, error: "Failed to export workspace activity" };
+  }
+}
@@ -0,0 +1,292 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import type { ActionResult } from "@/types/actions";
+import type { WorkspaceApiKey } from "@/types/workspace";
+import {
+  createApiKeySchema,
+  apiKeyIdSchema,
+  type CreateApiKeyInput,
+  type ApiKeyIdInput,
+} from "@/lib/validations/workspace";
+import { getActiveWorkspace } from "@/lib/workspace-context";
+import { recordAuditLog } from "@/lib/audit-log";
+import { ApiKeyError, createApiKey, revokeApiKey, rotateApiKey } from "@/lib/api-keys";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  rotatedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  createdBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const;
+
+/**
+ * Check if user is workspace admin (OWNER or ADMIN)
+ */
+async function checkWorkspaceAdmin(
+  userId: string,
+  workspaceId: string
+): Promise<ActionResult<boolean>> {
+  const member = await prisma.workspaceMember.findUnique({
+    where: {
+      userId_workspaceId: {
+        userId,
+        workspaceId,
+      },
+    },
+    select: { role: true },
+  });
+
+  if (!member || (member.role !== "OWNER" && member.role !== "ADMIN")) {
+    return {
+      success: false,
+      error: "Workspace admin access required",
+    };
+  }
+
+  return { success: true, data: true };
+}
+
+/**
+ * The signed-in user and their active workspace, if they may manage its keys
+ */
+async function apiKeyWorkspace(): Promise<ActionResult<{ userId: string; workspaceId: string }>> {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user?.id) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const active = await getActiveWorkspace(session);
+
+  if (!active) {
+    return { success: false, error: "No workspace found" };
+  }
+
+  const adminCheck = await checkWorkspaceAdmin(session.user.id, active.workspace.id);
+  if (!adminCheck.success) {
+    return { success: false, error: adminCheck.error };
+  }
+
+  return {
+    success: true,
+    data: { userId: session.user.id, workspaceId: active.workspace.id },
+  };
+}
+
+/**
+ * Get all API keys of the session's active workspace, revoked ones included
+ * Requires OWNER or ADMIN permission
+ */
+export async function getWorkspaceApiKeys(): Promise<ActionResult<WorkspaceApiKey[]>> {
+  try {
+    const workspace = await apiKeyWorkspace();
+    if (!workspace.success || !workspace.data) {
+      return { success: false, error: workspace.error };
+    }
+
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { workspaceId: workspace.data.workspaceId },
+      select: apiKeySelect,
+      orderBy: [{ revokedAt: { sort: "desc", nulls: "first" } }, { createdAt: "desc" }],
+    });
+
+    return {
+      success: true,
+      data: apiKeys,
+    };
+  } catch (error) {
+    console.error("Error getting API keys:", error);
+    return {
+      success: false,
+      error: "Failed to load API keys",
+    };
+  }
+}
+
+/**
+ * Create an API key for the active workspace. The key itself is only
+ * returned here
+ * Requires OWNER or ADMIN permission
+ */
+export async function createWorkspaceApiKey(
+  input: CreateApiKeyInput
+): Promise<ActionResult<{ apiKey: WorkspaceApiKey; key: string }>> {
+  try {
+    const workspace = await apiKeyWorkspace();
+    if (!workspace.success || !workspace.data) {
+      return { success: false, error: workspace.error };
+    }
+
+    // Validate input
+    const validatedData = createApiKeySchema.parse(input);
+
+    const { apiKey, key } = await createApiKey({
+      workspaceId: workspace.data.workspaceId,
+      createdById: workspace.data.userId,
+      name: validatedData.name,
+      scopes: validatedData.scopes,
+      expiresAt: validatedData.expiresInDays
+        ? new Date(Date.now() + validatedData.expiresInDays * DAY_MS)
+        : null,
+    });
+
+    await recordAuditLog(await headers(), {
+      action: "api_key.create",
+      targetType: "api_key",
+      targetId: apiKey.id,
+      targetLabel: apiKey.name,
+      workspaceId: apiKey.workspaceId,
+      after: {
+        scopes: apiKey.scopes,
+        expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+      },
+    });
+
+    // Revalidate paths
+    revalidatePath("/dashboard/settings");
+
+    const workspaceApiKey = await prisma.apiKey.findUniqueOrThrow({
+      where: { id: apiKey.id },
+      select: apiKeySelect,
+    });
+
+    return { success: true, data: { apiKey: workspaceApiKey, key } };
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    return {
+      success: false,
+      error: "Failed to create API key. Please try again.",
+    };
+  }
+}
+
+/**
+ * Replace an API key's secret, keeping its name, scopes and expiry
+ * Requires OWNER or ADMIN permission
+ */
+export async function rotateWorkspaceApiKey(
+  input: ApiKeyIdInput
+): Promise<ActionResult<{ apiKey: WorkspaceApiKey; key: string }>> {
+  try {
+    const workspace = await apiKeyWorkspace();
+    if (!workspace.success || !workspace.data) {
+      return { success: false, error: workspace.error };
+    }
+
+    // Validate input
+    const validatedData = apiKeyIdSchema.parse(input);
+
+    const existing = await prisma.apiKey.findUnique({
+      where: { id: validatedData.apiKeyId },
+      select: { workspaceId: true, prefix: true },
+    });
+
+    if (!existing || existing.workspaceId !== workspace.data.workspaceId) {
+      return { success: false, error: "API key not found" };
+    }
+
+    const { apiKey, key } = await rotateApiKey(validatedData.apiKeyId);
+
+    await recordAuditLog(await headers(), {
+      action: "api_key.rotate",
+      targetType: "api_key",
+      targetId: apiKey.id,
+      targetLabel: apiKey.name,
+      workspaceId: apiKey.workspaceId,
+      before: { prefix: existing.prefix },
+      after: { prefix: apiKey.prefix },
+    });
+
+    // Revalidate paths
+    revalidatePath("/dashboard/settings");
+
+    const workspaceApiKey = await prisma.apiKey.findUniqueOrThrow({
+      where: { id: apiKey.id },
+      select: apiKeySelect,
+    });
+
+    return { success: true, data: { apiKey: workspaceApiKey, key } };
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return { success: false, error: error.message };
+    }
+
+    console.error("Error rotating API key:", error);
+    return {
+      success: false,
+      error: "Failed to rotate API key. Please try again.",
+    };
+  }
+}
+
+/**
+ * Revoke an API key. It stops working at once
+ * Requires OWNER or ADMIN permission
+ */
+export async function revokeWorkspaceApiKey(
+  input: ApiKeyIdInput
+): Promise<ActionResult<void>> {
+  try {
+    const workspace = await apiKeyWorkspace();
+    if (!workspace.success || !workspace.data) {
+      return { success: false, error: workspace.error };
+    }
+
+    // Validate input
+    const validatedData = apiKeyIdSchema.parse(input);
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { id: validatedData.apiKeyId },
+      select: { id: true, name: true, workspaceId: true, revokedAt: true },
+    });
+
+    if (!apiKey || apiKey.workspaceId !== workspace.data.workspaceId) {
+      return { success: false, error: "API key not found" };
+    }
+
+    if (apiKey.revokedAt) {
+      return { success: false, error: "API key is already revoked" };
+    }
+
+    await revokeApiKey(apiKey.id);
+
+    await recordAuditLog(await headers(), {
+      action: "api_key.revoke",
+      targetType: "api_key",
+      targetId: apiKey.id,
+      targetLabel: apiKey.name,
+      workspaceId: apiKey.workspaceId,
+    });
+
+    // Revalidate paths
+    revalidatePath("/dashboard/settings");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return {
+      success: false,
+      error: "Failed to revoke API key. Please try again.",
+    };
+  }
+}
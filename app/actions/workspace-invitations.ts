@@ -14,6 +14,9 @@ import {
   type CancelInvitationInput,
   type AcceptInvitationInput,
 } from "@/lib/validations/workspace";
+import { getActiveWorkspace, setActiveWorkspace } from "@/lib/workspace-context";
+import { isEmailVerificationRequired } from "@/lib/email-verification";
+import { recordAuditLog } from "@/lib/audit-log";
 import { sendWorkspaceInvitationEmail } from "./email";
 
 /**
@@ -44,7 +47,7 @@ async function checkWorkspaceAdmin(
 }
 
 /**
- * Invite a member to the workspace via email
+ * Invite a member to the session's active workspace via email
  */
 export async function inviteMember(
   input: InviteMemberInput
@@ -61,11 +64,16 @@ export async function inviteMember(
     // Validate input
     const validatedData = inviteMemberSchema.parse(input);
 
+    const active = await getActiveWorkspace(session);
+
+    if (!active) {
+      return { success: false, error: "No workspace found" };
+    }
+
+    const workspaceId = active.workspace.id;
+
     // Check workspace admin permission
-    const adminCheck = await checkWorkspaceAdmin(
-      session.user.id,
-      validatedData.workspaceId
-    );
+    const adminCheck = await checkWorkspaceAdmin(session.user.id, workspaceId);
     if (!adminCheck.success) {
       return { success: false, error: adminCheck.error };
     }
@@ -73,7 +81,7 @@ export async function inviteMember(
     // Check if user is already a member
     const existingMember = await prisma.workspaceMember.findFirst({
       where: {
-        workspace: { id: validatedData.workspaceId },
+        workspace: { id: workspaceId },
         user: { email: validatedData.email },
       },
     });
@@ -88,7 +96,7 @@ export async function inviteMember(
     // Check if there's already a pending invitation
     const existingInvitation = await prisma.workspaceInvitation.findFirst({
       where: {
-        workspaceId: validatedData.workspaceId,
+        workspaceId,
         email: validatedData.email,
         acceptedAt: null,
         expiresAt: { gt: new Date() },
@@ -104,7 +112,7 @@ export async function inviteMember(
 
     // Get workspace and inviter details
     const workspace = await prisma.workspace.findUnique({
-      where: { id: validatedData.workspaceId },
+      where: { id: workspaceId },
       select: { name: true },
     });
 
@@ -122,7 +130,7 @@ export async function inviteMember(
       data: {
         email: validatedData.email,
         role: validatedData.role,
-        workspaceId: validatedData.workspaceId,
+        workspaceId,
         invitedById: session.user.id,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
       },
@@ -137,6 +145,15 @@ export async function inviteMember(
       },
     });
 
+    await recordAuditLog(await headers(), {
+      action: "member.invite",
+      targetType: "invitation",
+      targetId: invitation.id,
+      targetLabel: invitation.email,
+      workspaceId,
+      after: { email: invitation.email, role: invitation.role },
+    });
+
     // Send invitation email
     const acceptUrl = `${process.env.NEXT_PUBLIC_APP_URL}/accept-invitation?token=${invitation.token}`;
 
@@ -174,11 +191,9 @@ export async function inviteMember(
 }
 
 /**
- * Get pending invitations for a workspace
+ * Get pending invitations for the session's active workspace
  */
-export async function getPendingInvitations(
-  workspaceId: string
-): Promise<ActionResult<PendingInvitation[]>> {
+export async function getPendingInvitations(): Promise<ActionResult<PendingInvitation[]>> {
   try {
     const session = await auth.api.getSession({
       headers: await headers(),
@@ -188,6 +203,14 @@ export async function getPendingInvitations(
       return { success: false, error: "Unauthorized" };
     }
 
+    const active = await getActiveWorkspace(session);
+
+    if (!active) {
+      return { success: false, error: "No workspace found" };
+    }
+
+    const workspaceId = active.workspace.id;
+
     // Check workspace admin permission
     const adminCheck = await checkWorkspaceAdmin(session.user.id, workspaceId);
     if (!adminCheck.success) {
@@ -254,10 +277,12 @@ export async function cancelInvitation(
     // Get invitation to check workspace
     const invitation = await prisma.workspaceInvitation.findUnique({
       where: { id: validatedData.invitationId },
-      select: { workspaceId: true },
+      select: { workspaceId: true, email: true, role: true },
     });
 
-    if (!invitation) {
+    const active = await getActiveWorkspace(session);
+
+    if (!invitation || invitation.workspaceId !== active?.workspace.id) {
       return { success: false, error: "Invitation not found" };
     }
 
@@ -275,6 +300,15 @@ export async function cancelInvitation(
       where: { id: validatedData.invitationId },
     });
 
+    await recordAuditLog(await headers(), {
+      action: "member.invite_cancel",
+      targetType: "invitation",
+      targetId: validatedData.invitationId,
+      targetLabel: invitation.email,
+      workspaceId: invitation.workspaceId,
+      before: { email: invitation.email, role: invitation.role },
+    });
+
     // Revalidate paths
     revalidatePath("/dashboard/settings");
 
@@ -329,13 +363,20 @@ export async function acceptInvitation(
     // Get current user
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
-      select: { email: true },
+      select: { email: true, emailVerified: true },
     });
 
     if (!user) {
       return { success: false, error: "User not found" };
     }
 
+    if (!user.emailVerified && isEmailVerificationRequired("invitations")) {
+      return {
+        success: false,
+        error: "Please verify your email address before accepting this invitation",
+      };
+    }
+
     // Check if invitation email matches user email (case-insensitive)
     if (user.email.toLowerCase() !== invitation.email.toLowerCase()) {
       return {
@@ -376,6 +417,18 @@ export async function acceptInvitation(
       }),
     ]);
 
+    await recordAuditLog(await headers(), {
+      action: "member.join",
+      targetType: "member",
+      targetId: session.user.id,
+      targetLabel: user.email,
+      workspaceId: invitation.workspaceId,
+      after: { role: invitation.role },
+    });
+
+    // Open the workspace they just joined
+    await setActiveWorkspace(session, invitation.workspaceId);
+
     // Revalidate paths
     revalidatePath("/dashboard");
     revalidatePath("/dashboard/settings");
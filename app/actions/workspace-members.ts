@@ -12,6 +12,8 @@ import {
   type UpdateMemberRoleInput,
   type RemoveMemberInput,
 } from "@/lib/validations/workspace";
+import { getActiveWorkspace } from "@/lib/workspace-context";
+import { recordAuditLog } from "@/lib/audit-log";
 
 /**
  * Check if user is workspace admin (OWNER or ADMIN)
@@ -41,11 +43,9 @@ async function checkWorkspaceAdmin(
 }
 
 /**
- * Get all members of a workspace
+ * Get all members of the session's active workspace
  */
-export async function getWorkspaceMembers(
-  workspaceId: string
-): Promise<ActionResult<WorkspaceMemberWithUser[]>> {
+export async function getWorkspaceMembers(): Promise<ActionResult<WorkspaceMemberWithUser[]>> {
   try {
     const session = await auth.api.getSession({
       headers: await headers(),
@@ -55,20 +55,14 @@ export async function getWorkspaceMembers(
       return { success: false, error: "Unauthorized" };
     }
 
-    // Check if user is a member of the workspace
-    const isMember = await prisma.workspaceMember.findUnique({
-      where: {
-        userId_workspaceId: {
-          userId: session.user.id,
-          workspaceId,
-        },
-      },
-    });
+    const active = await getActiveWorkspace(session);
 
-    if (!isMember) {
-      return { success: false, error: "Access denied" };
+    if (!active) {
+      return { success: false, error: "No workspace found" };
     }
 
+    const workspaceId = active.workspace.id;
+
     // Get all members
     const members = await prisma.workspaceMember.findMany({
       where: { workspaceId },
@@ -132,7 +126,10 @@ export async function updateMemberRole(
       },
     });
 
-    if (!member) {
+    // Only members of the workspace being managed in this session
+    const active = await getActiveWorkspace(session);
+
+    if (!member || member.workspaceId !== active?.workspace.id) {
       return { success: false, error: "Member not found" };
     }
 
@@ -186,6 +183,16 @@ export async function updateMemberRole(
       },
     });
 
+    await recordAuditLog(await headers(), {
+      action: "member.role_update",
+      targetType: "member",
+      targetId: updatedMember.userId,
+      targetLabel: updatedMember.user.email,
+      workspaceId: updatedMember.workspaceId,
+      before: { role: member.role },
+      after: { role: updatedMember.role },
+    });
+
     // Revalidate paths
     revalidatePath("/dashboard/settings");
 
@@ -233,10 +240,16 @@ export async function removeMember(
         workspaceId: true,
         userId: true,
         role: true,
+        user: {
+          select: { email: true },
+        },
       },
     });
 
-    if (!member) {
+    // Only members of the workspace being managed in this session
+    const active = await getActiveWorkspace(session);
+
+    if (!member || member.workspaceId !== active?.workspace.id) {
       return { success: false, error: "Member not found" };
     }
 
@@ -279,6 +292,15 @@ export async function removeMember(
       where: { id: validatedData.memberId },
     });
 
+    await recordAuditLog(await headers(), {
+      action: "member.remove",
+      targetType: "member",
+      targetId: member.userId,
+      targetLabel: member.user.email,
+      workspaceId: member.workspaceId,
+      before: { role: member.role },
+    });
+
     // Revalidate paths
     revalidatePath("/dashboard/settings");
 
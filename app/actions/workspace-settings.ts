@@ -4,51 +4,61 @@ import { revalidatePath } from "next/cache";
 import prisma from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
-import { getCurrentUser } from "./user";
+import { ZodError } from "zod";
 import type { ActionResult } from "@/types/actions";
-import type { WorkspaceWithRole } from "@/types/workspace";
+import type {
+  WorkspaceAttachmentSettings,
+  WorkspaceSecuritySettings,
+  WorkspaceWithRole,
+} from "@/types/workspace";
 import {
   createWorkspaceSchema,
-  updateWorkspaceSchema,
+  updateActiveWorkspaceSchema,
+  updateAttachmentSettingsSchema,
+  updateSecuritySettingsSchema,
   type CreateWorkspaceInput,
-  type UpdateWorkspaceInput,
+  type UpdateActiveWorkspaceInput,
+  type UpdateAttachmentSettingsInput,
+  type UpdateSecuritySettingsInput,
 } from "@/lib/validations/workspace";
+import { getAttachmentLimits } from "@/lib/attachments";
+import { getActiveWorkspace, setActiveWorkspace } from "@/lib/workspace-context";
+
+function toWorkspaceWithRole(
+  workspace: Omit<WorkspaceWithRole, "memberRole">,
+  role: string
+): WorkspaceWithRole {
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    slug: workspace.slug,
+    image: workspace.image,
+    memberRole: role as WorkspaceWithRole["memberRole"],
+    createdAt: workspace.createdAt,
+    updatedAt: workspace.updatedAt,
+  };
+}
 
 /**
- * Get the current user's default workspace with their role
+ * Get the session's active workspace with the user's role
  */
 export async function getCurrentWorkspace(): Promise<ActionResult<WorkspaceWithRole>> {
   try {
-    const user = await getCurrentUser();
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
 
-    if (!user) {
+    if (!session?.user?.id) {
       return { success: false, error: "Unauthorized" };
     }
 
-    // Get user's first workspace (they must be a member)
-    const member = await prisma.workspaceMember.findFirst({
-      where: { userId: user.id },
-      include: {
-        workspace: true,
-      },
-      orderBy: { joinedAt: "asc" },
-    });
+    const active = await getActiveWorkspace(session);
 
-    if (!member) {
+    if (!active) {
       return { success: false, error: "No workspace found" };
     }
 
-    const workspaceWithRole: WorkspaceWithRole = {
-      id: member.workspace.id,
-      name: member.workspace.name,
-      slug: member.workspace.slug,
-      image: member.workspace.image,
-      memberRole: member.role as WorkspaceWithRole["memberRole"],
-      createdAt: member.workspace.createdAt,
-      updatedAt: member.workspace.updatedAt,
-    };
-
-    return { success: true, data: workspaceWithRole };
+    return { success: true, data: toWorkspaceWithRole(active.workspace, active.role) };
   } catch (error) {
     console.error("Error getting current workspace:", error);
     return { success: false, error: "Failed to load workspace" };
@@ -56,11 +66,78 @@ export async function getCurrentWorkspace(): Promise<ActionResult<WorkspaceWithR
 }
 
 /**
- * Update workspace settings (name, slug)
+ * Get every workspace the current user belongs to, for the workspace switcher
+ */
+export async function getUserWorkspaces(): Promise<ActionResult<WorkspaceWithRole[]>> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const members = await prisma.workspaceMember.findMany({
+      where: { userId: session.user.id },
+      include: { workspace: true },
+      orderBy: { workspace: { name: "asc" } },
+    });
+
+    return {
+      success: true,
+      data: members.map((member) => toWorkspaceWithRole(member.workspace, member.role)),
+    };
+  } catch (error) {
+    console.error("Error getting user workspaces:", error);
+    return { success: false, error: "Failed to load workspaces" };
+  }
+}
+
+/**
+ * Make a workspace the active one for the current session
+ * Other sessions of the same user keep their own active workspace
+ */
+export async function switchWorkspace(
+  workspaceId: string
+): Promise<ActionResult<WorkspaceWithRole>> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    if (!(await setActiveWorkspace(session, workspaceId))) {
+      return { success: false, error: "Workspace not found" };
+    }
+
+    const active = await getActiveWorkspace({
+      ...session,
+      session: { ...session.session, activeWorkspaceId: workspaceId },
+    });
+
+    if (!active) {
+      return { success: false, error: "Workspace not found" };
+    }
+
+    revalidatePath("/dashboard", "layout");
+
+    return { success: true, data: toWorkspaceWithRole(active.workspace, active.role) };
+  } catch (error) {
+    console.error("Error switching workspace:", error);
+    return { success: false, error: "Failed to switch workspace" };
+  }
+}
+
+/**
+ * Update the active workspace's settings (name, slug)
  * Requires OWNER or ADMIN role
  */
 export async function updateWorkspace(
-  input: UpdateWorkspaceInput
+  input: UpdateActiveWorkspaceInput
 ): Promise<ActionResult<WorkspaceWithRole>> {
   try {
     const session = await auth.api.getSession({
@@ -72,26 +149,20 @@ export async function updateWorkspace(
     }
 
     // Validate input
-    const validatedData = updateWorkspaceSchema.parse(input);
+    const validatedData = updateActiveWorkspaceSchema.parse(input);
 
     // Check if user is OWNER or ADMIN of this workspace
-    const member = await prisma.workspaceMember.findUnique({
-      where: {
-        userId_workspaceId: {
-          userId: session.user.id,
-          workspaceId: validatedData.id,
-        },
-      },
-      select: { role: true },
-    });
+    const active = await getActiveWorkspace(session);
 
-    if (!member || (member.role !== "OWNER" && member.role !== "ADMIN")) {
+    if (!active || (active.role !== "OWNER" && active.role !== "ADMIN")) {
       return {
         success: false,
         error: "Workspace admin access required",
       };
     }
 
+    const workspaceId = active.workspace.id;
+
     // Check if slug is already taken (if changing slug)
     if (validatedData.slug) {
       const existingWorkspace = await prisma.workspace.findUnique({
@@ -99,7 +170,7 @@ export async function updateWorkspace(
         select: { id: true },
       });
 
-      if (existingWorkspace && existingWorkspace.id !== validatedData.id) {
+      if (existingWorkspace && existingWorkspace.id !== workspaceId) {
         return {
           success: false,
           error: "This slug is already taken",
@@ -109,7 +180,7 @@ export async function updateWorkspace(
 
     // Update workspace
     const workspace = await prisma.workspace.update({
-      where: { id: validatedData.id },
+      where: { id: workspaceId },
       data: {
         name: validatedData.name,
         slug: validatedData.slug,
@@ -131,7 +202,7 @@ export async function updateWorkspace(
 
     const workspaceWithRole: WorkspaceWithRole = {
       ...workspace,
-      memberRole: member.role as WorkspaceWithRole["memberRole"],
+      memberRole: active.role as WorkspaceWithRole["memberRole"],
     };
 
     return { success: true, data: workspaceWithRole };
@@ -201,6 +272,9 @@ export async function createUserWorkspace(
       },
     });
 
+    // Continue in the new workspace
+    await setActiveWorkspace(session, workspace.id);
+
     // Revalidate paths
     revalidatePath("/dashboard/settings");
     revalidatePath("/dashboard");
@@ -224,3 +298,188 @@ export async function createUserWorkspace(
     return { success: false, error: "Failed to create workspace" };
   }
 }
+
+/**
+ * The session's active workspace id, if the user can administer it
+ */
+async function requireWorkspaceAdmin(): Promise<string | null> {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const active = await getActiveWorkspace(session);
+
+  return active && (active.role === "OWNER" || active.role === "ADMIN") ? active.workspace.id : null;
+}
+
+function toAttachmentSettings(workspace: {
+  attachmentMaxSize: number | null;
+  attachmentMimeTypes: string[];
+}): WorkspaceAttachmentSettings {
+  return {
+    maxSize: workspace.attachmentMaxSize,
+    mimeTypes: workspace.attachmentMimeTypes,
+    defaults: getAttachmentLimits({ attachmentMaxSize: null, attachmentMimeTypes: [] }),
+  };
+}
+
+/**
+ * Get the file size and type limits for uploads in the active workspace
+ * Requires OWNER or ADMIN role
+ */
+export async function getWorkspaceAttachmentSettings(): Promise<ActionResult<WorkspaceAttachmentSettings>> {
+  try {
+    const workspaceId = await requireWorkspaceAdmin();
+    if (!workspaceId) {
+      return { success: false, error: "Workspace admin access required" };
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { attachmentMaxSize: true, attachmentMimeTypes: true },
+    });
+
+    if (!workspace) {
+      return { success: false, error: "Workspace not found" };
+    }
+
+    return { success: true, data: toAttachmentSettings(workspace) };
+  } catch (error) {
+    console.error("Error getting attachment settings:", error);
+    return { success: false, error: "Failed to load attachment settings" };
+  }
+}
+
+/**
+ * Update the file size and type limits for uploads in the active workspace
+ * Requires OWNER or ADMIN role
+ */
+export async function updateWorkspaceAttachmentSettings(
+  input: UpdateAttachmentSettingsInput
+): Promise<ActionResult<WorkspaceAttachmentSettings>> {
+  try {
+    const validatedData = updateAttachmentSettingsSchema.parse(input);
+
+    const workspaceId = await requireWorkspaceAdmin();
+    if (!workspaceId) {
+      return { success: false, error: "Workspace admin access required" };
+    }
+
+    const workspace = await prisma.workspace.update({
+      where: { id: workspaceId },
+      data: {
+        attachmentMaxSize: validatedData.maxSizeMb === null
+          ? null
+          : Math.round(validatedData.maxSizeMb * 1024 * 1024),
+        attachmentMimeTypes: Array.from(
+          new Set(validatedData.mimeTypes.map((type) => type.trim().toLowerCase()))
+        ),
+      },
+      select: { attachmentMaxSize: true, attachmentMimeTypes: true },
+    });
+
+    revalidatePath("/dashboard/settings");
+
+    return { success: true, data: toAttachmentSettings(workspace) };
+  } catch (error) {
+    console.error("Error updating attachment settings:", error);
+
+    if (error instanceof ZodError) {
+      return {
+        success: false,
+        error: error.issues[0]?.message ?? "Validation failed",
+      };
+    }
+
+    return { success: false, error: "Failed to update attachment settings" };
+  }
+}
+
+/**
+ * Get the security policy of the active workspace
+ * Requires OWNER or ADMIN role
+ */
+export async function getWorkspaceSecuritySettings(): Promise<ActionResult<WorkspaceSecuritySettings>> {
+  try {
+    const workspaceId = await requireWorkspaceAdmin();
+    if (!workspaceId) {
+      return { success: false, error: "Workspace admin access required" };
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { requireTwoFactor: true },
+    });
+
+    if (!workspace) {
+      return { success: false, error: "Workspace not found" };
+    }
+
+    return { success: true, data: workspace };
+  } catch (error) {
+    console.error("Error getting security settings:", error);
+    return { success: false, error: "Failed to load security settings" };
+  }
+}
+
+/**
+ * Update the security policy of the active workspace
+ * Requires OWNER or ADMIN role. Requiring 2FA needs it on the admin's own
+ * account first, so they aren't the first one locked out
+ */
+export async function updateWorkspaceSecuritySettings(
+  input: UpdateSecuritySettingsInput
+): Promise<ActionResult<WorkspaceSecuritySettings>> {
+  try {
+    const validatedData = updateSecuritySettingsSchema.parse(input);
+
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    const workspaceId = await requireWorkspaceAdmin();
+    if (!session?.user?.id || !workspaceId) {
+      return { success: false, error: "Workspace admin access required" };
+    }
+
+    if (validatedData.requireTwoFactor && !session.user.twoFactorEnabled) {
+      return {
+        success: false,
+        error: "Turn on two-factor authentication for your own account first",
+      };
+    }
+
+    // Otherwise this very session would be the first one locked out
+    if (validatedData.requireTwoFactor && !session.session.twoFactorVerified) {
+      return {
+        success: false,
+        error: "Sign in again with your authenticator app first",
+      };
+    }
+
+    const workspace = await prisma.workspace.update({
+      where: { id: workspaceId },
+      data: { requireTwoFactor: validatedData.requireTwoFactor },
+      select: { requireTwoFactor: true },
+    });
+
+    revalidatePath("/dashboard/settings");
+
+    return { success: true, data: workspace };
+  } catch (error) {
+    console.error("Error updating security settings:", error);
+
+    if (error instanceof ZodError) {
+      return {
+        success: false,
+        error: error.issues[0]?.message ?? "Validation failed",
+      };
+    }
+
+    return { success: false, error: "Failed to update security settings" };
+  }
+}
@@ -0,0 +1,40 @@
+import { auth } from "@/lib/auth"
+import { getSessionRestriction, SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import { buildAccountExport } from "@/lib/account-deletion"
+import { format } from "date-fns"
+import { NextRequest, NextResponse } from "next/server"
+
+// GET /api/account/export - Download the current user's messages and wiki pages as JSON
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    })
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // An account waiting to be deleted can still take its data with it
+    const restriction = await getSessionRestriction(session)
+    if (restriction && restriction !== "pending_deletion") {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[restriction] }, { status: 403 })
+    }
+
+    const data = await buildAccountExport(session.user.id)
+    const fileName = `account-export-${format(new Date(), "yyyy-MM-dd")}.json`
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Error exporting account data:", error)
+    return NextResponse.json(
+      { error: "Failed to export account data" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,169 @@
+import { auth } from "@/lib/auth"
+import { getSessionRestriction, SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { deleteAttachment, isInlineImage } from "@/lib/attachments"
+import { getStorage } from "@/lib/storage"
+import { Readable } from "stream"
+import { NextRequest, NextResponse } from "next/server"
+
+// Signed storage URLs only need to outlive the redirect
+const SIGNED_URL_TTL_SECONDS = 300
+
+function contentDisposition(type: "inline" | "attachment", fileName: string) {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_")
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+}
+
+async function findAccessibleAttachment(id: string, userId: string) {
+  const attachment = await prisma.attachment.findUnique({
+    where: { id },
+    include: {
+      message: {
+        select: {
+          deletedAt: true,
+        },
+      },
+      thread: {
+        select: {
+          conversation: {
+            include: conversationAccessInclude(userId),
+          },
+        },
+      },
+    },
+  })
+
+  if (!attachment || !canAccessConversation(attachment.thread.conversation)) {
+    return null
+  }
+
+  // Uploads waiting for their message belong to the uploader alone,
+  // and a deleted message hides its files
+  if (attachment.message ? attachment.message.deletedAt : attachment.uploadedBy !== userId) {
+    return null
+  }
+
+  return attachment
+}
+
+// GET /api/attachments/[id] - Download an attachment
+// Query: variant=thumbnail for the image preview, download=1 to force a download
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    })
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const restriction = await getSessionRestriction(session)
+    if (restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[restriction] }, { status: 403 })
+    }
+
+    const attachment = await findAccessibleAttachment(params.id, session.user.id)
+
+    if (!attachment) {
+      return NextResponse.json({ error: "Attachment not found or access denied" }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const thumbnail = searchParams.get("variant") === "thumbnail"
+
+    if (thumbnail && !attachment.thumbnailKey) {
+      return NextResponse.json({ error: "This attachment has no thumbnail" }, { status: 404 })
+    }
+
+    const key = thumbnail ? attachment.thumbnailKey! : attachment.storageKey
+    const contentType = thumbnail ? "image/webp" : attachment.mimeType
+    // Only known-safe images are shown inline; everything else is a download
+    const inline = (thumbnail || isInlineImage(attachment.mimeType)) && searchParams.get("download") !== "1"
+    const disposition = contentDisposition(inline ? "inline" : "attachment", attachment.fileName)
+    const storage = getStorage()
+
+    if (storage.getSignedUrl) {
+      const url = await storage.getSignedUrl(key, {
+        contentType,
+        disposition,
+        expiresIn: SIGNED_URL_TTL_SECONDS,
+      })
+      return NextResponse.redirect(url, {
+        headers: { "Cache-Control": "private, no-store" },
+      })
+    }
+
+    const object = await storage.get(key)
+    if (!object) {
+      return NextResponse.json({ error: "Attachment file is missing" }, { status: 404 })
+    }
+
+    const headers = new Headers({
+      "Content-Type": contentType,
+      "Content-Disposition": disposition,
+      "Cache-Control": "private, max-age=3600",
+      "X-Content-Type-Options": "nosniff",
+      "Content-Security-Policy": "default-src 'none'; sandbox",
+    })
+    if (object.size !== undefined) {
+      headers.set("Content-Length", String(object.size))
+    }
+
+    return new NextResponse(Readable.toWeb(object.body) as ReadableStream, { headers })
+  } catch (error) {
+    console.error("Error downloading attachment:", error)
+    return NextResponse.json(
+      { error: "Failed to download attachment" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/attachments/[id] - Remove an upload that hasn't been sent yet
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    })
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const restriction = await getSessionRestriction(session)
+    if (restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[restriction] }, { status: 403 })
+    }
+
+    const attachment = await prisma.attachment.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!attachment || attachment.uploadedBy !== session.user.id) {
+      return NextResponse.json({ error: "Attachment not found or access denied" }, { status: 404 })
+    }
+
+    // Sent attachments go away with their message
+    if (attachment.messageId) {
+      return NextResponse.json({ error: "Attachment has already been sent" }, { status: 409 })
+    }
+
+    await deleteAttachment(attachment)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting attachment:", error)
+    return NextResponse.json(
+      { error: "Failed to delete attachment" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,234 @@
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import prisma from "@/lib/prisma"
+import {
+  canAccessConversation,
+  canManageConversation,
+  conversationAccessInclude,
+} from "@/lib/conversations"
+import { publishRealtimeEvent } from "@/lib/realtime/publisher"
+import { conversationRoom, workspaceRoom } from "@/lib/realtime/rooms"
+import { NextRequest, NextResponse } from "next/server"
+
+async function getPrivateConversation(conversationId: string, userId: string, workspaceId?: string) {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    include: conversationAccessInclude(userId, workspaceId),
+  })
+
+  if (!conversation || !canAccessConversation(conversation)) {
+    return { error: NextResponse.json({ error: "Conversation not found or access denied" }, { status: 404 }) }
+  }
+
+  if (!conversation.isPrivate) {
+    return {
+      error: NextResponse.json(
+        { error: "Public conversations are open to every workspace member" },
+        { status: 400 }
+      ),
+    }
+  }
+
+  return { conversation }
+}
+
+// GET /api/conversations/[id]/members - List the members of a private conversation
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "read:conversations")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const { error } = await getPrivateConversation(params.id, session.user.id, session.apiKey?.workspaceId)
+    if (error) return error
+
+    const members = await prisma.conversationMember.findMany({
+      where: { conversationId: params.id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+      },
+      orderBy: { joinedAt: "asc" },
+    })
+
+    return NextResponse.json({
+      success: true,
+      members: members.map((member) => ({
+        id: member.user.id,
+        name: member.user.name,
+        email: member.user.email,
+        image: member.user.image,
+        joinedAt: member.joinedAt,
+      })),
+    })
+  } catch (error) {
+    console.error("Error fetching conversation members:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch conversation members" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/conversations/[id]/members - Add workspace members to a private conversation
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "admin:members")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { userIds } = body
+
+    if (!Array.isArray(userIds) || userIds.length === 0 || userIds.some((id: unknown) => typeof id !== "string")) {
+      return NextResponse.json({ error: "userIds must be a non-empty array of user IDs" }, { status: 400 })
+    }
+
+    const { conversation, error } = await getPrivateConversation(params.id, session.user.id, session.apiKey?.workspaceId)
+    if (error) return error
+
+    if (!canManageConversation(conversation, session.user.id, conversation.workspace.members[0].role)) {
+      return NextResponse.json(
+        { error: "Only the conversation creator or workspace admins can add members" },
+        { status: 403 }
+      )
+    }
+
+    const ids = Array.from(new Set(userIds as string[]))
+    const workspaceMembers = await prisma.workspaceMember.count({
+      where: {
+        workspaceId: conversation.workspaceId,
+        userId: { in: ids },
+      },
+    })
+
+    if (workspaceMembers !== ids.length) {
+      return NextResponse.json({ error: "Members must belong to the workspace" }, { status: 400 })
+    }
+
+    const { count } = await prisma.conversationMember.createMany({
+      data: ids.map((userId) => ({
+        conversationId: params.id,
+        userId,
+        addedBy: session.user.id,
+      })),
+      skipDuplicates: true,
+    })
+
+    await publishRealtimeEvent("conversation:update", {
+      workspaceId: conversation.workspaceId,
+      conversationId: params.id,
+    }, [workspaceRoom(conversation.workspaceId)])
+
+    return NextResponse.json({
+      success: true,
+      added: count,
+    })
+  } catch (error) {
+    console.error("Error adding conversation members:", error)
+    return NextResponse.json(
+      { error: "Failed to add conversation members" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/conversations/[id]/members?userId=<id> - Leave a private conversation or remove a member
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "admin:members")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get("userId") || session.user.id
+
+    const { conversation, error } = await getPrivateConversation(params.id, session.user.id, session.apiKey?.workspaceId)
+    if (error) return error
+
+    if (
+      userId !== session.user.id &&
+      !canManageConversation(conversation, session.user.id, conversation.workspace.members[0].role)
+    ) {
+      return NextResponse.json(
+        { error: "Only the conversation creator or workspace admins can remove members" },
+        { status: 403 }
+      )
+    }
+
+    const memberCount = await prisma.conversationMember.count({
+      where: { conversationId: params.id },
+    })
+
+    // Nobody could reach a private conversation without members
+    if (memberCount <= 1) {
+      return NextResponse.json(
+        { error: "A private conversation needs at least one member. Archive it instead" },
+        { status: 409 }
+      )
+    }
+
+    const { count } = await prisma.conversationMember.deleteMany({
+      where: {
+        conversationId: params.id,
+        userId,
+      },
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 })
+    }
+
+    // The realtime server also takes the user's sockets out of the rooms
+    // they can no longer join
+    await publishRealtimeEvent("conversation:member:removed", {
+      conversationId: params.id,
+      userId,
+    }, [conversationRoom(params.id)])
+
+    await publishRealtimeEvent("conversation:update", {
+      workspaceId: conversation.workspaceId,
+      conversationId: params.id,
+    }, [workspaceRoom(conversation.workspaceId)])
+
+    return NextResponse.json({
+      success: true,
+    })
+  } catch (error) {
+    console.error("Error removing conversation member:", error)
+    return NextResponse.json(
+      { error: "Failed to remove conversation member" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,144 @@
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import prisma from "@/lib/prisma"
+import {
+  canAccessConversation,
+  canManageConversation,
+  conversationAccessInclude,
+  conversationCountInclude,
+  formatConversation,
+  MAX_CONVERSATION_TITLE_LENGTH,
+} from "@/lib/conversations"
+import { publishRealtimeEvent } from "@/lib/realtime/publisher"
+import { workspaceRoom } from "@/lib/realtime/rooms"
+import { NextRequest, NextResponse } from "next/server"
+
+// GET /api/conversations/[id] - Get a conversation
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "read:conversations")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: params.id },
+      include: {
+        ...conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
+        ...conversationCountInclude,
+      },
+    })
+
+    if (!conversation || !canAccessConversation(conversation)) {
+      return NextResponse.json({ error: "Conversation not found or access denied" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversation: {
+        ...formatConversation(conversation),
+        canManage: canManageConversation(
+          conversation,
+          session.user.id,
+          conversation.workspace.members[0].role
+        ),
+      },
+    })
+  } catch (error) {
+    console.error("Error fetching conversation:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch conversation" },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/conversations/[id] - Rename, describe, archive or unarchive a conversation
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "write:conversations")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { title, description, archived } = body
+
+    if (title !== undefined) {
+      if (typeof title !== "string" || title.trim().length === 0) {
+        return NextResponse.json({ error: "Conversation title is required" }, { status: 400 })
+      }
+
+      if (title.trim().length > MAX_CONVERSATION_TITLE_LENGTH) {
+        return NextResponse.json(
+          { error: `Conversation title must be at most ${MAX_CONVERSATION_TITLE_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (description !== undefined && description !== null && typeof description !== "string") {
+      return NextResponse.json({ error: "Description must be a string" }, { status: 400 })
+    }
+
+    if (archived !== undefined && typeof archived !== "boolean") {
+      return NextResponse.json({ error: "archived must be a boolean" }, { status: 400 })
+    }
+
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: params.id },
+      include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
+    })
+
+    if (!conversation || !canAccessConversation(conversation)) {
+      return NextResponse.json({ error: "Conversation not found or access denied" }, { status: 404 })
+    }
+
+    if (!canManageConversation(conversation, session.user.id, conversation.workspace.members[0].role)) {
+      return NextResponse.json(
+        { error: "Only the conversation creator or workspace admins can change it" },
+        { status: 403 }
+      )
+    }
+
+    const updated = await prisma.conversation.update({
+      where: { id: params.id },
+      data: {
+        ...(title !== undefined && { title: title.trim() }),
+        ...(description !== undefined && { description: description?.trim() || null }),
+        ...(archived !== undefined && { archivedAt: archived ? conversation.archivedAt || new Date() : null }),
+      },
+      include: conversationCountInclude,
+    })
+
+    await publishRealtimeEvent("conversation:update", {
+      workspaceId: updated.workspaceId,
+      conversationId: updated.id,
+    }, [workspaceRoom(updated.workspaceId)])
+
+    return NextResponse.json({
+      success: true,
+      conversation: formatConversation(updated),
+    })
+  } catch (error) {
+    console.error("Error updating conversation:", error)
+    return NextResponse.json(
+      { error: "Failed to update conversation" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,44 +1,42 @@
-import { auth } from "@/lib/auth"
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
 import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { publishRealtimeEvent } from "@/lib/realtime/publisher"
+import { conversationRoom } from "@/lib/realtime/rooms"
+import { MAX_THREAD_DEPTH, getThreadAncestors, getThreadCounts } from "@/lib/threads"
 import { NextRequest, NextResponse } from "next/server"
 
 // GET /api/conversations/[id]/threads - Get threads within a conversation
+// Pass parentId=root for top-level threads only, or a thread id for its sub-threads
 export async function GET(
   request: NextRequest,
   props: { params: Promise<{ id: string }> }
 ) {
   const params = await props.params;
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers
-    })
+    const session = await getRequestSession(request.headers, "read:conversations")
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
 
     const { searchParams } = new URL(request.url)
     const search = searchParams.get("search")
     const isDocumented = searchParams.get("isDocumented")
+    const parentId = searchParams.get("parentId")
     const limit = parseInt(searchParams.get("limit") || "50")
     const offset = parseInt(searchParams.get("offset") || "0")
 
     // First, verify the conversation exists and user has access
     const conversation = await prisma.conversation.findUnique({
       where: { id: params.id },
-      include: {
-        workspace: {
-          include: {
-            members: {
-              where: {
-                userId: session.user.id,
-              },
-            },
-          },
-        },
-      },
+      include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
     })
 
-    if (!conversation || conversation.workspace.members.length === 0) {
+    if (!conversation || !canAccessConversation(conversation)) {
       return NextResponse.json({ error: "Conversation not found or access denied" }, { status: 404 })
     }
 
@@ -58,6 +56,10 @@ export async function GET(
       whereClause.isDocumented = isDocumented === "true"
     }
 
+    if (parentId) {
+      whereClause.parentId = parentId === "root" ? null : parentId
+    }
+
     const threads = await prisma.thread.findMany({
       where: whereClause,
       include: {
@@ -72,9 +74,13 @@ export async function GET(
         _count: {
           select: {
             messages: true,
+            children: true,
           },
         },
         messages: {
+          where: {
+            deletedAt: null,
+          },
           take: 1,
           orderBy: {
             createdAt: "desc",
@@ -97,14 +103,22 @@ export async function GET(
       skip: offset,
     })
 
+    const counts = await getThreadCounts(threads.map((thread) => thread.id), session.user.id)
+
     const formattedThreads = threads.map((thread) => ({
       id: thread.id,
       title: thread.title,
+      parentId: thread.parentId,
+      branchedFromId: thread.branchedFromId,
       createdAt: thread.createdAt,
       updatedAt: thread.updatedAt,
       isDocumented: thread.isDocumented,
       autoConvert: thread.autoConvert,
       messageCount: thread._count.messages,
+      childCount: thread._count.children,
+      unreadCount: counts.get(thread.id)?.unreadCount ?? 0,
+      totalMessageCount: counts.get(thread.id)?.totalMessageCount ?? thread._count.messages,
+      totalUnreadCount: counts.get(thread.id)?.totalUnreadCount ?? 0,
       createdBy: thread.creator,
       lastMessage: thread.messages[0] ? {
         id: thread.messages[0].id,
@@ -134,15 +148,17 @@ export async function POST(
 ) {
   const params = await props.params;
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers
-    })
+    const session = await getRequestSession(request.headers, "write:conversations")
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
 
     const body = await request.json()
-    const { title, parentId } = body
+    const { title, branchedFromId } = body
+    let { parentId } = body
 
     if (!title || title.trim().length === 0) {
       return NextResponse.json({ error: "Thread title is required" }, { status: 400 })
@@ -151,23 +167,31 @@ export async function POST(
     // Verify the conversation exists and user has access
     const conversation = await prisma.conversation.findUnique({
       where: { id: params.id },
-      include: {
-        workspace: {
-          include: {
-            members: {
-              where: {
-                userId: session.user.id,
-              },
-            },
-          },
-        },
-      },
+      include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
     })
 
-    if (!conversation || conversation.workspace.members.length === 0) {
+    if (!conversation || !canAccessConversation(conversation)) {
       return NextResponse.json({ error: "Conversation not found or access denied" }, { status: 404 })
     }
 
+    if (conversation.archivedAt) {
+      return NextResponse.json({ error: "Conversation is archived" }, { status: 409 })
+    }
+
+    // Branching from a message makes a sub-thread of the message's thread
+    if (branchedFromId) {
+      const message = await prisma.message.findUnique({
+        where: { id: branchedFromId },
+        select: { threadId: true, deletedAt: true },
+      })
+
+      if (!message || message.deletedAt || (parentId && message.threadId !== parentId)) {
+        return NextResponse.json({ error: "Invalid message to branch from" }, { status: 400 })
+      }
+
+      parentId = message.threadId
+    }
+
     // If parentId is provided, verify it exists and belongs to the same conversation
     if (parentId) {
       const parentThread = await prisma.thread.findUnique({
@@ -177,6 +201,14 @@ export async function POST(
       if (!parentThread || parentThread.conversationId !== params.id) {
         return NextResponse.json({ error: "Invalid parent thread" }, { status: 400 })
       }
+
+      const ancestors = await getThreadAncestors(parentId)
+      if (ancestors.length + 1 > MAX_THREAD_DEPTH) {
+        return NextResponse.json(
+          { error: `Sub-threads can only nest ${MAX_THREAD_DEPTH} levels deep` },
+          { status: 400 }
+        )
+      }
     }
 
     const thread = await prisma.thread.create({
@@ -184,6 +216,7 @@ export async function POST(
         conversationId: params.id,
         title: title.trim(),
         parentId: parentId || null,
+        branchedFromId: branchedFromId || null,
         createdBy: session.user.id,
       },
       include: {
@@ -203,18 +236,33 @@ export async function POST(
       },
     })
 
+    const formattedThread = {
+      id: thread.id,
+      title: thread.title,
+      parentId: thread.parentId,
+      branchedFromId: thread.branchedFromId,
+      createdAt: thread.createdAt,
+      updatedAt: thread.updatedAt,
+      isDocumented: thread.isDocumented,
+      autoConvert: thread.autoConvert,
+      messageCount: thread._count.messages,
+      childCount: 0,
+      unreadCount: 0,
+      totalMessageCount: 0,
+      totalUnreadCount: 0,
+      createdBy: thread.creator,
+    }
+
+    await publishRealtimeEvent("thread:new", {
+      threadId: thread.id,
+      conversationId: params.id,
+      parentId: thread.parentId,
+      thread: formattedThread,
+    }, [conversationRoom(conversation.id)])
+
     return NextResponse.json({
       success: true,
-      thread: {
-        id: thread.id,
-        title: thread.title,
-        createdAt: thread.createdAt,
-        updatedAt: thread.updatedAt,
-        isDocumented: thread.isDocumented,
-        autoConvert: thread.autoConvert,
-        messageCount: thread._count.messages,
-        createdBy: thread.creator,
-      },
+      thread: formattedThread,
     })
   } catch (error) {
     console.error("Error creating thread:", error)
@@ -1,76 +1,39 @@
-import { auth } from "@/lib/auth"
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
 import prisma from "@/lib/prisma"
+import {
+  conversationCountInclude,
+  formatConversation,
+  MAX_CONVERSATION_TITLE_LENGTH,
+} from "@/lib/conversations"
+import { listConversations } from "@/lib/dashboard"
+import { publishRealtimeEvent } from "@/lib/realtime/publisher"
+import { workspaceRoom } from "@/lib/realtime/rooms"
+import { getActiveWorkspace } from "@/lib/workspace-context"
 import { NextRequest, NextResponse } from "next/server"
 
-// GET /api/conversations - Get conversations for current workspace
+// GET /api/conversations - Get conversations for the session's active workspace
+// Query: archived=true lists archived conversations instead of active ones
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers
-    })
+    const session = await getRequestSession(request.headers, "read:conversations")
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
-
-    const { searchParams } = new URL(request.url)
-    const workspaceId = searchParams.get("workspaceId")
-
-    if (!workspaceId) {
-      return NextResponse.json({ error: "Workspace ID is required" }, { status: 400 })
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
     }
 
-    // Check if user has access to this workspace
-    const workspaceMember = await prisma.workspaceMember.findFirst({
-      where: {
-        workspaceId,
-        userId: session.user.id,
-      },
-    })
+    const { searchParams } = new URL(request.url)
+    const archived = searchParams.get("archived") === "true"
 
-    if (!workspaceMember) {
-      return NextResponse.json({ error: "Access denied" }, { status: 403 })
+    const active = await getActiveWorkspace(session)
+    if (!active) {
+      return NextResponse.json({ error: "No workspace found" }, { status: 404 })
     }
+    const workspaceId = active.workspace.id
 
-    const conversations = await prisma.conversation.findMany({
-      where: {
-        workspaceId,
-      },
-      include: {
-        _count: {
-          select: {
-
-            threads: true,
-          },
-        },
-        threads: {
-          take: 1,
-          orderBy: {
-            updatedAt: "desc",
-          },
-          include: {
-            messages: {
-              take: 1,
-              orderBy: {
-                createdAt: "desc",
-              },
-            },
-          },
-        },
-      },
-      orderBy: {
-        updatedAt: "desc",
-      },
-    })
-
-    const formattedConversations = conversations.map((conv) => ({
-      id: conv.id,
-      title: conv.title || "Untitled Conversation",
-      createdAt: conv.createdAt,
-      updatedAt: conv.updatedAt,
-      messageCount: 0,
-      threadCount: conv._count.threads,
-      lastActivity: conv.threads[0]?.messages[0]?.createdAt || conv.createdAt,
-    }))
+    const formattedConversations = await listConversations(workspaceId, session.user.id, archived)
 
     return NextResponse.json({
       success: true,
@@ -85,60 +48,86 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/conversations - Create new conversation
+// POST /api/conversations - Create new conversation in the session's active workspace
+// Private conversations start with the creator and any memberIds given
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers
-    })
+    const session = await getRequestSession(request.headers, "write:conversations")
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
 
     const body = await request.json()
-    const { workspaceId, title } = body
+    const { title, description, isPrivate = false, memberIds = [] } = body
 
-    if (!workspaceId) {
-      return NextResponse.json({ error: "Workspace ID is required" }, { status: 400 })
+    if (typeof title !== "string" || title.trim().length === 0) {
+      return NextResponse.json({ error: "Conversation title is required" }, { status: 400 })
     }
 
-    // Check if user has access to this workspace
-    const workspaceMember = await prisma.workspaceMember.findFirst({
-      where: {
-        workspaceId,
-        userId: session.user.id,
-      },
-    })
+    if (title.trim().length > MAX_CONVERSATION_TITLE_LENGTH) {
+      return NextResponse.json(
+        { error: `Conversation title must be at most ${MAX_CONVERSATION_TITLE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    if (typeof isPrivate !== "boolean") {
+      return NextResponse.json({ error: "isPrivate must be a boolean" }, { status: 400 })
+    }
+
+    if (!Array.isArray(memberIds) || memberIds.some((id: unknown) => typeof id !== "string")) {
+      return NextResponse.json({ error: "memberIds must be an array of user IDs" }, { status: 400 })
+    }
+
+    const active = await getActiveWorkspace(session)
+    if (!active) {
+      return NextResponse.json({ error: "No workspace found" }, { status: 404 })
+    }
+    const workspaceId = active.workspace.id
+
+    const userIds = isPrivate ? Array.from(new Set([session.user.id, ...memberIds])) : []
 
-    if (!workspaceMember) {
-      return NextResponse.json({ error: "Access denied" }, { status: 403 })
+    if (userIds.length > 0) {
+      const count = await prisma.workspaceMember.count({
+        where: {
+          workspaceId,
+          userId: { in: userIds },
+        },
+      })
+
+      if (count !== userIds.length) {
+        return NextResponse.json({ error: "Members must belong to the workspace" }, { status: 400 })
+      }
     }
 
     const conversation = await prisma.conversation.create({
       data: {
         workspaceId,
-        title: title || null,
-      },
-      include: {
-        _count: {
-          select: {
-
-            threads: true,
-          },
+        title: title.trim(),
+        description: typeof description === "string" && description.trim() ? description.trim() : null,
+        isPrivate,
+        createdBy: session.user.id,
+        members: {
+          create: userIds.map((userId) => ({
+            userId,
+            addedBy: session.user.id,
+          })),
         },
       },
+      include: conversationCountInclude,
     })
 
+    await publishRealtimeEvent("conversation:new", {
+      workspaceId,
+      conversationId: conversation.id,
+    }, [workspaceRoom(workspaceId)])
+
     return NextResponse.json({
       success: true,
-      conversation: {
-        id: conversation.id,
-        title: conversation.title || "Untitled Conversation",
-        createdAt: conversation.createdAt,
-        updatedAt: conversation.updatedAt,
-        messageCount: 0,
-        threadCount: conversation._count.threads,
-      },
+      conversation: formatConversation(conversation),
     })
   } catch (error) {
     console.error("Error creating conversation:", error)
@@ -147,4 +136,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,106 @@
+import { auth } from "@/lib/auth"
+import { getSessionRestriction, SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import { SEARCH_RESULT_TYPES, searchWorkspace, type SearchResultType } from "@/lib/search"
+import { MessageType } from "@/generated/prisma/client"
+import { getActiveWorkspace } from "@/lib/workspace-context"
+import { NextRequest, NextResponse } from "next/server"
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+// Date-only "to" values include the whole day
+function parseDate(value: string | null, endOfDay = false): Date | null | undefined {
+  if (!value) return undefined
+
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return null
+
+  if (endOfDay && DATE_ONLY.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1)
+    date.setUTCMilliseconds(-1)
+  }
+
+  return date
+}
+
+// GET /api/search - Full-text search across messages, threads and wiki pages in a workspace
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    })
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const restriction = await getSessionRestriction(session)
+    if (restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[restriction] }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get("q")?.trim() || ""
+    const types = searchParams.get("type")?.split(",").filter(Boolean)
+    const authorId = searchParams.get("author") || undefined
+    const tags = searchParams.get("tags")?.split(",").filter(Boolean)
+    const contentType = searchParams.get("contentType") || undefined
+    const from = parseDate(searchParams.get("from"))
+    const to = parseDate(searchParams.get("to"), true)
+    const limit = parseInt(searchParams.get("limit") || "20")
+    const offset = parseInt(searchParams.get("offset") || "0")
+
+    if (!query) {
+      return NextResponse.json({ error: "Search query is required" }, { status: 400 })
+    }
+
+    if (types?.some(type => !SEARCH_RESULT_TYPES.includes(type as SearchResultType))) {
+      return NextResponse.json(
+        { error: `Type must be one of: ${SEARCH_RESULT_TYPES.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    if (contentType && !Object.values(MessageType).includes(contentType as MessageType)) {
+      return NextResponse.json({ error: "Invalid content type" }, { status: 400 })
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 })
+    }
+
+    if (isNaN(limit) || isNaN(offset)) {
+      return NextResponse.json({ error: "Invalid pagination" }, { status: 400 })
+    }
+
+    const active = await getActiveWorkspace(session)
+    if (!active) {
+      return NextResponse.json({ error: "No workspace found" }, { status: 404 })
+    }
+    const workspaceId = active.workspace.id
+
+    const { results, hasMore } = await searchWorkspace({
+      workspaceId,
+      userId: session.user.id,
+      query,
+      types: types as SearchResultType[] | undefined,
+      authorId,
+      from,
+      to,
+      tags,
+      contentType: contentType as MessageType | undefined,
+      limit,
+      offset,
+    })
+
+    return NextResponse.json({
+      success: true,
+      results,
+      hasMore,
+    })
+  } catch (error) {
+    console.error("Error searching workspace:", error)
+    return NextResponse.json(
+      { error: "Failed to search" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { AttachmentError, checkUploadLength, createAttachment, formatAttachment } from "@/lib/attachments"
+import { NextRequest, NextResponse } from "next/server"
+
+// POST /api/threads/[id]/attachments - Upload a file to send with the next message
+// Body: multipart/form-data with a single "file" field
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "write:messages")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    // Verify the thread exists and user has access
+    const thread = await prisma.thread.findUnique({
+      where: { id: params.id },
+      include: {
+        conversation: {
+          include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
+        },
+      },
+    })
+
+    if (!thread || !canAccessConversation(thread.conversation)) {
+      return NextResponse.json({ error: "Thread not found or access denied" }, { status: 404 })
+    }
+
+    // Oversized uploads are refused before they are buffered
+    checkUploadLength(request.headers.get("content-length"), thread.conversation.workspace)
+
+    let formData: FormData
+    try {
+      formData = await request.formData()
+    } catch {
+      return NextResponse.json({ error: "Expected multipart/form-data" }, { status: 400 })
+    }
+
+    const file = formData.get("file")
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "A file is required" }, { status: 400 })
+    }
+
+    const attachment = await createAttachment({
+      workspace: thread.conversation.workspace,
+      threadId: params.id,
+      uploadedBy: session.user.id,
+      file,
+    })
+
+    return NextResponse.json({
+      success: true,
+      attachment: formatAttachment(attachment),
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error uploading attachment:", error)
+    return NextResponse.json(
+      { error: "Failed to upload attachment" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,130 +1,116 @@
-import { auth } from "@/lib/auth"
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
 import prisma from "@/lib/prisma"
-import { convertThreadToWiki } from "@/lib/wiki-converter"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import {
+  convertThreadToWikiPage,
+  mergeNewMessagesIntoWikiPage,
+  wikiPageAuditFields,
+  type WikiPageWithCreator,
+} from "@/lib/wiki-pages"
+import { recordAuditLog } from "@/lib/audit-log"
 import { NextRequest, NextResponse } from "next/server"
 
 // POST /api/threads/[id]/convert-to-wiki - Manual conversion to wiki page
+// With { mode: "merge" } an existing page gets the messages posted since it was generated
 export async function POST(
   request: NextRequest,
   props: { params: Promise<{ id: string }> }
 ) {
   const params = await props.params;
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers
-    })
+    const session = await getRequestSession(request.headers, "write:wiki")
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
 
     // Verify the thread exists and user has access
     const thread = await prisma.thread.findUnique({
       where: { id: params.id },
       include: {
         conversation: {
-          include: {
-            workspace: {
-              include: {
-                members: {
-                  where: {
-                    userId: session.user.id,
-                  },
-                },
-              },
-            },
-          },
-        },
-        messages: {
-          include: {
-            creator: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-              },
-            },
-          },
-          orderBy: {
-            createdAt: "asc",
-          },
+          include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
         },
       },
     })
 
-    if (!thread || thread.conversation.workspace.members.length === 0) {
+    if (!thread || !canAccessConversation(thread.conversation)) {
       return NextResponse.json({ error: "Thread not found or access denied" }, { status: 404 })
     }
 
-    // Check if wiki page already exists
-    const existingWikiPage = await prisma.wikiPage.findUnique({
-      where: { threadId: params.id },
-    })
+    const body = await request.json().catch(() => ({}))
 
-    if (existingWikiPage) {
-      return NextResponse.json({ error: "Wiki page already exists for this thread" }, { status: 409 })
-    }
+    if (body.mode === "merge") {
+      const existingWikiPage = await prisma.wikiPage.findUnique({
+        where: { threadId: params.id },
+        select: { createdBy: true },
+      })
+
+      if (existingWikiPage) {
+        // Merging edits the page, so it needs the same rights as PUT /api/wiki/[id]
+        const member = thread.conversation.workspace.members[0]
+        const canEdit = existingWikiPage.createdBy === session.user.id ||
+          member.role === "OWNER" ||
+          member.role === "ADMIN"
+
+        if (!canEdit) {
+          return NextResponse.json({ error: "Insufficient permissions to edit wiki page" }, { status: 403 })
+        }
+
+        const merge = await mergeNewMessagesIntoWikiPage(params.id, session.user.id)
+
+        if (merge.status === "not_found") {
+          return NextResponse.json({ error: "Wiki page not found" }, { status: 404 })
+        }
 
-    // Convert thread content to wiki page
-    const threadForConversion = {
-      ...thread,
-      messages: thread.messages.map(msg => ({
-        ...msg,
-        creator: {
-          ...msg.creator,
-          name: msg.creator.name || "Unknown User"
+        if (merge.status === "conflict") {
+          return NextResponse.json({ error: "Wiki page was changed while merging, please try again" }, { status: 409 })
         }
-      }))
+
+        if (merge.status === "merged") {
+          await recordAuditLog(request.headers, {
+            action: "wiki_page.merge",
+            targetType: "wiki_page",
+            targetId: merge.wikiPage.id,
+            targetLabel: merge.wikiPage.title,
+            workspaceId: thread.conversation.workspaceId,
+            before: wikiPageAuditFields(merge.previous),
+            after: { ...wikiPageAuditFields(merge.wikiPage), mergedMessages: merge.messageCount },
+          })
+        }
+
+        return NextResponse.json({
+          success: true,
+          mergedMessageCount: merge.status === "merged" ? merge.messageCount : 0,
+          wikiPage: formatWikiPage(merge.wikiPage),
+        })
+      }
     }
-    const wikiContent = await convertThreadToWiki(threadForConversion)
-
-    // Create wiki page
-    const wikiPage = await prisma.wikiPage.create({
-      data: {
-        threadId: params.id,
-        title: wikiContent.title,
-        content: wikiContent.content,
-        summary: wikiContent.summary,
-        tags: wikiContent.tags,
-        category: wikiContent.category,
-        isPublic: false, // Default to private
-        createdBy: session.user.id,
-      },
-      include: {
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
-          },
-        },
-      },
-    })
 
-    // Update thread to mark as documented
-    await prisma.thread.update({
-      where: { id: params.id },
-      data: { isDocumented: true },
-    })
+    const result = await convertThreadToWikiPage(params.id, session.user.id)
+
+    if (result.status === "not_found") {
+      return NextResponse.json({ error: "Thread not found or access denied" }, { status: 404 })
+    }
+
+    if (result.status === "exists") {
+      return NextResponse.json({ error: "Wiki page already exists for this thread" }, { status: 409 })
+    }
 
-    // TODO: Emit real-time event for WebSocket
-    // WebSocket emission would happen here
+    await recordAuditLog(request.headers, {
+      action: "thread.convert_to_wiki",
+      targetType: "thread",
+      targetId: params.id,
+      targetLabel: result.wikiPage.title,
+      workspaceId: thread.conversation.workspaceId,
+    })
 
     return NextResponse.json({
       success: true,
-      wikiPage: {
-        id: wikiPage.id,
-        title: wikiPage.title,
-        content: wikiPage.content,
-        summary: wikiPage.summary,
-        tags: wikiPage.tags,
-        category: wikiPage.category,
-        isPublic: wikiPage.isPublic,
-        createdAt: wikiPage.createdAt,
-        updatedAt: wikiPage.updatedAt,
-        createdBy: wikiPage.creator,
-        threadId: wikiPage.threadId,
-      },
+      wikiPage: formatWikiPage(result.wikiPage),
     })
   } catch (error) {
     console.error("Error converting thread to wiki:", error)
@@ -133,4 +119,21 @@ export async function POST(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+function formatWikiPage(wikiPage: WikiPageWithCreator) {
+  return {
+    id: wikiPage.id,
+    title: wikiPage.title,
+    content: wikiPage.content,
+    summary: wikiPage.summary,
+    tags: wikiPage.tags,
+    category: wikiPage.category,
+    isPublic: wikiPage.isPublic,
+    createdAt: wikiPage.createdAt,
+    updatedAt: wikiPage.updatedAt,
+    version: wikiPage.version,
+    createdBy: wikiPage.creator,
+    threadId: wikiPage.threadId,
+  }
+}
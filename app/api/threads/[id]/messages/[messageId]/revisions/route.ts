@@ -0,0 +1,84 @@
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { canModifyMessage } from "@/lib/messages"
+import { NextRequest, NextResponse } from "next/server"
+
+// GET /api/threads/[id]/messages/[messageId]/revisions - Edit history of a message
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; messageId: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "read:conversations")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const message = await prisma.message.findUnique({
+      where: { id: params.messageId },
+      include: {
+        thread: {
+          include: {
+            conversation: {
+              include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
+            },
+          },
+        },
+        revisions: {
+          include: {
+            editor: {
+              select: {
+                id: true,
+                name: true,
+                image: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+        },
+      },
+    })
+
+    if (!message || message.threadId !== params.id || !canAccessConversation(message.thread.conversation)) {
+      return NextResponse.json({ error: "Message not found or access denied" }, { status: 404 })
+    }
+
+    // Revisions can contain deleted content, so only the author and moderators see them
+    const member = message.thread.conversation.workspace.members[0]
+    if (!canModifyMessage(message, session.user.id, member.role)) {
+      return NextResponse.json({ error: "Insufficient permissions to view message history" }, { status: 403 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: {
+        id: message.id,
+        content: message.content,
+        editedAt: message.editedAt,
+        deletedAt: message.deletedAt,
+        deletedBy: message.deletedBy,
+      },
+      revisions: message.revisions.map((revision) => ({
+        id: revision.id,
+        content: revision.content,
+        contentType: revision.contentType,
+        createdAt: revision.createdAt,
+        editedBy: revision.editor,
+      })),
+    })
+  } catch (error) {
+    console.error("Error fetching message revisions:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch message revisions" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,190 @@
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { canModifyMessage, formatMessage, messageInclude } from "@/lib/messages"
+import { publishRealtimeEvent } from "@/lib/realtime/publisher"
+import { threadRoom } from "@/lib/realtime/rooms"
+import { NextRequest, NextResponse } from "next/server"
+
+async function getMessageWithAccess(threadId: string, messageId: string, userId: string, workspaceId?: string) {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: {
+      thread: {
+        include: {
+          conversation: {
+            include: conversationAccessInclude(userId, workspaceId),
+          },
+        },
+      },
+    },
+  })
+
+  if (!message || message.threadId !== threadId || !canAccessConversation(message.thread.conversation)) {
+    return null
+  }
+
+  return {
+    message,
+    member: message.thread.conversation.workspace.members[0],
+  }
+}
+
+// PATCH /api/threads/[id]/messages/[messageId] - Edit a message
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; messageId: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "write:messages")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { content } = body
+
+    if (typeof content !== "string" || content.trim().length === 0) {
+      return NextResponse.json({ error: "Message content is required" }, { status: 400 })
+    }
+
+    const access = await getMessageWithAccess(params.id, params.messageId, session.user.id, session.apiKey?.workspaceId)
+    if (!access) {
+      return NextResponse.json({ error: "Message not found or access denied" }, { status: 404 })
+    }
+
+    const { message, member } = access
+
+    if (!canModifyMessage(message, session.user.id, member.role)) {
+      return NextResponse.json({ error: "Insufficient permissions to edit message" }, { status: 403 })
+    }
+
+    if (message.deletedAt) {
+      return NextResponse.json({ error: "Deleted messages cannot be edited" }, { status: 409 })
+    }
+
+    const trimmedContent = content.trim()
+    if (trimmedContent === message.content) {
+      const unchanged = await prisma.message.findUniqueOrThrow({
+        where: { id: message.id },
+        include: messageInclude,
+      })
+      return NextResponse.json({ success: true, message: formatMessage(unchanged) })
+    }
+
+    // Keep the previous version before overwriting it
+    const [, updatedMessage] = await prisma.$transaction([
+      prisma.messageRevision.create({
+        data: {
+          messageId: message.id,
+          content: message.content,
+          contentType: message.contentType,
+          editedBy: session.user.id,
+        },
+      }),
+      prisma.message.update({
+        where: { id: message.id },
+        data: {
+          content: trimmedContent,
+          editedAt: new Date(),
+        },
+        include: messageInclude,
+      }),
+    ])
+
+    const formattedMessage = formatMessage(updatedMessage)
+
+    await publishRealtimeEvent("thread:message:edit", {
+      threadId: params.id,
+      message: formattedMessage,
+    }, [threadRoom(params.id)])
+
+    return NextResponse.json({
+      success: true,
+      message: formattedMessage,
+    })
+  } catch (error) {
+    console.error("Error editing message:", error)
+    return NextResponse.json(
+      { error: "Failed to edit message" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/threads/[id]/messages/[messageId] - Soft-delete a message
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; messageId: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "write:messages")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const access = await getMessageWithAccess(params.id, params.messageId, session.user.id, session.apiKey?.workspaceId)
+    if (!access) {
+      return NextResponse.json({ error: "Message not found or access denied" }, { status: 404 })
+    }
+
+    const { message, member } = access
+
+    if (!canModifyMessage(message, session.user.id, member.role)) {
+      return NextResponse.json({ error: "Insufficient permissions to delete message" }, { status: 403 })
+    }
+
+    if (message.deletedAt) {
+      return NextResponse.json({ error: "Message is already deleted" }, { status: 409 })
+    }
+
+    // The row stays so replies keep pointing at it; its content moves to the revision history
+    const [, deletedMessage] = await prisma.$transaction([
+      prisma.messageRevision.create({
+        data: {
+          messageId: message.id,
+          content: message.content,
+          contentType: message.contentType,
+          editedBy: session.user.id,
+        },
+      }),
+      prisma.message.update({
+        where: { id: message.id },
+        data: {
+          content: "",
+          deletedAt: new Date(),
+          deletedBy: session.user.id,
+        },
+        include: messageInclude,
+      }),
+    ])
+
+    const formattedMessage = formatMessage(deletedMessage)
+
+    await publishRealtimeEvent("thread:message:delete", {
+      threadId: params.id,
+      messageId: message.id,
+      message: formattedMessage,
+    }, [threadRoom(params.id)])
+
+    return NextResponse.json({
+      success: true,
+      message: formattedMessage,
+    })
+  } catch (error) {
+    console.error("Error deleting message:", error)
+    return NextResponse.json(
+      { error: "Failed to delete message" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,93 @@
-import { auth } from "@/lib/auth"
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import { AttachmentError, contentTypeForAttachments, findAttachableUploads } from "@/lib/attachments"
+import { scheduleThreadAutoConvert } from "@/lib/jobs/thread-auto-convert"
 import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { decodeMessageCursor, formatMessage, getMessagePage, messageInclude, type MessageWithRelations } from "@/lib/messages"
+import { publishRealtimeEvent } from "@/lib/realtime/publisher"
+import { conversationRoom, threadRoom } from "@/lib/realtime/rooms"
+import { getThreadAncestors } from "@/lib/threads"
+import { countMessagesSinceSync } from "@/lib/wiki-pages"
 import { NextRequest, NextResponse } from "next/server"
 
+// GET /api/threads/[id]/messages - Page through thread messages
+// Query: before=<cursor> | after=<cursor> | around=<messageId>, limit
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "read:conversations")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const before = searchParams.get("before")
+    const after = searchParams.get("after")
+    const around = searchParams.get("around")
+    const limit = parseInt(searchParams.get("limit") || "50")
+
+    if ([before, after, around].filter(Boolean).length > 1) {
+      return NextResponse.json({ error: "Use only one of before, after or around" }, { status: 400 })
+    }
+
+    const beforeCursor = before ? decodeMessageCursor(before) : undefined
+    const afterCursor = after ? decodeMessageCursor(after) : undefined
+
+    if (beforeCursor === null || afterCursor === null) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 })
+    }
+
+    // Verify the thread exists and user has access
+    const thread = await prisma.thread.findUnique({
+      where: { id: params.id },
+      include: {
+        conversation: {
+          include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
+        },
+      },
+    })
+
+    if (!thread || !canAccessConversation(thread.conversation)) {
+      return NextResponse.json({ error: "Thread not found or access denied" }, { status: 404 })
+    }
+
+    const page = await getMessagePage(params.id, {
+      before: beforeCursor,
+      after: afterCursor,
+      around: around || undefined,
+      limit,
+    })
+
+    if (!page) {
+      return NextResponse.json({ error: "Message not found in this thread" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      messages: page.messages.map(formatMessage),
+      pageInfo: {
+        hasOlder: page.hasOlder,
+        hasNewer: page.hasNewer,
+        olderCursor: page.olderCursor,
+        newerCursor: page.newerCursor,
+      },
+    })
+  } catch (error) {
+    console.error("Error fetching messages:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch messages" },
+      { status: 500 }
+    )
+  }
+}
+
 // POST /api/threads/[id]/messages - Send message to thread
 export async function POST(
   request: NextRequest,
@@ -9,17 +95,24 @@ export async function POST(
 ) {
   const params = await props.params;
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers
-    })
+    const session = await getRequestSession(request.headers, "write:messages")
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
 
     const body = await request.json()
-    const { content, contentType, replyToId } = body
+    // attachmentIds are uploads from POST /api/threads/[id]/attachments
+    const { content, contentType, replyToId, attachmentIds } = body
+    const hasAttachments = Array.isArray(attachmentIds) && attachmentIds.length > 0
+
+    if (content !== undefined && typeof content !== "string") {
+      return NextResponse.json({ error: "Message content must be a string" }, { status: 400 })
+    }
 
-    if (!content || content.trim().length === 0) {
+    if (!content?.trim() && !hasAttachments) {
       return NextResponse.json({ error: "Message content is required" }, { status: 400 })
     }
 
@@ -28,89 +121,118 @@ export async function POST(
       where: { id: params.id },
       include: {
         conversation: {
-          include: {
-            workspace: {
-              include: {
-                members: {
-                  where: {
-                    userId: session.user.id,
-                  },
-                },
-              },
-            },
-          },
+          include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
         },
       },
     })
 
-    if (!thread || thread.conversation.workspace.members.length === 0) {
+    if (!thread || !canAccessConversation(thread.conversation)) {
       return NextResponse.json({ error: "Thread not found or access denied" }, { status: 404 })
     }
 
+    if (thread.conversation.archivedAt) {
+      return NextResponse.json({ error: "Conversation is archived" }, { status: 409 })
+    }
+
     // If replyToId is provided, verify it exists in the same thread
     if (replyToId) {
       const replyToMessage = await prisma.message.findUnique({
         where: { id: replyToId },
       })
 
-      if (!replyToMessage || replyToMessage.threadId !== params.id) {
+      if (!replyToMessage || replyToMessage.threadId !== params.id || replyToMessage.deletedAt) {
         return NextResponse.json({ error: "Invalid reply target" }, { status: 400 })
       }
     }
 
-    const message = await prisma.message.create({
-      data: {
-        threadId: params.id,
-        content: content.trim(),
-        contentType: contentType || "TEXT",
-        replyToId: replyToId || null,
-        createdBy: session.user.id,
-      },
-      include: {
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
+    let message: MessageWithRelations
+    try {
+      const attachments = attachmentIds !== undefined
+        ? await findAttachableUploads(attachmentIds, params.id, session.user.id)
+        : []
+
+      message = await prisma.$transaction(async (tx) => {
+        const created = await tx.message.create({
+          data: {
+            threadId: params.id,
+            content: content?.trim() || "",
+            contentType: contentType || (attachments.length > 0 && !content?.trim()
+              ? contentTypeForAttachments(attachments)
+              : "TEXT"),
+            replyToId: replyToId || null,
+            createdBy: session.user.id,
           },
-        },
-        replyTo: {
-          include: {
-            creator: {
-              select: {
-                id: true,
-                name: true,
-              },
+        })
+
+        if (attachments.length > 0) {
+          // Claim the uploads; another message may have taken one meanwhile
+          const { count } = await tx.attachment.updateMany({
+            where: {
+              id: { in: attachments.map(attachment => attachment.id) },
+              messageId: null,
             },
-          },
-        },
-      },
-    })
+            data: { messageId: created.id },
+          })
+
+          if (count !== attachments.length) {
+            throw new AttachmentError("Attachments were already sent with another message", 409)
+          }
+        }
+
+        return tx.message.findUniqueOrThrow({
+          where: { id: created.id },
+          include: messageInclude,
+        })
+      })
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return NextResponse.json({ error: error.message }, { status: error.status })
+      }
+      throw error
+    }
 
     // Update thread's updatedAt timestamp
-    await prisma.thread.update({
+    const updatedThread = await prisma.thread.update({
       where: { id: params.id },
       data: { updatedAt: new Date() },
     })
 
-    return NextResponse.json({
-      success: true,
-      message: {
+    const formattedMessage = formatMessage(message)
+
+    // Documented threads show how far the wiki page has fallen behind
+    const wikiPage = thread.isDocumented
+      ? await prisma.wikiPage.findUnique({ where: { threadId: params.id } })
+      : null
+
+    await publishRealtimeEvent("thread:message:new", {
+      threadId: params.id,
+      message: formattedMessage,
+    }, [threadRoom(params.id)])
+
+    await publishRealtimeEvent("thread:update", {
+      threadId: params.id,
+      // Ancestor ids so clients can roll the new message up into parent threads
+      path: thread.parentId ? (await getThreadAncestors(params.id)).map((ancestor) => ancestor.id) : [],
+      updatedAt: updatedThread.updatedAt,
+      ...(wikiPage && { undocumentedMessageCount: await countMessagesSinceSync(wikiPage) }),
+      lastMessage: {
         id: message.id,
         content: message.content,
-        contentType: message.contentType,
         createdAt: message.createdAt,
-        updatedAt: message.updatedAt,
-        replyToId: message.replyToId,
-        replyTo: message.replyTo ? {
-          id: message.replyTo.id,
-          content: message.replyTo.content,
-          createdAt: message.replyTo.createdAt,
-          createdBy: message.replyTo.creator,
-        } : null,
         createdBy: message.creator,
       },
+    }, [conversationRoom(thread.conversationId), threadRoom(params.id)])
+
+    // The message-count trigger is checked on every new message
+    if (thread.autoConvert && thread.convertAfter && !thread.isDocumented) {
+      await scheduleThreadAutoConvert(params.id).catch(error => {
+        console.error("Error scheduling thread auto-convert:", error)
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: formattedMessage,
     })
   } catch (error) {
     console.error("Error creating message:", error)
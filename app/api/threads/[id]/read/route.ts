@@ -0,0 +1,52 @@
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { getThreadAncestors, markThreadRead } from "@/lib/threads"
+import { NextRequest, NextResponse } from "next/server"
+
+// POST /api/threads/[id]/read - Mark a thread as read for the current user
+// Returns how many unread messages were cleared and the ancestors to subtract them from
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "read:conversations")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const thread = await prisma.thread.findUnique({
+      where: { id: params.id },
+      include: {
+        conversation: {
+          include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
+        },
+      },
+    })
+
+    if (!thread || !canAccessConversation(thread.conversation)) {
+      return NextResponse.json({ error: "Thread not found or access denied" }, { status: 404 })
+    }
+
+    const cleared = await markThreadRead(thread.id, session.user.id)
+    const ancestors = thread.parentId ? await getThreadAncestors(thread.id) : []
+
+    return NextResponse.json({
+      success: true,
+      cleared,
+      ancestorIds: ancestors.map((ancestor) => ancestor.id),
+    })
+  } catch (error) {
+    console.error("Error marking thread read:", error)
+    return NextResponse.json(
+      { error: "Failed to mark thread read" },
+      { status: 500 }
+    )
+  }
+}
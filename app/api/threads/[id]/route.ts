@@ -1,36 +1,38 @@
-import { auth } from "@/lib/auth"
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import { getThreadAutoConvertStatus } from "@/lib/jobs/thread-auto-convert"
 import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { formatMessage, getMessagePage } from "@/lib/messages"
+import { getThreadAncestors } from "@/lib/threads"
+import { countMessagesSinceSync } from "@/lib/wiki-pages"
 import { NextRequest, NextResponse } from "next/server"
 
-// GET /api/threads/[id] - Get thread details with messages
+// GET /api/threads/[id] - Get thread details with the newest page of messages
+// Pass around=<messageId> to open the thread at a specific message instead
 export async function GET(
   request: NextRequest,
   props: { params: Promise<{ id: string }> }
 ) {
   const params = await props.params;
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers
-    })
+    const session = await getRequestSession(request.headers, "read:conversations")
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const around = searchParams.get("around")
+    const limit = parseInt(searchParams.get("limit") || "50")
 
     const thread = await prisma.thread.findUnique({
       where: { id: params.id },
       include: {
         conversation: {
-          include: {
-            workspace: {
-              include: {
-                members: {
-                  where: {
-                    userId: session.user.id,
-                  },
-                },
-              },
-            },
-          },
+          include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
         },
         creator: {
           select: {
@@ -40,28 +42,17 @@ export async function GET(
             image: true,
           },
         },
-        messages: {
-          include: {
-            creator: {
-              select: {
-                id: true,
-                name: true,
-                image: true,
-              },
-            },
-            replyTo: {
-              include: {
-                creator: {
-                  select: {
-                    id: true,
-                    name: true,
-                  },
-                },
-              },
-            },
+        _count: {
+          select: {
+            messages: true,
           },
-          orderBy: {
-            createdAt: "asc",
+        },
+        branchedFrom: {
+          select: {
+            id: true,
+            threadId: true,
+            content: true,
+            deletedAt: true,
           },
         },
         wikiPage: {
@@ -77,38 +68,45 @@ export async function GET(
       },
     })
 
-    if (!thread || thread.conversation.workspace.members.length === 0) {
+    if (!thread || !canAccessConversation(thread.conversation)) {
       return NextResponse.json({ error: "Thread not found or access denied" }, { status: 404 })
     }
 
-    const formattedMessages = thread.messages.map((message) => ({
-      id: message.id,
-      content: message.content,
-      contentType: message.contentType,
-      createdAt: message.createdAt,
-      updatedAt: message.updatedAt,
-      editedAt: message.editedAt,
-      replyToId: message.replyToId,
-      replyTo: message.replyTo ? {
-        id: message.replyTo.id,
-        content: message.replyTo.content,
-        createdAt: message.replyTo.createdAt,
-        createdBy: message.replyTo.creator,
-      } : null,
-      createdBy: message.creator,
-    }))
+    const page = await getMessagePage(thread.id, {
+      around: around || undefined,
+      limit,
+    })
+
+    if (!page) {
+      return NextResponse.json({ error: "Message not found in this thread" }, { status: 404 })
+    }
+
+    const autoConvertJob = await getThreadAutoConvertStatus(thread.id)
+    const undocumentedMessageCount = thread.wikiPage ? await countMessagesSinceSync(thread.wikiPage) : 0
+    const ancestors = thread.parentId ? await getThreadAncestors(thread.id) : []
 
     return NextResponse.json({
       success: true,
       thread: {
         id: thread.id,
         title: thread.title,
+        parentId: thread.parentId,
+        // Breadcrumbs from the top-level thread down to the parent
+        ancestors,
+        branchedFrom: thread.branchedFrom ? {
+          id: thread.branchedFrom.id,
+          threadId: thread.branchedFrom.threadId,
+          content: thread.branchedFrom.deletedAt ? "" : thread.branchedFrom.content.slice(0, 200),
+        } : null,
         createdAt: thread.createdAt,
         updatedAt: thread.updatedAt,
         isDocumented: thread.isDocumented,
         autoConvert: thread.autoConvert,
         convertAfter: thread.convertAfter,
         convertWhen: thread.convertWhen,
+        autoConvertJob,
+        undocumentedMessageCount,
+        messageCount: thread._count.messages,
         createdBy: thread.creator,
         conversation: {
           id: thread.conversation.id,
@@ -123,9 +121,16 @@ export async function GET(
           isPublic: thread.wikiPage.isPublic,
           createdAt: thread.wikiPage.createdAt,
           updatedAt: thread.wikiPage.updatedAt,
+          syncedMessageAt: thread.wikiPage.syncedMessageAt,
           createdBy: thread.wikiPage.creator,
         } : null,
-        messages: formattedMessages,
+        messages: page.messages.map(formatMessage),
+      },
+      pageInfo: {
+        hasOlder: page.hasOlder,
+        hasNewer: page.hasNewer,
+        olderCursor: page.olderCursor,
+        newerCursor: page.newerCursor,
       },
     })
   } catch (error) {
@@ -1,5 +1,10 @@
-import { auth } from "@/lib/auth"
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import { getThreadAutoConvertStatus, scheduleThreadAutoConvert } from "@/lib/jobs/thread-auto-convert"
 import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { publishRealtimeEvent } from "@/lib/realtime/publisher"
+import { conversationRoom, threadRoom } from "@/lib/realtime/rooms"
 import { NextRequest, NextResponse } from "next/server"
 
 // PUT /api/threads/[id]/settings - Update thread auto-convert settings
@@ -9,12 +14,13 @@ export async function PUT(
 ) {
   const params = await props.params;
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers
-    })
+    const session = await getRequestSession(request.headers, "write:conversations")
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
 
     const body = await request.json()
     const { autoConvert, convertAfter, convertWhen } = body
@@ -24,22 +30,12 @@ export async function PUT(
       where: { id: params.id },
       include: {
         conversation: {
-          include: {
-            workspace: {
-              include: {
-                members: {
-                  where: {
-                    userId: session.user.id,
-                  },
-                },
-              },
-            },
-          },
+          include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
         },
       },
     })
 
-    if (!thread || thread.conversation.workspace.members.length === 0) {
+    if (!thread || !canAccessConversation(thread.conversation)) {
       return NextResponse.json({ error: "Thread not found or access denied" }, { status: 404 })
     }
 
@@ -53,14 +49,19 @@ export async function PUT(
       autoConvert: Boolean(autoConvert),
     }
 
-    if (convertAfter !== undefined && convertAfter !== null) {
+    // null clears a trigger, e.g. when switching from message count to time
+    if (convertAfter === null) {
+      updateData.convertAfter = null
+    } else if (convertAfter !== undefined) {
       if (convertAfter < 1 || convertAfter > 100) {
         return NextResponse.json({ error: "convertAfter must be between 1 and 100" }, { status: 400 })
       }
       updateData.convertAfter = convertAfter
     }
 
-    if (convertWhen !== undefined && convertWhen !== null) {
+    if (convertWhen === null) {
+      updateData.convertWhen = null
+    } else if (convertWhen !== undefined) {
       const convertWhenDate = new Date(convertWhen)
       if (isNaN(convertWhenDate.getTime())) {
         return NextResponse.json({ error: "convertWhen must be a valid date" }, { status: 400 })
@@ -89,6 +90,19 @@ export async function PUT(
       },
     })
 
+    // Queue, move or cancel the conversion job to match the new settings
+    await scheduleThreadAutoConvert(params.id)
+    const autoConvertJob = await getThreadAutoConvertStatus(params.id)
+
+    await publishRealtimeEvent("thread:update", {
+      threadId: params.id,
+      autoConvert: updatedThread.autoConvert,
+      convertAfter: updatedThread.convertAfter,
+      convertWhen: updatedThread.convertWhen,
+      autoConvertJob: autoConvertJob,
+      updatedAt: updatedThread.updatedAt,
+    }, [conversationRoom(thread.conversationId), threadRoom(params.id)])
+
     return NextResponse.json({
       success: true,
       thread: {
@@ -97,6 +111,7 @@ export async function PUT(
         autoConvert: updatedThread.autoConvert,
         convertAfter: updatedThread.convertAfter,
         convertWhen: updatedThread.convertWhen,
+        autoConvertJob: autoConvertJob,
         updatedAt: updatedThread.updatedAt,
       },
     })
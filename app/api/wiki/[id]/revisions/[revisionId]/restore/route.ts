@@ -0,0 +1,126 @@
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { saveWikiPageVersion, wikiPageAuditFields } from "@/lib/wiki-pages"
+import { recordAuditLog } from "@/lib/audit-log"
+import { NextRequest, NextResponse } from "next/server"
+
+// POST /api/wiki/[id]/revisions/[revisionId]/restore - Make an old revision the current version
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "write:wiki")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    // version is the one the restore was picked from, same as an edit in PUT /api/wiki/[id]
+    const body = await request.json().catch(() => ({}))
+    const { version } = body
+
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json({ error: "version must be a positive integer" }, { status: 400 })
+    }
+
+    const revision = await prisma.wikiPageRevision.findUnique({
+      where: { id: params.revisionId },
+      include: {
+        wikiPage: {
+          include: {
+            thread: {
+              include: {
+                conversation: {
+                  include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
+                },
+              },
+            },
+          },
+        },
+      },
+    })
+
+    if (
+      !revision ||
+      revision.wikiPageId !== params.id ||
+      !canAccessConversation(revision.wikiPage.thread.conversation)
+    ) {
+      return NextResponse.json({ error: "Revision not found or access denied" }, { status: 404 })
+    }
+
+    // Same rule as PUT /api/wiki/[id]: only creator or workspace admin can edit
+    const member = revision.wikiPage.thread.conversation.workspace.members[0]
+    const canEdit = revision.wikiPage.createdBy === session.user.id ||
+      member.role === "OWNER" ||
+      member.role === "ADMIN"
+
+    if (!canEdit) {
+      return NextResponse.json({ error: "Insufficient permissions to edit wiki page" }, { status: 403 })
+    }
+
+    if (revision.version === revision.wikiPage.version) {
+      return NextResponse.json({ error: "This revision is already the current version" }, { status: 400 })
+    }
+
+    // Restoring adds a new version, so the history keeps what is being replaced
+    const restored = await saveWikiPageVersion(params.id, version, {
+      title: revision.title,
+      content: revision.content,
+      summary: revision.summary,
+      tags: revision.tags,
+      category: revision.category,
+    }, session.user.id, "restore")
+
+    if (!restored) {
+      const current = await prisma.wikiPage.findUnique({
+        where: { id: params.id },
+        select: { version: true },
+      })
+      return NextResponse.json({
+        error: "This page was changed by someone else. Reload to get the latest version.",
+        currentVersion: current?.version,
+      }, { status: 409 })
+    }
+
+    await recordAuditLog(request.headers, {
+      action: "wiki_page.restore",
+      targetType: "wiki_page",
+      targetId: restored.id,
+      targetLabel: restored.title,
+      workspaceId: revision.wikiPage.thread.conversation.workspaceId,
+      before: wikiPageAuditFields(revision.wikiPage),
+      after: { ...wikiPageAuditFields(restored), restoredVersion: revision.version },
+    })
+
+    return NextResponse.json({
+      success: true,
+      restoredVersion: revision.version,
+      wikiPage: {
+        id: restored.id,
+        title: restored.title,
+        content: restored.content,
+        summary: restored.summary,
+        tags: restored.tags,
+        category: restored.category,
+        isPublic: restored.isPublic,
+        createdAt: restored.createdAt,
+        updatedAt: restored.updatedAt,
+        version: restored.version,
+        createdBy: restored.creator,
+        threadId: restored.threadId,
+      },
+    })
+  } catch (error) {
+    console.error("Error restoring wiki page revision:", error)
+    return NextResponse.json(
+      { error: "Failed to restore wiki page revision" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { NextRequest, NextResponse } from "next/server"
+
+// GET /api/wiki/[id]/revisions/[revisionId] - Full content of one revision
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "read:wiki")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const revision = await prisma.wikiPageRevision.findUnique({
+      where: { id: params.revisionId },
+      include: {
+        editor: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+        wikiPage: {
+          include: {
+            thread: {
+              include: {
+                conversation: {
+                  include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
+                },
+              },
+            },
+          },
+        },
+      },
+    })
+
+    if (
+      !revision ||
+      revision.wikiPageId !== params.id ||
+      !canAccessConversation(revision.wikiPage.thread.conversation)
+    ) {
+      return NextResponse.json({ error: "Revision not found or access denied" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      revision: {
+        id: revision.id,
+        version: revision.version,
+        title: revision.title,
+        content: revision.content,
+        summary: revision.summary,
+        tags: revision.tags,
+        category: revision.category,
+        reason: revision.reason,
+        createdAt: revision.createdAt,
+        editedBy: revision.editor,
+      },
+    })
+  } catch (error) {
+    console.error("Error fetching wiki page revision:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch wiki page revision" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
+import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { NextRequest, NextResponse } from "next/server"
+
+// GET /api/wiki/[id]/revisions - Version history of a wiki page, newest first
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params;
+  try {
+    const session = await getRequestSession(request.headers, "read:wiki")
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
+
+    const wikiPage = await prisma.wikiPage.findUnique({
+      where: { id: params.id },
+      include: {
+        thread: {
+          include: {
+            conversation: {
+              include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
+            },
+          },
+        },
+        revisions: {
+          select: {
+            id: true,
+            version: true,
+            title: true,
+            reason: true,
+            createdAt: true,
+            editor: {
+              select: {
+                id: true,
+                name: true,
+                image: true,
+              },
+            },
+          },
+          orderBy: {
+            version: "desc",
+          },
+        },
+      },
+    })
+
+    if (!wikiPage || !canAccessConversation(wikiPage.thread.conversation)) {
+      return NextResponse.json({ error: "Wiki page not found or access denied" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      currentVersion: wikiPage.version,
+      revisions: wikiPage.revisions.map((revision) => ({
+        id: revision.id,
+        version: revision.version,
+        title: revision.title,
+        reason: revision.reason,
+        createdAt: revision.createdAt,
+        editedBy: revision.editor,
+      })),
+    })
+  } catch (error) {
+    console.error("Error fetching wiki page revisions:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch wiki page revisions" },
+      { status: 500 }
+    )
+  }
+}
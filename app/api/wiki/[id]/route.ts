@@ -1,5 +1,9 @@
-import { auth } from "@/lib/auth"
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
 import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { saveWikiPageVersion, wikiPageAuditFields, wikiPageInclude } from "@/lib/wiki-pages"
+import { recordAuditLog } from "@/lib/audit-log"
 import { NextRequest, NextResponse } from "next/server"
 
 // GET /api/wiki/[id] - Get specific wiki page
@@ -9,12 +13,13 @@ export async function GET(
 ) {
   const params = await props.params;
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers
-    })
+    const session = await getRequestSession(request.headers, "read:wiki")
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
 
     const wikiPage = await prisma.wikiPage.findUnique({
       where: { id: params.id },
@@ -30,24 +35,14 @@ export async function GET(
         thread: {
           include: {
             conversation: {
-              include: {
-                workspace: {
-                  include: {
-                    members: {
-                      where: {
-                        userId: session.user.id,
-                      },
-                    },
-                  },
-                },
-              },
+              include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
             },
           },
         },
       },
     })
 
-    if (!wikiPage || wikiPage.thread.conversation.workspace.members.length === 0) {
+    if (!wikiPage || !canAccessConversation(wikiPage.thread.conversation)) {
       return NextResponse.json({ error: "Wiki page not found or access denied" }, { status: 404 })
     }
 
@@ -63,6 +58,7 @@ export async function GET(
         isPublic: wikiPage.isPublic,
         createdAt: wikiPage.createdAt,
         updatedAt: wikiPage.updatedAt,
+        version: wikiPage.version,
         createdBy: wikiPage.creator,
         threadId: wikiPage.threadId,
         conversation: {
@@ -87,15 +83,21 @@ export async function PUT(
 ) {
   const params = await props.params;
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers
-    })
+    const session = await getRequestSession(request.headers, "write:wiki")
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
 
     const body = await request.json()
-    const { title, content, summary, tags, category, isPublic } = body
+    // version is the revision the edit was based on, used to reject stale saves
+    const { title, content, summary, tags, category, isPublic, version } = body
+
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      return NextResponse.json({ error: "version must be a positive integer" }, { status: 400 })
+    }
 
     // Get the wiki page with access checks
     const wikiPage = await prisma.wikiPage.findUnique({
@@ -104,24 +106,14 @@ export async function PUT(
         thread: {
           include: {
             conversation: {
-              include: {
-                workspace: {
-                  include: {
-                    members: {
-                      where: {
-                        userId: session.user.id,
-                      },
-                    },
-                  },
-                },
-              },
+              include: conversationAccessInclude(session.user.id, session.apiKey?.workspaceId),
             },
           },
         },
       },
     })
 
-    if (!wikiPage || wikiPage.thread.conversation.workspace.members.length === 0) {
+    if (!wikiPage || !canAccessConversation(wikiPage.thread.conversation)) {
       return NextResponse.json({ error: "Wiki page not found or access denied" }, { status: 404 })
     }
 
@@ -170,19 +162,56 @@ export async function PUT(
       updateData.isPublic = Boolean(isPublic)
     }
 
-    const updatedWikiPage = await prisma.wikiPage.update({
+    // Visibility is not part of the page history
+    const { isPublic: visibility, ...versionedChanges } = updateData
+    const baseVersion = version ?? wikiPage.version
+
+    if (Object.keys(versionedChanges).length > 0) {
+      // Without a version the edit would silently overwrite newer ones
+      if (version === undefined) {
+        return NextResponse.json({ error: "version is required when editing a wiki page" }, { status: 400 })
+      }
+
+      const saved = await saveWikiPageVersion(params.id, baseVersion, versionedChanges, session.user.id, "edit")
+
+      if (!saved) {
+        const current = await prisma.wikiPage.findUnique({
+          where: { id: params.id },
+          select: { version: true },
+        })
+        return NextResponse.json({
+          error: "This page was changed by someone else since you started editing. Reload to get the latest version.",
+          currentVersion: current?.version,
+        }, { status: 409 })
+      }
+    } else if (baseVersion !== wikiPage.version) {
+      return NextResponse.json({
+        error: "This page was changed by someone else since you started editing. Reload to get the latest version.",
+        currentVersion: wikiPage.version,
+      }, { status: 409 })
+    }
+
+    if (visibility !== undefined) {
+      await prisma.wikiPage.update({
+        where: { id: params.id },
+        data: { isPublic: visibility },
+      })
+    }
+
+    const updatedWikiPage = await prisma.wikiPage.findUniqueOrThrow({
       where: { id: params.id },
-      data: updateData,
-      include: {
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
-          },
-        },
-      },
+      include: wikiPageInclude,
+    })
+
+    await recordAuditLog(request.headers, {
+      // Publishing or unpublishing alone is listed apart from edits
+      action: Object.keys(versionedChanges).length > 0 ? "wiki_page.update" : "wiki_page.visibility_update",
+      targetType: "wiki_page",
+      targetId: wikiPage.id,
+      targetLabel: updatedWikiPage.title,
+      workspaceId: wikiPage.thread.conversation.workspaceId,
+      before: wikiPageAuditFields(wikiPage),
+      after: wikiPageAuditFields(updatedWikiPage),
     })
 
     return NextResponse.json({
@@ -197,6 +226,7 @@ export async function PUT(
         isPublic: updatedWikiPage.isPublic,
         createdAt: updatedWikiPage.createdAt,
         updatedAt: updatedWikiPage.updatedAt,
+        version: updatedWikiPage.version,
         createdBy: updatedWikiPage.creator,
         threadId: updatedWikiPage.threadId,
       },
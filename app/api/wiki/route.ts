@@ -1,73 +1,45 @@
-import { auth } from "@/lib/auth"
+import { getRequestSession } from "@/lib/api-keys"
+import { SESSION_RESTRICTION_ERRORS } from "@/lib/session-access"
 import prisma from "@/lib/prisma"
+import { accessibleConversationWhere } from "@/lib/conversations"
+import { rankSearchHits } from "@/lib/search"
+import { getActiveWorkspace } from "@/lib/workspace-context"
 import { NextRequest, NextResponse } from "next/server"
 
 // GET /api/wiki - Get all wiki pages for workspace
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers
-    })
+    const session = await getRequestSession(request.headers, "read:wiki")
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+    if (session.restriction) {
+      return NextResponse.json({ error: SESSION_RESTRICTION_ERRORS[session.restriction] }, { status: 403 })
+    }
 
     const { searchParams } = new URL(request.url)
-    const workspaceId = searchParams.get("workspaceId")
     const search = searchParams.get("search")
     const tags = searchParams.get("tags")?.split(",").filter(Boolean)
     const category = searchParams.get("category")
     const limit = parseInt(searchParams.get("limit") || "50")
     const offset = parseInt(searchParams.get("offset") || "0")
 
-    if (!workspaceId) {
-      return NextResponse.json({ error: "Workspace ID is required" }, { status: 400 })
-    }
-
-    // Check if user has access to this workspace
-    const workspaceMember = await prisma.workspaceMember.findFirst({
-      where: {
-        workspaceId,
-        userId: session.user.id,
-      },
-    })
-
-    if (!workspaceMember) {
-      return NextResponse.json({ error: "Access denied" }, { status: 403 })
+    const active = await getActiveWorkspace(session)
+    if (!active) {
+      return NextResponse.json({ error: "No workspace found" }, { status: 404 })
     }
+    const workspaceId = active.workspace.id
 
     // Build where clause
     const whereClause: any = {
       thread: {
         conversation: {
           workspaceId: workspaceId,
+          ...accessibleConversationWhere(session.user.id, session.apiKey?.workspaceId),
         },
       },
     }
 
-    if (search) {
-      whereClause.OR = [
-        {
-          title: {
-            contains: search,
-            mode: "insensitive",
-          },
-        },
-        {
-          content: {
-            contains: search,
-            mode: "insensitive",
-          },
-        },
-        {
-          summary: {
-            contains: search,
-            mode: "insensitive",
-          },
-        },
-      ]
-    }
-
     if (tags && tags.length > 0) {
       whereClause.tags = {
         hasSome: tags,
@@ -81,6 +53,25 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // A search ranks matches with the full-text index, which also applies
+    // the tag and category filters and pagination
+    const rankedIds = search
+      ? (await rankSearchHits({
+          workspaceId,
+          userId: session.user.id,
+          query: search,
+          types: ["wiki"],
+          tags,
+          category: category || undefined,
+          limit,
+          offset,
+        })).map((hit) => hit.id)
+      : null
+
+    if (rankedIds) {
+      whereClause.id = { in: rankedIds }
+    }
+
     const wikiPages = await prisma.wikiPage.findMany({
       where: whereClause,
       include: {
@@ -106,10 +97,13 @@ export async function GET(request: NextRequest) {
       orderBy: {
         updatedAt: "desc",
       },
-      take: limit,
-      skip: offset,
+      ...(rankedIds ? {} : { take: limit, skip: offset }),
     })
 
+    if (rankedIds) {
+      wikiPages.sort((a, b) => rankedIds.indexOf(a.id) - rankedIds.indexOf(b.id))
+    }
+
     const formattedWikiPages = wikiPages.map((wiki) => ({
       id: wiki.id,
       title: wiki.title,
@@ -0,0 +1,17 @@
+import { redirect } from "next/navigation";
+import { ConfirmEmailChangeClient } from "@/components/emails/confirm-email-change-client";
+
+interface ConfirmEmailChangePageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+// Linked from both email change confirmations; works without signing in
+export default async function ConfirmEmailChangePage({ searchParams }: ConfirmEmailChangePageProps) {
+  const params = await searchParams;
+
+  if (!params.token) {
+    redirect("/");
+  }
+
+  return <ConfirmEmailChangeClient token={params.token} />;
+}
@@ -0,0 +1,113 @@
+import { auth } from "@/lib/auth"
+import { headers } from "next/headers"
+import { notFound, redirect } from "next/navigation"
+import prisma from "@/lib/prisma"
+import {
+  canAccessConversation,
+  conversationAccessInclude,
+  conversationCountInclude,
+  conversationUrl,
+  formatConversation,
+} from "@/lib/conversations"
+import { listConversations } from "@/lib/dashboard"
+import { setActiveWorkspace } from "@/lib/workspace-context"
+import { ConversationDashboard } from "@/components/conversations/ConversationDashboard"
+
+// Also renders /dashboard/c/<conversationId>/t/<threadId>, where the
+// dashboard opens the thread named in the path
+export default async function ConversationPage(props: {
+  params: Promise<{ conversationId: string; threadId?: string }>
+}) {
+  const params = await props.params;
+  const session = await auth.api.getSession({
+    headers: await headers()
+  })
+  if (!session?.user?.id) {
+    redirect("/")
+  }
+
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: params.conversationId },
+    include: {
+      ...conversationAccessInclude(session.user.id),
+      ...conversationCountInclude,
+    },
+  })
+
+  if (!conversation || !canAccessConversation(conversation)) {
+    notFound()
+  }
+
+  if (params.threadId) {
+    const thread = await prisma.thread.findUnique({
+      where: { id: params.threadId },
+      select: { conversationId: true },
+    })
+
+    if (!thread) {
+      notFound()
+    }
+
+    // Keep links working after a thread is opened from the wrong conversation
+    if (thread.conversationId !== conversation.id) {
+      redirect(conversationUrl(thread.conversationId, params.threadId))
+    }
+  }
+
+  // A link into another of the user's workspaces switches this session to it,
+  // so the sidebar and API routes agree with the channel on screen
+  if (conversation.workspaceId !== session.session.activeWorkspaceId) {
+    await setActiveWorkspace(session, conversation.workspaceId)
+  }
+
+  const [channels, members] = await Promise.all([
+    listConversations(conversation.workspaceId, session.user.id),
+    prisma.workspaceMember.findMany({
+      where: { workspaceId: conversation.workspaceId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    }),
+  ])
+
+  const role = conversation.workspace.members[0].role
+  const formatted = formatConversation(conversation)
+
+  return (
+    <div className="h-full">
+      <ConversationDashboard
+        // Start fresh when moving between channels
+        key={conversation.id}
+        workspaceId={conversation.workspaceId}
+        initialConversation={{
+          ...formatted,
+          archivedAt: formatted.archivedAt?.toISOString() || null,
+          createdAt: formatted.createdAt.toISOString(),
+          updatedAt: formatted.updatedAt.toISOString(),
+          lastActivity: formatted.lastActivity.toISOString(),
+        }}
+        initialChannels={channels.map((channel) => ({
+          ...channel,
+          archivedAt: channel.archivedAt?.toISOString() || null,
+          lastActivity: channel.lastActivity.toISOString(),
+        }))}
+        workspaceMembers={members.map((member) => ({
+          id: member.user.id,
+          name: member.user.name || member.user.email,
+        }))}
+        currentUser={{
+          id: session.user.id,
+          name: session.user.name || "User",
+          image: session.user.image || undefined,
+        }}
+        canModerate={role === "OWNER" || role === "ADMIN"}
+      />
+    </div>
+  )
+}
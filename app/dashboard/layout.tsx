@@ -5,6 +5,12 @@ import { getCurrentUser } from "../actions/user";
 import { toSidebarUser } from "@/types/user";
 import { getImpersonationStatus } from "@/app/actions/admin/impersonate";
 import { ImpersonationBanner } from "@/components/impersonation-banner";
+import { EmailVerificationBanner } from "@/components/email-verification-banner";
+import { verifyEmailRedirect } from "@/lib/email-verification";
+import { getCurrentWorkspace, getUserWorkspaces } from "@/app/actions/workspace-settings";
+import { getSessionRestriction } from "@/lib/session-access";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 
 export const dynamic = 'force-dynamic';
@@ -21,13 +27,39 @@ export default async function DashboardLayout({
     redirect("/sign-in");
   }
 
+  // Routes and actions turn restricted sessions away too, see lib/session-access.ts
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  const restriction = session ? await getSessionRestriction(session) : null;
+
+  // Accounts waiting to be deleted can only be restored
+  if (restriction === "pending_deletion") {
+    redirect("/account-deletion");
+  }
+
+  // Hold back unverified users when EMAIL_VERIFICATION_POLICY=dashboard
+  if (restriction === "email_verification") {
+    redirect(verifyEmailRedirect("/dashboard"));
+  }
+
   // Redirect to onboarding if user hasn't completed it
   if (!currentUser.onboardingCompleted) {
     redirect("/onboarding");
   }
 
+  // Members of a workspace that requires 2FA need a session that passed it
+  if (restriction === "two_factor") {
+    redirect("/two-factor/setup");
+  }
+
   const user = toSidebarUser(currentUser);
 
+  const [workspacesResult, activeWorkspaceResult] = await Promise.all([
+    getUserWorkspaces(),
+    getCurrentWorkspace(),
+  ]);
+
   // Check impersonation status
   const impersonationResult = await getImpersonationStatus();
   const impersonationStatus = impersonationResult.success
@@ -43,11 +75,19 @@ export default async function DashboardLayout({
         } as React.CSSProperties
       }
     >
-      <AppSidebar variant="inset" user={user} />
+      <AppSidebar
+        variant="inset"
+        user={user}
+        workspaces={workspacesResult.data ?? []}
+        activeWorkspaceId={activeWorkspaceResult.data?.id}
+      />
       <SidebarInset>
         {impersonationStatus && (
           <ImpersonationBanner impersonationStatus={impersonationStatus} />
         )}
+        {!currentUser.emailVerified && (
+          <EmailVerificationBanner email={currentUser.email} />
+        )}
         <SiteHeader />
         {children}
       </SidebarInset>
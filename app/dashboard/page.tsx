@@ -1,95 +1,42 @@
 import { auth } from "@/lib/auth"
 import { headers } from "next/headers"
+import { redirect } from "next/navigation"
 import prisma from "@/lib/prisma"
-import { ConversationDashboard } from "@/components/conversations/ConversationDashboard"
+import { conversationUrl } from "@/lib/conversations"
+import { getDefaultConversation } from "@/lib/dashboard"
+import { getActiveWorkspace } from "@/lib/workspace-context"
+import { ChannelSidebar } from "@/components/conversations/ChannelSidebar"
+import { MessageCircle } from "lucide-react"
 
-async function getWorkspaceData() {
-  const session = await auth.api.getSession({
-    headers: await headers()
-  })
-  if (!session?.user?.id) {
-    return null
-  }
-
-  // Get user's default workspace or first workspace
-  const userWithWorkspaces = await prisma.user.findUnique({
-    where: { id: session.user.id },
-    include: {
-      defaultWorkspace: true,
-      workspaces: {
-        include: {
-          workspace: true,
-        },
-      },
-    },
+// Links from before conversations had their own URLs: ?thread=<id>&message=<id>
+async function legacyThreadUrl(threadId: string, messageId?: string) {
+  const thread = await prisma.thread.findUnique({
+    where: { id: threadId },
+    select: { conversationId: true },
   })
 
-  if (!userWithWorkspaces) {
-    return null
-  }
-
-  const workspace = userWithWorkspaces.defaultWorkspace ||
-    userWithWorkspaces.workspaces[0]?.workspace
-
-  if (!workspace) {
+  if (!thread) {
     return null
   }
 
-  // Create a default conversation if none exists
-  let conversation = await prisma.conversation.findFirst({
-    where: { workspaceId: workspace.id },
-    include: {
-      _count: {
-        select: {
+  const url = conversationUrl(thread.conversationId, threadId)
+  return messageId ? `${url}?${new URLSearchParams({ message: messageId })}` : url
+}
 
-          threads: true,
-        },
-      },
-    },
+export default async function Home(props: {
+  searchParams: Promise<{ thread?: string; message?: string }>
+}) {
+  const searchParams = await props.searchParams;
+  const session = await auth.api.getSession({
+    headers: await headers()
   })
-
-  if (!conversation) {
-    conversation = await prisma.conversation.create({
-      data: {
-        workspaceId: workspace.id,
-        title: "General Discussion",
-      },
-      include: {
-        _count: {
-          select: {
-
-            threads: true,
-          },
-        },
-      },
-    })
-  }
-
-  return {
-    workspaceId: workspace.id,
-    workspaceName: workspace.name,
-    conversation: {
-      id: conversation.id,
-      title: conversation.title || "General Discussion",
-      createdAt: conversation.createdAt.toISOString(),
-      updatedAt: conversation.updatedAt.toISOString(),
-      messageCount: 0,
-      threadCount: conversation._count.threads,
-      lastActivity: conversation.updatedAt.toISOString(),
-    },
-    user: {
-      id: session.user.id,
-      name: session.user.name || "User",
-      email: session.user.email || "",
-      image: session.user.image,
-    },
+  if (!session?.user?.id) {
+    redirect("/")
   }
-}
 
-export default async function Home() {
-  const data = await getWorkspaceData()
+  const dashboard = await getActiveWorkspace(session)
 
-  if (!data) {
+  if (!dashboard) {
     return (
       <div className="flex items-center justify-center min-h-[calc(100vh-200px)] p-8">
         <div className="text-center">
@@ -100,12 +47,53 @@ export default async function Home() {
     )
   }
 
+  if (searchParams.thread) {
+    const url = await legacyThreadUrl(searchParams.thread, searchParams.message)
+    if (url) {
+      redirect(url)
+    }
+  }
+
+  const conversation = await getDefaultConversation(dashboard.workspace.id, session.user.id)
+
+  if (conversation) {
+    redirect(conversationUrl(conversation.id))
+  }
+
+  // Every channel is archived: offer the sidebar to create or restore one
+  const members = await prisma.workspaceMember.findMany({
+    where: { workspaceId: dashboard.workspace.id },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  })
+
   return (
-    <div className="h-full">
-      <ConversationDashboard
-        workspaceId={data.workspaceId}
-        initialConversation={data.conversation}
+    <div className="flex h-full">
+      <ChannelSidebar
+        channels={[]}
+        currentUserId={session.user.id}
+        canModerate={dashboard.role === "OWNER" || dashboard.role === "ADMIN"}
+        workspaceMembers={members.map((member) => ({
+          id: member.user.id,
+          name: member.user.name || member.user.email,
+        }))}
       />
+      <div className="flex-1 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <MessageCircle className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No active channels</h3>
+          <p className="text-muted-foreground">
+            Create a channel or restore an archived one to get the conversation going again.
+          </p>
+        </div>
+      </div>
     </div>
   )
 }
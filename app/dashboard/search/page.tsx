@@ -1,9 +1,91 @@
-import { DashboardProEmptyState } from "@/components/dashboard/empty-state-pro"
+import { auth } from "@/lib/auth"
+import { headers } from "next/headers"
+import { redirect } from "next/navigation"
+import prisma from "@/lib/prisma"
+import { accessibleConversationWhere } from "@/lib/conversations"
+import { getActiveWorkspace } from "@/lib/workspace-context"
+import { WorkspaceSearch } from "@/components/search/WorkspaceSearch"
+
+async function getSearchData() {
+  const session = await auth.api.getSession({
+    headers: await headers()
+  })
+  if (!session?.user?.id) {
+    redirect("/")
+  }
+
+  const active = await getActiveWorkspace(session)
+
+  if (!active) {
+    return null
+  }
+
+  const { workspace } = active
+
+  const [members, wikiPages] = await Promise.all([
+    prisma.workspaceMember.findMany({
+      where: { workspaceId: workspace.id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    }),
+    prisma.wikiPage.findMany({
+      where: {
+        thread: {
+          conversation: {
+            workspaceId: workspace.id,
+            ...accessibleConversationWhere(session.user.id),
+          },
+        },
+      },
+      select: { tags: true },
+    }),
+  ])
+
+  return {
+    members: members.map((member) => ({
+      id: member.user.id,
+      name: member.user.name || member.user.email,
+    })),
+    tags: Array.from(new Set(wikiPages.flatMap((page) => page.tags))).sort(),
+  }
+}
+
+export default async function SearchPage() {
+  const data = await getSearchData()
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center min-h-[calc(100vh-200px)] p-8">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Welcome to Your Workspace</h1>
+          <p className="text-muted-foreground">Please set up your workspace to get started.</p>
+        </div>
+      </div>
+    )
+  }
 
-export default function SearchPage() {
   return (
-    <div className="flex items-center justify-center min-h-[calc(100vh-200px)] p-8">
-      <DashboardProEmptyState />
+    <div className="container mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="flex flex-col gap-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Search</h1>
+          <p className="text-muted-foreground mt-1">
+            Find messages, threads and wiki pages across your workspace
+          </p>
+        </div>
+
+        <WorkspaceSearch
+          members={data.members}
+          tags={data.tags}
+        />
+      </div>
     </div>
   )
 }
@@ -0,0 +1,75 @@
+import { auth } from "@/lib/auth"
+import { headers } from "next/headers"
+import { notFound, redirect } from "next/navigation"
+import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+import { WikiPageDetail } from "@/components/wiki/WikiPageDetail"
+
+export default async function WikiPage(props: { params: Promise<{ id: string }> }) {
+  const params = await props.params;
+  const session = await auth.api.getSession({
+    headers: await headers()
+  })
+  if (!session?.user?.id) {
+    redirect("/")
+  }
+
+  const wikiPage = await prisma.wikiPage.findUnique({
+    where: { id: params.id },
+    include: {
+      creator: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          image: true,
+        },
+      },
+      thread: {
+        include: {
+          conversation: {
+            include: conversationAccessInclude(session.user.id),
+          },
+        },
+      },
+    },
+  })
+
+  if (!wikiPage || !canAccessConversation(wikiPage.thread.conversation)) {
+    notFound()
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <WikiPageDetail
+        wikiPage={{
+          id: wikiPage.id,
+          title: wikiPage.title,
+          content: wikiPage.content,
+          summary: wikiPage.summary || undefined,
+          tags: wikiPage.tags,
+          category: wikiPage.category || undefined,
+          isPublic: wikiPage.isPublic,
+          createdAt: wikiPage.createdAt.toISOString(),
+          updatedAt: wikiPage.updatedAt.toISOString(),
+          version: wikiPage.version,
+          createdBy: {
+            id: wikiPage.creator.id,
+            name: wikiPage.creator.name || "Unknown User",
+            email: wikiPage.creator.email,
+            image: wikiPage.creator.image || undefined,
+          },
+          threadId: wikiPage.threadId,
+          conversation: {
+            id: wikiPage.thread.conversation.id,
+            title: wikiPage.thread.conversation.title || "Untitled Conversation",
+          },
+        }}
+        currentUser={{
+          id: session.user.id,
+          name: session.user.name || "User",
+        }}
+      />
+    </div>
+  )
+}
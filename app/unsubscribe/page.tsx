@@ -0,0 +1,17 @@
+import { redirect } from "next/navigation";
+import { UnsubscribeClient } from "@/components/emails/unsubscribe-client";
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+// Linked from the footer of lifecycle emails; works without signing in
+export default async function UnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const params = await searchParams;
+
+  if (!params.token) {
+    redirect("/");
+  }
+
+  return <UnsubscribeClient token={params.token} />;
+}
@@ -0,0 +1,82 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { AdminAnalytics, AnalyticsBreakdownRow } from "@/types/admin";
+
+const BREAKDOWN_LABELS: Record<keyof AdminAnalytics["breakdowns"], string> = {
+  role: "Role",
+  useCase: "Use case",
+  discoverySource: "Discovery source",
+};
+
+function percent(part: number, whole: number): string {
+  return whole === 0 ? "0%" : `${Math.round((part / whole) * 100)}%`;
+}
+
+function BreakdownTable({ rows, label }: { rows: AnalyticsBreakdownRow[]; label: string }) {
+  if (rows.length === 0) {
+    return <p className="py-4 text-sm text-muted-foreground">No onboarded users yet</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Users</TableHead>
+          <TableHead className="text-right">Started a thread</TableHead>
+          <TableHead className="text-right">Created a wiki page</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.value}>
+            <TableCell className="capitalize">
+              {row.value || <span className="text-muted-foreground normal-case">Not answered</span>}
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{row.users}</TableCell>
+            <TableCell className="text-right tabular-nums">
+              {row.firstThread}{" "}
+              <span className="text-muted-foreground">({percent(row.firstThread, row.users)})</span>
+            </TableCell>
+            <TableCell className="text-right tabular-nums">
+              {row.firstWikiPage}{" "}
+              <span className="text-muted-foreground">({percent(row.firstWikiPage, row.users)})</span>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface AnalyticsBreakdownsProps {
+  breakdowns: AdminAnalytics["breakdowns"];
+}
+
+export function AnalyticsBreakdowns({ breakdowns }: AnalyticsBreakdownsProps) {
+  const fields = Object.keys(BREAKDOWN_LABELS) as Array<keyof AdminAnalytics["breakdowns"]>;
+
+  return (
+    <Tabs defaultValue="role">
+      <TabsList>
+        {fields.map((field) => (
+          <TabsTrigger key={field} value={field}>
+            {BREAKDOWN_LABELS[field]}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+      {fields.map((field) => (
+        <TabsContent key={field} value={field}>
+          <BreakdownTable rows={breakdowns[field]} label={BREAKDOWN_LABELS[field]} />
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+}
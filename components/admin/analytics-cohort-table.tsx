@@ -0,0 +1,64 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDate } from "@/lib/format";
+import type { AnalyticsCohort } from "@/types/admin";
+
+interface AnalyticsCohortTableProps {
+  cohorts: AnalyticsCohort[];
+  weeks: number;
+}
+
+export function AnalyticsCohortTable({ cohorts, weeks }: AnalyticsCohortTableProps) {
+  if (cohorts.length === 0) {
+    return <p className="text-sm text-muted-foreground">No signups in this period</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Signup week</TableHead>
+          <TableHead className="text-right">Users</TableHead>
+          {Array.from({ length: weeks }, (_, week) => (
+            <TableHead key={week} className="text-center">
+              W{week}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {cohorts.map((cohort) => (
+          <TableRow key={cohort.week}>
+            <TableCell className="whitespace-nowrap">
+              {formatDate(`${cohort.week}T00:00:00Z`, { month: "short", timeZone: "UTC" })}
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{cohort.users}</TableCell>
+            {Array.from({ length: weeks }, (_, week) => {
+              if (week >= cohort.active.length) {
+                return <TableCell key={week} />;
+              }
+
+              const share = cohort.users === 0 ? 0 : cohort.active[week] / cohort.users;
+              return (
+                <TableCell
+                  key={week}
+                  className="text-center text-xs tabular-nums"
+                  style={{ backgroundColor: `color-mix(in oklch, var(--primary) ${Math.round(share * 60)}%, transparent)` }}
+                  title={`${cohort.active[week]} of ${cohort.users} users`}
+                >
+                  {Math.round(share * 100)}%
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { Bar, BarChart, CartesianGrid, LabelList, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { AnalyticsFunnel } from "@/types/admin";
+
+const chartConfig = {
+  users: {
+    label: "Users",
+    color: "var(--primary)",
+  },
+} satisfies ChartConfig;
+
+function percent(part: number, whole: number): string {
+  return whole === 0 ? "0%" : `${Math.round((part / whole) * 1000) / 10}%`;
+}
+
+interface AnalyticsFunnelChartProps {
+  funnel: AnalyticsFunnel;
+}
+
+export function AnalyticsFunnelChart({ funnel }: AnalyticsFunnelChartProps) {
+  const steps = [
+    { step: "Signed up", users: funnel.signedUp },
+    { step: "Onboarded", users: funnel.onboarded },
+    { step: "First thread", users: funnel.firstThread },
+    { step: "First wiki page", users: funnel.firstWikiPage },
+  ].map((item) => ({
+    ...item,
+    // Share of everyone who signed up
+    label: `${item.users.toLocaleString()} (${percent(item.users, funnel.signedUp)})`,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[240px] w-full">
+      <BarChart accessibilityLayer data={steps} layout="vertical" margin={{ left: 8, right: 120 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" dataKey="users" hide allowDecimals={false} />
+        <YAxis
+          type="category"
+          dataKey="step"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          width={110}
+        />
+        <ChartTooltip cursor={false} content={<ChartTooltipContent hideLabel />} />
+        <Bar dataKey="users" fill="var(--color-users)" radius={4}>
+          <LabelList
+            dataKey="label"
+            position="right"
+            offset={8}
+            className="fill-foreground"
+            fontSize={12}
+          />
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { refreshAdminAnalytics } from "@/app/actions/admin/analytics";
+
+export function AnalyticsRefreshButton() {
+  const router = useRouter();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  async function handleRefresh() {
+    setIsRefreshing(true);
+    try {
+      const result = await refreshAdminAnalytics();
+
+      if (result.success) {
+        toast.success("Analytics refreshed");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to refresh analytics");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error refreshing analytics:", error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isRefreshing}>
+      {isRefreshing ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <RefreshCw className="mr-2 h-4 w-4" />
+      )}
+      Refresh now
+    </Button>
+  );
+}
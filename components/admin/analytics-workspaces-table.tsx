@@ -0,0 +1,49 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { AnalyticsWorkspaceEngagement } from "@/types/admin";
+
+interface AnalyticsWorkspacesTableProps {
+  workspaces: AnalyticsWorkspaceEngagement[];
+}
+
+export function AnalyticsWorkspacesTable({ workspaces }: AnalyticsWorkspacesTableProps) {
+  if (workspaces.length === 0) {
+    return <p className="text-sm text-muted-foreground">No workspaces yet</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-10">#</TableHead>
+          <TableHead>Workspace</TableHead>
+          <TableHead className="text-right">Active members</TableHead>
+          <TableHead className="text-right">Messages</TableHead>
+          <TableHead className="text-right">Threads</TableHead>
+          <TableHead className="text-right">Wiki pages</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {workspaces.map((workspace, index) => (
+          <TableRow key={workspace.id}>
+            <TableCell className="text-muted-foreground tabular-nums">{index + 1}</TableCell>
+            <TableCell className="font-medium">{workspace.name}</TableCell>
+            <TableCell className="text-right tabular-nums">
+              {workspace.activeMembers}
+              <span className="text-muted-foreground"> / {workspace.members}</span>
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{workspace.messages}</TableCell>
+            <TableCell className="text-right tabular-nums">{workspace.threads}</TableCell>
+            <TableCell className="text-right tabular-nums">{workspace.wikiPages}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { revokeApiKeyAsAdmin } from "@/app/actions/admin/api-keys";
+import type { AdminApiKey } from "@/types/admin";
+
+interface ApiKeyRevokeButtonProps {
+  apiKey: Pick<AdminApiKey, "id" | "name" | "workspace">;
+}
+
+export function ApiKeyRevokeButton({ apiKey }: ApiKeyRevokeButtonProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function handleRevoke() {
+    setIsLoading(true);
+    try {
+      const result = await revokeApiKeyAsAdmin({ apiKeyId: apiKey.id });
+
+      if (result.success) {
+        toast.success("API key revoked");
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to revoke API key");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error revoking API key:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          Revoke
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Revoke API key?</AlertDialogTitle>
+          <AlertDialogDescription>
+            <span className="font-semibold">{apiKey.name}</span> in{" "}
+            <span className="font-semibold">{apiKey.workspace.name}</span> will stop
+            working right away. This cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              handleRevoke();
+            }}
+            disabled={isLoading}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Revoke Key
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,303 @@
+"use client";
+
+import * as React from "react";
+import { useSearchParams } from "next/navigation";
+import { type ColumnDef } from "@tanstack/react-table";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Download, Loader2 } from "lucide-react";
+import { DataTable } from "@/components/data-table/data-table";
+import { DataTableAdvancedToolbar } from "@/components/data-table/data-table-advanced-toolbar";
+import { DataTableColumnHeader } from "@/components/data-table/data-table-column-header";
+import { DataTableFilterList } from "@/components/data-table/data-table-filter-list";
+import { DataTableSortList } from "@/components/data-table/data-table-sort-list";
+import { useDataTable } from "@/hooks/use-data-table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { exportAuditLogs } from "@/app/actions/admin/audit-logs";
+import {
+  AUDIT_ACTION_LABELS,
+  type AdminAuditLog,
+  type AuditAction,
+} from "@/types/admin";
+
+const TARGET_TYPE_LABELS: Record<string, string> = {
+  user: "User",
+  workspace: "Workspace",
+  member: "Member",
+  invitation: "Invitation",
+  thread: "Thread",
+  wiki_page: "Wiki page",
+  api_key: "API key",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+interface AuditLogsDataTableProps {
+  data: AdminAuditLog[];
+  pageCount: number;
+  total: number;
+}
+
+export function AuditLogsDataTable({ data, pageCount, total }: AuditLogsDataTableProps) {
+  const searchParams = useSearchParams();
+  const [isExporting, setIsExporting] = React.useState(false);
+
+  const columns = React.useMemo<ColumnDef<AdminAuditLog>[]>(
+    () => [
+      {
+        id: "createdAt",
+        accessorKey: "createdAt",
+        header: ({ column }) => (
+          <DataTableColumnHeader column={column} label="Time" />
+        ),
+        cell: ({ row }) => (
+          <span className="text-sm whitespace-nowrap">
+            {format(new Date(row.original.createdAt), "MMM d, yyyy HH:mm:ss")}
+          </span>
+        ),
+        enableColumnFilter: true,
+        enableSorting: true,
+        meta: {
+          label: "Time",
+          variant: "date",
+        },
+      },
+      {
+        id: "action",
+        accessorKey: "action",
+        header: ({ column }) => (
+          <DataTableColumnHeader column={column} label="Action" />
+        ),
+        cell: ({ row }) => (
+          <Badge variant={row.original.action.endsWith("delete") ? "destructive" : "secondary"}>
+            {AUDIT_ACTION_LABELS[row.original.action as AuditAction] ?? row.original.action}
+          </Badge>
+        ),
+        enableColumnFilter: true,
+        enableSorting: true,
+        meta: {
+          label: "Action",
+          variant: "multiSelect",
+          options: Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => ({
+            label,
+            value,
+          })),
+        },
+      },
+      {
+        id: "actorEmail",
+        accessorKey: "actorEmail",
+        header: ({ column }) => (
+          <DataTableColumnHeader column={column} label="Actor" />
+        ),
+        cell: ({ row }) => {
+          const log = row.original;
+          return (
+            <div className="flex flex-col">
+              <span className="text-sm">{log.actorEmail || "System"}</span>
+              {log.impersonatorEmail && (
+                <span className="text-xs text-muted-foreground">
+                  Impersonated by {log.impersonatorEmail}
+                </span>
+              )}
+            </div>
+          );
+        },
+        enableColumnFilter: true,
+        enableSorting: true,
+        meta: {
+          label: "Actor",
+          placeholder: "Search actors...",
+          variant: "text",
+        },
+      },
+      {
+        id: "targetType",
+        accessorKey: "targetType",
+        header: ({ column }) => (
+          <DataTableColumnHeader column={column} label="Target type" />
+        ),
+        cell: ({ row }) => (
+          <span className="text-sm">
+            {TARGET_TYPE_LABELS[row.original.targetType] ?? row.original.targetType}
+          </span>
+        ),
+        enableColumnFilter: true,
+        enableSorting: true,
+        meta: {
+          label: "Target type",
+          variant: "select",
+          options: Object.entries(TARGET_TYPE_LABELS).map(([value, label]) => ({
+            label,
+            value,
+          })),
+        },
+      },
+      {
+        id: "targetLabel",
+        accessorKey: "targetLabel",
+        header: ({ column }) => (
+          <DataTableColumnHeader column={column} label="Target" />
+        ),
+        cell: ({ row }) => (
+          <span className="text-sm">{row.original.targetLabel || "—"}</span>
+        ),
+        enableColumnFilter: true,
+        enableSorting: true,
+        meta: {
+          label: "Target",
+          placeholder: "Search targets...",
+          variant: "text",
+        },
+      },
+      {
+        id: "changes",
+        accessorKey: "changes",
+        header: ({ column }) => (
+          <DataTableColumnHeader column={column} label="Changes" />
+        ),
+        cell: ({ row }) => {
+          const changes = row.original.changes;
+          if (!changes) {
+            return <span className="text-muted-foreground text-sm">—</span>;
+          }
+
+          return (
+            <ul className="space-y-0.5 text-xs">
+              {Object.entries(changes).map(([field, { from, to }]) => (
+                <li key={field} className="max-w-[320px] truncate">
+                  <span className="font-medium">{field}</span>:{" "}
+                  <span className="text-muted-foreground line-through">{formatValue(from)}</span>{" "}
+                  → {formatValue(to)}
+                </li>
+              ))}
+            </ul>
+          );
+        },
+        enableSorting: false,
+        meta: {
+          label: "Changes",
+        },
+      },
+      {
+        id: "ipAddress",
+        accessorKey: "ipAddress",
+        header: ({ column }) => (
+          <DataTableColumnHeader column={column} label="IP address" />
+        ),
+        cell: ({ row }) => (
+          <span className="font-mono text-xs">{row.original.ipAddress || "—"}</span>
+        ),
+        enableColumnFilter: true,
+        enableSorting: false,
+        meta: {
+          label: "IP address",
+          placeholder: "Search IP addresses...",
+          variant: "text",
+        },
+      },
+      {
+        id: "userAgent",
+        accessorKey: "userAgent",
+        header: ({ column }) => (
+          <DataTableColumnHeader column={column} label="User agent" />
+        ),
+        cell: ({ row }) => (
+          <span
+            className="block max-w-[240px] truncate text-xs text-muted-foreground"
+            title={row.original.userAgent ?? undefined}
+          >
+            {row.original.userAgent || "—"}
+          </span>
+        ),
+        enableSorting: false,
+        meta: {
+          label: "User agent",
+        },
+      },
+    ],
+    []
+  );
+
+  const { table, shallow, debounceMs, throttleMs } = useDataTable({
+    data,
+    columns,
+    pageCount,
+    enableAdvancedFilter: true,
+    // The server filters and pages the entries, so URL changes have to reach it
+    shallow: false,
+    initialState: {
+      sorting: [{ id: "createdAt", desc: true }],
+      pagination: { pageIndex: 0, pageSize: 20 },
+      columnVisibility: { userAgent: false },
+    },
+    getRowId: (row) => row.id,
+  });
+
+  async function handleExport() {
+    setIsExporting(true);
+    try {
+      const result = await exportAuditLogs(Object.fromEntries(searchParams.entries()));
+
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Failed to export audit logs");
+        return;
+      }
+
+      const blob = new Blob([result.data.csv], { type: "text/csv;charset=utf-8" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-logs-${format(new Date(), "yyyy-MM-dd")}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if (result.data.truncated) {
+        toast.warning("The export stopped at its row limit. Narrow the filters to get the rest.");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error exporting audit logs:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  return (
+    <DataTable table={table}>
+      <DataTableAdvancedToolbar table={table}>
+        <DataTableFilterList
+          table={table}
+          shallow={shallow}
+          debounceMs={debounceMs}
+          throttleMs={throttleMs}
+          align="start"
+        />
+        <DataTableSortList table={table} align="start" />
+        <span className="text-sm text-muted-foreground">
+          {total} {total === 1 ? "entry" : "entries"}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto"
+          onClick={handleExport}
+          disabled={isExporting || total === 0}
+        >
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Export CSV
+        </Button>
+      </DataTableAdvancedToolbar>
+    </DataTable>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { DashboardStats } from "@/app/actions/admin/dashboard";
+
+const signupsConfig = {
+  count: {
+    label: "Signups",
+    color: "var(--primary)",
+  },
+} satisfies ChartConfig;
+
+const activeUsersConfig = {
+  users: {
+    label: "Active users",
+    color: "var(--primary)",
+  },
+} satisfies ChartConfig;
+
+function formatDay(value: string) {
+  // Days are UTC dates, so format them without shifting to local time
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+interface DashboardChartsProps {
+  stats: DashboardStats;
+}
+
+export function DashboardCharts({ stats }: DashboardChartsProps) {
+  const totalSignups = stats.signups.reduce((sum, day) => sum + day.count, 0);
+  const activeUsers = [
+    { period: "Daily", users: stats.activeUsers.daily },
+    { period: "Weekly", users: stats.activeUsers.weekly },
+    { period: "Monthly", users: stats.activeUsers.monthly },
+  ];
+
+  return (
+    <div className="grid grid-cols-1 gap-4 px-4 lg:px-6 @5xl/main:grid-cols-3">
+      <Card className="@5xl/main:col-span-2">
+        <CardHeader>
+          <CardTitle>Signups</CardTitle>
+          <CardDescription>
+            {totalSignups} new {totalSignups === 1 ? "user" : "users"} in the last{" "}
+            {stats.signups.length} days
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={signupsConfig} className="aspect-auto h-[250px] w-full">
+            <AreaChart accessibilityLayer data={stats.signups} margin={{ left: 0, right: 10 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                minTickGap={32}
+                tickFormatter={formatDay}
+              />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                cursor={false}
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(value) => formatDay(String(value))}
+                    indicator="dot"
+                  />
+                }
+              />
+              <Area
+                dataKey="count"
+                type="monotone"
+                fill="var(--color-count)"
+                fillOpacity={0.4}
+                stroke="var(--color-count)"
+              />
+            </AreaChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Active Users</CardTitle>
+          <CardDescription>
+            Signed in within the last day, week and month
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={activeUsersConfig} className="aspect-auto h-[250px] w-full">
+            <BarChart accessibilityLayer data={activeUsers}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="period" tickLine={false} axisLine={false} tickMargin={8} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip cursor={false} content={<ChartTooltipContent hideLabel />} />
+              <Bar dataKey="users" fill="var(--color-users)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
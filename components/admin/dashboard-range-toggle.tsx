@@ -0,0 +1,38 @@
+"use client";
+
+import { parseAsStringEnum, useQueryState } from "nuqs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { DASHBOARD_RANGE_DAYS, type DashboardRange } from "@/types/admin";
+
+const RANGE_VALUES = Object.keys(DASHBOARD_RANGE_DAYS) as DashboardRange[];
+
+export function DashboardRangeToggle() {
+  const [range, setRange] = useQueryState(
+    "range",
+    parseAsStringEnum(RANGE_VALUES)
+      .withDefault("30d")
+      .withOptions({
+        history: "replace",
+        // The stats are computed on the server for the selected window
+        shallow: false,
+        clearOnDefault: true,
+      })
+  );
+
+  return (
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      value={range}
+      onValueChange={(value) => {
+        if (value) setRange(value as DashboardRange);
+      }}
+    >
+      {RANGE_VALUES.map((value) => (
+        <ToggleGroupItem key={value} value={value} className="px-3">
+          Last {DASHBOARD_RANGE_DAYS[value]} days
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { SessionsList } from "@/components/sessions-list";
+import { revokeAllUserSessions, revokeUserSession } from "@/app/actions/admin/users";
+import type { ActiveSession } from "@/lib/sessions";
+
+interface UserSessionsCardProps {
+  userId: string;
+  sessions: ActiveSession[];
+}
+
+export function UserSessionsCard({ userId, sessions }: UserSessionsCardProps) {
+  const router = useRouter();
+  const [revokingId, setRevokingId] = React.useState<string | null>(null);
+  const [isRevokingAll, setIsRevokingAll] = React.useState(false);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setRevokingId(session.id);
+    try {
+      const result = await revokeUserSession(userId, session.id);
+      if (result.success) {
+        toast.success("Session revoked");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to revoke session");
+      }
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      toast.error("An unexpected error occurred");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    setIsRevokingAll(true);
+    try {
+      const result = await revokeAllUserSessions(userId);
+      if (result.success) {
+        toast.success(`Revoked ${result.data?.count ?? 0} sessions`);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to revoke sessions");
+      }
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsRevokingAll(false);
+    }
+  };
+
+  const hasRevocableSessions = sessions.some((session) => !session.isCurrent);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Sessions & Devices</CardTitle>
+          <CardDescription>
+            Devices this user is signed in on
+          </CardDescription>
+        </div>
+        {hasRevocableSessions && (
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={handleRevokeAll}
+            disabled={isRevokingAll}
+          >
+            {isRevokingAll && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Revoke all sessions
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <SessionsList
+          sessions={sessions}
+          revokingId={revokingId}
+          onRevoke={handleRevoke}
+        />
+      </CardContent>
+    </Card>
+  );
+}
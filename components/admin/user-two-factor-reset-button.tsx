@@ -0,0 +1,84 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { resetUserTwoFactor } from "@/app/actions/admin/users";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+
+interface UserTwoFactorResetButtonProps {
+  userId: string;
+  userName: string;
+}
+
+export function UserTwoFactorResetButton({ userId, userName }: UserTwoFactorResetButtonProps) {
+  const [open, setOpen] = React.useState(false);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const router = useRouter();
+
+  async function handleReset() {
+    setIsLoading(true);
+    try {
+      const result = await resetUserTwoFactor(userId);
+
+      if (result.success) {
+        toast.success("Two-factor authentication reset");
+        setOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to reset two-factor authentication");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error resetting two-factor authentication:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          Reset 2FA
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reset two-factor authentication?</AlertDialogTitle>
+          <AlertDialogDescription>
+            <span className="font-semibold">{userName}</span> will be signed out
+            everywhere and able to sign in with just their password. Their
+            authenticator app and backup codes stop working, and workspaces that
+            require 2FA will ask them to set it up again.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              handleReset();
+            }}
+            disabled={isLoading}
+          >
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Reset 2FA
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
 import { type ColumnDef } from "@tanstack/react-table";
 import { DataTable } from "@/components/data-table/data-table";
 import { DataTableToolbar } from "@/components/data-table/data-table-toolbar";
@@ -17,7 +18,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
-import { MoreHorizontal, Pencil, Trash2, Shield, UserCheck, Phone } from "lucide-react";
+import { MoreHorizontal, Pencil, Trash2, Shield, UserCheck, Phone, Eye } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { UserEditDialog } from "@/components/admin/user-edit-dialog";
 import { UserDeleteAlert } from "@/components/admin/user-delete-alert";
@@ -228,6 +229,12 @@ export function UsersDataTable({ data, pageCount, total }: UsersDataTableProps)
               <DropdownMenuContent align="end">
                 <DropdownMenuLabel>Actions</DropdownMenuLabel>
                 <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link href={`/admin/users/${user.id}`}>
+                    <Eye className="h-4 w-4 mr-2" />
+                    View details
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem
                   onClick={() => {
                     setSelectedUser(user);
@@ -66,6 +66,7 @@ export function WorkspaceDeleteAlert({ workspace, open, onOpenChange }: Workspac
               <li>All workspace members</li>
               <li>Pending invitations</li>
               <li>Workspace sessions</li>
+              <li>API keys</li>
             </ul>
           </AlertDialogDescription>
         </AlertDialogHeader>
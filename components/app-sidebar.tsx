@@ -24,6 +24,7 @@ import { NavDocuments } from "@/components/nav-documents";
 import { NavMain } from "@/components/nav-main";
 import { NavSecondary } from "@/components/nav-secondary";
 import { NavUser } from "@/components/nav-user";
+import { WorkspaceSwitcher, type SidebarWorkspace } from "@/components/workspace-switcher";
 import {
   Sidebar,
   SidebarContent,
@@ -154,9 +155,13 @@ const data = {
 
 export function AppSidebar({
   user,
+  workspaces = [],
+  activeWorkspaceId,
   ...props
 }: React.ComponentProps<typeof Sidebar> & {
   user: SidebarUser;
+  workspaces?: SidebarWorkspace[];
+  activeWorkspaceId?: string;
 }) {
   return (
     <Sidebar collapsible="offcanvas" {...props}>
@@ -174,6 +179,12 @@ export function AppSidebar({
             </SidebarMenuButton>
           </SidebarMenuItem>
         </SidebarMenu>
+        {activeWorkspaceId && (
+          <WorkspaceSwitcher
+            workspaces={workspaces}
+            activeWorkspaceId={activeWorkspaceId}
+          />
+        )}
       </SidebarHeader>
       <SidebarContent>
         <NavMain items={data.navMain} />
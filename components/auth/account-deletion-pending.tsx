@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { IconDownload, IconTrash } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { cancelMyAccountDeletion } from "@/app/actions/user-settings";
+import { signOut } from "@/lib/auth-client";
+
+interface AccountDeletionPendingProps {
+  scheduledAt: Date;
+}
+
+export function AccountDeletionPending({ scheduledAt }: AccountDeletionPendingProps) {
+  const router = useRouter();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  async function handleRestore() {
+    setIsRestoring(true);
+    try {
+      const result = await cancelMyAccountDeletion();
+
+      if (result.success) {
+        toast.success("Your account has been restored");
+        router.push("/dashboard");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to restore your account");
+        setIsRestoring(false);
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error restoring account:", error);
+      setIsRestoring(false);
+    }
+  }
+
+  async function handleSignOut() {
+    await signOut({
+      fetchOptions: {
+        onSuccess: () => {
+          window.location.href = "/sign-in";
+        },
+      },
+    });
+  }
+
+  return (
+    <div className="container flex items-center justify-center min-h-screen py-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-destructive/10">
+            <IconTrash className="h-6 w-6 text-destructive" />
+          </div>
+          <CardTitle>Your account is scheduled for deletion</CardTitle>
+          <CardDescription>
+            It will be permanently deleted on{" "}
+            <span className="font-medium">{format(new Date(scheduledAt), "MMMM d, yyyy")}</span>.
+            Restore it to keep using your account, or download your data before
+            it is gone.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Button className="w-full" onClick={handleRestore} disabled={isRestoring}>
+            {isRestoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Restore account
+          </Button>
+          <Button variant="outline" className="w-full" asChild>
+            <a href="/api/account/export" download>
+              <IconDownload className="mr-2 h-4 w-4" />
+              Download data
+            </a>
+          </Button>
+          <Button variant="ghost" className="w-full" onClick={handleSignOut}>
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
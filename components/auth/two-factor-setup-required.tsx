@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { IconShieldLock } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { TwoFactorSetup } from "@/components/two-factor-setup";
+import { PasswordDialog } from "@/components/settings/password-dialog";
+import { signOut } from "@/lib/auth-client";
+
+interface TwoFactorSetupRequiredProps {
+  // Workspaces of the user that require 2FA
+  workspaces: string[];
+  // 2FA is on, but this session signed in without the second step
+  needsSignIn?: boolean;
+  // Turning 2FA on asks for the password, so accounts without one set it first
+  hasPassword?: boolean;
+}
+
+export function TwoFactorSetupRequired({
+  workspaces,
+  needsSignIn = false,
+  hasPassword: initialHasPassword = true,
+}: TwoFactorSetupRequiredProps) {
+  const router = useRouter();
+  const [hasPassword, setHasPassword] = useState(initialHasPassword);
+  const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
+
+  function handleComplete() {
+    router.push("/dashboard");
+    router.refresh();
+  }
+
+  async function handleSignOut() {
+    await signOut({
+      fetchOptions: {
+        onSuccess: () => {
+          window.location.href = "/sign-in";
+        },
+      },
+    });
+  }
+
+  return (
+    <div className="container flex items-center justify-center min-h-screen py-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <IconShieldLock className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle>
+            {needsSignIn ? "Sign in again" : "Set up two-factor authentication"}
+          </CardTitle>
+          <CardDescription>
+            {workspaces.join(", ")} {workspaces.length === 1 ? "requires" : "require"}{" "}
+            two-factor authentication for all members.{" "}
+            {needsSignIn
+              ? "This session was signed in without it. Sign in again with your authenticator app to continue to the dashboard."
+              : "Set it up to continue to the dashboard."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {needsSignIn ? (
+            <Button className="w-full" onClick={handleSignOut}>
+              Sign in again
+            </Button>
+          ) : (
+            <>
+              {hasPassword ? (
+                <TwoFactorSetup onComplete={handleComplete} />
+              ) : (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    Your account signs in without a password. Set one first, it
+                    confirms changes to two-factor authentication.
+                  </p>
+                  <Button className="w-full" onClick={() => setIsPasswordDialogOpen(true)}>
+                    Set a password
+                  </Button>
+                </div>
+              )}
+              <Button variant="ghost" className="w-full" onClick={handleSignOut}>
+                Sign out
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <PasswordDialog
+        mode="set"
+        open={isPasswordDialogOpen}
+        onOpenChange={setIsPasswordDialogOpen}
+        onSuccess={() => {
+          setIsPasswordDialogOpen(false);
+          setHasPassword(true);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+import { IconShieldLock } from "@tabler/icons-react";
+import { authClient } from "@/lib/auth-client";
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { cn } from "@/lib/utils";
+
+type ChallengeMode = "totp" | "backup-code";
+
+export default function TwoFactorAuth() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const rawCallbackUrl = searchParams.get("callbackUrl");
+  const callbackUrl =
+    rawCallbackUrl && rawCallbackUrl.startsWith("/") && !rawCallbackUrl.startsWith("//")
+      ? rawCallbackUrl
+      : "/dashboard";
+
+  const [mode, setMode] = useState<ChallengeMode>("totp");
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(e?: React.FormEvent) {
+    e?.preventDefault();
+    if (!code) return;
+
+    setLoading(true);
+    try {
+      const { error } =
+        mode === "totp"
+          ? await authClient.twoFactor.verifyTotp({ code })
+          : await authClient.twoFactor.verifyBackupCode({ code: code.trim() });
+
+      if (error) {
+        // The sign-in expired, start over from the password
+        if (error.message === "Invalid two factor cookie") {
+          toast.error("Your sign-in expired. Please sign in again.");
+          router.push(`/sign-in?callbackUrl=${encodeURIComponent(callbackUrl)}`);
+          return;
+        }
+        toast.error(error.message || "Invalid code");
+        setCode("");
+        return;
+      }
+
+      router.push(callbackUrl);
+      router.refresh();
+    } catch (error) {
+      console.error("Two-factor verification failed:", error);
+      toast.error("An unexpected error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function switchMode() {
+    setMode(mode === "totp" ? "backup-code" : "totp");
+    setCode("");
+  }
+
+  return (
+    <div className="container flex items-center justify-center min-h-screen py-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <IconShieldLock className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle>Two-factor authentication</CardTitle>
+          <CardDescription>
+            {mode === "totp"
+              ? "Enter the 6-digit code from your authenticator app."
+              : "Enter one of the backup codes you saved when you turned on two-factor authentication."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSubmit} className="grid gap-4">
+            {mode === "totp" ? (
+              <div className="flex justify-center">
+                <InputOTP
+                  maxLength={6}
+                  value={code}
+                  onChange={setCode}
+                  disabled={loading}
+                  autoFocus
+                >
+                  <InputOTPGroup>
+                    {Array.from({ length: 6 }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            ) : (
+              <div className="grid gap-2">
+                <Label htmlFor="backup-code">Backup code</Label>
+                <Input
+                  id="backup-code"
+                  placeholder="xxxxx-xxxxx"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  required
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  disabled={loading}
+                  className="font-mono"
+                />
+              </div>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={loading || (mode === "totp" ? code.length !== 6 : !code.trim())}
+            >
+              {loading && <Spinner className="mr-2" />}
+              Verify
+            </Button>
+          </form>
+          <Button variant="link" className="w-full" onClick={switchMode} disabled={loading}>
+            {mode === "totp" ? "Use a backup code instead" : "Use your authenticator app instead"}
+          </Button>
+          <Link
+            href="/sign-in"
+            className={cn(buttonVariants({ variant: "ghost" }), "w-full")}
+          >
+            Back to Sign In
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+import { IconCheck, IconMail, IconX } from "@tabler/icons-react";
+import { authClient, useSession } from "@/lib/auth-client";
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { cn } from "@/lib/utils";
+
+type VerifyState = "pending" | "verifying" | "verified" | "error";
+
+export default function VerifyEmailAuth() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const rawCallbackUrl = searchParams.get("callbackUrl");
+  const callbackUrl =
+    rawCallbackUrl && rawCallbackUrl.startsWith("/") && !rawCallbackUrl.startsWith("//")
+      ? rawCallbackUrl
+      : "/dashboard";
+
+  const { data: session, isPending: isSessionPending } = useSession();
+  const [state, setState] = useState<VerifyState>(token ? "verifying" : "pending");
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const sessionEmail = session?.user.email;
+  const isVerified = state === "verified" || (!token && session?.user.emailVerified);
+
+  useEffect(() => {
+    if (!token) return;
+
+    authClient
+      .verifyEmail({ query: { token } })
+      .then(({ error }) => setState(error ? "error" : "verified"))
+      .catch((error) => {
+        console.error("Email verification failed:", error);
+        setState("error");
+      });
+  }, [token]);
+
+  async function handleResend(e: React.FormEvent) {
+    e.preventDefault();
+    const to = sessionEmail || email;
+    if (!to) return;
+
+    setIsSending(true);
+    try {
+      const { error } = await authClient.sendVerificationEmail({
+        email: to,
+        callbackURL: callbackUrl,
+      });
+
+      if (error) {
+        toast.error(error.message || "Failed to send verification email");
+      } else {
+        toast.success(`Verification email sent to ${to}`);
+      }
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      toast.error("Failed to send verification email");
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  if (state === "verifying" || (!token && isSessionPending)) {
+    return (
+      <div className="container flex items-center justify-center min-h-screen py-8">
+        <Spinner className="size-6" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container flex items-center justify-center min-h-screen py-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            {isVerified ? (
+              <IconCheck className="h-6 w-6 text-green-600" />
+            ) : state === "error" ? (
+              <IconX className="h-6 w-6 text-red-600" />
+            ) : (
+              <IconMail className="h-6 w-6 text-primary" />
+            )}
+          </div>
+          <CardTitle>
+            {isVerified
+              ? "Email verified"
+              : state === "error"
+                ? "Link expired or invalid"
+                : "Verify your email"}
+          </CardTitle>
+          <CardDescription>
+            {isVerified
+              ? "Thanks! Your email address is verified."
+              : state === "error"
+                ? "This verification link can't be used anymore. Request a new one below."
+                : sessionEmail
+                  ? `We sent a verification link to ${sessionEmail}. Open it to continue.`
+                  : "Open the link we sent to your inbox to continue."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isVerified ? (
+            <Button
+              className="w-full"
+              onClick={() => router.push(session ? callbackUrl : "/sign-in")}
+            >
+              {session ? "Continue" : "Sign in"}
+            </Button>
+          ) : (
+            <form onSubmit={handleResend} className="grid gap-4">
+              {!sessionEmail && (
+                <div className="grid gap-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="name@example.com"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    disabled={isSending}
+                  />
+                </div>
+              )}
+              <Button type="submit" variant="outline" className="w-full" disabled={isSending}>
+                {isSending && <Spinner className="mr-2" />}
+                Resend verification email
+              </Button>
+            </form>
+          )}
+          {!session && (
+            <Link
+              href="/sign-in"
+              className={cn(buttonVariants({ variant: "ghost" }), "w-full")}
+            >
+              Back to Sign In
+            </Link>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
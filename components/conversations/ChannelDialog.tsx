@@ -0,0 +1,174 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "sonner"
+import type { Channel, WorkspaceMemberOption } from "./ChannelSidebar"
+
+interface ChannelDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentUserId: string
+  workspaceMembers: WorkspaceMemberOption[]
+  // Rename this channel; create a new one when omitted
+  channel?: Channel
+  onSaved: (channel: Channel) => void
+}
+
+export function ChannelDialog({
+  open,
+  onOpenChange,
+  currentUserId,
+  workspaceMembers,
+  channel,
+  onSaved
+}: ChannelDialogProps) {
+  const [title, setTitle] = useState("")
+  const [description, setDescription] = useState("")
+  const [isPrivate, setIsPrivate] = useState(false)
+  const [memberIds, setMemberIds] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setTitle(channel?.title || "")
+      setDescription(channel?.description || "")
+      setIsPrivate(false)
+      setMemberIds([])
+    }
+  }, [open, channel])
+
+  const handleSave = async () => {
+    if (!title.trim()) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(channel ? `/api/conversations/${channel.id}` : "/api/conversations", {
+        method: channel ? "PATCH" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(channel
+          ? { title, description }
+          : { title, description, isPrivate, memberIds }
+        ),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save channel")
+      }
+
+      onSaved(data.conversation)
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save channel")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const otherMembers = workspaceMembers.filter(member => member.id !== currentUserId)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{channel ? "Edit channel" : "Create a channel"}</DialogTitle>
+          <DialogDescription>
+            {channel
+              ? "Rename the channel or change its description."
+              : "Channels keep related threads together."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="channel-title">Name</Label>
+            <Input
+              id="channel-title"
+              placeholder="e.g. engineering"
+              value={title}
+              maxLength={80}
+              onChange={(e) => setTitle(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="channel-description">Description</Label>
+            <Textarea
+              id="channel-description"
+              placeholder="What is this channel about?"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          {!channel && (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="channel-private">Private</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Only people you add can see a private channel.
+                  </p>
+                </div>
+                <Switch id="channel-private" checked={isPrivate} onCheckedChange={setIsPrivate} />
+              </div>
+
+              {isPrivate && otherMembers.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Members</Label>
+                  <ScrollArea className="h-40 rounded border">
+                    <div className="p-2 space-y-1">
+                      {otherMembers.map((member) => (
+                        <label
+                          key={member.id}
+                          className="flex items-center gap-2 rounded p-1 text-sm hover:bg-muted cursor-pointer"
+                        >
+                          <Checkbox
+                            checked={memberIds.includes(member.id)}
+                            onCheckedChange={(checked) => setMemberIds(prev => checked
+                              ? [...prev, member.id]
+                              : prev.filter(id => id !== member.id)
+                            )}
+                          />
+                          {member.name}
+                        </label>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!title.trim() || saving}>
+            {saving ? "Saving..." : channel ? "Save" : "Create Channel"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
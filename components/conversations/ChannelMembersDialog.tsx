@@ -0,0 +1,206 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { UserMinus } from "lucide-react"
+import type { Channel, WorkspaceMemberOption } from "./ChannelSidebar"
+
+interface ChannelMember {
+  id: string
+  name: string | null
+  email: string
+  image?: string | null
+}
+
+interface ChannelMembersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  channel: Channel
+  currentUserId: string
+  canManage: boolean
+  workspaceMembers: WorkspaceMemberOption[]
+  onChanged: () => void
+  onLeft: () => void
+}
+
+/**
+ * Who is in a private channel, with adding, removing and leaving
+ */
+export function ChannelMembersDialog({
+  open,
+  onOpenChange,
+  channel,
+  currentUserId,
+  canManage,
+  workspaceMembers,
+  onChanged,
+  onLeft
+}: ChannelMembersDialogProps) {
+  const [members, setMembers] = useState<ChannelMember[]>([])
+  const [loading, setLoading] = useState(false)
+  const [userToAdd, setUserToAdd] = useState<string>("")
+
+  const loadMembers = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/conversations/${channel.id}/members`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load members")
+      }
+
+      setMembers(data.members)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load members")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (open) {
+      setUserToAdd("")
+      loadMembers()
+    }
+  }, [open, channel.id])
+
+  const handleAdd = async () => {
+    if (!userToAdd) return
+
+    try {
+      const response = await fetch(`/api/conversations/${channel.id}/members`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ userIds: [userToAdd] }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add member")
+      }
+
+      setUserToAdd("")
+      loadMembers()
+      onChanged()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add member")
+    }
+  }
+
+  const handleRemove = async (userId: string) => {
+    try {
+      const response = await fetch(
+        `/api/conversations/${channel.id}/members?${new URLSearchParams({ userId })}`,
+        { method: "DELETE" }
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to remove member")
+      }
+
+      if (userId === currentUserId) {
+        onOpenChange(false)
+        onLeft()
+        return
+      }
+
+      setMembers(prev => prev.filter(member => member.id !== userId))
+      onChanged()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove member")
+    }
+  }
+
+  const candidates = workspaceMembers.filter(option => !members.some(member => member.id === option.id))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Members of {channel.title}</DialogTitle>
+          <DialogDescription>
+            Only these people can see this channel and its threads.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canManage && candidates.length > 0 && (
+          <div className="flex gap-2">
+            <Select value={userToAdd} onValueChange={setUserToAdd}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Add a workspace member" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAdd} disabled={!userToAdd}>
+              Add
+            </Button>
+          </div>
+        )}
+
+        <ScrollArea className="h-64 rounded border">
+          <div className="p-2 space-y-1">
+            {loading && members.length === 0 ? (
+              <p className="p-2 text-sm text-muted-foreground">Loading members...</p>
+            ) : (
+              members.map((member) => (
+                <div key={member.id} className="flex items-center gap-3 rounded p-2 hover:bg-muted">
+                  <Avatar className="h-7 w-7">
+                    <AvatarImage src={member.image || undefined} />
+                    <AvatarFallback className="text-xs">
+                      {(member.name || member.email).charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">
+                      {member.name || member.email}
+                      {member.id === currentUserId && (
+                        <span className="ml-1 text-muted-foreground">(you)</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">{member.email}</div>
+                  </div>
+                  {(canManage || member.id === currentUserId) && members.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(member.id)}
+                    >
+                      {member.id === currentUserId ? "Leave" : <UserMinus className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
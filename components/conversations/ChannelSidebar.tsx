@@ -0,0 +1,279 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { toast } from "sonner"
+import {
+  Archive,
+  ArchiveRestore,
+  ChevronDown,
+  ChevronRight,
+  Hash,
+  Lock,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Users
+} from "lucide-react"
+import { conversationUrl } from "@/lib/conversations"
+import { cn } from "@/lib/utils"
+import { ChannelDialog } from "./ChannelDialog"
+import { ChannelMembersDialog } from "./ChannelMembersDialog"
+
+export interface Channel {
+  id: string
+  title: string
+  description?: string | null
+  isPrivate: boolean
+  archivedAt?: string | null
+  createdBy?: string | null
+  threadCount: number
+  memberCount?: number | null
+  lastActivity: string
+}
+
+export interface WorkspaceMemberOption {
+  id: string
+  name: string
+}
+
+interface ChannelSidebarProps {
+  channels: Channel[]
+  activeChannelId?: string
+  currentUserId: string
+  // Workspace owners and admins manage every channel they can see
+  canModerate: boolean
+  workspaceMembers: WorkspaceMemberOption[]
+  // Refreshes the page when not given
+  onChannelsChange?: () => void
+  onChannelUpdated?: (channel: Channel) => void
+}
+
+export function ChannelSidebar({
+  channels,
+  activeChannelId,
+  currentUserId,
+  canModerate,
+  workspaceMembers,
+  onChannelsChange,
+  onChannelUpdated
+}: ChannelSidebarProps) {
+  const router = useRouter()
+  const [createOpen, setCreateOpen] = useState(false)
+  const [editing, setEditing] = useState<Channel | null>(null)
+  const [managingMembers, setManagingMembers] = useState<Channel | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+  const [archived, setArchived] = useState<Channel[]>([])
+
+  const refreshChannels = onChannelsChange || router.refresh
+
+  const canManage = (channel: Channel) => canModerate || channel.createdBy === currentUserId
+
+  const loadArchived = async () => {
+    try {
+      const response = await fetch(`/api/conversations?${new URLSearchParams({ archived: "true" })}`)
+      if (response.ok) {
+        const data = await response.json()
+        setArchived(data.conversations || [])
+      }
+    } catch (error) {
+      console.error("Error loading archived channels:", error)
+    }
+  }
+
+  const toggleArchived = () => {
+    if (!showArchived) {
+      loadArchived()
+    }
+    setShowArchived(prev => !prev)
+  }
+
+  const setArchivedState = async (channel: Channel, archive: boolean) => {
+    try {
+      const response = await fetch(`/api/conversations/${channel.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ archived: archive }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update channel")
+      }
+
+      toast.success(archive ? `Archived ${channel.title}` : `Restored ${channel.title}`)
+      onChannelUpdated?.(data.conversation)
+      refreshChannels()
+      if (showArchived) {
+        loadArchived()
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update channel")
+    }
+  }
+
+  const renderChannel = (channel: Channel) => {
+    const Icon = channel.isPrivate ? Lock : Hash
+
+    return (
+      <div
+        key={channel.id}
+        className={cn(
+          "group flex items-center rounded-md text-sm hover:bg-muted",
+          channel.id === activeChannelId && "bg-muted font-medium"
+        )}
+      >
+        <Link
+          href={conversationUrl(channel.id)}
+          className="flex flex-1 items-center gap-2 min-w-0 px-2 py-1.5"
+          title={channel.description || channel.title}
+        >
+          <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className={cn("truncate", channel.archivedAt && "text-muted-foreground")}>
+            {channel.title}
+          </span>
+        </Link>
+
+        {(canManage(channel) || channel.isPrivate) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {canManage(channel) && !channel.archivedAt && (
+                <DropdownMenuItem onClick={() => setEditing(channel)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Rename
+                </DropdownMenuItem>
+              )}
+              {channel.isPrivate && (
+                <DropdownMenuItem onClick={() => setManagingMembers(channel)}>
+                  <Users className="h-4 w-4 mr-2" />
+                  Members
+                </DropdownMenuItem>
+              )}
+              {canManage(channel) && (
+                <>
+                  <DropdownMenuSeparator />
+                  {channel.archivedAt ? (
+                    <DropdownMenuItem onClick={() => setArchivedState(channel, false)}>
+                      <ArchiveRestore className="h-4 w-4 mr-2" />
+                      Unarchive
+                    </DropdownMenuItem>
+                  ) : (
+                    <DropdownMenuItem onClick={() => setArchivedState(channel, true)}>
+                      <Archive className="h-4 w-4 mr-2" />
+                      Archive
+                    </DropdownMenuItem>
+                  )}
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-60 border-r flex flex-col h-full">
+      {/* Header */}
+      <div className="p-4 border-b flex items-center justify-between">
+        <h2 className="font-semibold text-lg">Channels</h2>
+        <Button size="sm" variant="ghost" onClick={() => setCreateOpen(true)} title="Create a channel">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-0.5">
+          {channels.length === 0 ? (
+            <p className="p-2 text-sm text-muted-foreground">No channels yet</p>
+          ) : (
+            channels.map(renderChannel)
+          )}
+        </div>
+
+        {/* Archived channels */}
+        <div className="p-2 pt-0">
+          <button
+            type="button"
+            onClick={toggleArchived}
+            className="flex w-full items-center gap-1 px-2 py-1.5 text-xs text-muted-foreground hover:text-foreground"
+          >
+            {showArchived ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            Archived channels
+          </button>
+          {showArchived && (
+            <div className="space-y-0.5">
+              {archived.length === 0 ? (
+                <p className="px-2 py-1 text-xs text-muted-foreground">Nothing archived</p>
+              ) : (
+                archived.map(renderChannel)
+              )}
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+
+      <ChannelDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        currentUserId={currentUserId}
+        workspaceMembers={workspaceMembers}
+        onSaved={(channel) => {
+          refreshChannels()
+          router.push(conversationUrl(channel.id))
+        }}
+      />
+
+      <ChannelDialog
+        open={Boolean(editing)}
+        onOpenChange={(open) => !open && setEditing(null)}
+        currentUserId={currentUserId}
+        workspaceMembers={workspaceMembers}
+        channel={editing || undefined}
+        onSaved={(channel) => {
+          onChannelUpdated?.(channel)
+          refreshChannels()
+        }}
+      />
+
+      {managingMembers && (
+        <ChannelMembersDialog
+          open
+          onOpenChange={(open) => !open && setManagingMembers(null)}
+          channel={managingMembers}
+          currentUserId={currentUserId}
+          canManage={canManage(managingMembers)}
+          workspaceMembers={workspaceMembers}
+          onChanged={refreshChannels}
+          onLeft={() => {
+            refreshChannels()
+            if (managingMembers.id === activeChannelId) {
+              router.push("/dashboard")
+            }
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { useQueryState } from "nuqs"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -8,11 +10,29 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
 import { ThreadSidebar } from "./ThreadSidebar"
+import { ChannelSidebar, type Channel, type WorkspaceMemberOption } from "./ChannelSidebar"
 import { MessageList } from "./MessageList"
 import { MessageInput } from "./MessageInput"
+import type { MessageAttachment, MessageBranch } from "./MessageBubble"
 import { DocumentButton } from "./DocumentButton"
+import { useSession } from "@/lib/auth-client"
+import { useRealtime } from "@/hooks/useRealtime"
+import { conversationUrl } from "@/lib/conversations"
+import { toast } from "sonner"
 import {
+  Archive,
+  ChevronRight,
+  GitBranch,
   MessageCircle,
   Search,
   Plus,
@@ -20,14 +40,40 @@ import {
   MoreHorizontal
 } from "lucide-react"
 
+interface ThreadAncestor {
+  id: string
+  title: string
+}
+
 interface Thread {
   id: string
   title: string
+  parentId?: string | null
+  branchedFromId?: string | null
+  // Breadcrumbs and the message a sub-thread came from, loaded with the thread
+  ancestors?: ThreadAncestor[]
+  branchedFrom?: {
+    id: string
+    threadId: string
+    content: string
+  } | null
   createdAt: string
   updatedAt: string
   isDocumented: boolean
   autoConvert: boolean
+  convertAfter?: number | null
+  convertWhen?: string | null
+  autoConvertJob?: {
+    status: string
+    lastError?: string | null
+    runAt?: string
+  } | null
+  undocumentedMessageCount?: number
   messageCount: number
+  childCount?: number
+  unreadCount?: number
+  totalMessageCount?: number
+  totalUnreadCount?: number
   createdBy: {
     id: string
     name: string
@@ -53,11 +99,13 @@ interface Message {
   createdAt: string
   updatedAt: string
   editedAt?: string
+  deletedAt?: string
   replyToId?: string
   replyTo?: {
     id: string
     content: string
     createdAt: string
+    deletedAt?: string
     createdBy: {
       id: string
       name: string
@@ -68,49 +116,139 @@ interface Message {
     name: string
     image?: string
   }
+  attachments?: MessageAttachment[]
+  branches?: MessageBranch[]
 }
 
-interface Conversation {
-  id: string
-  title: string
+interface MessagePageInfo {
+  hasOlder: boolean
+  hasNewer: boolean
+  olderCursor: string | null
+  newerCursor: string | null
+}
+
+const EMPTY_PAGE_INFO: MessagePageInfo = {
+  hasOlder: false,
+  hasNewer: false,
+  olderCursor: null,
+  newerCursor: null,
+}
+
+interface Conversation extends Channel {
   createdAt: string
   updatedAt: string
   messageCount: number
-  threadCount: number
-  lastActivity: string
 }
 
 interface ConversationDashboardProps {
   workspaceId: string
-  initialConversation?: Conversation
+  initialConversation: Conversation
+  initialChannels: Channel[]
+  workspaceMembers: WorkspaceMemberOption[]
+  currentUser: {
+    id: string
+    name: string
+    image?: string
+  }
+  canModerate?: boolean
+}
+
+// Threads open at /dashboard/c/<conversationId>/t/<threadId>
+function threadIdFromPath(pathname: string | null): string | null {
+  return pathname?.match(/\/t\/([^/]+)$/)?.[1] || null
 }
 
 export function ConversationDashboard({
   workspaceId,
-  initialConversation
+  initialConversation,
+  initialChannels,
+  workspaceMembers,
+  currentUser,
+  canModerate = false
 }: ConversationDashboardProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const [conversation, setConversation] = useState<Conversation>(initialConversation)
+  const [channels, setChannels] = useState<Channel[]>(initialChannels)
   const [selectedThread, setSelectedThread] = useState<Thread | null>(null)
   const [threads, setThreads] = useState<Thread[]>([])
   const [messages, setMessages] = useState<Message[]>([])
   const [loading, setLoading] = useState(true)
   const [searchQuery, setSearchQuery] = useState("")
   const [showDocumentedOnly, setShowDocumentedOnly] = useState(false)
+  const [pageInfo, setPageInfo] = useState<MessagePageInfo>(EMPTY_PAGE_INFO)
+  const [loadingOlder, setLoadingOlder] = useState(false)
+  const [loadingNewer, setLoadingNewer] = useState(false)
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
+  const [branchSource, setBranchSource] = useState<Message | null>(null)
+  const [branchTitle, setBranchTitle] = useState("")
+  // Realtime handlers outlive renders, so they read the open thread from here
+  const selectedThreadIdRef = useRef<string | null>(null)
+
+  // Sub-threads nest under their parents unless searching or filtering
+  const nested = !searchQuery && !showDocumentedOnly
+
+  // Deep links: the thread comes from the path, ?message=<id> opens it at a specific message
+  const threadParam = threadIdFromPath(pathname)
+  const [messageParam, setMessageParam] = useQueryState("message")
+
+  const { data: session } = useSession()
+  const realtimeToken = session?.session.token || ""
+  const realtime = useRealtime({
+    workspaceId,
+    token: realtimeToken,
+    autoConnect: Boolean(realtimeToken),
+  })
+
+  const loadChannels = async () => {
+    try {
+      const response = await fetch("/api/conversations")
+      if (response.ok) {
+        const data = await response.json()
+        setChannels(data.conversations || [])
+      }
+    } catch (error) {
+      console.error("Error loading channels:", error)
+    }
+  }
+
+  // Pick up a rename or archive of the open conversation, and leave it if access was lost
+  const reloadConversation = async () => {
+    try {
+      const response = await fetch(`/api/conversations/${conversation.id}`)
+      if (response.status === 404) {
+        router.push("/dashboard")
+        return
+      }
+      if (response.ok) {
+        const data = await response.json()
+        setConversation(prev => ({ ...prev, ...data.conversation }))
+      }
+    } catch (error) {
+      console.error("Error loading conversation:", error)
+    }
+  }
 
   // Load threads for the conversation
   const loadThreads = async () => {
     try {
       setLoading(true)
       const response = await fetch(
-        `/api/conversations/${initialConversation?.id || 'default'}/threads?${new URLSearchParams({
+        `/api/conversations/${conversation.id}/threads?${new URLSearchParams({
           ...(searchQuery && { search: searchQuery }),
           ...(showDocumentedOnly && { isDocumented: 'true' }),
+          ...(nested && { parentId: 'root' }),
           limit: '50'
         })}`
       )
 
       if (response.ok) {
         const data = await response.json()
-        setThreads(data.threads || [])
+        setThreads(prev => nested
+          // Keep sub-threads already loaded under expanded threads
+          ? [...(data.threads || []), ...prev.filter(thread => thread.parentId)]
+          : data.threads || []
+        )
       }
     } catch (error) {
       console.error("Error loading threads:", error)
@@ -119,29 +257,248 @@ export function ConversationDashboard({
     }
   }
 
-  // Load messages for selected thread
-  const loadMessages = async (threadId: string) => {
+  // Load the sub-threads of a thread into the tree
+  const loadChildren = async (parentId: string) => {
     try {
-      const response = await fetch(`/api/threads/${threadId}`)
+      const response = await fetch(
+        `/api/conversations/${conversation.id}/threads?${new URLSearchParams({ parentId, limit: '50' })}`
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        const children: Thread[] = data.threads || []
+        setThreads(prev => [
+          ...prev.filter(thread => !children.some(child => child.id === thread.id)),
+          ...children,
+        ])
+      }
+    } catch (error) {
+      console.error("Error loading sub-threads:", error)
+    }
+  }
+
+  const expandThreads = (threadIds: string[]) => {
+    const collapsed = threadIds.filter(id => !expandedIds.has(id))
+    if (collapsed.length === 0) return
+
+    setExpandedIds(prev => new Set([...prev, ...collapsed]))
+    collapsed.forEach(loadChildren)
+  }
+
+  const handleToggleExpand = (thread: Thread) => {
+    if (!expandedIds.has(thread.id)) {
+      expandThreads([thread.id])
+      return
+    }
+
+    setExpandedIds(prev => {
+      const next = new Set(prev)
+      next.delete(thread.id)
+      return next
+    })
+  }
+
+  // Add a created thread once, counting it on its parent
+  const addThread = (created: Thread) => {
+    setThreads(prev => prev.some(thread => thread.id === created.id) ? prev : [
+      created,
+      ...prev.map(thread => thread.id === created.parentId
+        ? { ...thread, childCount: (thread.childCount || 0) + 1 }
+        : thread
+      ),
+    ])
+  }
+
+  // Change a thread's counts along with the rolled-up counts of its ancestors
+  const adjustCounts = (threadId: string, ancestorIds: string[], delta: { messages?: number; unread?: number }) => {
+    const messages = delta.messages || 0
+    const unread = delta.unread || 0
+
+    setThreads(prev => prev.map(thread => {
+      if (thread.id !== threadId && !ancestorIds.includes(thread.id)) {
+        return thread
+      }
+
+      return {
+        ...thread,
+        ...(thread.id === threadId && { unreadCount: Math.max(0, (thread.unreadCount || 0) + unread) }),
+        totalMessageCount: (thread.totalMessageCount ?? thread.messageCount) + messages,
+        totalUnreadCount: Math.max(0, (thread.totalUnreadCount || 0) + unread),
+      }
+    }))
+  }
+
+  const markRead = async (threadId: string) => {
+    try {
+      const response = await fetch(`/api/threads/${threadId}/read`, { method: 'POST' })
+      if (response.ok) {
+        const data = await response.json()
+        if (data.cleared > 0) {
+          adjustCounts(threadId, data.ancestorIds, { unread: -data.cleared })
+        }
+      }
+    } catch (error) {
+      console.error("Error marking thread read:", error)
+    }
+  }
+
+  // Load the newest page of messages, or the page around a specific message
+  const loadMessages = async (threadId: string, aroundMessageId?: string) => {
+    try {
+      const response = await fetch(
+        `/api/threads/${threadId}?${new URLSearchParams({
+          ...(aroundMessageId && { around: aroundMessageId }),
+        })}`
+      )
       if (response.ok) {
         const data = await response.json()
         setMessages(data.thread.messages || [])
+        setPageInfo(data.pageInfo || EMPTY_PAGE_INFO)
+        return data.thread
       }
     } catch (error) {
       console.error("Error loading messages:", error)
     }
+    return null
   }
 
+  const loadOlderMessages = useCallback(async () => {
+    if (!selectedThread || !pageInfo.olderCursor || loadingOlder) return
+
+    setLoadingOlder(true)
+    try {
+      const response = await fetch(
+        `/api/threads/${selectedThread.id}/messages?before=${encodeURIComponent(pageInfo.olderCursor)}`
+      )
+      if (response.ok) {
+        const data = await response.json()
+        setMessages(prev => [...data.messages, ...prev])
+        setPageInfo(prev => ({
+          ...prev,
+          hasOlder: data.pageInfo.hasOlder,
+          olderCursor: data.pageInfo.olderCursor,
+        }))
+      }
+    } catch (error) {
+      console.error("Error loading older messages:", error)
+    } finally {
+      setLoadingOlder(false)
+    }
+  }, [selectedThread, pageInfo.olderCursor, loadingOlder])
+
+  const loadNewerMessages = useCallback(async () => {
+    if (!selectedThread || !pageInfo.newerCursor || loadingNewer) return
+
+    setLoadingNewer(true)
+    try {
+      const response = await fetch(
+        `/api/threads/${selectedThread.id}/messages?after=${encodeURIComponent(pageInfo.newerCursor)}`
+      )
+      if (response.ok) {
+        const data = await response.json()
+        setMessages(prev => [...prev, ...data.messages])
+        setPageInfo(prev => ({
+          ...prev,
+          hasNewer: data.pageInfo.hasNewer,
+          newerCursor: data.pageInfo.newerCursor,
+        }))
+      }
+    } catch (error) {
+      console.error("Error loading newer messages:", error)
+    } finally {
+      setLoadingNewer(false)
+    }
+  }, [selectedThread, pageInfo.newerCursor, loadingNewer])
+
   // Handle thread selection
   const handleThreadSelect = (thread: Thread) => {
     setSelectedThread(thread)
-    loadMessages(thread.id)
+    // Shareable URL without a server round trip
+    window.history.pushState(null, "", conversationUrl(conversation.id, thread.id))
+    setMessageParam(null)
+    markRead(thread.id)
+    loadMessages(thread.id).then(details => {
+      if (!details) return
+      setSelectedThread(prev => prev && prev.id === details.id ? {
+        ...prev,
+        parentId: details.parentId,
+        ancestors: details.ancestors,
+        branchedFrom: details.branchedFrom,
+        convertAfter: details.convertAfter,
+        convertWhen: details.convertWhen,
+        autoConvertJob: details.autoConvertJob,
+        undocumentedMessageCount: details.undocumentedMessageCount,
+      } : prev)
+      if (nested) {
+        expandThreads(details.ancestors.map((ancestor: ThreadAncestor) => ancestor.id))
+      }
+    })
+  }
+
+  // Open a thread that may not be in the sidebar yet, e.g. from a breadcrumb
+  const openThread = (threadId: string, messageId?: string) => {
+    const thread = threads.find(candidate => candidate.id === threadId)
+    if (thread && !messageId) {
+      handleThreadSelect(thread)
+      return
+    }
+
+    // The deep-link effect picks up the new path
+    const url = conversationUrl(conversation.id, threadId)
+    window.history.pushState(null, "", messageId ? `${url}?${new URLSearchParams({ message: messageId })}` : url)
   }
 
+  // Open the thread (and message) named in the URL
+  useEffect(() => {
+    if (!threadParam) {
+      setSelectedThread(null)
+      return
+    }
+    if (selectedThread?.id === threadParam && !messageParam) return
+
+    const openDeepLink = async () => {
+      const thread = await loadMessages(threadParam, messageParam || undefined)
+      if (thread) {
+        setSelectedThread({
+          id: thread.id,
+          title: thread.title,
+          parentId: thread.parentId,
+          ancestors: thread.ancestors,
+          branchedFrom: thread.branchedFrom,
+          createdAt: thread.createdAt,
+          updatedAt: thread.updatedAt,
+          isDocumented: thread.isDocumented,
+          autoConvert: thread.autoConvert,
+          convertAfter: thread.convertAfter,
+          convertWhen: thread.convertWhen,
+          autoConvertJob: thread.autoConvertJob,
+          undocumentedMessageCount: thread.undocumentedMessageCount,
+          messageCount: thread.messageCount,
+          createdBy: thread.createdBy,
+        })
+        markRead(thread.id)
+        if (nested) {
+          expandThreads(thread.ancestors.map((ancestor: ThreadAncestor) => ancestor.id))
+        }
+      }
+    }
+
+    openDeepLink()
+  }, [threadParam, messageParam])
+
+  useEffect(() => {
+    selectedThreadIdRef.current = selectedThread?.id || null
+  }, [selectedThread?.id])
+
   // Handle new thread creation
   const handleNewThread = async (title: string) => {
+    if (conversation.archivedAt) {
+      toast.error("This channel is archived")
+      return
+    }
+
     try {
-      const response = await fetch(`/api/conversations/${initialConversation?.id || 'default'}/threads`, {
+      const response = await fetch(`/api/conversations/${conversation.id}/threads`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -151,17 +508,47 @@ export function ConversationDashboard({
 
       if (response.ok) {
         const data = await response.json()
-        setThreads(prev => [data.thread, ...prev])
-        setSelectedThread(data.thread)
-        loadMessages(data.thread.id)
+        addThread(data.thread)
+        handleThreadSelect(data.thread)
       }
     } catch (error) {
       console.error("Error creating thread:", error)
     }
   }
 
+  // Start a sub-thread from a message in the open thread
+  const handleBranch = async () => {
+    if (!selectedThread || !branchSource || !branchTitle.trim()) return
+
+    try {
+      const response = await fetch(`/api/conversations/${conversation.id}/threads`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: branchTitle.trim(),
+          parentId: selectedThread.id,
+          branchedFromId: branchSource.id,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create sub-thread")
+      }
+
+      addThread(data.thread)
+      setExpandedIds(prev => new Set([...prev, selectedThread.id]))
+      setBranchSource(null)
+      handleThreadSelect(data.thread)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create sub-thread")
+    }
+  }
+
   // Handle message sending
-  const handleSendMessage = async (content: string, replyToId?: string) => {
+  const handleSendMessage = async (content: string, replyToId?: string, attachmentIds?: string[]) => {
     if (!selectedThread) return
 
     try {
@@ -172,14 +559,23 @@ export function ConversationDashboard({
         },
         body: JSON.stringify({
           content,
-          contentType: 'TEXT',
+          // Files without a caption are typed by the server from the uploads
+          contentType: content || !attachmentIds ? 'TEXT' : undefined,
           replyToId,
+          attachmentIds,
         }),
       })
 
       if (response.ok) {
         const data = await response.json()
-        setMessages(prev => [...prev, data.message])
+
+        // Viewing an older window of the thread: jump to the latest page instead of leaving a gap
+        if (pageInfo.hasNewer) {
+          setMessageParam(null)
+          loadMessages(selectedThread.id)
+        } else {
+          setMessages(prev => [...prev, data.message])
+        }
 
         // Update thread in sidebar
         setThreads(prev => prev.map(thread =>
@@ -203,17 +599,186 @@ export function ConversationDashboard({
     }
   }
 
-  // Load initial data
+  // Thread events are only sent to members of the conversation's room
+  useEffect(() => {
+    if (!realtime.connected) return
+
+    return realtime.joinConversation(conversation.id)
+  }, [realtime.connected, realtime.joinConversation, conversation.id])
+
+  // Keep the channel list in sync with channels created, renamed or archived elsewhere
   useEffect(() => {
-    if (initialConversation) {
-      loadThreads()
+    if (!realtime.connected) return
+
+    const onChannelChange = (data: { conversationId: string }) => {
+      loadChannels()
+      if (data.conversationId === conversation.id) {
+        reloadConversation()
+      }
     }
-  }, [initialConversation, searchQuery, showDocumentedOnly])
+
+    const unsubscribes = [
+      realtime.subscribe("conversation:new", onChannelChange),
+      realtime.subscribe("conversation:update", onChannelChange),
+    ]
+
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe())
+    }
+  }, [realtime.connected, realtime.subscribe, conversation.id])
+
+  // Keep the sidebar in sync with threads created or updated elsewhere
+  useEffect(() => {
+    if (!realtime.connected) return
+
+    const unsubscribes = [
+      realtime.subscribe("thread:new", (data: { conversationId: string; thread?: Thread; partial?: boolean }) => {
+        if (data.conversationId !== conversation.id) return
+        if (!data.thread) {
+          loadThreads()
+          return
+        }
+        const created = data.thread
+        addThread(created)
+        // Show the new sub-thread under the message it was branched from
+        if (created.branchedFromId) {
+          setMessages(prev => prev.map(message =>
+            message.id === created.branchedFromId && !message.branches?.some(branch => branch.id === created.id)
+              ? { ...message, branches: [...(message.branches || []), { id: created.id, title: created.title }] }
+              : message
+          ))
+        }
+      }),
+      realtime.subscribe("thread:update", (data: Partial<Thread> & { threadId: string; path?: string[] }) => {
+        const { threadId, path, ...changes } = data
+        setThreads(prev => prev.map(thread =>
+          thread.id === threadId ? { ...thread, ...changes } : thread
+        ))
+        setSelectedThread(prev => prev?.id === threadId ? { ...prev, ...changes } : prev)
+
+        // New messages roll up into the counts of every thread above
+        if (changes.lastMessage) {
+          const isOpen = selectedThreadIdRef.current === threadId
+          const fromOthers = changes.lastMessage.createdBy.id !== currentUser.id
+          adjustCounts(threadId, path || [], { messages: 1, unread: fromOthers && !isOpen ? 1 : 0 })
+          if (fromOthers && isOpen) {
+            markRead(threadId)
+          }
+        }
+      }),
+    ]
+
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe())
+    }
+  }, [realtime.connected, realtime.subscribe, conversation.id])
+
+  // Receive messages posted to the open thread by other members
+  useEffect(() => {
+    if (!realtime.connected || !selectedThread) return
+
+    return realtime.subscribeToThread(selectedThread.id, (event: { type: string; data: { message?: Message; partial?: boolean } }) => {
+      if (!["newMessage", "editMessage", "deleteMessage"].includes(event.type)) return
+
+      const message = event.data.message
+      if (!message) {
+        loadMessages(selectedThread.id)
+        return
+      }
+
+      if (event.type === "newMessage") {
+        // Newer pages are fetched on scroll when the latest page isn't loaded
+        if (pageInfo.hasNewer) return
+        setMessages(prev => prev.some(existing => existing.id === message.id) ? prev : [...prev, message])
+      } else {
+        applyMessageUpdate(message)
+      }
+    })
+  }, [realtime.connected, realtime.subscribeToThread, selectedThread?.id, pageInfo.hasNewer])
+
+  // Replace a message in place, keeping reply previews of it in sync
+  const applyMessageUpdate = (updated: Message) => {
+    setMessages(prev => prev.map(message => {
+      if (message.id === updated.id) {
+        return updated
+      }
+      if (message.replyTo?.id === updated.id) {
+        return {
+          ...message,
+          replyTo: {
+            ...message.replyTo,
+            content: updated.content,
+            deletedAt: updated.deletedAt,
+          },
+        }
+      }
+      return message
+    }))
+  }
+
+  // Handle message editing
+  const handleEditMessage = async (messageId: string, content: string) => {
+    if (!selectedThread) return
+
+    const response = await fetch(`/api/threads/${selectedThread.id}/messages/${messageId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ content }),
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to edit message")
+    }
+
+    applyMessageUpdate(data.message)
+  }
+
+  // Handle message deletion
+  const handleDeleteMessage = async (messageId: string) => {
+    if (!selectedThread) return
+
+    try {
+      const response = await fetch(`/api/threads/${selectedThread.id}/messages/${messageId}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        applyMessageUpdate(data.message)
+      }
+    } catch (error) {
+      console.error("Error deleting message:", error)
+    }
+  }
+
+  // Load initial data
+  useEffect(() => {
+    loadThreads()
+  }, [conversation.id, searchQuery, showDocumentedOnly])
 
   return (
     <div className="flex h-full">
+      {/* Channel Sidebar */}
+      <ChannelSidebar
+        channels={channels}
+        activeChannelId={conversation.id}
+        currentUserId={currentUser.id}
+        canModerate={canModerate}
+        workspaceMembers={workspaceMembers}
+        onChannelsChange={loadChannels}
+        onChannelUpdated={(channel) => {
+          if (channel.id === conversation.id) {
+            setConversation(prev => ({ ...prev, ...channel }))
+          }
+        }}
+      />
+
       {/* Thread Sidebar */}
       <ThreadSidebar
+        title={conversation.title}
         threads={threads}
         selectedThreadId={selectedThread?.id}
         onThreadSelect={handleThreadSelect}
@@ -223,6 +788,9 @@ export function ConversationDashboard({
         showDocumentedOnly={showDocumentedOnly}
         onShowDocumentedOnlyChange={setShowDocumentedOnly}
         loading={loading}
+        nested={nested}
+        expandedIds={expandedIds}
+        onToggleExpand={handleToggleExpand}
       />
 
       {/* Main Content Area */}
@@ -233,12 +801,43 @@ export function ConversationDashboard({
             <div className="border-b p-4">
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
-                  <div>
+                  <div className="min-w-0">
+                    {/* Breadcrumbs up to the top-level thread */}
+                    {selectedThread.ancestors && selectedThread.ancestors.length > 0 && (
+                      <nav className="flex flex-wrap items-center text-xs text-muted-foreground mb-1" aria-label="Parent threads">
+                        {selectedThread.ancestors.map((ancestor) => (
+                          <span key={ancestor.id} className="flex items-center">
+                            <button
+                              type="button"
+                              className="max-w-40 truncate hover:text-foreground hover:underline"
+                              onClick={() => openThread(ancestor.id)}
+                            >
+                              {ancestor.title}
+                            </button>
+                            <ChevronRight className="h-3 w-3 mx-1" />
+                          </span>
+                        ))}
+                      </nav>
+                    )}
                     <h2 className="text-lg font-semibold">{selectedThread.title}</h2>
                     <p className="text-sm text-muted-foreground">
                       {selectedThread.messageCount} messages •
                       Created by {selectedThread.createdBy.name}
                     </p>
+                    {selectedThread.branchedFrom && (
+                      <button
+                        type="button"
+                        className="flex max-w-md items-center text-xs text-muted-foreground hover:text-foreground"
+                        onClick={() => openThread(selectedThread.branchedFrom!.threadId, selectedThread.branchedFrom!.id)}
+                      >
+                        <GitBranch className="h-3 w-3 mr-1 flex-shrink-0" />
+                        <span className="truncate">
+                          Branched from {selectedThread.branchedFrom.content
+                            ? `"${selectedThread.branchedFrom.content}"`
+                            : "a deleted message"}
+                        </span>
+                      </button>
+                    )}
                   </div>
                   {selectedThread.isDocumented && (
                     <Badge variant="secondary" className="ml-2">
@@ -259,6 +858,19 @@ export function ConversationDashboard({
                     onDocumentedChange={(documented) => {
                       setSelectedThread(prev => prev ? { ...prev, isDocumented: documented } : null)
                     }}
+                    threadSettings={{
+                      autoConvert: selectedThread.autoConvert,
+                      convertAfter: selectedThread.convertAfter ?? undefined,
+                      convertWhen: selectedThread.convertWhen ?? undefined,
+                    }}
+                    onSettingsChange={(settings) => {
+                      setSelectedThread(prev => prev ? { ...prev, ...settings } : null)
+                    }}
+                    autoConvertJob={selectedThread.autoConvertJob}
+                    undocumentedMessageCount={selectedThread.undocumentedMessageCount}
+                    onWikiMerged={() => {
+                      setSelectedThread(prev => prev ? { ...prev, undocumentedMessageCount: 0 } : null)
+                    }}
                   />
                   <Button variant="ghost" size="sm">
                     <MoreHorizontal className="h-4 w-4" />
@@ -270,16 +882,45 @@ export function ConversationDashboard({
             {/* Messages Area */}
             <div className="flex-1 flex">
               <MessageList
+                threadId={selectedThread.id}
                 messages={messages}
+                currentUser={currentUser}
+                canModerate={canModerate}
                 onReply={(messageId) => {
                   // Handle reply
                 }}
+                onEditMessage={handleEditMessage}
+                onDeleteMessage={handleDeleteMessage}
+                onBranch={conversation.archivedAt ? undefined : (message) => {
+                  setBranchTitle(message.content.slice(0, 80))
+                  setBranchSource(message)
+                }}
+                onOpenBranch={(threadId) => openThread(threadId)}
+                hasOlder={pageInfo.hasOlder}
+                hasNewer={pageInfo.hasNewer}
+                loadingOlder={loadingOlder}
+                loadingNewer={loadingNewer}
+                onLoadOlder={loadOlderMessages}
+                onLoadNewer={loadNewerMessages}
+                highlightMessageId={messageParam}
               />
             </div>
 
             {/* Message Input */}
             <div className="border-t p-4">
-              <MessageInput onSendMessage={handleSendMessage} />
+              {conversation.archivedAt ? (
+                <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                  <Archive className="h-4 w-4" />
+                  This channel is archived. Unarchive it to post again.
+                </div>
+              ) : (
+                <MessageInput
+                  // Remount per thread so pending uploads don't follow the user
+                  key={selectedThread.id}
+                  onSendMessage={handleSendMessage}
+                  attachmentUploadUrl={`/api/threads/${selectedThread.id}/attachments`}
+                />
+              )}
             </div>
           </>
         ) : (
@@ -291,7 +932,10 @@ export function ConversationDashboard({
               <p className="text-muted-foreground mb-4">
                 Choose a thread from the sidebar to view and participate in the conversation.
               </p>
-              <Button onClick={() => handleNewThread("New Discussion Thread")}>
+              <Button
+                onClick={() => handleNewThread("New Discussion Thread")}
+                disabled={Boolean(conversation.archivedAt)}
+              >
                 <Plus className="h-4 w-4 mr-2" />
                 Start a new thread
               </Button>
@@ -299,6 +943,34 @@ export function ConversationDashboard({
           </div>
         )}
       </div>
+
+      <Dialog open={Boolean(branchSource)} onOpenChange={(open) => !open && setBranchSource(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Branch into sub-thread</DialogTitle>
+            <DialogDescription>
+              Continue a side discussion about this message without cluttering the thread.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="branch-title">Sub-thread title</Label>
+            <Input
+              id="branch-title"
+              value={branchTitle}
+              onChange={(e) => setBranchTitle(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleBranch()}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBranchSource(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleBranch} disabled={!branchTitle.trim()}>
+              Create Sub-thread
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import {
   Popover,
@@ -27,7 +27,8 @@ import {
   Clock,
   MessageSquare,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  RefreshCw
 } from "lucide-react"
 
 interface DocumentButtonProps {
@@ -44,6 +45,13 @@ interface DocumentButtonProps {
     convertAfter?: number
     convertWhen?: string
   }) => void
+  autoConvertJob?: {
+    status: string
+    lastError?: string | null
+    runAt?: string
+  } | null
+  undocumentedMessageCount?: number
+  onWikiMerged?: () => void
 }
 
 export function DocumentButton({
@@ -51,14 +59,27 @@ export function DocumentButton({
   isDocumented,
   onDocumentedChange,
   threadSettings = { autoConvert: false },
-  onSettingsChange
+  onSettingsChange,
+  autoConvertJob,
+  undocumentedMessageCount = 0,
+  onWikiMerged
 }: DocumentButtonProps) {
   const [isConverting, setIsConverting] = useState(false)
+  const [isMerging, setIsMerging] = useState(false)
   const [settingsDialogOpen, setSettingsDialogOpen] = useState(false)
   const [autoConvert, setAutoConvert] = useState(threadSettings.autoConvert)
   const [convertAfter, setConvertAfter] = useState(threadSettings.convertAfter?.toString() || "10")
   const [convertWhenHours, setConvertWhenHours] = useState("24")
-  const [convertType, setConvertType] = useState<'messages' | 'time'>('messages')
+  const [convertType, setConvertType] = useState<'messages' | 'time'>(
+    threadSettings.convertWhen && !threadSettings.convertAfter ? 'time' : 'messages'
+  )
+
+  // Settings arrive after the thread details load
+  useEffect(() => {
+    setAutoConvert(threadSettings.autoConvert)
+    setConvertAfter(threadSettings.convertAfter?.toString() || "10")
+    setConvertType(threadSettings.convertWhen && !threadSettings.convertAfter ? 'time' : 'messages')
+  }, [threadSettings.autoConvert, threadSettings.convertAfter, threadSettings.convertWhen])
 
   const handleConvertToWiki = async () => {
     if (isDocumented) {
@@ -89,6 +110,39 @@ export function DocumentButton({
     }
   }
 
+  // Append messages posted since the page was generated, keeping manual edits
+  const handleMergeIntoWiki = async () => {
+    setIsMerging(true)
+
+    try {
+      const response = await fetch(`/api/threads/${threadId}/convert-to-wiki`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ mode: 'merge' }),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        toast.success(
+          data.mergedMessageCount > 0
+            ? `Added ${data.mergedMessageCount} new message${data.mergedMessageCount === 1 ? '' : 's'} to the wiki page`
+            : "Wiki page is already up to date"
+        )
+        onWikiMerged?.()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || "Failed to update wiki page")
+      }
+    } catch (error) {
+      console.error("Error merging thread into wiki:", error)
+      toast.error("Failed to update wiki page")
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
   const handleSaveSettings = async () => {
     const updateData: any = {
       autoConvert,
@@ -132,10 +186,24 @@ export function DocumentButton({
     <div className="flex items-center space-x-2">
       {/* Main Document Button */}
       {isDocumented ? (
-        <Badge variant="default" className="cursor-pointer">
-          <CheckCircle className="h-3 w-3 mr-1" />
-          Documented
-        </Badge>
+        <>
+          <Badge variant="default" className="cursor-pointer">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            Documented
+          </Badge>
+          {undocumentedMessageCount > 0 && (
+            <Button
+              onClick={handleMergeIntoWiki}
+              disabled={isMerging}
+              variant="outline"
+              size="sm"
+              title="Add the new messages to the wiki page"
+            >
+              <RefreshCw className={`h-4 w-4 mr-1 ${isMerging ? "animate-spin" : ""}`} />
+              {undocumentedMessageCount} new message{undocumentedMessageCount === 1 ? "" : "s"} since documented
+            </Button>
+          )}
+        </>
       ) : (
         <Button
           onClick={handleConvertToWiki}
@@ -246,10 +314,27 @@ export function DocumentButton({
 
       {/* Status indicator */}
       {threadSettings.autoConvert && !isDocumented && (
-        <Badge variant="outline" className="text-xs">
-          <AlertCircle className="h-3 w-3 mr-1" />
-          Auto
-        </Badge>
+        autoConvertJob?.status === "FAILED" ? (
+          <Badge
+            variant="destructive"
+            className="text-xs"
+            title={autoConvertJob.lastError || undefined}
+          >
+            <AlertCircle className="h-3 w-3 mr-1" />
+            Auto-convert failed
+          </Badge>
+        ) : (
+          <Badge
+            variant="outline"
+            className="text-xs"
+            title={autoConvertJob?.status === "PENDING" && autoConvertJob.runAt
+              ? `Scheduled for ${new Date(autoConvertJob.runAt).toLocaleString()}`
+              : undefined}
+          >
+            <AlertCircle className="h-3 w-3 mr-1" />
+            Auto
+          </Badge>
+        )
       )}
     </div>
   )
@@ -3,7 +3,20 @@
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
-import { Copy, Edit, Trash2, Download, ExternalLink } from "lucide-react"
+import { Textarea } from "@/components/ui/textarea"
+import { Copy, Edit, Trash2, Download, ExternalLink, FileText, GitBranch } from "lucide-react"
+import { formatFileSize } from "@/lib/format"
+
+export interface MessageAttachment {
+  id: string
+  fileName: string
+  mimeType: string
+  size: number
+  width?: number | null
+  height?: number | null
+  url: string
+  thumbnailUrl?: string | null
+}
 
 interface Message {
   id: string
@@ -12,11 +25,13 @@ interface Message {
   createdAt: string
   updatedAt: string
   editedAt?: string
+  deletedAt?: string
   replyToId?: string
   replyTo?: {
     id: string
     content: string
     createdAt: string
+    deletedAt?: string
     createdBy: {
       id: string
       name: string
@@ -27,17 +42,44 @@ interface Message {
     name: string
     image?: string
   }
+  attachments?: MessageAttachment[]
+  // Sub-threads branched from this message
+  branches?: MessageBranch[]
+}
+
+export interface MessageBranch {
+  id: string
+  title: string
 }
 
 interface MessageBubbleProps {
   message: Message
   isCurrentUser: boolean
+  isEditing?: boolean
+  onSaveEdit?: (content: string) => Promise<void>
+  onCancelEdit?: () => void
+  onOpenBranch?: (threadId: string) => void
 }
 
-export function MessageBubble({ message, isCurrentUser }: MessageBubbleProps) {
+export function MessageBubble({
+  message,
+  isCurrentUser,
+  isEditing = false,
+  onSaveEdit,
+  onCancelEdit,
+  onOpenBranch
+}: MessageBubbleProps) {
   const [isExpanded, setIsExpanded] = useState(false)
 
+  const attachments = message.attachments || []
+  const branches = message.branches || []
+
   const formatContent = () => {
+    // Uploaded files: the content is just an optional caption
+    if (attachments.length > 0 && (message.contentType === 'FILE' || message.contentType === 'IMAGE')) {
+      return message.content ? <TextBlock content={message.content} /> : null
+    }
+
     switch (message.contentType) {
       case 'CODE':
         return <CodeBlock content={message.content} />
@@ -53,6 +95,28 @@ export function MessageBubble({ message, isCurrentUser }: MessageBubbleProps) {
     }
   }
 
+  if (message.deletedAt) {
+    return (
+      <Card className="p-3 bg-transparent border-dashed">
+        <div className="flex items-center space-x-2 text-sm italic text-muted-foreground">
+          <Trash2 className="h-4 w-4 flex-shrink-0" />
+          <span>This message was deleted</span>
+        </div>
+        {branches.length > 0 && <BranchList branches={branches} onOpen={onOpenBranch} />}
+      </Card>
+    )
+  }
+
+  if (isEditing && onSaveEdit) {
+    return (
+      <EditForm
+        initialContent={message.content}
+        onSave={onSaveEdit}
+        onCancel={() => onCancelEdit?.()}
+      />
+    )
+  }
+
   return (
     <Card
       className={`p-3 ${
@@ -63,6 +127,89 @@ export function MessageBubble({ message, isCurrentUser }: MessageBubbleProps) {
     >
       <div className="space-y-2">
         {formatContent()}
+        {attachments.length > 0 && <AttachmentList attachments={attachments} />}
+        {branches.length > 0 && <BranchList branches={branches} onOpen={onOpenBranch} />}
+      </div>
+      {message.editedAt && (
+        <div
+          className="flex items-center space-x-1 text-xs opacity-70"
+          title={`Edited ${new Date(message.editedAt).toLocaleString()}`}
+        >
+          <Edit className="h-3 w-3" />
+          <span>edited</span>
+        </div>
+      )}
+    </Card>
+  )
+}
+
+function BranchList({ branches, onOpen }: { branches: MessageBranch[]; onOpen?: (threadId: string) => void }) {
+  return (
+    <div className="flex flex-col items-start gap-1 border-t border-current/10 pt-2">
+      {branches.map((branch) => (
+        <button
+          key={branch.id}
+          type="button"
+          className="flex items-center space-x-1 text-xs opacity-80 hover:opacity-100 hover:underline"
+          onClick={() => onOpen?.(branch.id)}
+        >
+          <GitBranch className="h-3 w-3 flex-shrink-0" />
+          <span className="truncate">{branch.title}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
+
+interface EditFormProps {
+  initialContent: string
+  onSave: (content: string) => Promise<void>
+  onCancel: () => void
+}
+
+function EditForm({ initialContent, onSave, onCancel }: EditFormProps) {
+  const [content, setContent] = useState(initialContent)
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    if (!content.trim() || saving) return
+
+    setSaving(true)
+    try {
+      await onSave(content)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      handleSave()
+    } else if (e.key === 'Escape') {
+      onCancel()
+    }
+  }
+
+  return (
+    <Card className="p-3 space-y-2 text-left">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="min-h-[60px] resize-none"
+        autoFocus
+      />
+      <div className="flex items-center justify-end space-x-2">
+        <span className="mr-auto text-xs text-muted-foreground">
+          Enter to save, Esc to cancel
+        </span>
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving || !content.trim()}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
       </div>
     </Card>
   )
@@ -172,6 +319,47 @@ function LinkBlock({ content }: { content: string }) {
   )
 }
 
+function AttachmentList({ attachments }: { attachments: MessageAttachment[] }) {
+  const images = attachments.filter(attachment => attachment.thumbnailUrl)
+  const files = attachments.filter(attachment => !attachment.thumbnailUrl)
+
+  return (
+    <div className="space-y-2">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((image) => (
+            <a key={image.id} href={image.url} target="_blank" rel="noopener noreferrer">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={image.thumbnailUrl!}
+                alt={image.fileName}
+                width={image.width || undefined}
+                height={image.height || undefined}
+                loading="lazy"
+                className="max-h-60 w-auto max-w-full rounded object-cover"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      {files.map((file) => (
+        <div key={file.id} className="flex items-center space-x-2 p-2 border rounded">
+          <FileText className="h-4 w-4 flex-shrink-0" />
+          <div className="min-w-0">
+            <div className="text-sm font-medium truncate">{file.fileName}</div>
+            <div className="text-xs opacity-70">{formatFileSize(file.size)}</div>
+          </div>
+          <Button variant="ghost" size="sm" className="ml-auto" asChild>
+            <a href={`${file.url}?download=1`} title={`Download ${file.fileName}`}>
+              <Download className="h-4 w-4" />
+            </a>
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
 function FileBlock({ content }: { content: string }) {
   const fileName = content.split('/').pop() || content
 
@@ -0,0 +1,123 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Badge } from "@/components/ui/badge"
+import { formatDistanceToNow } from "date-fns"
+
+interface MessageRevision {
+  id: string
+  content: string
+  contentType: string
+  createdAt: string
+  editedBy: {
+    id: string
+    name: string | null
+  }
+}
+
+interface MessageHistory {
+  message: {
+    id: string
+    content: string
+    editedAt?: string
+    deletedAt?: string
+  }
+  revisions: MessageRevision[]
+}
+
+interface MessageHistoryDialogProps {
+  threadId: string
+  messageId: string | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function MessageHistoryDialog({
+  threadId,
+  messageId,
+  onOpenChange
+}: MessageHistoryDialogProps) {
+  const [history, setHistory] = useState<MessageHistory | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!messageId) return
+
+    const loadHistory = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/threads/${threadId}/messages/${messageId}/revisions`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load history")
+        }
+
+        setHistory(data)
+      } catch (error) {
+        setError(error instanceof Error ? error.message : "Failed to load history")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadHistory()
+  }, [threadId, messageId])
+
+  return (
+    <Dialog open={Boolean(messageId)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Message history</DialogTitle>
+          <DialogDescription>
+            Earlier versions of this message, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : history ? (
+          <ScrollArea className="max-h-[400px]">
+            <div className="space-y-3 pr-3">
+              <div className="rounded border p-3">
+                <div className="mb-1 flex items-center space-x-2 text-xs text-muted-foreground">
+                  <Badge variant={history.message.deletedAt ? "destructive" : "secondary"}>
+                    {history.message.deletedAt ? "Deleted" : "Current"}
+                  </Badge>
+                </div>
+                <p className="whitespace-pre-wrap break-words text-sm">
+                  {history.message.deletedAt ? <em>No content</em> : history.message.content}
+                </p>
+              </div>
+
+              {history.revisions.length === 0 && (
+                <p className="text-sm text-muted-foreground">This message has not been changed.</p>
+              )}
+
+              {history.revisions.map((revision) => (
+                <div key={revision.id} className="rounded border p-3">
+                  <div className="mb-1 text-xs text-muted-foreground">
+                    Replaced by {revision.editedBy.name || "Unknown User"}{" "}
+                    {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                  </div>
+                  <p className="whitespace-pre-wrap break-words text-sm">{revision.content}</p>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,6 +4,7 @@ import { useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Card } from "@/components/ui/card"
+import { toast } from "sonner"
 import {
   Popover,
   PopoverContent,
@@ -18,11 +19,25 @@ import {
   File,
   Image,
   Bold,
-  Italic
+  Italic,
+  Loader2,
+  X
 } from "lucide-react"
+import { formatFileSize } from "@/lib/format"
+import type { MessageAttachment } from "./MessageBubble"
+
+interface PendingUpload {
+  key: string
+  fileName: string
+  size: number
+  isImage: boolean
+  attachment?: MessageAttachment
+}
 
 interface MessageInputProps {
-  onSendMessage: (content: string, replyToId?: string) => void
+  onSendMessage: (content: string, replyToId?: string, attachmentIds?: string[]) => void
+  // Where files are uploaded, e.g. /api/threads/<id>/attachments; no uploads without it
+  attachmentUploadUrl?: string
   placeholder?: string
   disabled?: boolean
   replyTo?: {
@@ -37,6 +52,7 @@ interface MessageInputProps {
 
 export function MessageInput({
   onSendMessage,
+  attachmentUploadUrl,
   placeholder = "Type your message...",
   disabled = false,
   replyTo,
@@ -44,7 +60,12 @@ export function MessageInput({
 }: MessageInputProps) {
   const [message, setMessage] = useState("")
   const [isComposing, setIsComposing] = useState(false)
+  const [uploads, setUploads] = useState<PendingUpload[]>([])
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const uploading = uploads.some(upload => !upload.attachment)
+  const uploadedIds = uploads.flatMap(upload => upload.attachment ? [upload.attachment.id] : [])
 
   // Auto-resize textarea
   useEffect(() => {
@@ -54,10 +75,65 @@ export function MessageInput({
     }
   }, [message])
 
+  const uploadFiles = async (files: File[]) => {
+    if (!attachmentUploadUrl) return
+
+    await Promise.all(files.map(async (file) => {
+      const key = `${file.name}-${file.size}-${Math.random()}`
+      setUploads(prev => [...prev, {
+        key,
+        fileName: file.name,
+        size: file.size,
+        isImage: file.type.startsWith("image/"),
+      }])
+
+      try {
+        const formData = new FormData()
+        formData.append("file", file)
+
+        const response = await fetch(attachmentUploadUrl, {
+          method: "POST",
+          body: formData,
+        })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || "Upload failed")
+        }
+
+        setUploads(prev => prev.map(upload =>
+          upload.key === key ? { ...upload, attachment: data.attachment } : upload
+        ))
+      } catch (error) {
+        setUploads(prev => prev.filter(upload => upload.key !== key))
+        toast.error(`${file.name}: ${error instanceof Error ? error.message : "Upload failed"}`)
+      }
+    }))
+  }
+
+  const removeUpload = (upload: PendingUpload) => {
+    setUploads(prev => prev.filter(item => item.key !== upload.key))
+    if (upload.attachment) {
+      // Best effort; unsent uploads are cleaned up later anyway
+      fetch(`/api/attachments/${upload.attachment.id}`, { method: "DELETE" }).catch(() => {})
+    }
+  }
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length > 0 && attachmentUploadUrl) {
+      e.preventDefault()
+      uploadFiles(files)
+    }
+  }
+
+  const canSend = (Boolean(message.trim()) || uploadedIds.length > 0) && !uploading && !disabled
+
   const handleSend = () => {
-    if (message.trim() && !disabled) {
-      onSendMessage(message.trim(), replyTo?.id)
+    if (canSend) {
+      onSendMessage(message.trim(), replyTo?.id, uploadedIds.length > 0 ? uploadedIds : undefined)
       setMessage("")
+      setUploads([])
 
       // Reset textarea height
       if (textareaRef.current) {
@@ -145,6 +221,37 @@ export function MessageInput({
         </div>
       )}
 
+      {/* Pending uploads */}
+      {uploads.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {uploads.map((upload) => (
+            <div
+              key={upload.key}
+              className="flex items-center space-x-2 rounded border bg-muted/50 px-2 py-1 text-sm"
+            >
+              {!upload.attachment ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : upload.isImage ? (
+                <Image className="h-4 w-4" />
+              ) : (
+                <File className="h-4 w-4" />
+              )}
+              <span className="max-w-[160px] truncate">{upload.fileName}</span>
+              <span className="text-xs text-muted-foreground">{formatFileSize(upload.size)}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                onClick={() => removeUpload(upload)}
+                disabled={!upload.attachment}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Message input */}
       <div className="flex items-end space-x-2">
         {/* Formatting toolbar */}
@@ -216,9 +323,30 @@ export function MessageInput({
             </PopoverContent>
           </Popover>
 
-          <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-            <Paperclip className="h-4 w-4" />
-          </Button>
+          {attachmentUploadUrl && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled}
+                title="Attach files"
+              >
+                <Paperclip className="h-4 w-4" />
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  uploadFiles(Array.from(e.target.files || []))
+                  e.target.value = ""
+                }}
+              />
+            </>
+          )}
 
           <Button
             variant="ghost"
@@ -237,6 +365,7 @@ export function MessageInput({
             value={message}
             onChange={(e) => setMessage(e.target.value)}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
             onCompositionStart={() => setIsComposing(true)}
             onCompositionEnd={() => setIsComposing(false)}
             placeholder={placeholder}
@@ -250,7 +379,7 @@ export function MessageInput({
         {/* Send button */}
         <Button
           onClick={handleSend}
-          disabled={!message.trim() || disabled || isComposing}
+          disabled={!canSend || isComposing}
           size="sm"
           className="h-10"
         >
@@ -1,11 +1,29 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useLayoutEffect } from "react"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { MessageBubble } from "./MessageBubble"
-import { Reply, MoreHorizontal } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { MessageBubble, type MessageAttachment, type MessageBranch } from "./MessageBubble"
+import { MessageHistoryDialog } from "./MessageHistoryDialog"
+import { Reply, MoreHorizontal, Edit, Trash2, History, Loader2, GitBranch } from "lucide-react"
 
 interface Message {
   id: string
@@ -14,11 +32,13 @@ interface Message {
   createdAt: string
   updatedAt: string
   editedAt?: string
+  deletedAt?: string
   replyToId?: string
   replyTo?: {
     id: string
     content: string
     createdAt: string
+    deletedAt?: string
     createdBy: {
       id: string
       name: string
@@ -29,47 +49,129 @@ interface Message {
     name: string
     image?: string
   }
+  attachments?: MessageAttachment[]
+  branches?: MessageBranch[]
 }
 
 interface MessageListProps {
+  threadId: string
   messages: Message[]
   onReply?: (messageId: string) => void
+  onEditMessage?: (messageId: string, content: string) => Promise<void>
+  onDeleteMessage?: (messageId: string) => Promise<void>
+  // Start a sub-thread from a message, and open one of its sub-threads
+  onBranch?: (message: Message) => void
+  onOpenBranch?: (threadId: string) => void
   currentUser?: {
     id: string
     name: string
     image?: string
   }
+  canModerate?: boolean
+  // Cursor pagination: older pages load when scrolling up, newer ones when
+  // scrolling down after jumping into the middle of a thread
+  hasOlder?: boolean
+  hasNewer?: boolean
+  loadingOlder?: boolean
+  loadingNewer?: boolean
+  onLoadOlder?: () => void
+  onLoadNewer?: () => void
+  highlightMessageId?: string | null
 }
 
+// Distance from the top/bottom edge (px) at which the next page is requested
+const LOAD_THRESHOLD = 150
+
 export function MessageList({
+  threadId,
   messages,
   onReply,
-  currentUser
+  onEditMessage,
+  onDeleteMessage,
+  onBranch,
+  onOpenBranch,
+  currentUser,
+  canModerate = false,
+  hasOlder = false,
+  hasNewer = false,
+  loadingOlder = false,
+  loadingNewer = false,
+  onLoadOlder,
+  onLoadNewer,
+  highlightMessageId
 }: MessageListProps) {
   const scrollAreaRef = useRef<HTMLDivElement>(null)
-  const [autoScroll, setAutoScroll] = useState(true)
+  const autoScrollRef = useRef(true)
+  const renderedRangeRef = useRef<{ firstId?: string; lastId?: string; scrollHeight: number; scrollTop: number }>({
+    scrollHeight: 0,
+    scrollTop: 0,
+  })
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+  const [deletingMessageId, setDeletingMessageId] = useState<string | null>(null)
+  const [historyMessageId, setHistoryMessageId] = useState<string | null>(null)
 
-  // Auto-scroll to bottom when new messages arrive
-  useEffect(() => {
-    if (autoScroll && scrollAreaRef.current) {
-      const scrollElement = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]')
-      if (scrollElement) {
-        scrollElement.scrollTop = scrollElement.scrollHeight
+  const hasMessages = messages.length > 0
+
+  const getViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLElement>('[data-radix-scroll-area-viewport]') || null
+
+  // Position the viewport after the message window changes:
+  // keep the reader in place when older messages are prepended, follow new
+  // messages at the bottom, and center the highlighted message on jumps
+  useLayoutEffect(() => {
+    const viewport = getViewport()
+    const previous = renderedRangeRef.current
+    const firstId = messages[0]?.id
+    const lastId = messages[messages.length - 1]?.id
+
+    if (viewport) {
+      const isNewWindow = previous.firstId !== firstId && previous.lastId !== lastId
+      const highlighted = highlightMessageId
+        ? viewport.querySelector<HTMLElement>(`[data-message-id="${highlightMessageId}"]`)
+        : null
+
+      if (isNewWindow && highlighted) {
+        highlighted.scrollIntoView({ block: "center" })
+      } else if (previous.firstId && firstId !== previous.firstId && lastId === previous.lastId) {
+        viewport.scrollTop = viewport.scrollHeight - previous.scrollHeight + previous.scrollTop
+      } else if (isNewWindow || (lastId !== previous.lastId && autoScrollRef.current)) {
+        viewport.scrollTop = viewport.scrollHeight
+      }
+
+      renderedRangeRef.current = {
+        firstId,
+        lastId,
+        scrollHeight: viewport.scrollHeight,
+        scrollTop: viewport.scrollTop,
       }
+    } else {
+      renderedRangeRef.current = { firstId, lastId, scrollHeight: 0, scrollTop: 0 }
     }
-  }, [messages, autoScroll])
+  }, [messages, highlightMessageId])
 
-  const handleScroll = () => {
-    if (!scrollAreaRef.current) return
+  // Radix renders its own viewport, so listen for scrolling on it directly
+  useEffect(() => {
+    const viewport = getViewport()
+    if (!viewport) return
 
-    const scrollElement = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]')
-    if (!scrollElement) return
+    const handleScroll = () => {
+      const { scrollTop, scrollHeight, clientHeight } = viewport
+      const distanceFromBottom = scrollHeight - scrollTop - clientHeight
 
-    const { scrollTop, scrollHeight, clientHeight } = scrollElement
-    const isAtBottom = scrollHeight - scrollTop - clientHeight < 50
+      autoScrollRef.current = distanceFromBottom < 50 && !hasNewer
+      renderedRangeRef.current.scrollHeight = scrollHeight
+      renderedRangeRef.current.scrollTop = scrollTop
 
-    setAutoScroll(isAtBottom)
-  }
+      if (scrollTop < LOAD_THRESHOLD && hasOlder && !loadingOlder) {
+        onLoadOlder?.()
+      } else if (distanceFromBottom < LOAD_THRESHOLD && hasNewer && !loadingNewer) {
+        onLoadNewer?.()
+      }
+    }
+
+    viewport.addEventListener("scroll", handleScroll, { passive: true })
+    return () => viewport.removeEventListener("scroll", handleScroll)
+  }, [hasMessages, hasOlder, hasNewer, loadingOlder, loadingNewer, onLoadOlder, onLoadNewer])
 
   if (messages.length === 0) {
     return (
@@ -91,25 +193,96 @@ export function MessageList({
     <ScrollArea
       ref={scrollAreaRef}
       className="flex-1"
-      onScroll={handleScroll}
     >
       <div className="p-4 space-y-4">
+        {hasOlder && (
+          <div className="flex justify-center text-xs text-muted-foreground">
+            {loadingOlder ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Button variant="ghost" size="sm" onClick={onLoadOlder}>
+                Load older messages
+              </Button>
+            )}
+          </div>
+        )}
+
         {messages.map((message, index) => {
           const isSameUserAsPrevious = index > 0 &&
             messages[index - 1].createdBy.id === message.createdBy.id
           const showAvatar = !isSameUserAsPrevious || message.replyToId
 
+          const isCurrentUser = currentUser?.id === message.createdBy.id
+
           return (
             <MessageWrapper
               key={message.id}
               message={message}
               showAvatar={showAvatar}
-              isCurrentUser={currentUser?.id === message.createdBy.id}
+              isCurrentUser={isCurrentUser}
+              isHighlighted={highlightMessageId === message.id}
+              canModify={isCurrentUser || canModerate}
+              isEditing={editingMessageId === message.id}
               onReply={onReply}
+              onBranch={onBranch ? () => onBranch(message) : undefined}
+              onOpenBranch={onOpenBranch}
+              onStartEdit={onEditMessage ? () => setEditingMessageId(message.id) : undefined}
+              onSaveEdit={async (content) => {
+                await onEditMessage?.(message.id, content)
+                setEditingMessageId(null)
+              }}
+              onCancelEdit={() => setEditingMessageId(null)}
+              onDelete={onDeleteMessage ? () => setDeletingMessageId(message.id) : undefined}
+              onShowHistory={() => setHistoryMessageId(message.id)}
             />
           )
         })}
+
+        {hasNewer && (
+          <div className="flex justify-center text-xs text-muted-foreground">
+            {loadingNewer ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Button variant="ghost" size="sm" onClick={onLoadNewer}>
+                Load newer messages
+              </Button>
+            )}
+          </div>
+        )}
       </div>
+
+      <AlertDialog
+        open={Boolean(deletingMessageId)}
+        onOpenChange={(open) => !open && setDeletingMessageId(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The message will be replaced with a &quot;deleted&quot; notice. Replies to it stay in the thread.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deletingMessageId) {
+                  onDeleteMessage?.(deletingMessageId)
+                }
+                setDeletingMessageId(null)
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <MessageHistoryDialog
+        threadId={threadId}
+        messageId={historyMessageId}
+        onOpenChange={(open) => !open && setHistoryMessageId(null)}
+      />
     </ScrollArea>
   )
 }
@@ -118,20 +291,45 @@ interface MessageWrapperProps {
   message: Message
   showAvatar: boolean
   isCurrentUser: boolean
+  isHighlighted: boolean
+  canModify: boolean
+  isEditing: boolean
   onReply?: (messageId: string) => void
+  onBranch?: () => void
+  onOpenBranch?: (threadId: string) => void
+  onStartEdit?: () => void
+  onSaveEdit: (content: string) => Promise<void>
+  onCancelEdit: () => void
+  onDelete?: () => void
+  onShowHistory: () => void
 }
 
 function MessageWrapper({
   message,
   showAvatar,
   isCurrentUser,
-  onReply
+  isHighlighted,
+  canModify,
+  isEditing,
+  onReply,
+  onBranch,
+  onOpenBranch,
+  onStartEdit,
+  onSaveEdit,
+  onCancelEdit,
+  onDelete,
+  onShowHistory
 }: MessageWrapperProps) {
   const [showActions, setShowActions] = useState(false)
+  const isDeleted = Boolean(message.deletedAt)
+  const hasHistory = Boolean(message.editedAt || message.deletedAt)
 
   return (
     <div
-      className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} group`}
+      data-message-id={message.id}
+      className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} group rounded-md transition-colors ${
+        isHighlighted ? 'bg-yellow-500/10 ring-2 ring-yellow-500/40' : ''
+      }`}
       onMouseEnter={() => setShowActions(true)}
       onMouseLeave={() => setShowActions(false)}
     >
@@ -152,9 +350,11 @@ function MessageWrapper({
               Replying to {message.replyTo.createdBy.name}
             </div>
             <div className="bg-muted/50 border-l-2 border-muted-foreground/30 p-2 rounded-r text-sm">
-              {message.replyTo.content.length > 100
-                ? message.replyTo.content.substring(0, 100) + "..."
-                : message.replyTo.content
+              {message.replyTo.deletedAt
+                ? <em className="text-muted-foreground">Original message was deleted</em>
+                : message.replyTo.content.length > 100
+                  ? message.replyTo.content.substring(0, 100) + "..."
+                  : message.replyTo.content
               }
             </div>
           </div>
@@ -165,12 +365,16 @@ function MessageWrapper({
           <MessageBubble
             message={message}
             isCurrentUser={isCurrentUser}
+            isEditing={isEditing}
+            onSaveEdit={onSaveEdit}
+            onCancelEdit={onCancelEdit}
+            onOpenBranch={onOpenBranch}
           />
 
           {/* Message actions */}
-          {showActions && (
+          {showActions && !isEditing && (!isDeleted || (canModify && hasHistory)) && (
             <div className={`absolute ${isCurrentUser ? 'left-0 -ml-12' : 'right-0 -mr-12'} top-2 flex flex-col space-y-1`}>
-              {onReply && (
+              {onReply && !isDeleted && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -180,17 +384,57 @@ function MessageWrapper({
                   <Reply className="h-4 w-4" />
                 </Button>
               )}
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-8 w-8 p-0"
-              >
-                <MoreHorizontal className="h-4 w-4" />
-              </Button>
+              {onBranch && !isDeleted && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Branch into sub-thread"
+                  onClick={onBranch}
+                >
+                  <GitBranch className="h-4 w-4" />
+                </Button>
+              )}
+              {canModify && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                    >
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align={isCurrentUser ? "end" : "start"}>
+                    {!isDeleted && onStartEdit && (
+                      <DropdownMenuItem onClick={onStartEdit}>
+                        <Edit className="h-4 w-4" />
+                        Edit
+                      </DropdownMenuItem>
+                    )}
+                    {hasHistory && (
+                      <DropdownMenuItem onClick={onShowHistory}>
+                        <History className="h-4 w-4" />
+                        View history
+                      </DropdownMenuItem>
+                    )}
+                    {!isDeleted && onDelete && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem variant="destructive" onClick={onDelete}>
+                          <Trash2 className="h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
           )}
 
-          {/* Timestamp and edited indicator */}
+          {/* Timestamp */}
           <div className={`mt-1 text-xs text-muted-foreground ${isCurrentUser ? 'text-right' : 'text-left'}`}>
             <span>
               {new Date(message.createdAt).toLocaleTimeString([], {
@@ -198,14 +442,6 @@ function MessageWrapper({
                 minute: '2-digit'
               })}
             </span>
-            {message.editedAt && (
-              <span className="ml-2">
-                (edited {new Date(message.editedAt).toLocaleTimeString([], {
-                  hour: '2-digit',
-                  minute: '2-digit'
-                })})
-              </span>
-            )}
           </div>
         </div>
       </div>
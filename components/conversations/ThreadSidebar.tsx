@@ -21,18 +21,26 @@ import {
   MessageSquare,
   FileText,
   Settings,
-  Filter
+  Filter,
+  ChevronDown,
+  ChevronRight
 } from "lucide-react"
 import { formatDistanceToNow } from "date-fns"
 
 interface Thread {
   id: string
   title: string
+  parentId?: string | null
   createdAt: string
   updatedAt: string
   isDocumented: boolean
   autoConvert: boolean
   messageCount: number
+  // Sub-thread counts, see GET /api/conversations/[id]/threads
+  childCount?: number
+  unreadCount?: number
+  totalMessageCount?: number
+  totalUnreadCount?: number
   createdBy: {
     id: string
     name: string
@@ -52,6 +60,8 @@ interface Thread {
 }
 
 interface ThreadSidebarProps {
+  // Heading above the list, usually the channel name
+  title?: string
   threads: Thread[]
   selectedThreadId?: string
   onThreadSelect: (thread: Thread) => void
@@ -61,9 +71,14 @@ interface ThreadSidebarProps {
   showDocumentedOnly: boolean
   onShowDocumentedOnlyChange: (show: boolean) => void
   loading: boolean
+  // Nest sub-threads under their parents; searches and filters list threads flat
+  nested?: boolean
+  expandedIds?: Set<string>
+  onToggleExpand?: (thread: Thread) => void
 }
 
 export function ThreadSidebar({
+  title = "Threads",
   threads,
   selectedThreadId,
   onThreadSelect,
@@ -72,11 +87,42 @@ export function ThreadSidebar({
   onSearchChange,
   showDocumentedOnly,
   onShowDocumentedOnlyChange,
-  loading
+  loading,
+  nested = false,
+  expandedIds,
+  onToggleExpand
 }: ThreadSidebarProps) {
   const [newThreadTitle, setNewThreadTitle] = useState("")
   const [newThreadDialogOpen, setNewThreadDialogOpen] = useState(false)
 
+  const childrenByParent = new Map<string, Thread[]>()
+  if (nested) {
+    threads.forEach((thread) => {
+      if (!thread.parentId) return
+      childrenByParent.set(thread.parentId, [...(childrenByParent.get(thread.parentId) || []), thread])
+    })
+  }
+  const topLevelThreads = nested ? threads.filter((thread) => !thread.parentId) : threads
+
+  const renderThread = (thread: Thread, depth: number) => {
+    const isExpanded = nested && Boolean(expandedIds?.has(thread.id))
+    const children = childrenByParent.get(thread.id) || []
+
+    return (
+      <div key={thread.id}>
+        <ThreadItem
+          thread={thread}
+          depth={depth}
+          isSelected={selectedThreadId === thread.id}
+          isExpanded={isExpanded}
+          onClick={() => onThreadSelect(thread)}
+          onToggleExpand={nested && thread.childCount ? () => onToggleExpand?.(thread) : undefined}
+        />
+        {isExpanded && children.map((child) => renderThread(child, depth + 1))}
+      </div>
+    )
+  }
+
   const handleCreateThread = () => {
     if (newThreadTitle.trim()) {
       onNewThread(newThreadTitle.trim())
@@ -90,7 +136,7 @@ export function ThreadSidebar({
       {/* Header */}
       <div className="p-4 border-b">
         <div className="flex items-center justify-between mb-3">
-          <h2 className="font-semibold text-lg">Threads</h2>
+          <h2 className="font-semibold text-lg truncate" title={title}>{title}</h2>
           <Dialog open={newThreadDialogOpen} onOpenChange={setNewThreadDialogOpen}>
             <DialogTrigger asChild>
               <Button size="sm">
@@ -173,14 +219,7 @@ export function ThreadSidebar({
           </div>
         ) : (
           <div className="p-2">
-            {threads.map((thread) => (
-              <ThreadItem
-                key={thread.id}
-                thread={thread}
-                isSelected={selectedThreadId === thread.id}
-                onClick={() => onThreadSelect(thread)}
-              />
-            ))}
+            {topLevelThreads.map((thread) => renderThread(thread, 0))}
           </div>
         )}
       </ScrollArea>
@@ -190,30 +229,61 @@ export function ThreadSidebar({
 
 interface ThreadItemProps {
   thread: Thread
+  depth: number
   isSelected: boolean
+  isExpanded: boolean
   onClick: () => void
+  onToggleExpand?: () => void
 }
 
-function ThreadItem({ thread, isSelected, onClick }: ThreadItemProps) {
+// Each nesting level is indented by this much (px)
+const DEPTH_INDENT = 12
+
+function ThreadItem({ thread, depth, isSelected, isExpanded, onClick, onToggleExpand }: ThreadItemProps) {
   const messagePreview = thread.lastMessage?.content || ""
   const previewLength = 60
   const truncatedPreview = messagePreview.length > previewLength
     ? messagePreview.substring(0, previewLength) + "..."
     : messagePreview
 
+  // Collapsed threads show the activity of their whole branch
+  const messageCount = isExpanded ? thread.messageCount : thread.totalMessageCount ?? thread.messageCount
+  const unreadCount = isExpanded ? thread.unreadCount || 0 : thread.totalUnreadCount || 0
+
   return (
     <div
       className={`p-3 rounded-lg cursor-pointer transition-colors hover:bg-accent ${
         isSelected ? "bg-accent" : ""
       }`}
+      style={{ marginLeft: depth * DEPTH_INDENT }}
       onClick={onClick}
     >
       {/* Thread Title and Badges */}
       <div className="flex items-start justify-between mb-1">
-        <div className="flex-1 min-w-0">
-          <h3 className="font-medium text-sm truncate">{thread.title}</h3>
+        <div className="flex flex-1 items-center min-w-0">
+          {onToggleExpand && (
+            <button
+              type="button"
+              className="mr-1 -ml-1 rounded p-0.5 text-muted-foreground hover:text-foreground"
+              title={isExpanded ? "Hide sub-threads" : `Show ${thread.childCount} sub-threads`}
+              onClick={(e) => {
+                e.stopPropagation()
+                onToggleExpand()
+              }}
+            >
+              {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            </button>
+          )}
+          <h3 className={`text-sm truncate ${unreadCount > 0 ? "font-semibold" : "font-medium"}`}>
+            {thread.title}
+          </h3>
         </div>
         <div className="flex items-center space-x-1 ml-2 flex-shrink-0">
+          {unreadCount > 0 && (
+            <Badge className="text-xs" title={`${unreadCount} unread`}>
+              {unreadCount}
+            </Badge>
+          )}
           {thread.isDocumented && (
             <Badge variant="secondary" className="text-xs">
               <FileText className="h-3 w-3 mr-1" />
@@ -251,7 +321,7 @@ function ThreadItem({ thread, isSelected, onClick }: ThreadItemProps) {
             </span>
           </div>
           <span>•</span>
-          <span>{thread.messageCount} messages</span>
+          <span>{messageCount} messages</span>
         </div>
 
         <div className="flex items-center space-x-1">
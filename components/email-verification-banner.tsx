@@ -0,0 +1,45 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { IconMail, IconX } from "@tabler/icons-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+interface EmailVerificationBannerProps {
+  email: string;
+}
+
+export function EmailVerificationBanner({ email }: EmailVerificationBannerProps) {
+  const [isVisible, setIsVisible] = useState(true);
+
+  if (!isVisible) {
+    return null;
+  }
+
+  return (
+    <Alert className="rounded-none border-0 border-b">
+      <IconMail />
+      <AlertTitle className="flex items-center justify-between">
+        <span>Verify your email address</span>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setIsVisible(false)}
+          className="ml-auto"
+          aria-label="Dismiss"
+        >
+          <IconX className="size-4" />
+        </Button>
+      </AlertTitle>
+      <AlertDescription>
+        <p>
+          We sent a verification link to <strong className="font-semibold">{email}</strong>.{" "}
+          <Link href="/verify-email" className="underline underline-offset-4">
+            Resend it
+          </Link>
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+}
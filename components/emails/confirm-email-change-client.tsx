@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2, CheckCircle2, MailCheck, XCircle } from "lucide-react";
+import { confirmEmailChangeLink } from "@/app/actions/user-settings";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { EmailChangeConfirmation } from "@/lib/email-change";
+
+interface ConfirmEmailChangeClientProps {
+  token: string;
+}
+
+type ConfirmState = "loading" | "partial" | "completed" | "error";
+
+export function ConfirmEmailChangeClient({ token }: ConfirmEmailChangeClientProps) {
+  const [state, setState] = useState<ConfirmState>("loading");
+  const [confirmation, setConfirmation] = useState<EmailChangeConfirmation | null>(null);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  useEffect(() => {
+    confirmEmailChangeLink(token)
+      .then((result) => {
+        if (result.success && result.data) {
+          setConfirmation(result.data);
+          setState(result.data.completed ? "completed" : "partial");
+        } else {
+          setState("error");
+          setErrorMessage(result.error || "Failed to confirm email change");
+        }
+      })
+      .catch((error) => {
+        console.error("Error confirming email change:", error);
+        setState("error");
+        setErrorMessage("An unexpected error occurred");
+      });
+  }, [token]);
+
+  return (
+    <div className="container flex items-center justify-center min-h-screen py-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            {state === "loading" && (
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            )}
+            {state === "partial" && <MailCheck className="h-6 w-6 text-primary" />}
+            {state === "completed" && (
+              <CheckCircle2 className="h-6 w-6 text-green-600" />
+            )}
+            {state === "error" && <XCircle className="h-6 w-6 text-red-600" />}
+          </div>
+          <CardTitle>
+            {state === "loading" && "Confirming..."}
+            {state === "partial" && "One more step"}
+            {state === "completed" && "Email address changed"}
+            {state === "error" && "Unable to Confirm"}
+          </CardTitle>
+          <CardDescription>
+            {state === "loading" && "Please wait a moment"}
+            {state === "partial" &&
+              "This address is confirmed. Open the link we sent to the other address to finish the change."}
+            {state === "completed" &&
+              `You now sign in with ${confirmation?.newEmail}.`}
+            {state === "error" && errorMessage}
+          </CardDescription>
+        </CardHeader>
+        {state !== "loading" && (
+          <CardFooter>
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/dashboard/settings">Go to Settings</Link>
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2, CheckCircle2, XCircle } from "lucide-react";
+import { unsubscribeLifecycleEmails } from "@/app/actions/user-settings";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+interface UnsubscribeClientProps {
+  token: string;
+}
+
+type UnsubscribeState = "loading" | "success" | "error";
+
+export function UnsubscribeClient({ token }: UnsubscribeClientProps) {
+  const [state, setState] = useState<UnsubscribeState>("loading");
+  const [errorMessage, setErrorMessage] = useState("");
+
+  useEffect(() => {
+    unsubscribeLifecycleEmails(token)
+      .then((result) => {
+        if (result.success) {
+          setState("success");
+        } else {
+          setState("error");
+          setErrorMessage(result.error || "Failed to unsubscribe");
+        }
+      })
+      .catch((error) => {
+        console.error("Error unsubscribing:", error);
+        setState("error");
+        setErrorMessage("An unexpected error occurred");
+      });
+  }, [token]);
+
+  return (
+    <div className="container flex items-center justify-center min-h-screen py-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            {state === "loading" && (
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            )}
+            {state === "success" && (
+              <CheckCircle2 className="h-6 w-6 text-green-600" />
+            )}
+            {state === "error" && <XCircle className="h-6 w-6 text-red-600" />}
+          </div>
+          <CardTitle>
+            {state === "loading" && "Unsubscribing..."}
+            {state === "success" && "You're unsubscribed"}
+            {state === "error" && "Unable to Unsubscribe"}
+          </CardTitle>
+          <CardDescription>
+            {state === "loading" && "Please wait a moment"}
+            {state === "success" &&
+              "You won't get any more tips and onboarding emails. Account and security emails still arrive as usual."}
+            {state === "error" && errorMessage}
+          </CardDescription>
+        </CardHeader>
+        {state !== "loading" && (
+          <CardFooter>
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/dashboard">Go to Dashboard</Link>
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { LoginHistoryEntry } from "@/lib/login-history";
+
+const METHOD_LABELS: Record<LoginHistoryEntry["method"], string> = {
+  PASSWORD: "Password",
+  GOOGLE: "Google",
+  MAGIC_LINK: "Magic link",
+  OTHER: "Other",
+};
+
+interface LoginHistoryTableProps {
+  entries: LoginHistoryEntry[];
+}
+
+export function LoginHistoryTable({ entries }: LoginHistoryTableProps) {
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No sign-ins recorded yet
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Method</TableHead>
+          <TableHead>Result</TableHead>
+          <TableHead>IP address</TableHead>
+          <TableHead>Device</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry.id}>
+            <TableCell className="whitespace-nowrap">
+              {format(new Date(entry.createdAt), "MMM d, yyyy HH:mm")}
+            </TableCell>
+            <TableCell>{METHOD_LABELS[entry.method]}</TableCell>
+            <TableCell>
+              {entry.success ? (
+                <Badge variant="default">Success</Badge>
+              ) : (
+                <Badge variant="destructive" title={entry.failureReason ?? undefined}>
+                  Failed
+                </Badge>
+              )}
+            </TableCell>
+            <TableCell className="font-mono text-xs">
+              {entry.ipAddress || "—"}
+            </TableCell>
+            <TableCell
+              className="max-w-[240px] truncate text-xs text-muted-foreground"
+              title={entry.userAgent ?? undefined}
+            >
+              {entry.userAgent || "—"}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,302 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { parseAsStringEnum, useQueryState } from "nuqs"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { FileText, Hash, MessageSquare, Search, X } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+
+type ResultType = "message" | "thread" | "wiki"
+type TypeFilter = ResultType | typeof ALL
+
+interface SearchResult {
+  type: ResultType
+  id: string
+  title: string
+  snippet: { text: string; highlight: boolean }[]
+  createdAt: string
+  author: {
+    id: string
+    name: string | null
+  }
+  contentType?: string
+  tags?: string[]
+  conversation: {
+    id: string
+    title: string | null
+  }
+  url: string
+}
+
+interface WorkspaceSearchProps {
+  members: { id: string; name: string }[]
+  tags: string[]
+}
+
+const ALL = "all" as const
+const PAGE_SIZE = 20
+
+const contentTypes = ["TEXT", "CODE", "FILE", "IMAGE", "LINK"]
+
+const typeIcons = {
+  message: MessageSquare,
+  thread: Hash,
+  wiki: FileText,
+}
+
+const typeLabels = {
+  message: "Message",
+  thread: "Thread",
+  wiki: "Wiki page",
+}
+
+export function WorkspaceSearch({ members, tags }: WorkspaceSearchProps) {
+  const [query, setQuery] = useQueryState("q", { defaultValue: "" })
+  const [type, setType] = useQueryState(
+    "type",
+    parseAsStringEnum<TypeFilter>([ALL, "message", "thread", "wiki"]).withDefault(ALL)
+  )
+  const [author, setAuthor] = useQueryState("author", { defaultValue: ALL })
+  const [tag, setTag] = useQueryState("tag", { defaultValue: ALL })
+  const [contentType, setContentType] = useQueryState("contentType", { defaultValue: ALL })
+  const [from, setFrom] = useQueryState("from", { defaultValue: "" })
+  const [to, setTo] = useQueryState("to", { defaultValue: "" })
+
+  const [input, setInput] = useState(query)
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const buildParams = (offset: number) => {
+    const params = new URLSearchParams({
+      q: query,
+      limit: String(PAGE_SIZE),
+      offset: String(offset),
+    })
+    if (type !== ALL) params.set("type", type)
+    if (author !== ALL) params.set("author", author)
+    if (tag !== ALL) params.set("tags", tag)
+    if (contentType !== ALL) params.set("contentType", contentType)
+    if (from) params.set("from", from)
+    if (to) params.set("to", to)
+    return params
+  }
+
+  const fetchResults = async (offset: number) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/search?${buildParams(offset)}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Search failed")
+      }
+
+      setResults(prev => offset === 0 ? data.results : [...prev, ...data.results])
+      setHasMore(data.hasMore)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Search failed")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([])
+      setHasMore(false)
+      return
+    }
+    fetchResults(0)
+  }, [query, type, author, tag, contentType, from, to])
+
+  const hasFilters = author !== ALL || tag !== ALL || contentType !== ALL || Boolean(from) || Boolean(to)
+
+  const clearFilters = () => {
+    setAuthor(null)
+    setTag(null)
+    setContentType(null)
+    setFrom(null)
+    setTo(null)
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault()
+          setQuery(input.trim() || null)
+        }}
+      >
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder='Search messages, threads and wiki pages. Use "quotes" for phrases and -word to exclude'
+            className="pl-9"
+            autoFocus
+          />
+        </div>
+        <Button type="submit">Search</Button>
+      </form>
+
+      <div className="flex flex-col gap-3">
+        <Tabs value={type} onValueChange={(value) => setType(value === ALL ? null : value as TypeFilter)}>
+          <TabsList>
+            <TabsTrigger value={ALL}>All</TabsTrigger>
+            <TabsTrigger value="message">Messages</TabsTrigger>
+            <TabsTrigger value="thread">Threads</TabsTrigger>
+            <TabsTrigger value="wiki">Wiki pages</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={author} onValueChange={(value) => setAuthor(value === ALL ? null : value)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Author" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any author</SelectItem>
+              {members.map((member) => (
+                <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={tag} onValueChange={(value) => setTag(value === ALL ? null : value)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Tag" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any tag</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={contentType} onValueChange={(value) => setContentType(value === ALL ? null : value)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Content type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any content</SelectItem>
+              {contentTypes.map((contentType) => (
+                <SelectItem key={contentType} value={contentType}>
+                  {contentType.charAt(0) + contentType.slice(1).toLowerCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            type="date"
+            value={from}
+            onChange={(event) => setFrom(event.target.value || null)}
+            className="w-[160px]"
+            aria-label="From date"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="date"
+            value={to}
+            onChange={(event) => setTo(event.target.value || null)}
+            className="w-[160px]"
+            aria-label="To date"
+          />
+
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              <X className="h-4 w-4 mr-1" />
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        {(tag !== ALL || contentType !== ALL) && (
+          <p className="text-xs text-muted-foreground">
+            {tag !== ALL
+              ? "Tags only apply to wiki pages, so only wiki pages are shown."
+              : "Content types only apply to messages, so only messages are shown."}
+          </p>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {!query ? (
+        <p className="text-sm text-muted-foreground">
+          Type a search to find messages, threads and wiki pages in this workspace.
+        </p>
+      ) : !loading && results.length === 0 && !error ? (
+        <p className="text-sm text-muted-foreground">No results for &ldquo;{query}&rdquo;.</p>
+      ) : (
+        <div className="flex flex-col divide-y rounded-lg border">
+          {results.map((result) => {
+            const Icon = typeIcons[result.type]
+            return (
+              <Link
+                key={`${result.type}:${result.id}`}
+                href={result.url}
+                className="flex gap-3 p-4 hover:bg-muted/50"
+              >
+                <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium truncate">{result.title}</span>
+                    <Badge variant="outline" className="text-xs">{typeLabels[result.type]}</Badge>
+                    {result.contentType && result.contentType !== "TEXT" && (
+                      <Badge variant="secondary" className="text-xs">{result.contentType.toLowerCase()}</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-3 break-words">
+                    {result.snippet.map((segment, index) => segment.highlight ? (
+                      <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/30">
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    ))}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground">
+                    <span>{result.author.name || "Unknown User"}</span>
+                    <span>•</span>
+                    <span>{result.conversation.title || "Untitled Conversation"}</span>
+                    <span>•</span>
+                    <span>{formatDistanceToNow(new Date(result.createdAt), { addSuffix: true })}</span>
+                    {result.tags?.map((tag) => (
+                      <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                    ))}
+                  </div>
+                </div>
+              </Link>
+            )
+          })}
+        </div>
+      )}
+
+      {loading && <p className="text-sm text-muted-foreground">Searching...</p>}
+
+      {hasMore && !loading && (
+        <Button variant="outline" onClick={() => fetchResults(results.length)} className="self-center">
+          Load more
+        </Button>
+      )}
+    </div>
+  )
+}
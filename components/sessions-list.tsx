@@ -0,0 +1,77 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Monitor, Smartphone, Tablet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { ActiveSession, DeviceType } from "@/lib/sessions";
+
+const DEVICE_ICONS: Record<DeviceType, typeof Monitor> = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+};
+
+interface SessionsListProps {
+  sessions: ActiveSession[];
+  revokingId?: string | null;
+  onRevoke: (session: ActiveSession) => void;
+}
+
+export function SessionsList({ sessions, revokingId, onRevoke }: SessionsListProps) {
+  if (sessions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No active sessions
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {sessions.map((session) => {
+        const DeviceIcon = DEVICE_ICONS[session.deviceType];
+        const name = [session.browser, session.os].filter(Boolean).join(" on ") || "Unknown device";
+        const details = [
+          session.location,
+          session.ipAddress,
+          `Active ${formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })}`,
+        ].filter(Boolean);
+
+        return (
+          <div
+            key={session.id}
+            className="flex items-center justify-between gap-4 p-4 border rounded-lg"
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <DeviceIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium truncate">{name}</p>
+                  {session.isCurrent && <Badge variant="secondary">This device</Badge>}
+                  {session.impersonated && <Badge variant="outline">Impersonation</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground truncate">
+                  {details.join(" · ")}
+                </p>
+              </div>
+            </div>
+            {!session.isCurrent && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRevoke(session)}
+                disabled={revokingId === session.id}
+              >
+                {revokingId === session.id && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Sign out
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
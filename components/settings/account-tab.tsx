@@ -1,9 +1,10 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
+import { format } from "date-fns";
 import { toast } from "sonner";
-import { IconTrash } from "@tabler/icons-react";
+import { IconDownload, IconTrash } from "@tabler/icons-react";
 import { Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -24,30 +25,46 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { deleteUserAccount } from "@/app/actions/user-settings";
+import { deleteUserAccount, getAccountDeletionCheck } from "@/app/actions/user-settings";
+import type { AccountDeletionCheck } from "@/lib/account-deletion";
 import { signOut } from "@/lib/auth-client";
+import { LoginHistoryCard } from "./login-history-card";
+import { SessionsCard } from "./sessions-card";
+import { SignInMethodsCard } from "./sign-in-methods-card";
+import { TwoFactorCard } from "./two-factor-card";
 
 export function AccountTab() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [deletionCheck, setDeletionCheck] = useState<AccountDeletionCheck | null>(null);
   const router = useRouter();
 
+  useEffect(() => {
+    if (!isDialogOpen) return;
+
+    setDeletionCheck(null);
+    getAccountDeletionCheck().then((result) => {
+      if (result.success && result.data) {
+        setDeletionCheck(result.data);
+      } else {
+        toast.error(result.error || "Failed to check your workspaces");
+      }
+    });
+  }, [isDialogOpen]);
+
+  const isBlocked = (deletionCheck?.blockingWorkspaces.length ?? 0) > 0;
+
   async function handleDeleteAccount() {
     setIsDeleting(true);
     try {
       const result = await deleteUserAccount();
 
       if (result.success) {
-        toast.success("Account deleted successfully");
+        toast.success("Account scheduled for deletion");
 
-        // Sign out and redirect to home page
-        await signOut({
-          fetchOptions: {
-            onSuccess: () => {
-              window.location.href = "/";
-            },
-          },
-        });
+        // Every session is already revoked, this only clears the cookie
+        await signOut();
+        window.location.href = "/";
       } else {
         toast.error(result.error || "Failed to delete account");
         setIsDeleting(false);
@@ -62,59 +79,108 @@ export function AccountTab() {
   }
 
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle className="text-destructive">Danger Zone</CardTitle>
-        <CardDescription>
-          Irreversible actions that will affect your account
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        <div>
-          <h3 className="text-base font-semibold">Delete Account</h3>
-          <p className="text-sm text-muted-foreground mt-1">
-            Permanently delete your account and all associated data. This action
-            cannot be undone.
-          </p>
-        </div>
+    <div className="flex flex-col gap-6">
+      <SignInMethodsCard />
 
-        <AlertDialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <AlertDialogTrigger asChild>
-            <Button variant="destructive" disabled={isDeleting}>
-              <IconTrash className="mr-2 h-4 w-4" />
-              Delete Account
+      <TwoFactorCard />
+
+      <SessionsCard />
+
+      <LoginHistoryCard />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-destructive">Danger Zone</CardTitle>
+          <CardDescription>
+            Irreversible actions that will affect your account
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <h3 className="text-base font-semibold">Delete Account</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              Permanently delete your account and all associated data. Until the
+              grace period ends you can restore it by signing back in, after that
+              it cannot be undone.
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-base font-semibold">Export Your Data</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              Download the messages and wiki pages you wrote as a JSON file.
+            </p>
+            <Button variant="outline" className="mt-3" asChild>
+              <a href="/api/account/export" download>
+                <IconDownload className="mr-2 h-4 w-4" />
+                Download Data
+              </a>
             </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-              <AlertDialogDescription className="space-y-2">
-                <p>
-                  This action cannot be undone. This will permanently delete your
-                  account and remove all your data from our servers.
-                </p>
-                <p className="font-semibold text-destructive">
-                  All of your workspaces and data will be lost.
-                </p>
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
-              <AlertDialogAction
-                onClick={(e) => {
-                  e.preventDefault();
-                  handleDeleteAccount();
-                }}
-                disabled={isDeleting}
-                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-              >
-                {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          </div>
+
+          <AlertDialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" disabled={isDeleting}>
+                <IconTrash className="mr-2 h-4 w-4" />
                 Delete Account
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
-      </CardContent>
-    </Card>
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                <AlertDialogDescription asChild>
+                  <div className="space-y-2">
+                    <p>
+                      You will be signed out everywhere. Until your account is
+                      deleted you can sign back in to cancel. Your name is removed
+                      from anything you wrote in shared workspaces.
+                    </p>
+                    {!deletionCheck ? (
+                      <div className="flex justify-center py-2">
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                      </div>
+                    ) : isBlocked ? (
+                      <p className="font-semibold text-destructive">
+                        You are the only owner of{" "}
+                        {deletionCheck.blockingWorkspaces.map((workspace) => workspace.name).join(", ")}.
+                        Make another member an owner in workspace settings first.
+                      </p>
+                    ) : deletionCheck.deletedWorkspaces.length > 0 ? (
+                      <p className="font-semibold text-destructive">
+                        {deletionCheck.deletedWorkspaces.map((workspace) => workspace.name).join(", ")}{" "}
+                        will be deleted with all of {deletionCheck.deletedWorkspaces.length === 1 ? "its" : "their"} data.
+                      </p>
+                    ) : null}
+                    {deletionCheck && !isBlocked && (
+                      <p>
+                        Your account will be deleted on{" "}
+                        <span className="font-medium">
+                          {format(new Date(deletionCheck.scheduledAt), "MMMM d, yyyy")}
+                        </span>
+                        .
+                      </p>
+                    )}
+                  </div>
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={(e) => {
+                    e.preventDefault();
+                    handleDeleteAccount();
+                  }}
+                  disabled={isDeleting || !deletionCheck || isBlocked}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Delete Account
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardContent>
+      </Card>
+    </div>
   );
 }
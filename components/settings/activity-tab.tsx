@@ -0,0 +1,290 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon, Download, Loader2, XCircle } from "lucide-react";
+import { IconHistory } from "@tabler/icons-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  exportWorkspaceActivity,
+  getWorkspaceActivity,
+} from "@/app/actions/workspace-activity";
+import { AUDIT_ACTION_LABELS, type AuditAction } from "@/types/admin";
+import type { WorkspaceActivityEntry, WorkspaceActivityFilters } from "@/types/workspace";
+import { formatDate } from "@/lib/format";
+
+const ALL_ACTORS = "all";
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+interface ActivityTabProps {
+  // Activity reloads when the active workspace changes
+  workspaceId: string;
+}
+
+export function ActivityTab({ workspaceId }: ActivityTabProps) {
+  const [entries, setEntries] = useState<WorkspaceActivityEntry[]>([]);
+  const [actors, setActors] = useState<{ id: string; email: string }[]>([]);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [actorId, setActorId] = useState(ALL_ACTORS);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Calendar days are midnight in the browser's time zone, which is what the
+  // server compares whole days from
+  const filters: WorkspaceActivityFilters = {
+    from: dateRange?.from?.getTime(),
+    to: (dateRange?.to ?? dateRange?.from)?.getTime(),
+    actorId: actorId === ALL_ACTORS ? undefined : actorId,
+  };
+
+  async function loadActivity(nextPage: number) {
+    if (nextPage === 1) {
+      setIsLoading(true);
+    } else {
+      setIsLoadingMore(true);
+    }
+
+    try {
+      const result = await getWorkspaceActivity(filters, nextPage);
+      if (result.success && result.data) {
+        const data = result.data;
+        setEntries((current) => (nextPage === 1 ? data.entries : [...current, ...data.entries]));
+        setActors(data.actors);
+        setHasMore(data.hasMore);
+        setPage(nextPage);
+      } else {
+        toast.error(result.error || "Failed to load activity");
+      }
+    } catch (error) {
+      console.error("Error loading workspace activity:", error);
+      toast.error("Failed to load activity");
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }
+
+  useEffect(() => {
+    loadActivity(1);
+  }, [workspaceId, dateRange, actorId]);
+
+  async function handleExport() {
+    setIsExporting(true);
+    try {
+      const result = await exportWorkspaceActivity(filters);
+
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Failed to export activity");
+        return;
+      }
+
+      const blob = new Blob([result.data.csv], { type: "text/csv;charset=utf-8" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `workspace-activity-${format(new Date(), "yyyy-MM-dd")}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if (result.data.truncated) {
+        toast.warning("The export stopped at its row limit. Narrow the filters to get the rest.");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error exporting workspace activity:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  const dateLabel = dateRange?.from
+    ? dateRange.to && dateRange.to.getTime() !== dateRange.from.getTime()
+      ? `${formatDate(dateRange.from, { month: "short" })} - ${formatDate(dateRange.to, { month: "short" })}`
+      : formatDate(dateRange.from, { month: "short" })
+    : "Any date";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Activity</CardTitle>
+        <CardDescription>
+          Who joined, changed roles or was invited, and which wiki pages were
+          created, edited or published in this workspace
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="border-dashed font-normal">
+                {dateRange ? (
+                  <div
+                    role="button"
+                    aria-label="Clear date filter"
+                    tabIndex={0}
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      setDateRange(undefined);
+                    }}
+                    className="rounded-sm opacity-70 transition-opacity hover:opacity-100"
+                  >
+                    <XCircle />
+                  </div>
+                ) : (
+                  <CalendarIcon />
+                )}
+                {dateLabel}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                autoFocus
+                captionLayout="dropdown"
+                mode="range"
+                selected={dateRange}
+                onSelect={setDateRange}
+                disabled={{ after: new Date() }}
+              />
+            </PopoverContent>
+          </Popover>
+
+          <Select value={actorId} onValueChange={setActorId}>
+            <SelectTrigger size="sm" className="w-[220px]">
+              <SelectValue placeholder="Anyone" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ACTORS}>Anyone</SelectItem>
+              {actors.map((actor) => (
+                <SelectItem key={actor.id} value={actor.id}>
+                  {actor.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            onClick={handleExport}
+            disabled={isExporting || entries.length === 0}
+          >
+            {isExporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Export CSV
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <IconHistory />
+              </EmptyMedia>
+              <EmptyTitle>No Activity</EmptyTitle>
+              <EmptyDescription>
+                Nothing matches these filters yet.
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <div className="space-y-4">
+            <ul className="divide-y rounded-md border">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex flex-col gap-1 p-3 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={entry.action === "member.remove" ? "destructive" : "secondary"}>
+                        {AUDIT_ACTION_LABELS[entry.action as AuditAction] ?? entry.action}
+                      </Badge>
+                      {entry.targetLabel && (
+                        <span className="text-sm font-medium">{entry.targetLabel}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      by {entry.actorEmail || "System"}
+                    </p>
+                    {entry.changes && (
+                      <ul className="space-y-0.5 text-xs">
+                        {Object.entries(entry.changes).map(([field, { from, to }]) => (
+                          <li key={field} className="max-w-[480px] truncate">
+                            <span className="font-medium">{field}</span>:{" "}
+                            <span className="text-muted-foreground line-through">{formatValue(from)}</span>{" "}
+                            → {formatValue(to)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {format(new Date(entry.createdAt), "MMM d, yyyy HH:mm")}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {hasMore && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => loadActivity(page + 1)}
+                  disabled={isLoadingMore}
+                >
+                  {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { IconKey } from "@tabler/icons-react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { createWorkspaceApiKey } from "@/app/actions/workspace-api-keys";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/types/workspace";
+import { z } from "zod";
+
+const NEVER_EXPIRES = "never";
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: NEVER_EXPIRES, label: "Never" },
+];
+
+const apiKeyFormSchema = z.object({
+  name: z.string().trim().min(1, "Key name is required").max(100, "Name is too long"),
+});
+
+type ApiKeyFormInput = z.infer<typeof apiKeyFormSchema>;
+
+interface ApiKeyCreateDialogProps {
+  // Receives the new key, which can't be retrieved again
+  onCreated: (key: string) => void;
+}
+
+export function ApiKeyCreateDialog({ onCreated }: ApiKeyCreateDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["read:conversations", "read:wiki"]);
+  const [expiry, setExpiry] = useState("90");
+
+  const form = useForm<ApiKeyFormInput>({
+    resolver: zodResolver(apiKeyFormSchema),
+    defaultValues: {
+      name: "",
+    },
+  });
+
+  function toggleScope(scope: ApiKeyScope, checked: boolean) {
+    setScopes((current) =>
+      checked ? [...current, scope] : current.filter((value) => value !== scope)
+    );
+  }
+
+  async function onSubmit(data: ApiKeyFormInput) {
+    if (scopes.length === 0) {
+      toast.error("Select at least one scope");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await createWorkspaceApiKey({
+        name: data.name,
+        scopes,
+        expiresInDays: expiry === NEVER_EXPIRES ? null : Number(expiry),
+      });
+
+      if (result.success && result.data) {
+        setIsOpen(false);
+        form.reset();
+        setScopes(["read:conversations", "read:wiki"]);
+        setExpiry("90");
+        onCreated(result.data.key);
+      } else {
+        toast.error(result.error || "Failed to create API key");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error creating API key:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <IconKey className="mr-2 h-4 w-4" />
+          Create Key
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Create API Key</DialogTitle>
+          <DialogDescription>
+            The key acts as you, limited to this workspace and the scopes you pick.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <FieldGroup>
+            {/* Name Field */}
+            <Field>
+              <FieldLabel htmlFor="api-key-name">Name</FieldLabel>
+              <Input
+                id="api-key-name"
+                placeholder="CI sync"
+                disabled={isLoading}
+                {...form.register("name")}
+              />
+              <FieldDescription>
+                Something to tell this key apart from the others.
+              </FieldDescription>
+              <FieldError errors={[form.formState.errors.name]} />
+            </Field>
+
+            {/* Scopes Field */}
+            <Field>
+              <FieldLabel>Scopes</FieldLabel>
+              <div className="space-y-2">
+                {(Object.keys(API_KEY_SCOPES) as ApiKeyScope[]).map((scope) => (
+                  <div key={scope} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`api-key-scope-${scope}`}
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      disabled={isLoading}
+                    />
+                    <label htmlFor={`api-key-scope-${scope}`} className="text-sm leading-none">
+                      <span className="font-mono">{scope}</span>
+                      <span className="block text-xs text-muted-foreground mt-1">
+                        {API_KEY_SCOPES[scope]}
+                      </span>
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </Field>
+
+            {/* Expiry Field */}
+            <Field>
+              <FieldLabel htmlFor="api-key-expiry">Expires</FieldLabel>
+              <Select value={expiry} onValueChange={setExpiry} disabled={isLoading}>
+                <SelectTrigger id="api-key-expiry">
+                  <SelectValue placeholder="Select an expiry" />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+
+            {/* Action Buttons */}
+            <Field orientation="horizontal">
+              <div className="flex justify-end gap-3 w-full">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsOpen(false)}
+                  disabled={isLoading}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create Key
+                </Button>
+              </div>
+            </Field>
+          </FieldGroup>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Check, Copy, Loader2, RefreshCw } from "lucide-react";
+import { IconKey, IconTrash } from "@tabler/icons-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ApiKeyCreateDialog } from "./api-key-create-dialog";
+import {
+  getWorkspaceApiKeys,
+  revokeWorkspaceApiKey,
+  rotateWorkspaceApiKey,
+} from "@/app/actions/workspace-api-keys";
+import type { WorkspaceApiKey } from "@/types/workspace";
+import { formatDate } from "@/lib/format";
+
+function apiKeyStatus(apiKey: WorkspaceApiKey): "active" | "expired" | "revoked" {
+  if (apiKey.revokedAt) return "revoked";
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) return "expired";
+  return "active";
+}
+
+interface ApiKeysTabProps {
+  // Keys reload when the active workspace changes
+  workspaceId: string;
+}
+
+export function ApiKeysTab({ workspaceId }: ApiKeysTabProps) {
+  const [apiKeys, setApiKeys] = useState<WorkspaceApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<{
+    type: "rotate" | "revoke";
+    apiKey: WorkspaceApiKey;
+  } | null>(null);
+  const [isActing, setIsActing] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+
+  async function loadApiKeys() {
+    setIsLoading(true);
+    try {
+      const result = await getWorkspaceApiKeys();
+      if (result.success && result.data) {
+        setApiKeys(result.data);
+      } else {
+        toast.error(result.error || "Failed to load API keys");
+      }
+    } catch (error) {
+      console.error("Error loading API keys:", error);
+      toast.error("Failed to load API keys");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadApiKeys();
+  }, [workspaceId]);
+
+  function showNewKey(key: string) {
+    setIsCopied(false);
+    setNewKey(key);
+    loadApiKeys();
+  }
+
+  async function handleConfirm() {
+    if (!pendingAction) return;
+
+    const { type, apiKey } = pendingAction;
+    setIsActing(true);
+    try {
+      if (type === "rotate") {
+        const result = await rotateWorkspaceApiKey({ apiKeyId: apiKey.id });
+        if (result.success && result.data) {
+          setPendingAction(null);
+          showNewKey(result.data.key);
+        } else {
+          toast.error(result.error || "Failed to rotate API key");
+        }
+      } else {
+        const result = await revokeWorkspaceApiKey({ apiKeyId: apiKey.id });
+        if (result.success) {
+          toast.success(`${apiKey.name} revoked`);
+          setPendingAction(null);
+          loadApiKeys();
+        } else {
+          toast.error(result.error || "Failed to revoke API key");
+        }
+      }
+    } catch (error) {
+      console.error(`Error trying to ${type} API key:`, error);
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsActing(false);
+    }
+  }
+
+  async function handleCopy() {
+    if (!newKey) return;
+
+    try {
+      await navigator.clipboard.writeText(newKey);
+      setIsCopied(true);
+      toast.success("API key copied to clipboard!");
+    } catch (error) {
+      console.error("Error copying to clipboard:", error);
+      toast.error("Failed to copy key");
+    }
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>API Keys</CardTitle>
+              <CardDescription>
+                Keys for the REST API. Each one acts as the member who created it,
+                limited to this workspace and its scopes
+              </CardDescription>
+            </div>
+            <ApiKeyCreateDialog onCreated={showNewKey} />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : apiKeys.length === 0 ? (
+            <Empty>
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <IconKey />
+                </EmptyMedia>
+                <EmptyTitle>No API Keys</EmptyTitle>
+                <EmptyDescription>
+                  Create a key to use the REST API from scripts and other apps.
+                </EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <div className="space-y-4">
+              {apiKeys.map((apiKey) => {
+                const status = apiKeyStatus(apiKey);
+
+                return (
+                  <div
+                    key={apiKey.id}
+                    className="flex flex-col gap-3 p-4 border rounded-lg sm:flex-row sm:items-start sm:justify-between"
+                  >
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-medium">{apiKey.name}</p>
+                        <span className="font-mono text-xs text-muted-foreground">
+                          {apiKey.prefix}…
+                        </span>
+                        {status !== "active" && (
+                          <Badge variant={status === "revoked" ? "destructive" : "outline"}>
+                            {status}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {apiKey.scopes.map((scope) => (
+                          <Badge key={scope} variant="secondary" className="font-mono">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Created by {apiKey.createdBy.name || apiKey.createdBy.email} on{" "}
+                        {formatDate(apiKey.createdAt)}
+                        {" · "}
+                        {apiKey.lastUsedAt
+                          ? `Last used ${formatDistanceToNow(new Date(apiKey.lastUsedAt), { addSuffix: true })}`
+                          : "Never used"}
+                        {" · "}
+                        {apiKey.expiresAt
+                          ? `${status === "expired" ? "Expired" : "Expires"} ${formatDate(apiKey.expiresAt)}`
+                          : "Never expires"}
+                      </p>
+                    </div>
+                    {status !== "revoked" && (
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPendingAction({ type: "rotate", apiKey })}
+                        >
+                          <RefreshCw className="mr-2 h-4 w-4" />
+                          Rotate
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon-sm"
+                          onClick={() => setPendingAction({ type: "revoke", apiKey })}
+                          title="Revoke key"
+                        >
+                          <IconTrash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === "rotate" ? "Rotate API key?" : "Revoke API key?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Anything using{" "}
+              <span className="font-semibold">{pendingAction?.apiKey.name}</span> will stop
+              working right away.
+              {pendingAction?.type === "rotate"
+                ? " You'll get a new key to replace it with, keeping the same scopes and expiry."
+                : " This cannot be undone."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isActing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+              disabled={isActing}
+              className={
+                pendingAction?.type === "revoke"
+                  ? "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  : undefined
+              }
+            >
+              {isActing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction?.type === "rotate" ? "Rotate Key" : "Revoke Key"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={newKey !== null} onOpenChange={(open) => !open && setNewKey(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Copy Your API Key</DialogTitle>
+            <DialogDescription>
+              This is the only time the key is shown. Store it somewhere safe.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input value={newKey ?? ""} readOnly className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={handleCopy} title="Copy key">
+              {isCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setNewKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
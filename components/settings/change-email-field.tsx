@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Field,
+  FieldDescription,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  cancelMyEmailChange,
+  getMyEmailChange,
+  requestMyEmailChange,
+} from "@/app/actions/user-settings";
+import type { PendingEmailChange } from "@/lib/email-change";
+
+interface ChangeEmailFieldProps {
+  email: string;
+}
+
+export function ChangeEmailField({ email }: ChangeEmailFieldProps) {
+  const [pending, setPending] = useState<PendingEmailChange | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [newEmail, setNewEmail] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isCanceling, setIsCanceling] = useState(false);
+
+  useEffect(() => {
+    getMyEmailChange().then((result) => {
+      if (result.success) {
+        setPending(result.data ?? null);
+      }
+    });
+  }, [email]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    // The dialog renders in a portal, but its submit still bubbles to the profile form
+    e.stopPropagation();
+    setIsSubmitting(true);
+    try {
+      const result = await requestMyEmailChange({ newEmail });
+
+      if (result.success && result.data) {
+        setPending(result.data);
+        setIsDialogOpen(false);
+        setNewEmail("");
+        toast.success("Check both inboxes to confirm the change");
+      } else {
+        toast.error(result.error || "Failed to change email");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error requesting email change:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleCancel() {
+    setIsCanceling(true);
+    try {
+      const result = await cancelMyEmailChange();
+
+      if (result.success) {
+        setPending(null);
+        toast.success("Email change canceled");
+      } else {
+        toast.error(result.error || "Failed to cancel email change");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error canceling email change:", error);
+    } finally {
+      setIsCanceling(false);
+    }
+  }
+
+  const waitingFor = pending
+    ? [
+        !pending.currentConfirmed && email,
+        !pending.newConfirmed && pending.newEmail,
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <Field>
+      <FieldLabel htmlFor="profile-email">Email</FieldLabel>
+      <div className="flex gap-2">
+        <Input
+          id="profile-email"
+          value={email}
+          disabled
+          className="bg-muted"
+        />
+        <Button type="button" variant="outline" onClick={() => setIsDialogOpen(true)}>
+          Change
+        </Button>
+      </div>
+      {pending ? (
+        <FieldDescription>
+          Changing to <span className="font-medium">{pending.newEmail}</span>.
+          Waiting for confirmation from {waitingFor.join(" and ")}.{" "}
+          <button
+            type="button"
+            className="underline underline-offset-4"
+            onClick={handleCancel}
+            disabled={isCanceling}
+          >
+            Cancel change
+          </button>
+        </FieldDescription>
+      ) : (
+        <FieldDescription>
+          Changing your email needs confirmation from both the current and the
+          new address.
+        </FieldDescription>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Change email address</DialogTitle>
+              <DialogDescription>
+                We&apos;ll send a confirmation link to {email} and to the new
+                address. Your email changes once both links are opened.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-2">
+              <Label htmlFor="new-email">New email</Label>
+              <Input
+                id="new-email"
+                type="email"
+                placeholder="name@example.com"
+                required
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting || !newEmail}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send confirmation links
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Field>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { LoginHistoryTable } from "@/components/login-history-table";
+import { getMyLoginHistory } from "@/app/actions/user-settings";
+import type { LoginHistoryEntry } from "@/lib/login-history";
+
+export function LoginHistoryCard() {
+  const [entries, setEntries] = useState<LoginHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getMyLoginHistory()
+      .then((result) => {
+        if (result.success && result.data) {
+          setEntries(result.data);
+        } else {
+          toast.error(result.error || "Failed to load sign-in history");
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading login history:", error);
+        toast.error("Failed to load sign-in history");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign-in History</CardTitle>
+        <CardDescription>
+          Recent sign-ins to your account. If you don&apos;t recognize one, change
+          your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <LoginHistoryTable entries={entries} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -43,11 +43,10 @@ const inviteFormSchema = z.object({
 type InviteFormInput = z.infer<typeof inviteFormSchema>;
 
 interface MemberInviteDialogProps {
-  workspaceId: string;
   onInviteSent?: () => void;
 }
 
-export function MemberInviteDialog({ workspaceId, onInviteSent }: MemberInviteDialogProps) {
+export function MemberInviteDialog({ onInviteSent }: MemberInviteDialogProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedRole, setSelectedRole] = useState<WorkspaceRole>("MEMBER");
@@ -63,7 +62,6 @@ export function MemberInviteDialog({ workspaceId, onInviteSent }: MemberInviteDi
     setIsLoading(true);
     try {
       const result = await inviteMember({
-        workspaceId,
         email: data.email,
         role: selectedRole,
       });
@@ -26,6 +26,7 @@ import type { WorkspaceMemberWithUser, PendingInvitation } from "@/types/workspa
 import { formatDate } from "@/lib/format";
 
 interface MembersTabProps {
+  // Members and invitations reload when the active workspace changes
   workspaceId: string;
   currentUserId: string;
 }
@@ -41,7 +42,7 @@ export function MembersTab({ workspaceId, currentUserId }: MembersTabProps) {
   async function loadMembers() {
     setIsLoadingMembers(true);
     try {
-      const result = await getWorkspaceMembers(workspaceId);
+      const result = await getWorkspaceMembers();
       if (result.success && result.data) {
         setMembers(result.data);
       } else {
@@ -58,7 +59,7 @@ export function MembersTab({ workspaceId, currentUserId }: MembersTabProps) {
   async function loadInvitations() {
     setIsLoadingInvitations(true);
     try {
-      const result = await getPendingInvitations(workspaceId);
+      const result = await getPendingInvitations();
       if (result.success && result.data) {
         setInvitations(result.data);
       } else {
@@ -132,7 +133,6 @@ export function MembersTab({ workspaceId, currentUserId }: MembersTabProps) {
               </CardDescription>
             </div>
             <MemberInviteDialog
-              workspaceId={workspaceId}
               onInviteSent={handleRefresh}
             />
           </div>
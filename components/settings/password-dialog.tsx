@@ -0,0 +1,236 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { changeMyPassword, setMyPassword } from "@/app/actions/user-settings";
+import {
+  changePasswordSchema,
+  setPasswordSchema,
+  type ChangePasswordInput,
+  type SetPasswordInput,
+} from "@/lib/validations/user-settings";
+
+const PASSWORD_HINT =
+  "At least 8 characters with an uppercase and a lowercase letter, a number and a special character.";
+
+interface PasswordDialogProps {
+  // "set" adds a password to an account that has none yet
+  mode: "change" | "set";
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export function PasswordDialog({ mode, open, onOpenChange, onSuccess }: PasswordDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{mode === "change" ? "Change password" : "Set a password"}</DialogTitle>
+          <DialogDescription>
+            {mode === "change"
+              ? "Enter your current password and choose a new one."
+              : "Add a password to sign in with your email as well as Google or a magic link."}
+          </DialogDescription>
+        </DialogHeader>
+        {mode === "change" ? (
+          <ChangePasswordForm onCancel={() => onOpenChange(false)} onSuccess={onSuccess} />
+        ) : (
+          <SetPasswordForm onCancel={() => onOpenChange(false)} onSuccess={onSuccess} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface PasswordFormProps {
+  onCancel: () => void;
+  onSuccess: () => void;
+}
+
+function ChangePasswordForm({ onCancel, onSuccess }: PasswordFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<ChangePasswordInput>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+      revokeOtherSessions: true,
+    },
+  });
+
+  async function onSubmit(data: ChangePasswordInput) {
+    setIsLoading(true);
+    try {
+      const result = await changeMyPassword(data);
+
+      if (result.success) {
+        toast.success("Password changed");
+        form.reset();
+        onSuccess();
+      } else {
+        toast.error(result.error || "Failed to change password");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error changing password:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <FieldGroup>
+        <Field>
+          <FieldLabel htmlFor="current-password">Current password</FieldLabel>
+          <Input
+            id="current-password"
+            type="password"
+            autoComplete="current-password"
+            disabled={isLoading}
+            {...form.register("currentPassword")}
+          />
+          <FieldError errors={[form.formState.errors.currentPassword]} />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="new-password">New password</FieldLabel>
+          <Input
+            id="new-password"
+            type="password"
+            autoComplete="new-password"
+            disabled={isLoading}
+            {...form.register("newPassword")}
+          />
+          <FieldDescription>{PASSWORD_HINT}</FieldDescription>
+          <FieldError errors={[form.formState.errors.newPassword]} />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="confirm-password">Confirm new password</FieldLabel>
+          <Input
+            id="confirm-password"
+            type="password"
+            autoComplete="new-password"
+            disabled={isLoading}
+            {...form.register("confirmPassword")}
+          />
+          <FieldError errors={[form.formState.errors.confirmPassword]} />
+        </Field>
+        <Field orientation="horizontal">
+          <Checkbox
+            id="revoke-other-sessions"
+            checked={form.watch("revokeOtherSessions")}
+            onCheckedChange={(checked) => form.setValue("revokeOtherSessions", checked === true)}
+            disabled={isLoading}
+          />
+          <FieldLabel htmlFor="revoke-other-sessions" className="font-normal">
+            Sign out of all other sessions
+          </FieldLabel>
+        </Field>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Change password
+          </Button>
+        </DialogFooter>
+      </FieldGroup>
+    </form>
+  );
+}
+
+function SetPasswordForm({ onCancel, onSuccess }: PasswordFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<SetPasswordInput>({
+    resolver: zodResolver(setPasswordSchema),
+    defaultValues: {
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  async function onSubmit(data: SetPasswordInput) {
+    setIsLoading(true);
+    try {
+      const result = await setMyPassword(data);
+
+      if (result.success) {
+        toast.success("Password set");
+        form.reset();
+        onSuccess();
+      } else {
+        toast.error(result.error || "Failed to set password");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error setting password:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <FieldGroup>
+        <Field>
+          <FieldLabel htmlFor="set-password">Password</FieldLabel>
+          <Input
+            id="set-password"
+            type="password"
+            autoComplete="new-password"
+            disabled={isLoading}
+            {...form.register("newPassword")}
+          />
+          <FieldDescription>{PASSWORD_HINT}</FieldDescription>
+          <FieldError errors={[form.formState.errors.newPassword]} />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="set-password-confirm">Confirm password</FieldLabel>
+          <Input
+            id="set-password-confirm"
+            type="password"
+            autoComplete="new-password"
+            disabled={isLoading}
+            {...form.register("confirmPassword")}
+          />
+          <FieldError errors={[form.formState.errors.confirmPassword]} />
+        </Field>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set password
+          </Button>
+        </DialogFooter>
+      </FieldGroup>
+    </form>
+  );
+}
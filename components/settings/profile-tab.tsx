@@ -24,6 +24,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { updateUserProfile } from "@/app/actions/user-settings";
+import { ChangeEmailField } from "./change-email-field";
 import {
   updateProfileSchema,
   type UpdateProfileInput,
@@ -126,19 +127,8 @@ export function ProfileTab({ user }: ProfileTabProps) {
               <FieldError errors={[form.formState.errors.name]} />
             </Field>
 
-            {/* Email Field (Read-only) */}
-            <Field>
-              <FieldLabel htmlFor="profile-email">Email</FieldLabel>
-              <Input
-                id="profile-email"
-                value={user.email}
-                disabled
-                className="bg-muted"
-              />
-              <FieldDescription>
-                Your email address cannot be changed.
-              </FieldDescription>
-            </Field>
+            {/* Email Field, changed through confirmation links */}
+            <ChangeEmailField email={user.email} />
 
             {/* Phone Field */}
             <Field>
@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { SessionsList } from "@/components/sessions-list";
+import {
+  getMySessions,
+  revokeMyOtherSessions,
+  revokeMySession,
+} from "@/app/actions/user-settings";
+import type { ActiveSession } from "@/lib/sessions";
+
+export function SessionsCard() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+
+  async function loadSessions() {
+    try {
+      const result = await getMySessions();
+      if (result.success && result.data) {
+        setSessions(result.data);
+      } else {
+        toast.error(result.error || "Failed to load sessions");
+      }
+    } catch (error) {
+      console.error("Error loading sessions:", error);
+      toast.error("Failed to load sessions");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  async function handleRevoke(session: ActiveSession) {
+    setRevokingId(session.id);
+    try {
+      const result = await revokeMySession({ sessionId: session.id });
+      if (result.success) {
+        toast.success("Session signed out");
+        setSessions((current) => current.filter((s) => s.id !== session.id));
+      } else {
+        toast.error(result.error || "Failed to sign out session");
+      }
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      toast.error("An unexpected error occurred");
+    } finally {
+      setRevokingId(null);
+    }
+  }
+
+  async function handleRevokeOthers() {
+    setIsRevokingOthers(true);
+    try {
+      const result = await revokeMyOtherSessions();
+      if (result.success) {
+        toast.success("Signed out of all other sessions");
+        setSessions((current) => current.filter((s) => s.isCurrent));
+      } else {
+        toast.error(result.error || "Failed to sign out other sessions");
+      }
+    } catch (error) {
+      console.error("Error revoking other sessions:", error);
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  }
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Sessions & Devices</CardTitle>
+          <CardDescription>
+            Devices that are signed in to your account. Sign out any you don&apos;t
+            recognize.
+          </CardDescription>
+        </div>
+        {hasOtherSessions && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRevokeOthers}
+            disabled={isRevokingOthers}
+          >
+            {isRevokingOthers && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Sign out other sessions
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <SessionsList
+            sessions={sessions}
+            revokingId={revokingId}
+            onRevoke={handleRevoke}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
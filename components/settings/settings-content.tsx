@@ -1,7 +1,7 @@
 "use client";
 
 import { parseAsStringEnum, useQueryState } from "nuqs";
-import { IconBuilding, IconUsers } from "@tabler/icons-react";
+import { IconBuilding, IconHistory, IconKey, IconUsers } from "@tabler/icons-react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -18,11 +18,13 @@ import {
 import { ProfileTab } from "./profile-tab";
 import { WorkspaceTab } from "./workspace-tab";
 import { MembersTab } from "./members-tab";
+import { ActivityTab } from "./activity-tab";
+import { ApiKeysTab } from "./api-keys-tab";
 import { AccountTab } from "./account-tab";
 import { UserWorkspaceCreateDialog } from "./user-workspace-create-dialog";
 import type { WorkspaceWithRole } from "@/types/workspace";
 
-const SECTION_VALUES = ["profile", "workspace", "members", "account"];
+const SECTION_VALUES = ["profile", "workspace", "members", "activity", "api-keys", "account"];
 
 interface SettingsContentProps {
   user: {
@@ -110,6 +112,50 @@ export function SettingsContent({ user, workspace, isAdmin }: SettingsContentPro
         )
       )}
 
+      {activeSection === "activity" && isAdmin && (
+        workspace ? (
+          <ActivityTab workspaceId={workspace.id} />
+        ) : (
+          <Card>
+            <CardContent className="p-6">
+              <Empty>
+                <EmptyHeader>
+                  <EmptyMedia variant="icon">
+                    <IconHistory />
+                  </EmptyMedia>
+                  <EmptyTitle>No Workspace</EmptyTitle>
+                  <EmptyDescription>
+                    You need a workspace before there is any activity to show.
+                  </EmptyDescription>
+                </EmptyHeader>
+              </Empty>
+            </CardContent>
+          </Card>
+        )
+      )}
+
+      {activeSection === "api-keys" && isAdmin && (
+        workspace ? (
+          <ApiKeysTab workspaceId={workspace.id} />
+        ) : (
+          <Card>
+            <CardContent className="p-6">
+              <Empty>
+                <EmptyHeader>
+                  <EmptyMedia variant="icon">
+                    <IconKey />
+                  </EmptyMedia>
+                  <EmptyTitle>No Workspace</EmptyTitle>
+                  <EmptyDescription>
+                    You need a workspace before you can create API keys.
+                  </EmptyDescription>
+                </EmptyHeader>
+              </Empty>
+            </CardContent>
+          </Card>
+        )
+      )}
+
       {activeSection === "account" && <AccountTab />}
     </div>
   );
@@ -1,7 +1,7 @@
 "use client";
 
 import { parseAsStringEnum, useQueryState } from "nuqs";
-import { IconUser, IconShield, IconUsers, IconBuilding } from "@tabler/icons-react";
+import { IconUser, IconShield, IconUsers, IconBuilding, IconHistory, IconKey } from "@tabler/icons-react";
 import { cn } from "@/lib/utils";
 
 interface NavigationItem {
@@ -14,10 +14,12 @@ const allNavigationItems: NavigationItem[] = [
   { id: "profile", label: "Profile", icon: IconUser },
   { id: "workspace", label: "Workspace", icon: IconBuilding },
   { id: "members", label: "Members", icon: IconUsers },
+  { id: "activity", label: "Activity", icon: IconHistory },
+  { id: "api-keys", label: "API Keys", icon: IconKey },
   { id: "account", label: "Account", icon: IconShield },
 ];
 
-const SECTION_VALUES = ["profile", "workspace", "members", "account"];
+const SECTION_VALUES = ["profile", "workspace", "members", "activity", "api-keys", "account"];
 
 interface SettingsNavigationProps {
   isAdmin: boolean;
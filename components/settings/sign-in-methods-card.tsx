@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { IconBrandGoogle, IconKey } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getMyLinkedAccounts, unlinkMyAccount } from "@/app/actions/user-settings";
+import { authClient } from "@/lib/auth-client";
+import type { LinkedAccount } from "@/types/user";
+import { PasswordDialog } from "./password-dialog";
+
+export function SignInMethodsCard() {
+  const [accounts, setAccounts] = useState<LinkedAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
+  const [isLinking, setIsLinking] = useState(false);
+  const [isUnlinking, setIsUnlinking] = useState(false);
+
+  async function loadAccounts() {
+    try {
+      const result = await getMyLinkedAccounts();
+      if (result.success && result.data) {
+        setAccounts(result.data);
+      } else {
+        toast.error(result.error || "Failed to load sign-in methods");
+      }
+    } catch (error) {
+      console.error("Error loading sign-in methods:", error);
+      toast.error("Failed to load sign-in methods");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const password = accounts.find((account) => account.providerId === "credential");
+  const google = accounts.find((account) => account.providerId === "google");
+
+  async function handleLinkGoogle() {
+    setIsLinking(true);
+    try {
+      const { error } = await authClient.linkSocial({
+        provider: "google",
+        callbackURL: "/dashboard/settings?section=account",
+      });
+      if (error) {
+        toast.error(error.message || "Failed to connect Google");
+        setIsLinking(false);
+      }
+      // On success the browser is on its way to Google
+    } catch (error) {
+      console.error("Error linking Google:", error);
+      toast.error("An unexpected error occurred");
+      setIsLinking(false);
+    }
+  }
+
+  async function handleUnlinkGoogle() {
+    setIsUnlinking(true);
+    try {
+      const result = await unlinkMyAccount({ providerId: "google" });
+      if (result.success) {
+        toast.success("Google disconnected");
+        setAccounts((current) => current.filter((account) => account.providerId !== "google"));
+      } else {
+        toast.error(result.error || "Failed to disconnect Google");
+      }
+    } catch (error) {
+      console.error("Error unlinking Google:", error);
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsUnlinking(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign-in Methods</CardTitle>
+        <CardDescription>
+          Manage your password and the accounts you can sign in with
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+              <div className="flex items-center gap-3">
+                <IconKey className="h-5 w-5 shrink-0 text-muted-foreground" />
+                <div>
+                  <p className="font-medium">Password</p>
+                  <p className="text-sm text-muted-foreground">
+                    {password ? "Sign in with your email and password" : "No password set"}
+                  </p>
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setIsPasswordDialogOpen(true)}>
+                {password ? "Change password" : "Set password"}
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+              <div className="flex items-center gap-3">
+                <IconBrandGoogle className="h-5 w-5 shrink-0 text-muted-foreground" />
+                <div>
+                  <p className="font-medium">Google</p>
+                  <p className="text-sm text-muted-foreground">
+                    {google
+                      ? `Connected on ${format(new Date(google.createdAt), "MMM d, yyyy")}`
+                      : "Not connected"}
+                  </p>
+                </div>
+              </div>
+              {google ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleUnlinkGoogle}
+                  // Google is the only way in until a password is set
+                  disabled={isUnlinking || accounts.length === 1}
+                >
+                  {isUnlinking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Disconnect
+                </Button>
+              ) : (
+                <Button variant="outline" size="sm" onClick={handleLinkGoogle} disabled={isLinking}>
+                  {isLinking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Connect
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <PasswordDialog
+        mode={password ? "change" : "set"}
+        open={isPasswordDialogOpen}
+        onOpenChange={setIsPasswordDialogOpen}
+        onSuccess={() => {
+          setIsPasswordDialogOpen(false);
+          loadAccounts();
+        }}
+      />
+    </Card>
+  );
+}
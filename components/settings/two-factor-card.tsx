@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BackupCodesList, TwoFactorSetup } from "@/components/two-factor-setup";
+import { authClient, useSession } from "@/lib/auth-client";
+
+type PasswordAction = "regenerate" | "disable";
+
+const PASSWORD_ACTIONS: Record<PasswordAction, { title: string; description: string; label: string }> = {
+  regenerate: {
+    title: "Regenerate backup codes",
+    description: "Your current backup codes stop working once new ones are generated.",
+    label: "Generate new codes",
+  },
+  disable: {
+    title: "Turn off two-factor authentication",
+    description: "Signing in will only need your password again.",
+    label: "Turn off",
+  },
+};
+
+export function TwoFactorCard() {
+  const { data: session, isPending } = useSession();
+  const [isSettingUp, setIsSettingUp] = useState(false);
+  const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(null);
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+
+  const isEnabled = Boolean(session?.user.twoFactorEnabled);
+
+  function closePasswordDialog() {
+    setPasswordAction(null);
+    setPassword("");
+  }
+
+  async function handlePasswordAction(e: React.FormEvent) {
+    e.preventDefault();
+    if (!passwordAction) return;
+
+    setIsSubmitting(true);
+    try {
+      if (passwordAction === "regenerate") {
+        const { data, error } = await authClient.twoFactor.generateBackupCodes({ password });
+        if (error || !data) {
+          toast.error(error?.message || "Failed to generate backup codes");
+          return;
+        }
+        setBackupCodes(data.backupCodes);
+        toast.success("New backup codes generated");
+      } else {
+        const { error } = await authClient.twoFactor.disable({ password });
+        if (error) {
+          toast.error(error.message || "Failed to turn off two-factor authentication");
+          return;
+        }
+        setBackupCodes([]);
+        toast.success("Two-factor authentication turned off");
+      }
+      closePasswordDialog();
+    } catch (error) {
+      console.error("Error updating two-factor authentication:", error);
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          {!isPending && (
+            <Badge variant={isEnabled ? "default" : "secondary"}>
+              {isEnabled ? "On" : "Off"}
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          Ask for a code from an authenticator app when signing in with your
+          password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isPending ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : isSettingUp ? (
+          <TwoFactorSetup
+            onComplete={() => setIsSettingUp(false)}
+            onCancel={() => setIsSettingUp(false)}
+          />
+        ) : isEnabled ? (
+          <>
+            {backupCodes.length > 0 && <BackupCodesList codes={backupCodes} />}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setPasswordAction("regenerate")}>
+                Regenerate backup codes
+              </Button>
+              <Button variant="destructive" onClick={() => setPasswordAction("disable")}>
+                Turn off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={() => setIsSettingUp(true)}>
+            Set up two-factor authentication
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={passwordAction !== null} onOpenChange={(open) => !open && closePasswordDialog()}>
+        <DialogContent>
+          {passwordAction && (
+            <form onSubmit={handlePasswordAction} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>{PASSWORD_ACTIONS[passwordAction].title}</DialogTitle>
+                <DialogDescription>
+                  {PASSWORD_ACTIONS[passwordAction].description}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-2">
+                <Label htmlFor="two-factor-confirm-password">Password</Label>
+                <Input
+                  id="two-factor-confirm-password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={closePasswordDialog}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  variant={passwordAction === "disable" ? "destructive" : "default"}
+                  disabled={isSubmitting || !password}
+                >
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {PASSWORD_ACTIONS[passwordAction].label}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  getWorkspaceAttachmentSettings,
+  updateWorkspaceAttachmentSettings,
+} from "@/app/actions/workspace-settings";
+import type { WorkspaceAttachmentSettings } from "@/types/workspace";
+
+interface WorkspaceAttachmentsFormProps {
+  // Settings reload when the active workspace changes
+  workspaceId: string;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export function WorkspaceAttachmentsForm({ workspaceId }: WorkspaceAttachmentsFormProps) {
+  const [settings, setSettings] = useState<WorkspaceAttachmentSettings | null>(null);
+  const [maxSizeMb, setMaxSizeMb] = useState("");
+  const [mimeTypes, setMimeTypes] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  function applySettings(data: WorkspaceAttachmentSettings) {
+    setSettings(data);
+    setMaxSizeMb(data.maxSize === null ? "" : String(data.maxSize / BYTES_PER_MB));
+    setMimeTypes(data.mimeTypes.join("\n"));
+  }
+
+  useEffect(() => {
+    getWorkspaceAttachmentSettings().then((result) => {
+      if (result.success && result.data) {
+        applySettings(result.data);
+      } else {
+        toast.error(result.error || "Failed to load attachment settings");
+      }
+    });
+  }, [workspaceId]);
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setIsLoading(true);
+    try {
+      const result = await updateWorkspaceAttachmentSettings({
+        maxSizeMb: maxSizeMb.trim() ? Number(maxSizeMb) : null,
+        mimeTypes: mimeTypes.split(/[\s,]+/).filter(Boolean),
+      });
+
+      if (result.success && result.data) {
+        applySettings(result.data);
+        toast.success("Attachment settings updated");
+      } else {
+        toast.error(result.error || "Failed to update attachment settings");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error updating attachment settings:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  if (!settings) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <FieldGroup>
+        <Field>
+          <FieldLabel htmlFor="attachment-max-size">Maximum file size (MB)</FieldLabel>
+          <Input
+            id="attachment-max-size"
+            type="number"
+            min="0.1"
+            step="0.1"
+            placeholder={String(settings.defaults.maxSize / BYTES_PER_MB)}
+            value={maxSizeMb}
+            onChange={(event) => setMaxSizeMb(event.target.value)}
+            disabled={isLoading}
+          />
+          <FieldDescription>
+            Leave empty to use the default of {settings.defaults.maxSize / BYTES_PER_MB} MB.
+          </FieldDescription>
+        </Field>
+
+        <Field>
+          <FieldLabel htmlFor="attachment-mime-types">Allowed file types</FieldLabel>
+          <Textarea
+            id="attachment-mime-types"
+            rows={5}
+            placeholder={settings.defaults.mimeTypes.join("\n")}
+            value={mimeTypes}
+            onChange={(event) => setMimeTypes(event.target.value)}
+            disabled={isLoading}
+            className="font-mono text-sm"
+          />
+          <FieldDescription>
+            One MIME type per line, such as application/pdf or image/*. Leave
+            empty to allow the default types shown.
+          </FieldDescription>
+        </Field>
+
+        <Field orientation="horizontal">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Changes
+          </Button>
+        </Field>
+      </FieldGroup>
+    </form>
+  );
+}
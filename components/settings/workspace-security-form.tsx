@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import {
+  Field,
+  FieldContent,
+  FieldDescription,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Switch } from "@/components/ui/switch";
+import {
+  getWorkspaceSecuritySettings,
+  updateWorkspaceSecuritySettings,
+} from "@/app/actions/workspace-settings";
+import type { WorkspaceSecuritySettings } from "@/types/workspace";
+
+interface WorkspaceSecurityFormProps {
+  // Settings reload when the active workspace changes
+  workspaceId: string;
+}
+
+export function WorkspaceSecurityForm({ workspaceId }: WorkspaceSecurityFormProps) {
+  const [settings, setSettings] = useState<WorkspaceSecuritySettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getWorkspaceSecuritySettings().then((result) => {
+      if (result.success && result.data) {
+        setSettings(result.data);
+      } else {
+        toast.error(result.error || "Failed to load security settings");
+      }
+    });
+  }, [workspaceId]);
+
+  async function handleRequireTwoFactorChange(requireTwoFactor: boolean) {
+    setIsSaving(true);
+    try {
+      const result = await updateWorkspaceSecuritySettings({ requireTwoFactor });
+
+      if (result.success && result.data) {
+        setSettings(result.data);
+        toast.success(
+          requireTwoFactor
+            ? "Two-factor authentication is now required"
+            : "Two-factor authentication is no longer required"
+        );
+      } else {
+        toast.error(result.error || "Failed to update security settings");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error updating security settings:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (!settings) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Field orientation="horizontal">
+      <FieldContent>
+        <FieldLabel htmlFor="require-two-factor">
+          Require two-factor authentication
+        </FieldLabel>
+        <FieldDescription>
+          Members without two-factor authentication are asked to set it up
+          before they can use the dashboard.
+        </FieldDescription>
+      </FieldContent>
+      <Switch
+        id="require-two-factor"
+        checked={settings.requireTwoFactor}
+        onCheckedChange={handleRequireTwoFactorChange}
+        disabled={isSaving}
+      />
+    </Field>
+  );
+}
@@ -60,7 +60,6 @@ export function WorkspaceSettingsForm({ workspace }: WorkspaceSettingsFormProps)
     setIsLoading(true);
     try {
       const result = await updateWorkspace({
-        id: workspace.id,
         name: data.name,
         slug: data.slug,
       });
@@ -8,6 +8,8 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { WorkspaceSettingsForm } from "./workspace-settings-form";
+import { WorkspaceAttachmentsForm } from "./workspace-attachments-form";
+import { WorkspaceSecurityForm } from "./workspace-security-form";
 import type { WorkspaceWithRole } from "@/types/workspace";
 
 interface WorkspaceTabProps {
@@ -16,16 +18,42 @@ interface WorkspaceTabProps {
 
 export function WorkspaceTab({ workspace }: WorkspaceTabProps) {
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>Workspace Settings</CardTitle>
-        <CardDescription>
-          Manage your workspace name and URL identifier
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        <WorkspaceSettingsForm workspace={workspace} />
-      </CardContent>
-    </Card>
+    <div className="flex flex-col gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Workspace Settings</CardTitle>
+          <CardDescription>
+            Manage your workspace name and URL identifier
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WorkspaceSettingsForm workspace={workspace} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Attachments</CardTitle>
+          <CardDescription>
+            Limit the size and type of files members can upload to threads
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WorkspaceAttachmentsForm workspaceId={workspace.id} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Security</CardTitle>
+          <CardDescription>
+            Set the sign-in requirements for members of this workspace
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WorkspaceSecurityForm workspaceId={workspace.id} />
+        </CardContent>
+      </Card>
+    </div>
   );
 }
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import QRCode from "react-qr-code";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { IconCopy, IconDownload } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { authClient } from "@/lib/auth-client";
+
+type SetupStep = "password" | "verify" | "backup-codes";
+
+interface BackupCodesListProps {
+  codes: string[];
+}
+
+/**
+ * One-time backup codes, shown once right after they are generated
+ */
+export function BackupCodesList({ codes }: BackupCodesListProps) {
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast.success("Backup codes copied");
+    } catch (error) {
+      console.error("Error copying backup codes:", error);
+      toast.error("Failed to copy backup codes");
+    }
+  }
+
+  function handleDownload() {
+    const blob = new Blob([`${codes.join("\n")}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "hagenkit-backup-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Store these codes somewhere safe. Each one signs you in once if you lose
+        access to your authenticator app. They won&apos;t be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <IconCopy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <IconDownload className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface TwoFactorSetupProps {
+  onComplete: () => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Enrolment in three steps: confirm the password, scan the QR code and
+ * verify a code from the app, then save the backup codes.
+ * 2FA only turns on once the first code is verified
+ */
+export function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
+  const [step, setStep] = useState<SetupStep>("password");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [totpURI, setTotpURI] = useState("");
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const secret = totpURI ? new URL(totpURI).searchParams.get("secret") : null;
+
+  async function handleEnable(e: React.FormEvent) {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const { data, error } = await authClient.twoFactor.enable({ password });
+
+      if (error || !data) {
+        toast.error(error?.message || "Failed to start two-factor setup");
+        return;
+      }
+
+      setTotpURI(data.totpURI);
+      setBackupCodes(data.backupCodes);
+      setPassword("");
+      setStep("verify");
+    } catch (error) {
+      console.error("Error enabling two-factor authentication:", error);
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleVerify(e: React.FormEvent) {
+    e.preventDefault();
+    if (code.length !== 6) return;
+
+    setIsLoading(true);
+    try {
+      const { error } = await authClient.twoFactor.verifyTotp({ code });
+
+      if (error) {
+        toast.error(error.message || "Invalid code");
+        setCode("");
+        return;
+      }
+
+      toast.success("Two-factor authentication enabled");
+      setStep("backup-codes");
+    } catch (error) {
+      console.error("Error verifying two-factor code:", error);
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  if (step === "backup-codes") {
+    return (
+      <div className="space-y-4">
+        <BackupCodesList codes={backupCodes} />
+        <Button onClick={onComplete}>I&apos;ve saved my backup codes</Button>
+      </div>
+    );
+  }
+
+  if (step === "verify") {
+    return (
+      <form onSubmit={handleVerify} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Scan this QR code with an authenticator app such as 1Password, Authy
+          or Google Authenticator, then enter the 6-digit code it shows.
+        </p>
+        <div className="flex flex-col items-start gap-3 sm:flex-row sm:items-center">
+          <div className="rounded-lg border bg-white p-3">
+            <QRCode value={totpURI} size={160} />
+          </div>
+          {secret && (
+            <div className="space-y-1 text-sm">
+              <p className="text-muted-foreground">Can&apos;t scan it? Enter this key:</p>
+              <code className="break-all rounded bg-muted px-2 py-1 font-mono">{secret}</code>
+            </div>
+          )}
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="two-factor-code">Verification code</Label>
+          <InputOTP
+            id="two-factor-code"
+            maxLength={6}
+            value={code}
+            onChange={setCode}
+            disabled={isLoading}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isLoading || code.length !== 6}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verify and turn on
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="ghost" onClick={onCancel} disabled={isLoading}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      <div className="grid gap-2">
+        <Label htmlFor="two-factor-password">Confirm your password</Label>
+        <Input
+          id="two-factor-password"
+          type="password"
+          autoComplete="current-password"
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          disabled={isLoading}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isLoading || !password}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Continue
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel} disabled={isLoading}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,235 @@
+"use client"
+
+import {
+  Children,
+  isValidElement,
+  useEffect,
+  useRef,
+  useState,
+  type ReactElement,
+  type ReactNode,
+} from "react"
+import ReactMarkdown, { type Components } from "react-markdown"
+import remarkGfm from "remark-gfm"
+import rehypeSanitize from "rehype-sanitize"
+import rehypeSlug from "rehype-slug"
+import rehypeAutolinkHeadings from "rehype-autolink-headings"
+import { Mermaid } from "@/components/blog/mermaid"
+import { cn } from "@/lib/utils"
+
+export interface WikiHeading {
+  id: string
+  text: string
+  level: number
+}
+
+interface WikiMarkdownProps {
+  content: string
+  className?: string
+  // Called with the rendered h2/h3 headings, for a table of contents
+  onHeadings?: (headings: WikiHeading[]) => void
+}
+
+function CodeBlock({ code, language }: { code: string; language?: string }) {
+  const [html, setHtml] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setHtml(null)
+
+    if (!language) return
+
+    // shiki escapes the code itself, so its output is safe to inject
+    import("shiki")
+      .then(({ codeToHtml }) => codeToHtml(code, {
+        lang: language,
+        themes: { light: "github-light", dark: "github-dark" },
+        defaultColor: false,
+      }))
+      .then((highlighted) => {
+        if (!cancelled) setHtml(highlighted)
+      })
+      .catch(() => {
+        // Unknown language: keep the plain block
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [code, language])
+
+  if (html) {
+    return (
+      <div
+        className="my-4 overflow-x-auto rounded-lg border text-sm [&_pre]:p-3"
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    )
+  }
+
+  return (
+    <pre className="my-4 overflow-x-auto rounded-lg bg-muted p-3 text-sm">
+      <code>{code}</code>
+    </pre>
+  )
+}
+
+// react-markdown hands every component its hast node, which must not reach the DOM
+function domProps<P extends { node?: unknown }>(props: P): Omit<P, "node"> {
+  const rest = { ...props }
+  delete rest.node
+  return rest
+}
+
+const components: Components = {
+  pre: ({ children }) => {
+    const child = Children.toArray(children)[0]
+    if (!isValidElement(child)) {
+      return <pre>{children}</pre>
+    }
+
+    const code = child as ReactElement<{ className?: string; children?: ReactNode }>
+    const language = /language-([\w-]+)/.exec(code.props.className || "")?.[1]
+    const text = String(code.props.children ?? "").replace(/\n$/, "")
+
+    if (language === "mermaid") {
+      return <Mermaid chart={text} />
+    }
+
+    return <CodeBlock code={text} language={language} />
+  },
+  a: ({ href, children, ...props }) => {
+    if (href?.startsWith("#") || href?.startsWith("/")) {
+      return <a href={href} {...domProps(props)}>{children}</a>
+    }
+
+    return (
+      <a href={href} target="_blank" rel="noopener noreferrer nofollow" {...domProps(props)}>
+        {children}
+      </a>
+    )
+  },
+  h1: ({ className, ...props }) => (
+    <h1 className={cn("mt-10 mb-5 scroll-mt-20 text-2xl font-bold", className)} {...domProps(props)} />
+  ),
+  h2: ({ className, ...props }) => (
+    <h2 className={cn("mt-8 mb-4 scroll-mt-20 text-xl font-semibold", className)} {...domProps(props)} />
+  ),
+  h3: ({ className, ...props }) => (
+    <h3 className={cn("mt-6 mb-3 scroll-mt-20 text-lg font-semibold", className)} {...domProps(props)} />
+  ),
+  h4: ({ className, ...props }) => (
+    <h4 className={cn("mt-4 mb-2 scroll-mt-20 font-semibold", className)} {...domProps(props)} />
+  ),
+  p: ({ className, ...props }) => (
+    <p className={cn("my-4 leading-relaxed", className)} {...domProps(props)} />
+  ),
+  ul: ({ className, ...props }) => (
+    <ul
+      className={cn(
+        "my-4 space-y-1 pl-6",
+        className?.includes("contains-task-list") ? "list-none pl-2" : "list-disc",
+        className
+      )}
+      {...domProps(props)}
+    />
+  ),
+  ol: ({ className, ...props }) => (
+    <ol className={cn("my-4 list-decimal space-y-1 pl-6", className)} {...domProps(props)} />
+  ),
+  li: ({ className, ...props }) => (
+    <li className={cn("leading-relaxed [&>input]:mr-2 [&>input]:align-middle", className)} {...domProps(props)} />
+  ),
+  blockquote: ({ className, ...props }) => (
+    <blockquote
+      className={cn("my-4 border-l-4 border-muted-foreground/30 pl-4 italic text-muted-foreground", className)}
+      {...domProps(props)}
+    />
+  ),
+  code: ({ className, ...props }) => (
+    <code className={cn("rounded bg-muted px-1 py-0.5 font-mono text-sm", className)} {...domProps(props)} />
+  ),
+  hr: () => <hr className="my-6 border-border" />,
+  img: ({ alt, ...props }) => (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img alt={alt || ""} className="my-4 max-w-full rounded-lg" {...domProps(props)} />
+  ),
+  table: ({ children }) => (
+    <div className="my-4 overflow-x-auto">
+      <table className="w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ className, ...props }) => (
+    <th className={cn("border px-3 py-2 text-left font-semibold", className)} {...domProps(props)} />
+  ),
+  td: ({ className, ...props }) => (
+    <td className={cn("border px-3 py-2", className)} {...domProps(props)} />
+  ),
+}
+
+/**
+ * GitHub-flavoured markdown for wiki pages
+ * Raw HTML in the source is never rendered and the tree is sanitized with
+ * GitHub's schema before headings get their anchor ids
+ */
+export function WikiMarkdown({ content, className, onHeadings }: WikiMarkdownProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!onHeadings || !containerRef.current) return
+
+    const headings = Array.from(containerRef.current.querySelectorAll<HTMLHeadingElement>("h2[id], h3[id]"))
+    onHeadings(headings.map((heading) => ({
+      id: heading.id,
+      text: heading.textContent || "",
+      level: Number(heading.tagName.slice(1)),
+    })))
+  }, [content, onHeadings])
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn("max-w-none text-sm", className)}
+    >
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[
+          rehypeSanitize,
+          rehypeSlug,
+          [rehypeAutolinkHeadings, { behavior: "wrap" }],
+        ]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+}
+
+/**
+ * Links to the headings of a rendered wiki page
+ */
+export function WikiTableOfContents({ headings }: { headings: WikiHeading[] }) {
+  if (headings.length < 2) return null
+
+  return (
+    <nav className="space-y-2 text-sm">
+      <div className="font-medium">On this page</div>
+      <ul className="space-y-1 border-l">
+        {headings.map((heading) => (
+          <li key={heading.id}>
+            <a
+              href={`#${heading.id}`}
+              className={cn(
+                "block border-l border-transparent -ml-px py-0.5 text-muted-foreground hover:border-foreground hover:text-foreground",
+                heading.level === 3 ? "pl-6" : "pl-3"
+              )}
+            >
+              {heading.text}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  )
+}
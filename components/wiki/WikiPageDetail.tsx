@@ -0,0 +1,108 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { WikiPageViewer } from "./WikiPageViewer"
+import { WikiPageEditor } from "./WikiPageEditor"
+import { conversationUrl } from "@/lib/conversations"
+
+interface WikiPageDetailProps {
+  wikiPage: {
+    id: string
+    title: string
+    content: string
+    summary?: string
+    tags: string[]
+    category?: string
+    isPublic: boolean
+    createdAt: string
+    updatedAt: string
+    version: number
+    createdBy: {
+      id: string
+      name: string
+      email: string
+      image?: string
+    }
+    threadId: string
+    conversation: {
+      id: string
+      title: string
+    }
+  }
+  currentUser: {
+    id: string
+    name: string
+  }
+}
+
+/**
+ * Standalone wiki page with in-place editing, the target of search results
+ */
+export function WikiPageDetail({ wikiPage: initialWikiPage, currentUser }: WikiPageDetailProps) {
+  const router = useRouter()
+  const [wikiPage, setWikiPage] = useState(initialWikiPage)
+  const [editing, setEditing] = useState(false)
+
+  const handleSave = async (changes: {
+    title: string
+    content: string
+    summary?: string
+    tags: string[]
+    category?: string
+    isPublic: boolean
+    version?: number
+  }) => {
+    const response = await fetch(`/api/wiki/${wikiPage.id}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(changes),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to save wiki page")
+    }
+
+    setWikiPage(prev => ({
+      ...prev,
+      ...data.wikiPage,
+      summary: data.wikiPage.summary || undefined,
+      category: data.wikiPage.category || undefined,
+      createdBy: prev.createdBy,
+    }))
+    setEditing(false)
+  }
+
+  if (editing) {
+    return (
+      <WikiPageEditor
+        mode="edit"
+        wikiPage={wikiPage}
+        onSave={handleSave}
+        onCancel={() => setEditing(false)}
+        onBack={() => setEditing(false)}
+      />
+    )
+  }
+
+  return (
+    <WikiPageViewer
+      // Remount on a new version so the viewer picks up the new content
+      key={wikiPage.version}
+      wikiPage={wikiPage}
+      currentUser={currentUser}
+      onEdit={() => setEditing(true)}
+      onBack={() => router.back()}
+      onGoToThread={(threadId) => router.push(conversationUrl(wikiPage.conversation.id, threadId))}
+      onRestored={(restored) => setWikiPage(prev => ({
+        ...prev,
+        ...restored,
+        summary: restored.summary || undefined,
+        category: restored.category || undefined,
+      }))}
+    />
+  )
+}
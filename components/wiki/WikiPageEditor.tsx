@@ -43,6 +43,7 @@ import {
   Hash,
   AtSign
 } from "lucide-react"
+import { WikiMarkdown } from "./WikiMarkdown"
 
 interface WikiPageEditorProps {
   wikiPage?: {
@@ -53,7 +54,9 @@ interface WikiPageEditorProps {
     tags: string[]
     category?: string
     isPublic: boolean
+    version?: number
   }
+  // Send `version` as-is with PUT /api/wiki/[id] so stale saves are rejected
   onSave: (wikiPage: {
     title: string
     content: string
@@ -61,6 +64,7 @@ interface WikiPageEditorProps {
     tags: string[]
     category?: string
     isPublic: boolean
+    version?: number
   }) => Promise<void>
   onCancel: () => void
   onBack?: () => void
@@ -130,13 +134,15 @@ export function WikiPageEditor({
         summary: summary.trim() || undefined,
         tags,
         category: category.trim() || undefined,
-        isPublic
+        isPublic,
+        version: wikiPage?.version
       })
 
       toast.success(`Wiki page ${mode === "create" ? "created" : "updated"} successfully!`)
       setUnsavedChanges(false)
     } catch (error) {
-      toast.error(`Failed to ${mode} wiki page`)
+      // e.g. the 409 returned when someone else saved first
+      toast.error(error instanceof Error && error.message ? error.message : `Failed to ${mode} wiki page`)
     } finally {
       setIsSaving(false)
     }
@@ -282,23 +288,7 @@ export function WikiPageEditor({
                   ))}
                 </div>
               </div>
-              <div
-                className="prose prose-sm max-w-none"
-                dangerouslySetInnerHTML={{
-                  __html: `<p class="my-4">${content.replace(/^### (.*$)/gim, '<h3 class="text-lg font-semibold mt-6 mb-3">$1</h3>')
-                    .replace(/^## (.*$)/gim, '<h2 class="text-xl font-semibold mt-8 mb-4">$1</h2>')
-                    .replace(/^# (.*$)/gim, '<h1 class="text-2xl font-bold mt-10 mb-5">$1</h1>')
-                    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
-                    .replace(/\*(.+?)\*/g, '<em>$1</em>')
-                    .replace(/`(.+?)`/g, '<code class="bg-muted px-1 py-0.5 rounded text-sm">$1</code>')
-                    .replace(/```(\w+)?\n([\s\S]*?)```/g, '<pre class="bg-muted p-3 rounded-lg overflow-x-auto my-4"><code>$2</code></pre>')
-                    .replace(/^\> (.+)$/gim, '<blockquote class="border-l-4 border-muted-foreground/30 pl-4 my-4 italic text-muted-foreground">$1</blockquote>')
-                    .replace(/^\- (.+)$/gim, '<li class="ml-4">• $1</li>')
-                    .replace(/^\d+\. (.+)$/gim, '<li class="ml-4">$1</li>')
-                    .replace(/\n\n/g, '</p><p class="my-4">')
-                    .replace(/\n/g, '<br />')}</p>`
-                }}
-              />
+              <WikiMarkdown content={content} />
             </div>
           ) : (
             // Edit mode
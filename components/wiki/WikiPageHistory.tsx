@@ -0,0 +1,313 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "sonner"
+import { RotateCcw } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { diffLines } from "@/lib/line-diff"
+
+interface RevisionSummary {
+  id: string
+  version: number
+  title: string
+  reason: string
+  createdAt: string
+  editedBy: {
+    id: string
+    name: string | null
+  }
+}
+
+interface Revision extends RevisionSummary {
+  content: string
+  summary?: string | null
+  tags: string[]
+  category?: string | null
+}
+
+export interface RestoredWikiPage {
+  id: string
+  title: string
+  content: string
+  summary?: string | null
+  tags: string[]
+  category?: string | null
+  version: number
+  updatedAt: string
+}
+
+interface WikiPageHistoryProps {
+  wikiPageId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  canRestore?: boolean
+  onRestored?: (wikiPage: RestoredWikiPage) => void
+}
+
+const reasonLabels: Record<string, string> = {
+  create: "Created",
+  edit: "Edited",
+  merge: "New messages merged",
+  restore: "Restored",
+}
+
+// Title, summary, tags and category are compared along with the body
+function revisionText(revision: Revision) {
+  return [
+    `Title: ${revision.title}`,
+    `Category: ${revision.category || ""}`,
+    `Tags: ${revision.tags.join(", ")}`,
+    `Summary: ${revision.summary || ""}`,
+    "",
+    revision.content,
+  ].join("\n")
+}
+
+export function WikiPageHistory({
+  wikiPageId,
+  open,
+  onOpenChange,
+  canRestore = false,
+  onRestored
+}: WikiPageHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([])
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null)
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+  const [loaded, setLoaded] = useState<Record<string, Revision>>({})
+  const [loading, setLoading] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+
+  const loadRevisions = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/wiki/${wikiPageId}/revisions`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load history")
+      }
+
+      setRevisions(data.revisions)
+      setCurrentVersion(data.currentVersion)
+      // Default to what the latest version changed
+      setToId(data.revisions[0]?.id || null)
+      setFromId(data.revisions[1]?.id || data.revisions[0]?.id || null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load history")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (open) {
+      setLoaded({})
+      loadRevisions()
+    }
+  }, [open, wikiPageId])
+
+  // Fetch full content for the two revisions being compared
+  useEffect(() => {
+    const missing = [fromId, toId].filter((id): id is string => Boolean(id) && !loaded[id as string])
+    if (missing.length === 0) return
+
+    Promise.all(missing.map(async (id) => {
+      const response = await fetch(`/api/wiki/${wikiPageId}/revisions/${id}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load revision")
+      }
+      return data.revision as Revision
+    }))
+      .then((fetched) => {
+        setLoaded(prev => ({
+          ...prev,
+          ...Object.fromEntries(fetched.map(revision => [revision.id, revision])),
+        }))
+      })
+      .catch((error) => {
+        toast.error(error instanceof Error ? error.message : "Failed to load revision")
+      })
+  }, [fromId, toId, wikiPageId])
+
+  const from = fromId ? loaded[fromId] : undefined
+  const to = toId ? loaded[toId] : undefined
+
+  const diff = useMemo(() => {
+    if (!from || !to) return null
+    return diffLines(revisionText(from), revisionText(to))
+  }, [from, to])
+
+  const changeCount = diff?.filter(line => line.type !== "unchanged").length || 0
+
+  const handleRestore = async () => {
+    if (!to) return
+
+    setRestoring(true)
+    try {
+      const response = await fetch(`/api/wiki/${wikiPageId}/revisions/${to.id}/restore`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ version: currentVersion }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to restore revision")
+      }
+
+      toast.success(`Restored version ${data.restoredVersion}`)
+      onRestored?.(data.wikiPage)
+      loadRevisions()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to restore revision")
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const revisionLabel = (revision: RevisionSummary) =>
+    `v${revision.version} · ${revision.editedBy.name || "Unknown User"} · ${formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}`
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Page history</DialogTitle>
+          <DialogDescription>
+            Compare any two versions of this page, or restore an earlier one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+            {/* Revision list */}
+            <ScrollArea className="h-[420px] rounded border">
+              <div className="p-2 space-y-1">
+                {revisions.map((revision) => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => {
+                      const index = revisions.findIndex(r => r.id === revision.id)
+                      setToId(revision.id)
+                      setFromId(revisions[index + 1]?.id || revision.id)
+                    }}
+                    className={`w-full rounded p-2 text-left text-sm hover:bg-muted ${toId === revision.id ? "bg-muted" : ""}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">v{revision.version}</span>
+                      {revision.version === currentVersion && (
+                        <Badge variant="secondary" className="text-xs">Current</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {reasonLabels[revision.reason] || revision.reason} by {revision.editedBy.name || "Unknown User"}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {/* Diff */}
+            <div className="min-w-0 space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Select value={fromId || undefined} onValueChange={setFromId}>
+                  <SelectTrigger className="w-[240px]">
+                    <SelectValue placeholder="From version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision) => (
+                      <SelectItem key={revision.id} value={revision.id}>
+                        {revisionLabel(revision)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-muted-foreground">to</span>
+                <Select value={toId || undefined} onValueChange={setToId}>
+                  <SelectTrigger className="w-[240px]">
+                    <SelectValue placeholder="To version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision) => (
+                      <SelectItem key={revision.id} value={revision.id}>
+                        {revisionLabel(revision)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {canRestore && to && to.version !== currentVersion && (
+                  <Button size="sm" variant="outline" onClick={handleRestore} disabled={restoring} className="ml-auto">
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    {restoring ? "Restoring..." : `Restore v${to.version}`}
+                  </Button>
+                )}
+              </div>
+
+              <ScrollArea className="h-[370px] rounded border">
+                {!diff ? (
+                  <p className="p-3 text-sm text-muted-foreground">Loading revisions...</p>
+                ) : changeCount === 0 ? (
+                  <p className="p-3 text-sm text-muted-foreground">No differences between these versions.</p>
+                ) : (
+                  <pre className="text-xs leading-5">
+                    {diff.map((line, index) => (
+                      <div
+                        key={index}
+                        className={
+                          line.type === "added"
+                            ? "bg-green-500/10 text-green-700 dark:text-green-400"
+                            : line.type === "removed"
+                              ? "bg-red-500/10 text-red-700 dark:text-red-400"
+                              : "text-muted-foreground"
+                        }
+                      >
+                        <span className="inline-block w-10 select-none pr-2 text-right opacity-60">
+                          {line.oldNumber ?? ""}
+                        </span>
+                        <span className="inline-block w-10 select-none pr-2 text-right opacity-60">
+                          {line.newNumber ?? ""}
+                        </span>
+                        <span className="select-none pr-2">
+                          {line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}
+                        </span>
+                        <span className="whitespace-pre-wrap break-words">{line.text}</span>
+                      </div>
+                    ))}
+                  </pre>
+                )}
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
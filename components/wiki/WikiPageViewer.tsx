@@ -33,9 +33,12 @@ import {
   Tag,
   Folder,
   MessageSquare,
-  ArrowLeft
+  ArrowLeft,
+  History
 } from "lucide-react"
 import { formatDistanceToNow } from "date-fns"
+import { WikiPageHistory, type RestoredWikiPage } from "./WikiPageHistory"
+import { WikiMarkdown, WikiTableOfContents, type WikiHeading } from "./WikiMarkdown"
 
 interface WikiPageViewerProps {
   wikiPage: {
@@ -48,6 +51,7 @@ interface WikiPageViewerProps {
     isPublic: boolean
     createdAt: string
     updatedAt: string
+    version?: number
     createdBy: {
       id: string
       name: string
@@ -63,6 +67,7 @@ interface WikiPageViewerProps {
   onEdit?: () => void
   onBack?: () => void
   onGoToThread?: (threadId: string) => void
+  onRestored?: (wikiPage: RestoredWikiPage) => void
   currentUser?: {
     id: string
     name: string
@@ -74,30 +79,16 @@ export function WikiPageViewer({
   onEdit,
   onBack,
   onGoToThread,
+  onRestored,
   currentUser
 }: WikiPageViewerProps) {
   const [content, setContent] = useState(wikiPage.content)
   const [showSource, setShowSource] = useState(false)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [headings, setHeadings] = useState<WikiHeading[]>([])
 
   const canEdit = currentUser?.id === wikiPage.createdBy.id
 
-  const formatMarkdown = (text: string) => {
-    // Basic markdown rendering for display
-    return text
-      .replace(/^### (.*$)/gim, '<h3 class="text-lg font-semibold mt-6 mb-3">$1</h3>')
-      .replace(/^## (.*$)/gim, '<h2 class="text-xl font-semibold mt-8 mb-4">$1</h2>')
-      .replace(/^# (.*$)/gim, '<h1 class="text-2xl font-bold mt-10 mb-5">$1</h1>')
-      .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.+?)\*/g, '<em>$1</em>')
-      .replace(/`(.+?)`/g, '<code class="bg-muted px-1 py-0.5 rounded text-sm">$1</code>')
-      .replace(/```(\w+)?\n([\s\S]*?)```/g, '<pre class="bg-muted p-3 rounded-lg overflow-x-auto my-4"><code>$2</code></pre>')
-      .replace(/^\> (.+)$/gim, '<blockquote class="border-l-4 border-muted-foreground/30 pl-4 my-4 italic text-muted-foreground">$1</blockquote>')
-      .replace(/^\- (.+)$/gim, '<li class="ml-4">• $1</li>')
-      .replace(/^\d+\. (.+)$/gim, '<li class="ml-4">$1</li>')
-      .replace(/\n\n/g, '</p><p class="my-4">')
-      .replace(/\n/g, '<br />')
-  }
-
   const renderContent = () => {
     if (showSource) {
       return (
@@ -107,12 +98,7 @@ export function WikiPageViewer({
       )
     }
 
-    return (
-      <div
-        className="prose prose-sm max-w-none"
-        dangerouslySetInnerHTML={{ __html: `<p class="my-4">${formatMarkdown(content)}</p>` }}
-      />
-    )
+    return <WikiMarkdown content={content} onHeadings={setHeadings} />
   }
 
   return (
@@ -149,6 +135,11 @@ export function WikiPageViewer({
               </Button>
             )}
 
+            <Button variant="ghost" size="sm" onClick={() => setHistoryOpen(true)}>
+              <History className="h-4 w-4 mr-1" />
+              History
+            </Button>
+
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="sm">
@@ -213,11 +204,31 @@ export function WikiPageViewer({
 
       {/* Content */}
       <ScrollArea className="flex-1">
-        <div className="p-6 max-w-4xl mx-auto">
-          {renderContent()}
+        <div className="p-6 max-w-5xl mx-auto flex gap-8">
+          <div className="min-w-0 flex-1">
+            {renderContent()}
+          </div>
+          {!showSource && headings.length > 1 && (
+            <aside className="hidden lg:block w-56 shrink-0">
+              <div className="sticky top-6">
+                <WikiTableOfContents headings={headings} />
+              </div>
+            </aside>
+          )}
         </div>
       </ScrollArea>
 
+      <WikiPageHistory
+        wikiPageId={wikiPage.id}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        canRestore={canEdit}
+        onRestored={(restored) => {
+          setContent(restored.content)
+          onRestored?.(restored)
+        }}
+      />
+
       {/* Footer */}
       <div className="border-t p-4">
         <div className="flex items-center justify-between text-sm text-muted-foreground">
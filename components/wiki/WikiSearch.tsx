@@ -33,6 +33,7 @@ import {
   X
 } from "lucide-react"
 import { formatDistanceToNow } from "date-fns"
+import { conversationUrl } from "@/lib/conversations"
 
 interface WikiPage {
   id: string
@@ -57,14 +58,12 @@ interface WikiPage {
 }
 
 interface WikiSearchProps {
-  workspaceId: string
   onWikiPageSelect: (wikiPage: WikiPage) => void
   selectedWikiPageId?: string
   initialWikiPages?: WikiPage[]
 }
 
 export function WikiSearch({
-  workspaceId,
   onWikiPageSelect,
   selectedWikiPageId,
   initialWikiPages = []
@@ -91,12 +90,9 @@ export function WikiSearch({
 
   // Load wiki pages
   const loadWikiPages = async () => {
-    if (!workspaceId) return
-
     setLoading(true)
     try {
       const params = new URLSearchParams({
-        workspaceId,
         limit: "100",
         ...(searchQuery && { search: searchQuery }),
         ...(selectedCategory !== "all" && { category: selectedCategory }),
@@ -195,13 +191,11 @@ export function WikiSearch({
   // Auto-load wiki pages when dependencies change
   useEffect(() => {
     const debounceTimer = setTimeout(() => {
-      if (workspaceId) {
-        loadWikiPages()
-      }
+      loadWikiPages()
     }, 300)
 
     return () => clearTimeout(debounceTimer)
-  }, [workspaceId, searchQuery, selectedCategory, selectedTags, sortBy, sortOrder])
+  }, [searchQuery, selectedCategory, selectedTags, sortBy, sortOrder])
 
   return (
     <div className="h-full flex flex-col">
@@ -407,7 +401,7 @@ function WikiPageCard({ wikiPage, isSelected, onSelect }: WikiPageCardProps) {
               <DropdownMenuItem
                 onClick={(e) => {
                   e.stopPropagation()
-                  window.open(`/dashboard/threads/${wikiPage.threadId}`, '_blank')
+                  window.open(conversationUrl(wikiPage.conversation.id, wikiPage.threadId), '_blank')
                 }}
               >
                 <MessageSquare className="h-4 w-4 mr-2" />
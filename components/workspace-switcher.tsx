@@ -0,0 +1,124 @@
+"use client";
+
+import * as React from "react";
+import { IconCheck, IconSelector } from "@tabler/icons-react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import { switchWorkspace } from "@/app/actions/workspace-settings";
+import type { WorkspaceWithRole } from "@/types/workspace";
+
+export type SidebarWorkspace = Pick<WorkspaceWithRole, "id" | "name" | "image" | "memberRole">;
+
+export function WorkspaceSwitcher({
+  workspaces,
+  activeWorkspaceId,
+}: {
+  workspaces: SidebarWorkspace[];
+  activeWorkspaceId: string;
+}) {
+  const { isMobile } = useSidebar();
+  const router = useRouter();
+  const [isSwitching, setIsSwitching] = React.useState(false);
+
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeWorkspaceId);
+
+  if (!activeWorkspace) {
+    return null;
+  }
+
+  const handleSwitch = async (workspace: SidebarWorkspace) => {
+    if (workspace.id === activeWorkspaceId) return;
+
+    setIsSwitching(true);
+    try {
+      const result = await switchWorkspace(workspace.id);
+
+      if (result.success) {
+        // Channels and threads belong to one workspace, so start over at the dashboard
+        router.push("/dashboard");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to switch workspace");
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error("Error switching workspace:", error);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuButton
+              size="lg"
+              disabled={isSwitching}
+              className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
+            >
+              <WorkspaceAvatar workspace={activeWorkspace} />
+              <div className="grid flex-1 text-left text-sm leading-tight">
+                <span className="truncate font-medium">{activeWorkspace.name}</span>
+                <span className="text-muted-foreground truncate text-xs capitalize">
+                  {activeWorkspace.memberRole.toLowerCase()}
+                </span>
+              </div>
+              <IconSelector className="ml-auto size-4" />
+            </SidebarMenuButton>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent
+            className="w-(--radix-dropdown-menu-trigger-width) min-w-56 rounded-lg"
+            side={isMobile ? "bottom" : "right"}
+            align="start"
+            sideOffset={4}
+          >
+            <DropdownMenuLabel className="text-muted-foreground text-xs">
+              Workspaces
+            </DropdownMenuLabel>
+            {workspaces.map((workspace) => (
+              <DropdownMenuItem
+                key={workspace.id}
+                onClick={() => handleSwitch(workspace)}
+                className="gap-2 p-2"
+              >
+                <WorkspaceAvatar workspace={workspace} />
+                <span className="truncate">{workspace.name}</span>
+                {workspace.id === activeWorkspaceId && (
+                  <IconCheck className="ml-auto size-4" />
+                )}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </SidebarMenuItem>
+    </SidebarMenu>
+  );
+}
+
+function WorkspaceAvatar({ workspace }: { workspace: SidebarWorkspace }) {
+  return (
+    <Avatar className="h-8 w-8 rounded-lg">
+      <AvatarImage src={workspace.image || ""} alt={workspace.name} />
+      <AvatarFallback className="rounded-lg">
+        {workspace.name.charAt(0).toUpperCase()}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
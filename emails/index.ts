@@ -8,6 +8,8 @@ import { workspaceInvitationTemplate } from "./templates/workspace-invitation";
 import { emailVerificationTemplate } from "./templates/email-verification";
 import { passwordResetTemplate } from "./templates/password-reset";
 import { magicLinkTemplate } from "./templates/magic-link";
+import { lifecycleEmailTemplate } from "./templates/lifecycle-email";
+import { emailChangeTemplate } from "./templates/email-change";
 
 /**
  * Type-safe email template registry
@@ -29,6 +31,8 @@ export const emailTemplates: EmailTemplateRegistry = {
   [EmailTemplateId.EMAIL_VERIFICATION]: emailVerificationTemplate,
   [EmailTemplateId.PASSWORD_RESET]: passwordResetTemplate,
   [EmailTemplateId.MAGIC_LINK]: magicLinkTemplate,
+  [EmailTemplateId.LIFECYCLE]: lifecycleEmailTemplate,
+  [EmailTemplateId.EMAIL_CHANGE]: emailChangeTemplate,
 };
 
 /**
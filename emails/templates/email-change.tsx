@@ -0,0 +1,89 @@
+import * as React from "react";
+import { Section, Text } from "@react-email/components";
+import type {
+  EmailTemplateRenderResult,
+  EmailTemplateData,
+} from "@/lib/notifications/types";
+import { EmailTemplateId } from "@/lib/notifications/types";
+import { siteConfig } from "@/lib/config";
+import {
+  EmailLayout,
+  PrimaryButton,
+} from "./components/email-layout";
+
+type EmailChangeData = EmailTemplateData[EmailTemplateId.EMAIL_CHANGE];
+
+const paragraphStyle = {
+  margin: 0,
+};
+
+export function EmailChange({
+  firstName,
+  recipient,
+  currentEmail,
+  newEmail,
+  confirmUrl,
+  expiresInHours,
+}: EmailChangeData) {
+  const name = firstName?.trim() || "there";
+
+  return (
+    <EmailLayout
+      previewText={`Confirm the change of your ${siteConfig.name} email address`}
+      heading="Confirm your new email address"
+    >
+      <Text style={paragraphStyle}>Hi {name},</Text>
+      <Text style={paragraphStyle}>
+        {recipient === "current"
+          ? `Someone asked to change the email address of your ${siteConfig.name} account from ${currentEmail} to ${newEmail}.`
+          : `Someone asked to use ${newEmail} as the email address of the ${siteConfig.name} account currently signed up as ${currentEmail}.`}{" "}
+        The change needs to be confirmed from both addresses. Confirm it from
+        this one below.
+      </Text>
+      <Section style={{ textAlign: "center" }}>
+        <PrimaryButton href={confirmUrl}>Confirm Email Change</PrimaryButton>
+      </Section>
+      <Text style={paragraphStyle}>
+        This link expires in {expiresInHours} hours. If you didn&apos;t ask for
+        this change, ignore this email and your email address stays the same.
+      </Text>
+      <Text
+        style={{
+          ...paragraphStyle,
+          marginTop: "24px",
+          fontSize: "14px",
+          color: "#6B7280",
+        }}
+      >
+        If the button doesn&apos;t work, copy and paste this link into your
+        browser:
+        <br />
+        <a
+          href={confirmUrl}
+          style={{ color: "#9B99FE", wordBreak: "break-all" }}
+        >
+          {confirmUrl}
+        </a>
+      </Text>
+    </EmailLayout>
+  );
+}
+
+export const emailChangeTemplate = {
+  render: (data: EmailChangeData): EmailTemplateRenderResult => ({
+    subject: "Confirm your new email address",
+    previewText: `Confirm the change of your ${siteConfig.name} email address`,
+    component: <EmailChange {...data} />,
+  }),
+};
+
+EmailChange.PreviewProps = {
+  firstName: "Alex",
+  recipient: "current",
+  currentEmail: "alex@example.com",
+  newEmail: "alex@newcompany.com",
+  confirmUrl: `${siteConfig.url}/confirm-email-change?token=abc123`,
+  expiresInHours: 24,
+} satisfies EmailChangeData;
+
+export default EmailChange;
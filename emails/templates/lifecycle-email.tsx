@@ -0,0 +1,137 @@
+import * as React from "react";
+import { Section, Text } from "@react-email/components";
+import type {
+  EmailTemplateRenderResult,
+  EmailTemplateData,
+  LifecycleEmailStep,
+} from "@/lib/notifications/types";
+import { EmailTemplateId } from "@/lib/notifications/types";
+import { siteConfig } from "@/lib/config";
+import {
+  EmailLayout,
+  PrimaryButton,
+} from "./components/email-layout";
+
+type LifecycleEmailData = EmailTemplateData[EmailTemplateId.LIFECYCLE];
+
+const paragraphStyle = {
+  margin: 0,
+};
+
+const footerTextStyle = {
+  color: "#6B7280",
+  fontSize: "12px",
+  lineHeight: "16px",
+  margin: 0,
+};
+
+const STEPS: Record<
+  LifecycleEmailStep,
+  // `path` is relative to the dashboard
+  { subject: string; heading: string; intro: string; action: string; path: string }
+> = {
+  "day-1": {
+    subject: "Start your first conversation",
+    heading: "Start your first conversation",
+    intro:
+      "Your workspace is ready. Conversations are where your team's discussions live, and every topic gets its own thread so nothing gets buried.",
+    action: "Open your workspace",
+    path: "",
+  },
+  "day-3": {
+    subject: "Turn discussions into documentation",
+    heading: "Turn discussions into documentation",
+    intro:
+      "Good decisions get lost in chat. Any thread can become a wiki page with one click, or automatically once it reaches a number of messages or a date.",
+    action: "Document a thread",
+    path: "",
+  },
+  "day-7": {
+    subject: `Get your team on ${siteConfig.name}`,
+    heading: "Bring your team along",
+    intro: `${siteConfig.name} works best with everyone in one place. Invite teammates to your workspace and find anything you discussed later with search.`,
+    action: "Invite your team",
+    path: "/settings?section=members",
+  },
+};
+
+// Tips by the role picked during onboarding
+const ROLE_TIPS: Record<string, string> = {
+  founder:
+    "Tip for founders: create a private channel for leadership decisions and share the resulting wiki pages with the rest of the team.",
+  developer:
+    "Tip for developers: post snippets as code messages and branch a sub-thread off any message to dig into a bug without derailing the main discussion.",
+  designer:
+    "Tip for designers: drop mockups straight into a thread. Images get previews, and the wiki page keeps them next to the feedback.",
+  marketer:
+    "Tip for marketers: keep one channel per campaign and turn the final plan into a wiki page everyone can find.",
+};
+
+// What the product is being built for, from onboarding
+const USE_CASE_LINES: Record<string, string> = {
+  "b2b-saas": "Teams building B2B products use this to keep customer requests and the decisions behind them together.",
+  "b2c-saas": "Teams building consumer apps use this to turn user feedback threads into a shared record of what shipped and why.",
+  marketplace: "Marketplace teams use this to keep supply and demand discussions apart while sharing what they learn.",
+  productivity: "Productivity tool teams use this to document workflows as they design them.",
+  "ai-app": "AI teams use this to record prompt and model experiments along with their results.",
+};
+
+export function LifecycleEmail({
+  firstName,
+  step,
+  role,
+  useCase,
+  dashboardUrl,
+  unsubscribeUrl,
+}: LifecycleEmailData) {
+  const recipient = firstName?.trim() || "there";
+  const content = STEPS[step];
+  const roleTip = role ? ROLE_TIPS[role] : undefined;
+  const useCaseLine = useCase ? USE_CASE_LINES[useCase] : undefined;
+  const actionUrl = `${dashboardUrl}${content.path}`;
+
+  return (
+    <EmailLayout
+      previewText={content.intro}
+      heading={content.heading}
+      footer={
+        <Section style={{ marginTop: "48px", paddingTop: "24px", borderTop: "1px solid #E5E7EB" }}>
+          <Text style={footerTextStyle}>
+            You&apos;re getting this because you recently joined {siteConfig.name}.{" "}
+            <a href={unsubscribeUrl} style={{ color: "#9B99FE", textDecoration: "none" }}>
+              Unsubscribe from these emails
+            </a>
+          </Text>
+        </Section>
+      }
+    >
+      <Text style={paragraphStyle}>Hi {recipient},</Text>
+      <Text style={paragraphStyle}>{content.intro}</Text>
+      {useCaseLine && <Text style={paragraphStyle}>{useCaseLine}</Text>}
+      {step === "day-1" && roleTip && <Text style={paragraphStyle}>{roleTip}</Text>}
+      <Section style={{ textAlign: "center" }}>
+        <PrimaryButton href={actionUrl}>{content.action}</PrimaryButton>
+      </Section>
+      <Text style={paragraphStyle}>The {siteConfig.name} Team</Text>
+    </EmailLayout>
+  );
+}
+
+export const lifecycleEmailTemplate = {
+  render: (data: LifecycleEmailData): EmailTemplateRenderResult => ({
+    subject: STEPS[data.step].subject,
+    previewText: STEPS[data.step].intro,
+    component: <LifecycleEmail {...data} />,
+  }),
+};
+
+LifecycleEmail.PreviewProps = {
+  firstName: "Alex",
+  step: "day-1",
+  role: "developer",
+  useCase: "b2b-saas",
+  dashboardUrl: `${siteConfig.url}/dashboard`,
+  unsubscribeUrl: `${siteConfig.url}/unsubscribe?token=abc123`,
+} satisfies LifecycleEmailData;
+
+export default LifecycleEmail;
@@ -134,6 +134,22 @@ export function useRealtime({
     }
   }, [])
 
+  // Thread list events for a conversation are only sent to its room
+  const joinConversation = useCallback((conversationId: string) => {
+    if (!wsManagerRef.current) {
+      console.warn("WebSocket manager not initialized")
+      return () => {}
+    }
+
+    wsManagerRef.current.joinRoom(`conversation:${conversationId}`)
+
+    return () => {
+      if (wsManagerRef.current) {
+        wsManagerRef.current.leaveRoom(`conversation:${conversationId}`)
+      }
+    }
+  }, [])
+
   const sendTypingIndicator = useCallback((threadId: string, isTyping: boolean) => {
     if (!wsManagerRef.current?.isConnected()) return
 
@@ -185,6 +201,7 @@ export function useRealtime({
     disconnect,
     subscribe,
     subscribeToThread,
+    joinConversation,
     sendTypingIndicator,
     markMessagesAsRead,
     wsManager: wsManagerRef.current,
@@ -0,0 +1,46 @@
+const globalForInstrumentation = global as unknown as {
+  realtimeServerStarted?: boolean
+  jobWorkerStarted?: boolean
+}
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+  if (process.env.NEXT_PHASE === "phase-production-build") return
+
+  await startEmbeddedJobWorker()
+  await startEmbeddedRealtimeServer()
+}
+
+// Runs auto-conversions and other queued work inside the app process.
+// Deployments with a separate `pnpm jobs` process can turn this off
+async function startEmbeddedJobWorker() {
+  if (process.env.JOBS_EMBEDDED === "false") return
+
+  if (globalForInstrumentation.jobWorkerStarted) return
+  globalForInstrumentation.jobWorkerStarted = true
+
+  const { startJobWorker } = await import("@/lib/jobs/runner")
+  startJobWorker({
+    pollInterval: Number(process.env.JOB_POLL_INTERVAL || 15000),
+  })
+}
+
+async function startEmbeddedRealtimeServer() {
+  // With the in-memory transport the WebSocket server has to live in the same
+  // process as the route handlers that publish events
+  const { getRealtimeTransport } = await import("@/lib/realtime/publisher")
+  if (getRealtimeTransport() !== "memory" || process.env.REALTIME_EMBEDDED === "false") {
+    return
+  }
+
+  if (globalForInstrumentation.realtimeServerStarted) return
+  globalForInstrumentation.realtimeServerStarted = true
+
+  const { startRealtimeServer } = await import("@/lib/realtime/server")
+  await startRealtimeServer({
+    port: Number(process.env.WS_PORT || 3001),
+  }).catch(error => {
+    globalForInstrumentation.realtimeServerStarted = false
+    console.error("Failed to start embedded realtime server:", error)
+  })
+}
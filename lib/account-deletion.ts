@@ -0,0 +1,190 @@
+import prisma from "@/lib/prisma"
+import { cancelJob, enqueueJob } from "@/lib/jobs/queue"
+import { cancelLifecycleEmails } from "@/lib/jobs/lifecycle-emails"
+import { ACCOUNT_PURGE_JOB, accountPurgeKey, soleOwnedWorkspaces } from "@/lib/jobs/account-purge"
+import { cancelEmailChange } from "@/lib/email-change"
+import { revokeSessions } from "@/lib/sessions"
+
+// Days a deleted account can still be restored by signing back in
+export const ACCOUNT_DELETION_GRACE_DAYS = 30
+
+export class AccountDeletionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AccountDeletionError"
+  }
+}
+
+export interface OwnedWorkspace {
+  id: string
+  name: string
+  memberCount: number
+}
+
+export interface AccountDeletionCheck {
+  // When the account would be purged if deleted now
+  scheduledAt: Date
+  // Sole-owned workspaces with other members; ownership has to move first
+  blockingWorkspaces: OwnedWorkspace[]
+  // Sole-owned workspaces nobody else is in; deleted with the account
+  deletedWorkspaces: OwnedWorkspace[]
+}
+
+function deletionDate(): Date {
+  return new Date(Date.now() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * What deleting the user's account would do to the workspaces they own alone
+ */
+export async function checkAccountDeletion(userId: string): Promise<AccountDeletionCheck> {
+  const workspaces = await soleOwnedWorkspaces(userId)
+
+  const owned = workspaces.map(workspace => ({
+    id: workspace.id,
+    name: workspace.name,
+    memberCount: workspace._count.members,
+  }))
+
+  return {
+    scheduledAt: deletionDate(),
+    blockingWorkspaces: owned.filter(workspace => workspace.memberCount > 1),
+    deletedWorkspaces: owned.filter(workspace => workspace.memberCount <= 1),
+  }
+}
+
+/**
+ * Mark the account deleted and sign it out everywhere. The data is purged
+ * once the grace period is over, unless the user cancels before then
+ */
+export async function scheduleAccountDeletion(userId: string): Promise<Date> {
+  const { blockingWorkspaces } = await checkAccountDeletion(userId)
+  if (blockingWorkspaces.length > 0) {
+    throw new AccountDeletionError(
+      `Make another member an owner of ${blockingWorkspaces.map(workspace => workspace.name).join(", ")} first`
+    )
+  }
+
+  const scheduledAt = deletionDate()
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      status: "DELETED",
+      deletionScheduledAt: scheduledAt,
+    },
+  })
+
+  await revokeSessions(userId)
+  await cancelLifecycleEmails(userId)
+  await cancelEmailChange(userId)
+
+  await enqueueJob(ACCOUNT_PURGE_JOB, { userId }, {
+    dedupeKey: accountPurgeKey(userId),
+    runAt: scheduledAt,
+  })
+
+  return scheduledAt
+}
+
+/**
+ * Restore an account whose deletion is still within the grace period
+ */
+export async function cancelAccountDeletion(userId: string): Promise<void> {
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, status: "DELETED", deletionScheduledAt: { gt: new Date() } },
+    data: {
+      status: "ACTIVE",
+      deletionScheduledAt: null,
+    },
+  })
+
+  if (count === 0) {
+    throw new AccountDeletionError("This account can no longer be restored")
+  }
+
+  await cancelJob(accountPurgeKey(userId))
+}
+
+/**
+ * Everything the user wrote, as a JSON-serializable object for the data export
+ */
+export async function buildAccountExport(userId: string) {
+  const [user, workspaces, messages, wikiPages] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        phone: true,
+        createdAt: true,
+      },
+    }),
+    prisma.workspaceMember.findMany({
+      where: { userId },
+      select: {
+        role: true,
+        joinedAt: true,
+        workspace: { select: { id: true, name: true } },
+      },
+      orderBy: { joinedAt: "asc" },
+    }),
+    prisma.message.findMany({
+      where: { createdBy: userId, deletedAt: null },
+      select: {
+        id: true,
+        content: true,
+        contentType: true,
+        createdAt: true,
+        editedAt: true,
+        thread: {
+          select: {
+            id: true,
+            title: true,
+            conversation: {
+              select: {
+                id: true,
+                title: true,
+                workspaceId: true,
+              },
+            },
+          },
+        },
+        attachments: {
+          select: { fileName: true, mimeType: true, size: true },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.wikiPage.findMany({
+      where: { createdBy: userId },
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        summary: true,
+        tags: true,
+        category: true,
+        version: true,
+        createdAt: true,
+        updatedAt: true,
+        threadId: true,
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+  ])
+
+  return {
+    exportedAt: new Date(),
+    user,
+    workspaces: workspaces.map(membership => ({
+      id: membership.workspace.id,
+      name: membership.workspace.name,
+      role: membership.role,
+      joinedAt: membership.joinedAt,
+    })),
+    messages,
+    wikiPages,
+  }
+}
@@ -0,0 +1,223 @@
+import prisma from "@/lib/prisma"
+import type { Prisma } from "@/generated/prisma/client"
+import type {
+  AdminAnalytics,
+  AnalyticsBreakdownRow,
+  AnalyticsCohort,
+  AnalyticsFunnel,
+  AnalyticsWorkspaceEngagement,
+} from "@/types/admin"
+
+const SNAPSHOT_KEY = "admin"
+
+// Signup weeks shown in the retention table, the current one included
+export const ANALYTICS_COHORT_WEEKS = 12
+// Days of activity the workspace ranking looks at
+export const ANALYTICS_ENGAGEMENT_DAYS = 30
+const TOP_WORKSPACES = 20
+
+type AnalyticsData = Omit<AdminAnalytics, "computedAt">
+
+type BreakdownField = keyof AdminAnalytics["breakdowns"]
+
+// Deleted accounts are tombstones and would skew every ratio
+async function computeFunnel(): Promise<AnalyticsFunnel> {
+  const [row] = await prisma.$queryRaw<Array<Record<keyof AnalyticsFunnel, bigint>>>`
+    SELECT
+      COUNT(*) AS "signedUp",
+      COUNT(*) FILTER (WHERE u."onboardingCompleted") AS "onboarded",
+      COUNT(*) FILTER (WHERE u."onboardingCompleted" AND t."userId" IS NOT NULL) AS "firstThread",
+      COUNT(*) FILTER (
+        WHERE u."onboardingCompleted" AND t."userId" IS NOT NULL AND p."userId" IS NOT NULL
+      ) AS "firstWikiPage"
+    FROM "user" u
+    LEFT JOIN (SELECT DISTINCT "createdBy" AS "userId" FROM "thread") t ON t."userId" = u."id"
+    LEFT JOIN (SELECT DISTINCT "createdBy" AS "userId" FROM "wiki_page") p ON p."userId" = u."id"
+    WHERE u."status" <> 'DELETED'
+  `
+
+  return {
+    signedUp: Number(row.signedUp),
+    onboarded: Number(row.onboarded),
+    firstThread: Number(row.firstThread),
+    firstWikiPage: Number(row.firstWikiPage),
+  }
+}
+
+/**
+ * Weekly signup cohorts and how many of each were active in the weeks
+ * after. Posting a message or signing in counts as being active
+ */
+async function computeCohorts(): Promise<AnalyticsCohort[]> {
+  const [sizes, activity] = await Promise.all([
+    prisma.$queryRaw<Array<{ week: Date; users: bigint }>>`
+      SELECT date_trunc('week', u."createdAt") AS "week", COUNT(*) AS "users"
+      FROM "user" u
+      WHERE u."createdAt" >= date_trunc('week', now() AT TIME ZONE 'UTC') - make_interval(weeks => ${ANALYTICS_COHORT_WEEKS - 1}::int)
+        AND u."status" <> 'DELETED'
+      GROUP BY 1
+    `,
+    prisma.$queryRaw<Array<{ week: Date; offset: number; users: bigint }>>`
+      WITH cohort AS (
+        SELECT u."id", date_trunc('week', u."createdAt") AS "week"
+        FROM "user" u
+        WHERE u."createdAt" >= date_trunc('week', now() AT TIME ZONE 'UTC') - make_interval(weeks => ${ANALYTICS_COHORT_WEEKS - 1}::int)
+          AND u."status" <> 'DELETED'
+      ),
+      activity AS (
+        SELECT m."createdBy" AS "userId", m."createdAt"
+        FROM "message" m
+        WHERE m."createdBy" IN (SELECT "id" FROM cohort)
+        UNION ALL
+        SELECT l."userId", l."createdAt"
+        FROM "login_event" l
+        WHERE l."success" AND l."userId" IN (SELECT "id" FROM cohort)
+      )
+      SELECT
+        c."week",
+        ((date_trunc('week', a."createdAt")::date - c."week"::date) / 7)::int AS "offset",
+        COUNT(DISTINCT c."id") AS "users"
+      FROM cohort c
+      JOIN activity a ON a."userId" = c."id" AND a."createdAt" >= c."week"
+      GROUP BY 1, 2
+    `,
+  ])
+
+  const day = (date: Date) => date.toISOString().slice(0, 10)
+
+  return sizes
+    .sort((a, b) => b.week.getTime() - a.week.getTime())
+    .map(cohort => {
+      const week = day(cohort.week)
+      // Only weeks that have already started can be filled in
+      const elapsed = Math.floor((Date.now() - cohort.week.getTime()) / (7 * 24 * 60 * 60 * 1000)) + 1
+      const active = Array.from({ length: Math.min(elapsed, ANALYTICS_COHORT_WEEKS) }, () => 0)
+
+      for (const row of activity) {
+        if (day(row.week) === week && row.offset >= 0 && row.offset < active.length) {
+          active[row.offset] = Number(row.users)
+        }
+      }
+
+      return { week, users: Number(cohort.users), active }
+    })
+}
+
+// How far onboarded users got, grouped by one of their onboarding answers
+async function computeBreakdown(field: BreakdownField): Promise<AnalyticsBreakdownRow[]> {
+  const rows = await prisma.$queryRaw<Array<{ value: string; users: bigint; firstThread: bigint; firstWikiPage: bigint }>>`
+    SELECT
+      COALESCE(u."onboardingData"->>${field}::text, '') AS "value",
+      COUNT(*) AS "users",
+      COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM "thread" t WHERE t."createdBy" = u."id")) AS "firstThread",
+      COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM "wiki_page" p WHERE p."createdBy" = u."id")) AS "firstWikiPage"
+    FROM "user" u
+    WHERE u."onboardingCompleted" AND u."status" <> 'DELETED'
+    GROUP BY 1
+    ORDER BY "users" DESC, "value" ASC
+  `
+
+  return rows.map(row => ({
+    value: row.value,
+    users: Number(row.users),
+    firstThread: Number(row.firstThread),
+    firstWikiPage: Number(row.firstWikiPage),
+  }))
+}
+
+// Workspaces with the most messages over the engagement window
+async function computeWorkspaceEngagement(): Promise<AnalyticsWorkspaceEngagement[]> {
+  const since = new Date(Date.now() - ANALYTICS_ENGAGEMENT_DAYS * 24 * 60 * 60 * 1000)
+
+  const rows = await prisma.$queryRaw<Array<{
+    id: string
+    name: string
+    members: bigint
+    activeMembers: bigint
+    messages: bigint
+    threads: bigint
+    wikiPages: bigint
+  }>>`
+    SELECT
+      w."id",
+      w."name",
+      (SELECT COUNT(*) FROM "workspace_member" wm WHERE wm."workspaceId" = w."id") AS "members",
+      COUNT(DISTINCT m."createdBy") AS "activeMembers",
+      COUNT(m."id") AS "messages",
+      (
+        SELECT COUNT(*)
+        FROM "thread" t2
+        JOIN "conversation" c2 ON c2."id" = t2."conversationId"
+        WHERE c2."workspaceId" = w."id" AND t2."createdAt" >= ${since}
+      ) AS "threads",
+      (
+        SELECT COUNT(*)
+        FROM "wiki_page" p
+        JOIN "thread" t3 ON t3."id" = p."threadId"
+        JOIN "conversation" c3 ON c3."id" = t3."conversationId"
+        WHERE c3."workspaceId" = w."id" AND p."createdAt" >= ${since}
+      ) AS "wikiPages"
+    FROM "workspace" w
+    LEFT JOIN "conversation" c ON c."workspaceId" = w."id"
+    LEFT JOIN "thread" t ON t."conversationId" = c."id"
+    LEFT JOIN "message" m ON m."threadId" = t."id" AND m."deletedAt" IS NULL AND m."createdAt" >= ${since}
+    GROUP BY w."id", w."name"
+    ORDER BY "messages" DESC, "activeMembers" DESC, w."name" ASC
+    LIMIT ${TOP_WORKSPACES}
+  `
+
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    members: Number(row.members),
+    activeMembers: Number(row.activeMembers),
+    messages: Number(row.messages),
+    threads: Number(row.threads),
+    wikiPages: Number(row.wikiPages),
+  }))
+}
+
+/**
+ * Recompute every report and store them as the current snapshot
+ */
+export async function refreshAnalytics(): Promise<AdminAnalytics> {
+  const [funnel, cohorts, role, useCase, discoverySource, workspaces] = await Promise.all([
+    computeFunnel(),
+    computeCohorts(),
+    computeBreakdown("role"),
+    computeBreakdown("useCase"),
+    computeBreakdown("discoverySource"),
+    computeWorkspaceEngagement(),
+  ])
+
+  const data: AnalyticsData = {
+    funnel,
+    cohorts,
+    breakdowns: { role, useCase, discoverySource },
+    workspaces,
+  }
+  const computedAt = new Date()
+
+  await prisma.analyticsSnapshot.upsert({
+    where: { key: SNAPSHOT_KEY },
+    create: { key: SNAPSHOT_KEY, data: data as unknown as Prisma.InputJsonValue, computedAt },
+    update: { data: data as unknown as Prisma.InputJsonValue, computedAt },
+  })
+
+  return { ...data, computedAt }
+}
+
+/**
+ * The stored reports, computed on the spot the first time
+ */
+export async function getAnalytics(): Promise<AdminAnalytics> {
+  const snapshot = await prisma.analyticsSnapshot.findUnique({
+    where: { key: SNAPSHOT_KEY },
+  })
+
+  if (!snapshot) {
+    return refreshAnalytics()
+  }
+
+  return { ...(snapshot.data as unknown as AnalyticsData), computedAt: snapshot.computedAt }
+}
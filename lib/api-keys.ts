@@ -0,0 +1,218 @@
+import { createHash, randomBytes } from "crypto"
+import prisma from "@/lib/prisma"
+import { auth } from "@/lib/auth"
+import { getSessionRestriction, sessionRestriction, type SessionRestriction } from "@/lib/session-access"
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/types/workspace"
+
+// Every key starts with this, so leaked keys are easy to scan for
+export const API_KEY_PREFIX = "hk_"
+// Characters of the key kept in plain text to tell keys apart
+const DISPLAY_PREFIX_LENGTH = 12
+// lastUsedAt is only written when it is older than this
+const LAST_USED_THROTTLE_MS = 60 * 1000
+
+export class ApiKeyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ApiKeyError"
+  }
+}
+
+export interface ApiKeyContext {
+  id: string
+  workspaceId: string
+  scopes: ApiKeyScope[]
+}
+
+/**
+ * Who a REST API request was made by, from either the session cookie or an
+ * API key. Both work with getActiveWorkspace; for a key the active
+ * workspace is always the key's own
+ */
+export interface RequestSession {
+  user: {
+    id: string
+    email: string
+    name: string | null
+    emailVerified: boolean
+  }
+  session: {
+    id: string
+    activeWorkspaceId?: string | null
+    twoFactorVerified?: boolean | null
+  }
+  // Set when the request was made with an API key
+  apiKey: ApiKeyContext | null
+  // Set when the session may not use workspace data; routes answer 403
+  restriction: SessionRestriction | null
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex")
+}
+
+function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hashedKey: hashApiKey(key),
+  }
+}
+
+export function isApiKeyScope(scope: string): scope is ApiKeyScope {
+  return Object.hasOwn(API_KEY_SCOPES, scope)
+}
+
+/**
+ * Create a key for a workspace member. The key is only ever returned here,
+ * so it has to be shown to the user right away
+ */
+export async function createApiKey(input: {
+  workspaceId: string
+  createdById: string
+  name: string
+  scopes: ApiKeyScope[]
+  expiresAt: Date | null
+}) {
+  const { key, prefix, hashedKey } = generateApiKey()
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      workspaceId: input.workspaceId,
+      createdById: input.createdById,
+      name: input.name,
+      scopes: input.scopes,
+      expiresAt: input.expiresAt,
+      prefix,
+      hashedKey,
+    },
+  })
+
+  return { apiKey, key }
+}
+
+/**
+ * Replace a key's secret. The old key stops working at once; name, scopes
+ * and expiry are kept
+ */
+export async function rotateApiKey(apiKeyId: string) {
+  const { key, prefix, hashedKey } = generateApiKey()
+
+  const { count } = await prisma.apiKey.updateMany({
+    where: { id: apiKeyId, revokedAt: null },
+    data: { prefix, hashedKey, rotatedAt: new Date(), lastUsedAt: null },
+  })
+
+  if (count === 0) {
+    throw new ApiKeyError("Revoked keys can't be rotated")
+  }
+
+  const apiKey = await prisma.apiKey.findUniqueOrThrow({ where: { id: apiKeyId } })
+  return { apiKey, key }
+}
+
+/**
+ * Revoke a key for good. Revoked keys stay listed for reference
+ */
+export async function revokeApiKey(apiKeyId: string): Promise<void> {
+  await prisma.apiKey.updateMany({
+    where: { id: apiKeyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+}
+
+/**
+ * The key in the request's `Authorization: Bearer` header, if it is valid:
+ * not revoked or expired, and its creator is still an active member of
+ * its workspace. Scopes are checked by the caller
+ */
+export async function authenticateApiKey(headers: Headers): Promise<RequestSession | null> {
+  const header = headers.get("authorization")
+  const match = header?.match(/^Bearer\s+(\S+)$/i)
+  if (!match || !match[1].startsWith(API_KEY_PREFIX)) {
+    return null
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { hashedKey: hashApiKey(match[1]) },
+    include: {
+      createdBy: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          emailVerified: true,
+          status: true,
+          banned: true,
+        },
+      },
+    },
+  })
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+    return null
+  }
+
+  const user = apiKey.createdBy
+  if (user.status !== "ACTIVE" || user.banned) {
+    return null
+  }
+
+  const member = await prisma.workspaceMember.findUnique({
+    where: {
+      userId_workspaceId: {
+        userId: user.id,
+        workspaceId: apiKey.workspaceId,
+      },
+    },
+    select: { id: true },
+  })
+
+  if (!member) {
+    return null
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    })
+  }
+
+  const requestSession = {
+    user: { id: user.id, email: user.email, name: user.name, emailVerified: user.emailVerified },
+    // Keys don't sign in, so there is no second step for them to pass
+    session: { id: `api-key:${apiKey.id}`, activeWorkspaceId: apiKey.workspaceId, twoFactorVerified: true },
+    apiKey: {
+      id: apiKey.id,
+      workspaceId: apiKey.workspaceId,
+      scopes: apiKey.scopes.filter(isApiKeyScope),
+    },
+  }
+
+  return { ...requestSession, restriction: sessionRestriction(requestSession, { status: user.status, workspaces: [] }) }
+}
+
+/**
+ * Authenticate a REST API request with the session cookie, falling back to
+ * an API key. Keys without the scope the route needs are turned away
+ */
+export async function getRequestSession(headers: Headers, scope: ApiKeyScope): Promise<RequestSession | null> {
+  const session = await auth.api.getSession({ headers })
+  if (session) {
+    return {
+      user: session.user,
+      session: session.session,
+      apiKey: null,
+      restriction: await getSessionRestriction(session),
+    }
+  }
+
+  const apiKeySession = await authenticateApiKey(headers)
+  if (!apiKeySession?.apiKey?.scopes.includes(scope)) {
+    return null
+  }
+
+  return apiKeySession
+}
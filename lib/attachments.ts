@@ -0,0 +1,274 @@
+import { randomUUID } from "crypto"
+import path from "path"
+import prisma from "@/lib/prisma"
+import { getStorage } from "@/lib/storage"
+import type { Attachment } from "@/generated/prisma/client"
+
+export const DEFAULT_ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024
+
+export const DEFAULT_ATTACHMENT_MIME_TYPES = [
+  "image/*",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+  "application/pdf",
+  "application/json",
+  "application/zip",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.*",
+]
+
+// Formats that can be thumbnailed and are safe to show inline; anything
+// else (SVG included) is only ever served as a download
+const INLINE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"]
+
+const THUMBNAIL_SIZE = 400
+// Room for the multipart boundaries and part headers around an uploaded file
+const MULTIPART_OVERHEAD = 64 * 1024
+const MAX_ATTACHMENTS_PER_MESSAGE = 10
+
+// Uploads never attached to a message are removed after this long
+export const ORPHANED_ATTACHMENT_TTL_MS = 24 * 60 * 60 * 1000
+
+export interface AttachmentLimits {
+  maxSize: number
+  mimeTypes: string[]
+}
+
+export class AttachmentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+    this.name = "AttachmentError"
+  }
+}
+
+/**
+ * The workspace's own limits, falling back to the app defaults
+ */
+export function getAttachmentLimits(workspace: {
+  attachmentMaxSize: number | null
+  attachmentMimeTypes: string[]
+}): AttachmentLimits {
+  return {
+    maxSize: workspace.attachmentMaxSize
+      ?? (Number(process.env.ATTACHMENT_MAX_SIZE) || DEFAULT_ATTACHMENT_MAX_SIZE),
+    mimeTypes: workspace.attachmentMimeTypes.length > 0
+      ? workspace.attachmentMimeTypes
+      : DEFAULT_ATTACHMENT_MIME_TYPES,
+  }
+}
+
+function fileTooLargeError(maxSize: number): AttachmentError {
+  return new AttachmentError(
+    `File is larger than the ${Math.floor(maxSize / (1024 * 1024))} MB limit for this workspace`,
+    413
+  )
+}
+
+/**
+ * Turn away an upload by its Content-Length before the body is read into
+ * memory. The file itself is checked again once parsed
+ */
+export function checkUploadLength(
+  contentLength: string | null,
+  workspace: { attachmentMaxSize: number | null; attachmentMimeTypes: string[] }
+): void {
+  const { maxSize } = getAttachmentLimits(workspace)
+
+  if (contentLength && Number(contentLength) > maxSize + MULTIPART_OVERHEAD) {
+    throw fileTooLargeError(maxSize)
+  }
+}
+
+/**
+ * Match a MIME type against patterns like "image/*" or "application/vnd.openxmlformats-officedocument.*"
+ */
+export function isMimeTypeAllowed(mimeType: string, patterns: string[]): boolean {
+  const type = mimeType.toLowerCase()
+
+  return patterns.some((pattern) => {
+    const normalized = pattern.trim().toLowerCase()
+    return normalized.endsWith("*")
+      ? type.startsWith(normalized.slice(0, -1))
+      : type === normalized
+  })
+}
+
+export function isInlineImage(mimeType: string): boolean {
+  return INLINE_IMAGE_TYPES.includes(mimeType)
+}
+
+export function attachmentUrl(attachmentId: string, variant?: "thumbnail"): string {
+  return variant ? `/api/attachments/${attachmentId}?variant=${variant}` : `/api/attachments/${attachmentId}`
+}
+
+/**
+ * Shape an attachment for API responses and realtime events
+ */
+export function formatAttachment(attachment: Attachment) {
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    width: attachment.width,
+    height: attachment.height,
+    url: attachmentUrl(attachment.id),
+    thumbnailUrl: attachment.thumbnailKey ? attachmentUrl(attachment.id, "thumbnail") : null,
+    createdAt: attachment.createdAt,
+  }
+}
+
+export type FormattedAttachment = ReturnType<typeof formatAttachment>
+
+// Keep the original name for downloads but nothing path-like in storage keys
+function storageKeyFor(workspaceId: string, fileName: string): string {
+  const extension = path.extname(fileName).toLowerCase().replace(/[^a-z0-9.]/g, "").slice(0, 10)
+  return `workspaces/${workspaceId}/${randomUUID()}${extension}`
+}
+
+/**
+ * Check an upload against the workspace limits, store it and, for images,
+ * store a thumbnail next to it. The attachment waits until a message is
+ * sent with it
+ */
+export async function createAttachment(input: {
+  workspace: { id: string; attachmentMaxSize: number | null; attachmentMimeTypes: string[] }
+  threadId: string
+  uploadedBy: string
+  file: File
+}): Promise<Attachment> {
+  const { workspace, threadId, uploadedBy, file } = input
+  const limits = getAttachmentLimits(workspace)
+  const mimeType = file.type || "application/octet-stream"
+  const fileName = path.basename(file.name || "file").slice(0, 255)
+
+  if (file.size === 0) {
+    throw new AttachmentError("File is empty")
+  }
+
+  if (file.size > limits.maxSize) {
+    throw fileTooLargeError(limits.maxSize)
+  }
+
+  if (!isMimeTypeAllowed(mimeType, limits.mimeTypes)) {
+    throw new AttachmentError(`Files of type ${mimeType} are not allowed in this workspace`, 415)
+  }
+
+  const body = Buffer.from(await file.arrayBuffer())
+  const storage = getStorage()
+  const storageKey = storageKeyFor(workspace.id, fileName)
+
+  let thumbnailKey: string | null = null
+  let width: number | null = null
+  let height: number | null = null
+  let thumbnail: Buffer | null = null
+
+  if (isInlineImage(mimeType)) {
+    // Loaded on demand so modules that only format attachments stay light
+    const { default: sharp } = await import("sharp")
+
+    try {
+      const metadata = await sharp(body).metadata()
+      width = metadata.width ?? null
+      height = metadata.height ?? null
+      thumbnail = await sharp(body)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+        .webp()
+        .toBuffer()
+      thumbnailKey = `${storageKey}.thumb.webp`
+    } catch {
+      throw new AttachmentError("Image could not be read")
+    }
+  }
+
+  await storage.put(storageKey, body, mimeType)
+  if (thumbnail && thumbnailKey) {
+    await storage.put(thumbnailKey, thumbnail, "image/webp")
+  }
+
+  try {
+    return await prisma.attachment.create({
+      data: {
+        workspaceId: workspace.id,
+        threadId,
+        fileName,
+        mimeType,
+        size: file.size,
+        storageKey,
+        thumbnailKey,
+        width,
+        height,
+        uploadedBy,
+      },
+    })
+  } catch (error) {
+    await deleteStoredFiles({ storageKey, thumbnailKey })
+    throw error
+  }
+}
+
+/**
+ * Pending uploads by this user in this thread, in the order given
+ * Throws an AttachmentError if any of them can't be attached
+ */
+export async function findAttachableUploads(
+  attachmentIds: unknown,
+  threadId: string,
+  userId: string
+): Promise<Attachment[]> {
+  if (!Array.isArray(attachmentIds) || attachmentIds.some(id => typeof id !== "string")) {
+    throw new AttachmentError("attachmentIds must be an array of strings")
+  }
+
+  const ids = Array.from(new Set(attachmentIds as string[]))
+
+  if (ids.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    throw new AttachmentError(`A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`)
+  }
+
+  const attachments = await prisma.attachment.findMany({
+    where: {
+      id: { in: ids },
+      threadId,
+      uploadedBy: userId,
+      messageId: null,
+    },
+  })
+
+  if (attachments.length !== ids.length) {
+    throw new AttachmentError("Invalid attachments")
+  }
+
+  return ids.map(id => attachments.find(attachment => attachment.id === id)!)
+}
+
+/**
+ * IMAGE when every attachment is an image, otherwise FILE
+ */
+export function contentTypeForAttachments(attachments: Attachment[]): "IMAGE" | "FILE" {
+  return attachments.every(attachment => attachment.mimeType.startsWith("image/")) ? "IMAGE" : "FILE"
+}
+
+export async function deleteStoredFiles(attachment: { storageKey: string; thumbnailKey: string | null }) {
+  const storage = getStorage()
+  await storage.delete(attachment.storageKey)
+  if (attachment.thumbnailKey) {
+    await storage.delete(attachment.thumbnailKey)
+  }
+}
+
+/**
+ * Remove an upload and its files
+ * Storage is cleaned up after the row so a failure only leaves an unreachable file
+ */
+export async function deleteAttachment(attachment: Attachment): Promise<void> {
+  await prisma.attachment.delete({ where: { id: attachment.id } })
+
+  try {
+    await deleteStoredFiles(attachment)
+  } catch (error) {
+    console.error(`Failed to delete stored files for attachment ${attachment.id}:`, error)
+  }
+}
@@ -0,0 +1,300 @@
+import prisma from "@/lib/prisma"
+import { auth } from "@/lib/auth"
+import { requestIp } from "@/lib/login-history"
+import { authenticateApiKey } from "@/lib/api-keys"
+import { getValidFilters } from "@/lib/data-table"
+import { getFiltersStateParser, getSortingStateParser } from "@/lib/parsers"
+import type { Prisma } from "@/generated/prisma/client"
+import type { ExtendedColumnFilter, ExtendedColumnSort, JoinOperator } from "@/types/data-table"
+import type { WorkspaceActivityFilters } from "@/types/workspace"
+import {
+  AUDIT_ACTION_LABELS,
+  type AdminAuditLog,
+  type AuditAction,
+  type AuditLogChanges,
+  type AuditTargetType,
+} from "@/types/admin"
+
+// Most rows a CSV export contains
+export const AUDIT_LOG_EXPORT_LIMIT = 10000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface AuditLogEntry {
+  action: AuditAction
+  targetType: AuditTargetType
+  targetId?: string | null
+  targetLabel?: string | null
+  workspaceId?: string | null
+  // Snapshots of the target; only the fields that differ are stored
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+}
+
+/**
+ * The fields that differ between two snapshots. Creations have no `before`
+ * and deletions no `after`, so every field of the other side counts
+ */
+export function diffChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditLogChanges | null {
+  const changes: AuditLogChanges = {}
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+
+  for (const key of keys) {
+    const from = before?.[key] ?? null
+    const to = after?.[key] ?? null
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to }
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null
+}
+
+/**
+ * Store an audit log entry for the session the request was made with,
+ * including the admin behind it when it is impersonated. Requests made with
+ * an API key are attributed to the key's creator. Without headers, e.g.
+ * from a background job, the entry has no actor. Failures are logged and
+ * swallowed since the change itself has already been made
+ */
+export async function recordAuditLog(headers: Headers | null, entry: AuditLogEntry): Promise<void> {
+  try {
+    const session = headers ? await auth.api.getSession({ headers }) : null
+    const apiKeySession = headers && !session ? await authenticateApiKey(headers) : null
+    const actor = session?.user ?? apiKeySession?.user ?? null
+    const impersonatorId = session?.session.impersonatedBy ?? null
+    const impersonator = impersonatorId
+      ? await prisma.user.findUnique({
+          where: { id: impersonatorId },
+          select: { email: true },
+        })
+      : null
+
+    const changes = diffChanges(entry.before, entry.after)
+
+    await prisma.auditLog.create({
+      data: {
+        action: entry.action,
+        actorId: actor?.id ?? null,
+        actorEmail: actor?.email ?? null,
+        impersonatorId,
+        impersonatorEmail: impersonator?.email ?? null,
+        targetType: entry.targetType,
+        targetId: entry.targetId ?? null,
+        targetLabel: entry.targetLabel ?? null,
+        workspaceId: entry.workspaceId ?? null,
+        changes: (changes ?? undefined) as Prisma.InputJsonValue | undefined,
+        ipAddress: headers ? requestIp(headers) : null,
+        userAgent: headers?.get("user-agent") ?? null,
+      },
+    })
+  } catch (error) {
+    console.error("Error recording audit log:", error)
+  }
+}
+
+/**
+ * One line summary of an entry, e.g. for activity feeds
+ */
+export function describeAuditLog(log: Pick<AdminAuditLog, "action" | "actorEmail" | "targetLabel">): string {
+  const label = AUDIT_ACTION_LABELS[log.action as AuditAction] ?? log.action
+  const target = log.targetLabel ? `: ${log.targetLabel}` : ""
+  return `${label}${target} by ${log.actorEmail ?? "the system"}`
+}
+
+// Events listed in a workspace's own activity log
+export const WORKSPACE_ACTIVITY_ACTIONS: AuditAction[] = [
+  "member.join",
+  "member.invite",
+  "member.invite_cancel",
+  "member.role_update",
+  "member.remove",
+  "thread.convert_to_wiki",
+  "wiki_page.update",
+  "wiki_page.merge",
+  "wiki_page.visibility_update",
+  "wiki_page.restore",
+  "api_key.create",
+  "api_key.rotate",
+  "api_key.revoke",
+]
+
+/**
+ * Prisma conditions for a workspace's activity log. `to` is the start of
+ * the last day to include, so the day itself is counted in full
+ */
+export function workspaceActivityWhere(
+  workspaceId: string,
+  filters: WorkspaceActivityFilters
+): Prisma.AuditLogWhereInput {
+  const from = filters.from !== undefined ? new Date(filters.from) : null
+  const to = filters.to !== undefined ? new Date(filters.to + DAY_MS) : null
+
+  return {
+    workspaceId,
+    action: { in: WORKSPACE_ACTIVITY_ACTIONS },
+    ...(filters.actorId ? { actorId: filters.actorId } : {}),
+    ...(from || to
+      ? {
+          createdAt: {
+            ...(from && !isNaN(from.getTime()) ? { gte: from } : {}),
+            ...(to && !isNaN(to.getTime()) ? { lt: to } : {}),
+          },
+        }
+      : {}),
+  }
+}
+
+const FILTERABLE_COLUMNS = ["createdAt", "action", "actorEmail", "targetType", "targetLabel", "ipAddress"]
+const SORTABLE_COLUMNS = ["createdAt", "action", "actorEmail", "targetType", "targetLabel"]
+
+export interface AuditLogQuery {
+  page: number
+  perPage: number
+  sort: ExtendedColumnSort<AdminAuditLog>[]
+  filters: ExtendedColumnFilter<AdminAuditLog>[]
+  joinOperator: JoinOperator
+}
+
+/**
+ * Read the timeline's page, sort and filters from its URL, as written by
+ * the DataTable and DataTableFilterList components
+ */
+export function parseAuditLogQuery(params: Record<string, string | undefined>): AuditLogQuery {
+  const sort = params.sort
+    ? getSortingStateParser<AdminAuditLog>(SORTABLE_COLUMNS).parse(params.sort)
+    : null
+  const filters = params.filters
+    ? getFiltersStateParser<AdminAuditLog>(FILTERABLE_COLUMNS).parse(params.filters)
+    : null
+
+  return {
+    page: Math.max(1, parseInt(params.page || "1") || 1),
+    perPage: Math.min(100, Math.max(1, parseInt(params.perPage || "20") || 20)),
+    sort: sort ?? [{ id: "createdAt", desc: true }],
+    filters: filters ?? [],
+    joinOperator: params.joinOperator === "or" ? "or" : "and",
+  }
+}
+
+// Date filters hold the timestamp of the picked day's start in the browser's
+// time zone, and compare whole days from there
+function dateCondition(filter: ExtendedColumnFilter<AdminAuditLog>): Prisma.AuditLogWhereInput | null {
+  const values = (Array.isArray(filter.value) ? filter.value : [filter.value])
+    .map(value => new Date(Number(value)))
+  if (values.length === 0 || values.some(date => isNaN(date.getTime()))) return null
+
+  const start = values[0]
+  const end = new Date(start.getTime() + DAY_MS)
+
+  switch (filter.operator) {
+    case "eq":
+      return { createdAt: { gte: start, lt: end } }
+    case "ne":
+      return { NOT: { createdAt: { gte: start, lt: end } } }
+    case "lt":
+      return { createdAt: { lt: start } }
+    case "lte":
+      return { createdAt: { lt: end } }
+    case "gt":
+      return { createdAt: { gte: end } }
+    case "gte":
+      return { createdAt: { gte: start } }
+    case "isBetween": {
+      if (values.length < 2) return null
+      return { createdAt: { gte: start, lt: new Date(values[1].getTime() + DAY_MS) } }
+    }
+    default:
+      return null
+  }
+}
+
+function filterCondition(filter: ExtendedColumnFilter<AdminAuditLog>): Prisma.AuditLogWhereInput | null {
+  const field = filter.id as "action" | "actorEmail" | "targetType" | "targetLabel" | "ipAddress"
+
+  if (filter.id === "createdAt") {
+    return dateCondition(filter)
+  }
+
+  if (filter.operator === "isEmpty") return { [field]: null }
+  if (filter.operator === "isNotEmpty") return { NOT: { [field]: null } }
+
+  const values = Array.isArray(filter.value) ? filter.value : [filter.value]
+  const value = values[0] ?? ""
+
+  switch (filter.operator) {
+    case "iLike":
+      return { [field]: { contains: value, mode: "insensitive" } }
+    case "notILike":
+      return { NOT: { [field]: { contains: value, mode: "insensitive" } } }
+    case "eq":
+      return { [field]: value }
+    case "ne":
+      return { NOT: { [field]: value } }
+    case "inArray":
+      return { [field]: { in: values } }
+    case "notInArray":
+      return { NOT: { [field]: { in: values } } }
+    default:
+      return null
+  }
+}
+
+/**
+ * Prisma conditions for the timeline's filters. Filters without a value
+ * are still being set up in the UI and are skipped
+ */
+export function auditLogWhere(
+  filters: ExtendedColumnFilter<AdminAuditLog>[],
+  joinOperator: JoinOperator
+): Prisma.AuditLogWhereInput {
+  const conditions = getValidFilters(filters)
+    .map(filterCondition)
+    .filter((condition): condition is Prisma.AuditLogWhereInput => condition !== null)
+
+  if (conditions.length === 0) return {}
+  return joinOperator === "or" ? { OR: conditions } : { AND: conditions }
+}
+
+// Spreadsheets run cells starting with these as formulas
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  let text = value instanceof Date ? value.toISOString() : typeof value === "string" ? value : JSON.stringify(value)
+  // Titles and emails come from users, so keep them from being run
+  if (CSV_FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const AUDIT_LOG_CSV_COLUMNS: Array<keyof AdminAuditLog> = [
+  "createdAt",
+  "action",
+  "actorId",
+  "actorEmail",
+  "impersonatorId",
+  "impersonatorEmail",
+  "targetType",
+  "targetId",
+  "targetLabel",
+  "workspaceId",
+  "changes",
+  "ipAddress",
+  "userAgent",
+]
+
+/**
+ * The entries as CSV, one row each with the changes as JSON
+ */
+export function auditLogsToCsv(
+  logs: AdminAuditLog[],
+  columns: Array<keyof AdminAuditLog> = AUDIT_LOG_CSV_COLUMNS
+): string {
+  const rows = logs.map(log => columns.map(column => csvCell(log[column])).join(","))
+  return [columns.join(","), ...rows].join("\n")
+}
@@ -1,9 +1,27 @@
 import { createAuthClient } from "better-auth/react";
-import { lastLoginMethodClient, adminClient, magicLinkClient } from "better-auth/client/plugins";
+import {
+  lastLoginMethodClient,
+  adminClient,
+  magicLinkClient,
+  twoFactorClient,
+} from "better-auth/client/plugins";
 
 export const authClient = createAuthClient({
   baseURL: process.env.NEXT_PUBLIC_APP_URL,
-  plugins: [lastLoginMethodClient(), adminClient(), magicLinkClient()],
+  plugins: [
+    lastLoginMethodClient(),
+    adminClient(),
+    magicLinkClient(),
+    twoFactorClient({
+      // Password sign-ins of users with 2FA stop here until the code is verified
+      onTwoFactorRedirect() {
+        const callbackUrl = new URLSearchParams(window.location.search).get("callbackUrl");
+        window.location.href = callbackUrl
+          ? `/two-factor?callbackUrl=${encodeURIComponent(callbackUrl)}`
+          : "/two-factor";
+      },
+    }),
+  ],
 });
 
 export const { signIn, signOut, signUp, useSession } = authClient;
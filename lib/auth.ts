@@ -1,16 +1,53 @@
 import { PrismaClient } from "@/generated/prisma/client";
 import { PrismaPg } from "@prisma/adapter-pg";
-import { betterAuth } from "better-auth";
+import { betterAuth, type GenericEndpointContext } from "better-auth";
+import { APIError, createAuthMiddleware } from "better-auth/api";
 import { prismaAdapter } from "better-auth/adapters/prisma";
 import { nextCookies } from "better-auth/next-js";
-import { admin, magicLink } from "better-auth/plugins";
-import { sendPasswordResetEmail, sendMagicLinkEmail } from "@/app/actions/email";
+import { admin, bearer, magicLink, twoFactor } from "better-auth/plugins";
+import {
+  sendPasswordResetEmail,
+  sendMagicLinkEmail,
+  sendEmailVerification,
+} from "@/app/actions/email";
+import { verifyEmailPageUrl } from "@/lib/email-verification";
+import { loginMethodForPath, recordLogin, requestIp } from "@/lib/login-history";
+import { requestLocation } from "@/lib/sessions";
+import { twoFactorForAllSignIns, twoFactorSignInMethod } from "@/lib/two-factor";
+
+// Sign-ins that continue at /two-factor for users with 2FA on
+const SECOND_STEP_SIGN_IN_PATHS = ["/sign-in/email", "/magic-link/verify", "/callback/:id"];
 
 const adapter = new PrismaPg({
   connectionString: process.env.DATABASE_URL!,
 });
 
 const prisma = new PrismaClient({ adapter });
+
+/**
+ * Whether a new session has passed the second step. A 2FA user's sign-in
+ * only keeps its session once the code is verified or the device is trusted,
+ * and a session replacing the current one carries over its state
+ */
+async function isTwoFactorVerified(
+  session: { userId: string; impersonatedBy?: unknown },
+  ctx: GenericEndpointContext | undefined
+): Promise<boolean> {
+  // Admins impersonating a user aren't asked for the user's code
+  if (session.impersonatedBy || ctx?.path.startsWith("/two-factor/")) return true;
+
+  const current = ctx?.context.session?.session as { twoFactorVerified?: boolean | null } | undefined;
+  if (current) return current.twoFactorVerified === true;
+
+  if (!ctx?.path || !SECOND_STEP_SIGN_IN_PATHS.includes(ctx.path)) return false;
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.userId },
+    select: { twoFactorEnabled: true },
+  });
+  return user?.twoFactorEnabled === true;
+}
+
 export const auth = betterAuth({
   database: prismaAdapter(prisma, {
     provider: "postgresql",
@@ -32,6 +69,82 @@ export const auth = betterAuth({
         },
       },
     },
+    session: {
+      create: {
+        before: async (session, ctx) => {
+          return {
+            data: {
+              ...session,
+              location: requestLocation(ctx?.headers),
+              twoFactorVerified: await isTwoFactorVerified(session, ctx),
+            },
+          };
+        },
+        after: async (session, ctx) => {
+          // Impersonation sessions are not the user signing in
+          if (session.impersonatedBy) return;
+
+          // Neither is one that replaces the session the request came with,
+          // as turning on 2FA or changing the password does
+          if (ctx?.context.session) return;
+
+          // With 2FA on, this session is dropped for the second step and the
+          // sign-in is recorded once the code is verified
+          if (ctx?.path && SECOND_STEP_SIGN_IN_PATHS.includes(ctx.path)) {
+            const user = await prisma.user.findUnique({
+              where: { id: session.userId },
+              select: { twoFactorEnabled: true },
+            });
+            if (user?.twoFactorEnabled) return;
+          }
+
+          await recordLogin({
+            userId: session.userId,
+            method: ctx?.path.startsWith("/two-factor/")
+              ? await twoFactorSignInMethod(ctx)
+              : (loginMethodForPath(ctx?.path) ?? "OTHER"),
+            success: true,
+            ipAddress: session.ipAddress,
+            userAgent: session.userAgent,
+          });
+        },
+      },
+    },
+  },
+  hooks: {
+    // Successful sign-ins are recorded by the session hook above, failed ones here
+    after: createAuthMiddleware(async (ctx) => {
+      const method = loginMethodForPath(ctx.path);
+      const returned = ctx.context.returned;
+      if (
+        !method ||
+        ctx.path.startsWith("/sign-up") ||
+        // A wrong 2FA code carries nothing to tie it to the user
+        ctx.path.startsWith("/two-factor/") ||
+        !(returned instanceof APIError) ||
+        returned.statusCode < 400
+      ) {
+        return;
+      }
+
+      const email = typeof ctx.body?.email === "string" ? ctx.body.email : null;
+      const user = email
+        ? await prisma.user.findUnique({
+            where: { email: email.toLowerCase() },
+            select: { id: true },
+          })
+        : null;
+
+      await recordLogin({
+        userId: user?.id,
+        email,
+        method,
+        success: false,
+        failureReason: returned.body?.message ?? returned.message,
+        ipAddress: requestIp(ctx.headers),
+        userAgent: ctx.headers?.get("user-agent"),
+      });
+    }),
   },
   user: {
     additionalFields: {
@@ -42,6 +155,29 @@ export const auth = betterAuth({
       },
     },
   },
+  session: {
+    additionalFields: {
+      // Set by the workspace switcher, see lib/workspace-context.ts
+      activeWorkspaceId: {
+        type: "string",
+        required: false,
+        input: false,
+      },
+      // Shown in the sessions list, see lib/sessions.ts
+      location: {
+        type: "string",
+        required: false,
+        input: false,
+      },
+      // Enforced for workspaces that require 2FA, see lib/session-access.ts
+      twoFactorVerified: {
+        type: "boolean",
+        required: false,
+        defaultValue: false,
+        input: false,
+      },
+    },
+  },
   emailAndPassword: {
     enabled: true,
     sendResetPassword: async ({ user, url, token }) => {
@@ -57,6 +193,25 @@ export const auth = betterAuth({
     },
     resetPasswordTokenExpiresIn: 3600, // 1 hour in seconds
   },
+  emailVerification: {
+    sendOnSignUp: true,
+    expiresIn: 60 * 60 * 24, // 24 hours
+    sendVerificationEmail: async ({ user, url, token }) => {
+      await sendEmailVerification(
+        {
+          firstName: user.name?.split(" ")[0] || "there",
+          verificationUrl: verifyEmailPageUrl(url, token),
+        },
+        user.email
+      );
+    },
+  },
+  account: {
+    accountLinking: {
+      // Users link Google from account settings, whatever address it uses
+      allowDifferentEmails: true,
+    },
+  },
   socialProviders: {
     google: {
       clientId: process.env.GOOGLE_CLIENT_ID as string,
@@ -65,6 +220,8 @@ export const auth = betterAuth({
   },
   plugins: [
     nextCookies(),
+    // Lets non-cookie clients (the realtime server) authenticate with a session token
+    bearer(),
     admin({
       adminRoles: ["admin"],
       impersonationSessionDuration: 60 * 60, // 1 hour
@@ -81,5 +238,10 @@ export const auth = betterAuth({
         );
       },
     }),
+    twoFactor({
+      issuer: "HagenKit",
+    }),
+    // Magic link and Google sign-ins go through the same second step
+    twoFactorForAllSignIns(),
   ],
 });
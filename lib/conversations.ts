@@ -0,0 +1,119 @@
+import type { Prisma, Role } from "@/generated/prisma/client"
+
+export const DEFAULT_CONVERSATION_TITLE = "General Discussion"
+export const MAX_CONVERSATION_TITLE_LENGTH = 80
+
+/**
+ * Conversations a user can see: every public conversation in their
+ * workspaces and the private ones they are a member of, in one workspace
+ * only when a workspaceId is given
+ */
+export function accessibleConversationWhere(userId: string, workspaceId?: string): Prisma.ConversationWhereInput {
+  return {
+    ...(workspaceId ? { workspaceId } : {}),
+    workspace: {
+      members: {
+        some: { userId },
+      },
+    },
+    OR: [
+      { isPrivate: false },
+      { members: { some: { userId } } },
+    ],
+  }
+}
+
+/**
+ * Loads the user's workspace and conversation membership, for canAccessConversation
+ * With a workspaceId, e.g. an API key's, conversations elsewhere are treated
+ * as if the user weren't a member of their workspace
+ */
+export function conversationAccessInclude(userId: string, workspaceId?: string) {
+  return {
+    members: {
+      where: { userId },
+      select: { id: true },
+    },
+    workspace: {
+      include: {
+        members: {
+          where: { userId, ...(workspaceId ? { workspaceId } : {}) },
+        },
+      },
+    },
+  } satisfies Prisma.ConversationInclude
+}
+
+export function canAccessConversation(conversation: {
+  isPrivate: boolean
+  members: unknown[]
+  workspace: { members: unknown[] }
+}): boolean {
+  if (conversation.workspace.members.length === 0) {
+    return false
+  }
+
+  return !conversation.isPrivate || conversation.members.length > 0
+}
+
+/**
+ * The creator and workspace owners/admins can rename, archive and change
+ * who is in a conversation
+ */
+export function canManageConversation(
+  conversation: { createdBy: string | null },
+  userId: string,
+  role: Role
+): boolean {
+  return conversation.createdBy === userId || role === "OWNER" || role === "ADMIN"
+}
+
+/**
+ * Shape a conversation for API responses
+ */
+export function formatConversation(conversation: {
+  id: string
+  title: string | null
+  description: string | null
+  isPrivate: boolean
+  archivedAt: Date | null
+  createdBy: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: { threads: number; members: number }
+}, lastActivity?: Date) {
+  return {
+    id: conversation.id,
+    title: conversation.title || "Untitled Conversation",
+    description: conversation.description,
+    isPrivate: conversation.isPrivate,
+    archivedAt: conversation.archivedAt,
+    createdBy: conversation.createdBy,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: 0,
+    threadCount: conversation._count.threads,
+    memberCount: conversation.isPrivate ? conversation._count.members : null,
+    lastActivity: lastActivity || conversation.updatedAt,
+  }
+}
+
+export type FormattedConversation = ReturnType<typeof formatConversation>
+
+export const conversationCountInclude = {
+  _count: {
+    select: {
+      threads: true,
+      members: true,
+    },
+  },
+} satisfies Prisma.ConversationInclude
+
+/**
+ * Where a conversation lives in the dashboard, optionally opened at a thread
+ */
+export function conversationUrl(conversationId: string, threadId?: string): string {
+  return threadId
+    ? `/dashboard/c/${conversationId}/t/${threadId}`
+    : `/dashboard/c/${conversationId}`
+}
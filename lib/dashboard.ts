@@ -0,0 +1,89 @@
+import prisma from "@/lib/prisma"
+import {
+  accessibleConversationWhere,
+  conversationCountInclude,
+  DEFAULT_CONVERSATION_TITLE,
+  formatConversation,
+  type FormattedConversation,
+} from "@/lib/conversations"
+
+/**
+ * Active (or archived) conversations in a workspace that the user can see
+ * Active ones are sorted by name for the channel sidebar, archived ones by
+ * when they were archived
+ */
+export async function listConversations(
+  workspaceId: string,
+  userId: string,
+  archived = false
+): Promise<FormattedConversation[]> {
+  const conversations = await prisma.conversation.findMany({
+    where: {
+      workspaceId,
+      archivedAt: archived ? { not: null } : null,
+      ...accessibleConversationWhere(userId),
+    },
+    include: {
+      ...conversationCountInclude,
+      threads: {
+        take: 1,
+        orderBy: {
+          updatedAt: "desc",
+        },
+        include: {
+          messages: {
+            take: 1,
+            orderBy: {
+              createdAt: "desc",
+            },
+          },
+        },
+      },
+    },
+    orderBy: archived ? { archivedAt: "desc" } : { title: "asc" },
+  })
+
+  return conversations.map((conversation) =>
+    formatConversation(conversation, conversation.threads[0]?.messages[0]?.createdAt || conversation.createdAt)
+  )
+}
+
+/**
+ * The conversation to open when none is named: the oldest active one the
+ * user can see. A workspace without any public conversation gets a
+ * "General Discussion" to start with
+ */
+export async function getDefaultConversation(workspaceId: string, userId: string) {
+  const conversation = await prisma.conversation.findFirst({
+    where: {
+      workspaceId,
+      archivedAt: null,
+      ...accessibleConversationWhere(userId),
+    },
+    orderBy: { createdAt: "asc" },
+  })
+
+  if (conversation) {
+    return conversation
+  }
+
+  const publicConversations = await prisma.conversation.count({
+    where: {
+      workspaceId,
+      isPrivate: false,
+    },
+  })
+
+  // Archived public conversations mean someone chose to clear the list
+  if (publicConversations > 0) {
+    return null
+  }
+
+  return prisma.conversation.create({
+    data: {
+      workspaceId,
+      title: DEFAULT_CONVERSATION_TITLE,
+      createdBy: userId,
+    },
+  })
+}
@@ -0,0 +1,184 @@
+import { randomBytes } from "crypto"
+import prisma from "@/lib/prisma"
+import { sendTemplateEmail } from "@/lib/notifications/email-service"
+import { EmailTemplateId } from "@/lib/notifications/types"
+import { buildDashboardUrl } from "@/lib/notifications/utils"
+
+const EMAIL_CHANGE_EXPIRES_IN_HOURS = 24
+
+export class EmailChangeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "EmailChangeError"
+  }
+}
+
+export interface PendingEmailChange {
+  newEmail: string
+  currentConfirmed: boolean
+  newConfirmed: boolean
+  expiresAt: Date
+}
+
+export interface EmailChangeConfirmation {
+  newEmail: string
+  // True once both addresses confirmed and the email was switched
+  completed: boolean
+}
+
+function toPendingEmailChange(request: {
+  newEmail: string
+  currentConfirmedAt: Date | null
+  newConfirmedAt: Date | null
+  expiresAt: Date
+}): PendingEmailChange {
+  return {
+    newEmail: request.newEmail,
+    currentConfirmed: Boolean(request.currentConfirmedAt),
+    newConfirmed: Boolean(request.newConfirmedAt),
+    expiresAt: request.expiresAt,
+  }
+}
+
+function confirmUrl(token: string): string {
+  return buildDashboardUrl(`/confirm-email-change?token=${token}`)
+}
+
+/**
+ * The user's email change that is still waiting for confirmation, if any
+ */
+export async function getPendingEmailChange(userId: string): Promise<PendingEmailChange | null> {
+  const request = await prisma.emailChangeRequest.findUnique({
+    where: { userId },
+  })
+
+  if (!request || request.expiresAt < new Date()) return null
+  return toPendingEmailChange(request)
+}
+
+/**
+ * Start changing a user's email address. Both the current and the new
+ * address get a confirmation link, and the email only changes once both
+ * were opened. Asking again replaces the previous request
+ */
+export async function requestEmailChange(
+  user: { id: string; email: string; name: string | null },
+  newEmail: string
+): Promise<PendingEmailChange> {
+  const email = newEmail.trim().toLowerCase()
+
+  if (email === user.email.toLowerCase()) {
+    throw new EmailChangeError("That is already your email address")
+  }
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  })
+  if (existingUser) {
+    throw new EmailChangeError("That email address is already in use")
+  }
+
+  const data = {
+    newEmail: email,
+    currentToken: randomBytes(32).toString("base64url"),
+    newToken: randomBytes(32).toString("base64url"),
+    currentConfirmedAt: null,
+    newConfirmedAt: null,
+    expiresAt: new Date(Date.now() + EMAIL_CHANGE_EXPIRES_IN_HOURS * 60 * 60 * 1000),
+  }
+
+  const request = await prisma.emailChangeRequest.upsert({
+    where: { userId: user.id },
+    create: { userId: user.id, ...data },
+    update: data,
+  })
+
+  const firstName = user.name?.split(" ")[0] || "there"
+  const results = await Promise.all([
+    sendTemplateEmail(
+      EmailTemplateId.EMAIL_CHANGE,
+      {
+        firstName,
+        recipient: "current",
+        currentEmail: user.email,
+        newEmail: email,
+        confirmUrl: confirmUrl(request.currentToken),
+        expiresInHours: EMAIL_CHANGE_EXPIRES_IN_HOURS,
+      },
+      { to: user.email }
+    ),
+    sendTemplateEmail(
+      EmailTemplateId.EMAIL_CHANGE,
+      {
+        firstName,
+        recipient: "new",
+        currentEmail: user.email,
+        newEmail: email,
+        confirmUrl: confirmUrl(request.newToken),
+        expiresInHours: EMAIL_CHANGE_EXPIRES_IN_HOURS,
+      },
+      { to: email }
+    ),
+  ])
+
+  if (results.some((result) => !result.success)) {
+    await prisma.emailChangeRequest.delete({ where: { id: request.id } })
+    throw new EmailChangeError("Failed to send the confirmation emails")
+  }
+
+  return toPendingEmailChange(request)
+}
+
+export async function cancelEmailChange(userId: string): Promise<void> {
+  await prisma.emailChangeRequest.deleteMany({ where: { userId } })
+}
+
+/**
+ * Confirm an email change from one of its two links. The second
+ * confirmation switches the address, which counts as verified since the
+ * new inbox was just proven
+ */
+export async function confirmEmailChange(token: string): Promise<EmailChangeConfirmation> {
+  const request = await prisma.emailChangeRequest.findFirst({
+    where: {
+      OR: [{ currentToken: token }, { newToken: token }],
+    },
+  })
+
+  if (!request || request.expiresAt < new Date()) {
+    throw new EmailChangeError("This confirmation link is invalid or has expired")
+  }
+
+  const now = new Date()
+  const confirmed = await prisma.emailChangeRequest.update({
+    where: { id: request.id },
+    data: request.currentToken === token
+      ? { currentConfirmedAt: request.currentConfirmedAt ?? now }
+      : { newConfirmedAt: request.newConfirmedAt ?? now },
+  })
+
+  if (!confirmed.currentConfirmedAt || !confirmed.newConfirmedAt) {
+    return { newEmail: confirmed.newEmail, completed: false }
+  }
+
+  // The address may have been taken while the links were pending
+  const existingUser = await prisma.user.findUnique({
+    where: { email: confirmed.newEmail },
+    select: { id: true },
+  })
+  if (existingUser && existingUser.id !== confirmed.userId) {
+    await cancelEmailChange(confirmed.userId)
+    throw new EmailChangeError("That email address is already in use")
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: confirmed.userId },
+      data: { email: confirmed.newEmail, emailVerified: true },
+    }),
+    prisma.emailChangeRequest.delete({ where: { id: confirmed.id } }),
+  ])
+
+  return { newEmail: confirmed.newEmail, completed: true }
+}
@@ -0,0 +1,46 @@
+// What an unverified email address keeps a user from, set with
+// EMAIL_VERIFICATION_POLICY:
+// - "off" (default): nothing, the dashboard only shows a reminder
+// - "invitations": accepting workspace invitations
+// - "dashboard": the whole dashboard, and with it invitations, the REST API
+//   and realtime updates (enforced in lib/session-access.ts)
+export type EmailVerificationPolicy = "off" | "invitations" | "dashboard"
+
+const POLICIES: EmailVerificationPolicy[] = ["off", "invitations", "dashboard"]
+
+export function getEmailVerificationPolicy(): EmailVerificationPolicy {
+  const policy = process.env.EMAIL_VERIFICATION_POLICY?.trim().toLowerCase()
+  return POLICIES.find((value) => value === policy) ?? "off"
+}
+
+/**
+ * Whether the policy requires a verified email address for a part of the app
+ */
+export function isEmailVerificationRequired(scope: "dashboard" | "invitations"): boolean {
+  const policy = getEmailVerificationPolicy()
+  if (policy === "dashboard") return true
+  return policy === scope
+}
+
+/**
+ * The verify landing page for a verification token. Links go there instead
+ * of straight to the Better Auth endpoint so an expired link can offer a resend
+ */
+export function verifyEmailPageUrl(authUrl: string, token: string): string {
+  const source = new URL(authUrl)
+  const url = new URL("/verify-email", source.origin)
+  url.searchParams.set("token", token)
+
+  const callbackURL = source.searchParams.get("callbackURL")
+  if (callbackURL) url.searchParams.set("callbackUrl", callbackURL)
+
+  return url.toString()
+}
+
+/**
+ * The verify page that holds a user back until they verify, returning them
+ * to `callbackUrl` afterwards
+ */
+export function verifyEmailRedirect(callbackUrl: string): string {
+  return `/verify-email?callbackUrl=${encodeURIComponent(callbackUrl)}`
+}
@@ -0,0 +1,157 @@
+import prisma from "@/lib/prisma"
+import { deleteAttachment } from "@/lib/attachments"
+import { Prisma, type Job } from "@/generated/prisma/client"
+
+export const ACCOUNT_PURGE_JOB = "account:purge"
+
+interface AccountPurgePayload {
+  userId: string
+}
+
+export function accountPurgeKey(userId: string): string {
+  return `${ACCOUNT_PURGE_JOB}:${userId}`
+}
+
+// ACCOUNT_DELETION_MODE=purge also deletes the user's messages; by default
+// they stay in their threads, attributed to a "Deleted user"
+function deletesContent(): boolean {
+  return process.env.ACCOUNT_DELETION_MODE === "purge"
+}
+
+/**
+ * Workspaces where the user is the only owner, with their member count
+ */
+export async function soleOwnedWorkspaces(userId: string) {
+  return prisma.workspace.findMany({
+    where: {
+      members: {
+        some: { userId, role: "OWNER" },
+        none: { role: "OWNER", userId: { not: userId } },
+      },
+    },
+    select: {
+      id: true,
+      name: true,
+      _count: { select: { members: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  })
+}
+
+async function deleteWorkspace(workspaceId: string) {
+  const attachments = await prisma.attachment.findMany({ where: { workspaceId } })
+  for (const attachment of attachments) {
+    await deleteAttachment(attachment)
+  }
+
+  await prisma.workspace.delete({ where: { id: workspaceId } })
+}
+
+/**
+ * Hand the user's sole-owned workspaces to their most senior remaining
+ * member, or delete them when nobody else is left
+ */
+async function releaseWorkspaces(userId: string) {
+  for (const workspace of await soleOwnedWorkspaces(userId)) {
+    const successor = await prisma.workspaceMember.findFirst({
+      where: { workspaceId: workspace.id, userId: { not: userId } },
+      // Role sorts in declaration order, so admins come first
+      orderBy: [{ role: "asc" }, { joinedAt: "asc" }],
+    })
+
+    if (successor) {
+      await prisma.workspaceMember.update({
+        where: { id: successor.id },
+        data: { role: "OWNER" },
+      })
+    } else {
+      await deleteWorkspace(workspace.id)
+    }
+  }
+}
+
+async function deleteContent(userId: string) {
+  const attachments = await prisma.attachment.findMany({ where: { uploadedBy: userId } })
+  for (const attachment of attachments) {
+    await deleteAttachment(attachment)
+  }
+
+  await prisma.message.deleteMany({ where: { createdBy: userId } })
+
+  // Threads others replied in stay, and so do threads with a wiki page or
+  // sub-threads: deleting them would take the page and its revisions along,
+  // or lift the sub-threads to the top level
+  await prisma.thread.deleteMany({
+    where: {
+      createdBy: userId,
+      messages: { none: {} },
+      wikiPage: null,
+      children: { none: {} },
+    },
+  })
+}
+
+/**
+ * Remove everything personal about a user whose deletion is due. The row
+ * itself stays as an anonymous tombstone, since threads, wiki pages and
+ * revisions keep pointing at their author
+ */
+export async function purgeAccount(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { status: true, deletionScheduledAt: true },
+  })
+
+  // Cancelled in the meantime, or already purged
+  if (
+    !user ||
+    user.status !== "DELETED" ||
+    !user.deletionScheduledAt ||
+    user.deletionScheduledAt > new Date()
+  ) {
+    return
+  }
+
+  await releaseWorkspaces(userId)
+
+  if (deletesContent()) {
+    await deleteContent(userId)
+  }
+
+  await prisma.$transaction([
+    prisma.session.deleteMany({ where: { userId } }),
+    prisma.account.deleteMany({ where: { userId } }),
+    prisma.twoFactor.deleteMany({ where: { userId } }),
+    prisma.loginEvent.deleteMany({ where: { userId } }),
+    prisma.apiKey.deleteMany({ where: { createdById: userId } }),
+    prisma.emailChangeRequest.deleteMany({ where: { userId } }),
+    prisma.workspaceMember.deleteMany({ where: { userId } }),
+    prisma.conversationMember.deleteMany({ where: { userId } }),
+    prisma.threadRead.deleteMany({ where: { userId } }),
+    prisma.workspaceInvitation.deleteMany({ where: { invitedById: userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: `deleted-${userId}@deleted.invalid`,
+        name: "Deleted user",
+        emailVerified: false,
+        image: null,
+        phone: null,
+        onboardingData: Prisma.DbNull,
+        defaultWorkspaceId: null,
+        twoFactorEnabled: false,
+        banned: true,
+        banReason: "Account deleted",
+        deletionScheduledAt: null,
+      },
+    }),
+  ])
+}
+
+/**
+ * Job handler: purge an account once its grace period is over
+ */
+export async function runAccountPurge(job: Job): Promise<void> {
+  const { userId } = job.payload as unknown as AccountPurgePayload
+  await purgeAccount(userId)
+}
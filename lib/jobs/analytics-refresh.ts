@@ -0,0 +1,32 @@
+import { enqueueJob, getJobByKey } from "@/lib/jobs/queue"
+import { refreshAnalytics } from "@/lib/analytics"
+
+export const ANALYTICS_REFRESH_JOB = "analytics:refresh"
+
+const REFRESH_KEY = ANALYTICS_REFRESH_JOB
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000
+
+/**
+ * Queue the hourly refresh unless one is queued, running or ran recently
+ */
+export async function enqueueAnalyticsRefresh(): Promise<void> {
+  const job = await getJobByKey(REFRESH_KEY)
+
+  if (job && (job.status === "PENDING" || job.status === "RUNNING")) {
+    return
+  }
+
+  const lastRun = job?.completedAt || job?.updatedAt
+  if (lastRun && Date.now() - lastRun.getTime() < REFRESH_INTERVAL_MS) {
+    return
+  }
+
+  await enqueueJob(ANALYTICS_REFRESH_JOB, {}, { dedupeKey: REFRESH_KEY })
+}
+
+/**
+ * Job handler: recompute the admin analytics snapshot
+ */
+export async function runAnalyticsRefresh(): Promise<void> {
+  await refreshAnalytics()
+}
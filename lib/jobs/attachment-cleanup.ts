@@ -0,0 +1,57 @@
+import prisma from "@/lib/prisma"
+import { enqueueJob, getJobByKey } from "@/lib/jobs/queue"
+import { ORPHANED_ATTACHMENT_TTL_MS, deleteAttachment } from "@/lib/attachments"
+
+export const ATTACHMENT_CLEANUP_JOB = "attachments:cleanup"
+
+const CLEANUP_KEY = ATTACHMENT_CLEANUP_JOB
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000
+const CLEANUP_BATCH_SIZE = 100
+
+/**
+ * Queue the hourly cleanup unless one is queued, running or ran recently
+ */
+export async function enqueueAttachmentCleanup(): Promise<void> {
+  const job = await getJobByKey(CLEANUP_KEY)
+
+  if (job && (job.status === "PENDING" || job.status === "RUNNING")) {
+    return
+  }
+
+  const lastRun = job?.completedAt || job?.updatedAt
+  if (lastRun && Date.now() - lastRun.getTime() < CLEANUP_INTERVAL_MS) {
+    return
+  }
+
+  await enqueueJob(ATTACHMENT_CLEANUP_JOB, {}, { dedupeKey: CLEANUP_KEY })
+}
+
+/**
+ * Job handler: delete uploads that were never sent with a message,
+ * e.g. the user removed them from the composer by closing the tab
+ */
+export async function runAttachmentCleanup(): Promise<void> {
+  const cutoff = new Date(Date.now() - ORPHANED_ATTACHMENT_TTL_MS)
+  let deleted = 0
+
+  for (;;) {
+    const orphans = await prisma.attachment.findMany({
+      where: {
+        messageId: null,
+        createdAt: { lt: cutoff },
+      },
+      take: CLEANUP_BATCH_SIZE,
+    })
+
+    for (const attachment of orphans) {
+      await deleteAttachment(attachment)
+    }
+
+    deleted += orphans.length
+    if (orphans.length < CLEANUP_BATCH_SIZE) break
+  }
+
+  if (deleted > 0) {
+    console.log(`Removed ${deleted} unsent attachments`)
+  }
+}
@@ -0,0 +1,159 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import prisma from "@/lib/prisma"
+import { cancelJob, enqueueJob } from "@/lib/jobs/queue"
+import { sendTemplateEmail } from "@/lib/notifications/email-service"
+import { EmailTemplateId, type LifecycleEmailStep } from "@/lib/notifications/types"
+import { buildDashboardUrl, buildWelcomeEmailData } from "@/lib/notifications/utils"
+import type { Job } from "@/generated/prisma/client"
+
+export const LIFECYCLE_EMAIL_JOB = "email:lifecycle"
+
+type LifecycleStep = "welcome" | LifecycleEmailStep
+
+// Days after onboarding each email goes out
+const SEQUENCE: Array<{ step: LifecycleStep; day: number }> = [
+  { step: "welcome", day: 0 },
+  { step: "day-1", day: 1 },
+  { step: "day-3", day: 3 },
+  { step: "day-7", day: 7 },
+]
+
+// Users who have sent this many messages don't need the nudges anymore
+const ACTIVE_MESSAGE_COUNT = 5
+
+interface LifecycleEmailPayload {
+  userId: string
+  step: LifecycleStep
+}
+
+export function lifecycleEmailKey(userId: string, step: LifecycleStep): string {
+  return `${LIFECYCLE_EMAIL_JOB}:${userId}:${step}`
+}
+
+// LIFECYCLE_EMAIL_DAY_MS shortens a "day" so the sequence can be followed in minutes locally
+function dayMs(): number {
+  return Number(process.env.LIFECYCLE_EMAIL_DAY_MS) || 24 * 60 * 60 * 1000
+}
+
+/**
+ * Queue the welcome email and the follow-ups for a user who just finished
+ * onboarding. Queueing again reschedules instead of duplicating
+ */
+export async function scheduleLifecycleEmails(userId: string, from = new Date()) {
+  for (const { step, day } of SEQUENCE) {
+    await enqueueJob(LIFECYCLE_EMAIL_JOB, { userId, step }, {
+      dedupeKey: lifecycleEmailKey(userId, step),
+      runAt: new Date(from.getTime() + day * dayMs()),
+    })
+  }
+}
+
+/**
+ * Drop the follow-ups that have not gone out yet
+ */
+export async function cancelLifecycleEmails(userId: string) {
+  for (const { step } of SEQUENCE) {
+    await cancelJob(lifecycleEmailKey(userId, step))
+  }
+}
+
+function unsubscribeSignature(userId: string): string {
+  return createHmac("sha256", process.env.BETTER_AUTH_SECRET || "")
+    .update(`lifecycle-unsubscribe:${userId}`)
+    .digest("base64url")
+}
+
+/**
+ * Token for the unsubscribe link, so it works without signing in
+ */
+export function lifecycleUnsubscribeToken(userId: string): string {
+  return `${userId}.${unsubscribeSignature(userId)}`
+}
+
+/**
+ * The user an unsubscribe token was issued for, or null if it was tampered with
+ */
+export function verifyLifecycleUnsubscribeToken(token: string): string | null {
+  const [userId, signature] = token.split(".")
+  if (!userId || !signature) return null
+
+  const expected = Buffer.from(unsubscribeSignature(userId))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  return userId
+}
+
+export async function unsubscribeFromLifecycleEmails(userId: string) {
+  await prisma.user.updateMany({
+    where: { id: userId, lifecycleEmailsUnsubscribedAt: null },
+    data: { lifecycleEmailsUnsubscribedAt: new Date() },
+  })
+  await cancelLifecycleEmails(userId)
+}
+
+/**
+ * Job handler: send one email of the sequence
+ * Follow-ups are skipped, and the rest cancelled, once the user unsubscribed
+ * or became active. A failed send throws so the queue retries it
+ */
+export async function runLifecycleEmail(job: Job): Promise<void> {
+  const { userId, step } = job.payload as unknown as LifecycleEmailPayload
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      email: true,
+      name: true,
+      status: true,
+      onboardingData: true,
+      lifecycleEmailsUnsubscribedAt: true,
+      _count: {
+        select: {
+          messages: {
+            where: { deletedAt: null },
+          },
+        },
+      },
+    },
+  })
+
+  if (!user || user.status !== "ACTIVE") {
+    return
+  }
+
+  const firstName = user.name?.split(" ")[0] || "there"
+
+  if (step === "welcome") {
+    const result = await sendTemplateEmail(
+      EmailTemplateId.WORKSPACE_WELCOME,
+      buildWelcomeEmailData(firstName),
+      { to: user.email }
+    )
+    if (!result.success) throw new Error(result.error || "Failed to send welcome email")
+    return
+  }
+
+  if (user.lifecycleEmailsUnsubscribedAt || user._count.messages >= ACTIVE_MESSAGE_COUNT) {
+    await cancelLifecycleEmails(userId)
+    return
+  }
+
+  const onboardingData = (user.onboardingData || {}) as { role?: string; useCase?: string }
+
+  const result = await sendTemplateEmail(
+    EmailTemplateId.LIFECYCLE,
+    {
+      firstName,
+      step,
+      role: onboardingData.role,
+      useCase: onboardingData.useCase,
+      dashboardUrl: buildDashboardUrl("/dashboard"),
+      unsubscribeUrl: buildDashboardUrl(`/unsubscribe?token=${lifecycleUnsubscribeToken(userId)}`),
+    },
+    { to: user.email }
+  )
+  if (!result.success) throw new Error(result.error || "Failed to send lifecycle email")
+}
@@ -0,0 +1,158 @@
+import prisma from "@/lib/prisma"
+import { Prisma, type Job } from "@/generated/prisma/client"
+
+// A worker that dies mid-job leaves it RUNNING; after this long another worker may take it over
+const STALE_LOCK_MS = 10 * 60 * 1000
+const BASE_RETRY_DELAY_MS = 30 * 1000
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+
+export interface EnqueueJobOptions {
+  // Only one job per key exists; enqueueing again reschedules it
+  dedupeKey?: string
+  runAt?: Date
+  maxAttempts?: number
+}
+
+/**
+ * Add a job to the queue
+ * With a dedupeKey a finished or pending job for the same key is reset and
+ * rescheduled instead of duplicated. A job a worker currently holds is left alone
+ */
+export async function enqueueJob(
+  type: string,
+  payload: Prisma.InputJsonValue,
+  options: EnqueueJobOptions = {}
+): Promise<Job> {
+  const runAt = options.runAt || new Date()
+  const maxAttempts = options.maxAttempts || 5
+
+  if (!options.dedupeKey) {
+    return prisma.job.create({
+      data: { type, payload, runAt, maxAttempts },
+    })
+  }
+
+  const existing = await prisma.job.findUnique({
+    where: { dedupeKey: options.dedupeKey },
+  })
+
+  if (existing?.status === "RUNNING") {
+    return existing
+  }
+
+  if (existing?.status === "PENDING" && existing.runAt.getTime() === runAt.getTime()) {
+    return existing
+  }
+
+  return prisma.job.upsert({
+    where: { dedupeKey: options.dedupeKey },
+    create: {
+      type,
+      payload,
+      dedupeKey: options.dedupeKey,
+      runAt,
+      maxAttempts,
+    },
+    update: {
+      type,
+      payload,
+      status: "PENDING",
+      runAt,
+      maxAttempts,
+      attempts: 0,
+      lastError: null,
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: null,
+    },
+  })
+}
+
+/**
+ * Cancel the pending job for a key, if there is one
+ */
+export async function cancelJob(dedupeKey: string): Promise<void> {
+  await prisma.job.updateMany({
+    where: { dedupeKey, status: "PENDING" },
+    data: { status: "CANCELLED" },
+  })
+}
+
+export async function getJobByKey(dedupeKey: string): Promise<Job | null> {
+  return prisma.job.findUnique({
+    where: { dedupeKey },
+  })
+}
+
+/**
+ * Lock up to `limit` due jobs for this worker
+ * SKIP LOCKED lets several workers poll the same table without taking the same job
+ */
+export async function claimJobs(workerId: string, limit: number): Promise<Job[]> {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS)
+
+  // Jobs that crashed their worker on every attempt will never finish
+  await prisma.job.updateMany({
+    where: {
+      status: "RUNNING",
+      lockedAt: { lt: staleBefore },
+      attempts: { gte: prisma.job.fields.maxAttempts },
+    },
+    data: {
+      status: "FAILED",
+      lastError: "Worker stopped responding while running this job",
+      lockedAt: null,
+      lockedBy: null,
+    },
+  })
+
+  return prisma.$queryRaw<Job[]>`
+    UPDATE "job"
+    SET "status" = 'RUNNING'::"JobStatus",
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "attempts" = "attempts" + 1,
+        "updatedAt" = NOW()
+    WHERE "id" IN (
+      SELECT "id" FROM "job"
+      WHERE ("status" = 'PENDING'::"JobStatus" AND "runAt" <= NOW())
+         OR ("status" = 'RUNNING'::"JobStatus" AND "lockedAt" < ${staleBefore})
+      ORDER BY "runAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `
+}
+
+export async function completeJob(job: Job, workerId: string): Promise<void> {
+  await prisma.job.updateMany({
+    where: { id: job.id, lockedBy: workerId },
+    data: {
+      status: "SUCCEEDED",
+      completedAt: new Date(),
+      lastError: null,
+      lockedAt: null,
+      lockedBy: null,
+    },
+  })
+}
+
+/**
+ * Record a failed attempt and retry with exponential backoff until maxAttempts
+ */
+export async function failJob(job: Job, workerId: string, error: unknown): Promise<void> {
+  const exhausted = job.attempts >= job.maxAttempts
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(job.attempts - 1, 0), MAX_RETRY_DELAY_MS)
+
+  await prisma.job.updateMany({
+    where: { id: job.id, lockedBy: workerId },
+    data: {
+      status: exhausted ? "FAILED" : "PENDING",
+      runAt: exhausted ? job.runAt : new Date(Date.now() + delay),
+      lastError: error instanceof Error ? error.message : String(error),
+      lockedAt: null,
+      lockedBy: null,
+    },
+  })
+}
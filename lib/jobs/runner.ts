@@ -0,0 +1,114 @@
+import { hostname } from "os"
+import { claimJobs, completeJob, failJob } from "@/lib/jobs/queue"
+import { ACCOUNT_PURGE_JOB, runAccountPurge } from "@/lib/jobs/account-purge"
+import {
+  ANALYTICS_REFRESH_JOB,
+  enqueueAnalyticsRefresh,
+  runAnalyticsRefresh,
+} from "@/lib/jobs/analytics-refresh"
+import {
+  ATTACHMENT_CLEANUP_JOB,
+  enqueueAttachmentCleanup,
+  runAttachmentCleanup,
+} from "@/lib/jobs/attachment-cleanup"
+import { LIFECYCLE_EMAIL_JOB, runLifecycleEmail } from "@/lib/jobs/lifecycle-emails"
+import {
+  THREAD_AUTO_CONVERT_JOB,
+  enqueueDueThreadConversions,
+  runThreadAutoConvert,
+} from "@/lib/jobs/thread-auto-convert"
+import type { Job } from "@/generated/prisma/client"
+
+export type JobHandler = (job: Job) => Promise<void>
+
+const handlers: Record<string, JobHandler> = {
+  [THREAD_AUTO_CONVERT_JOB]: runThreadAutoConvert,
+  [ATTACHMENT_CLEANUP_JOB]: runAttachmentCleanup,
+  [LIFECYCLE_EMAIL_JOB]: runLifecycleEmail,
+  [ACCOUNT_PURGE_JOB]: runAccountPurge,
+  [ANALYTICS_REFRESH_JOB]: runAnalyticsRefresh,
+}
+
+export interface RunJobsOptions {
+  workerId?: string
+  batchSize?: number
+}
+
+export interface RunJobsResult {
+  succeeded: number
+  failed: number
+}
+
+export function defaultWorkerId(): string {
+  return `${hostname()}:${process.pid}`
+}
+
+/**
+ * One pass of the runner: queue anything whose time has come, then run
+ * whatever is due. Throwing from a handler marks the attempt as failed
+ */
+export async function runDueJobs(options: RunJobsOptions = {}): Promise<RunJobsResult> {
+  const workerId = options.workerId || defaultWorkerId()
+  const result: RunJobsResult = { succeeded: 0, failed: 0 }
+
+  await enqueueDueThreadConversions()
+  await enqueueAttachmentCleanup()
+  await enqueueAnalyticsRefresh()
+
+  const jobs = await claimJobs(workerId, options.batchSize || 10)
+
+  for (const job of jobs) {
+    try {
+      const handler = handlers[job.type]
+      if (!handler) {
+        throw new Error(`No handler registered for job type "${job.type}"`)
+      }
+
+      await handler(job)
+      await completeJob(job, workerId)
+      result.succeeded++
+    } catch (error) {
+      console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error)
+      await failJob(job, workerId, error)
+      result.failed++
+    }
+  }
+
+  return result
+}
+
+export interface JobWorkerConfig extends RunJobsOptions {
+  pollInterval?: number
+}
+
+/**
+ * Poll for due jobs until stopped. Ticks never overlap
+ */
+export function startJobWorker(config: JobWorkerConfig = {}) {
+  const pollInterval = config.pollInterval || 15000
+  let timer: NodeJS.Timeout | null = null
+  let current: Promise<unknown> | null = null
+  let stopped = false
+
+  const tick = async () => {
+    current = runDueJobs(config).catch(error => {
+      console.error("Job runner tick failed:", error)
+    })
+    await current
+    current = null
+
+    if (!stopped) {
+      timer = setTimeout(tick, pollInterval)
+    }
+  }
+
+  tick()
+
+  return {
+    stop: async () => {
+      stopped = true
+      if (timer) clearTimeout(timer)
+      await current
+    },
+  }
+}
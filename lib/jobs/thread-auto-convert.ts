@@ -0,0 +1,186 @@
+import prisma from "@/lib/prisma"
+import { cancelJob, enqueueJob, getJobByKey } from "@/lib/jobs/queue"
+import { convertThreadToWikiPage } from "@/lib/wiki-pages"
+import { recordAuditLog } from "@/lib/audit-log"
+import type { Job } from "@/generated/prisma/client"
+
+export const THREAD_AUTO_CONVERT_JOB = "thread:auto-convert"
+
+const SWEEP_BATCH_SIZE = 100
+
+interface ThreadAutoConvertPayload {
+  threadId: string
+}
+
+export function threadAutoConvertKey(threadId: string): string {
+  return `${THREAD_AUTO_CONVERT_JOB}:${threadId}`
+}
+
+const autoConvertSelect = {
+  id: true,
+  createdBy: true,
+  isDocumented: true,
+  autoConvert: true,
+  convertAfter: true,
+  convertWhen: true,
+  _count: {
+    select: {
+      messages: {
+        where: { deletedAt: null },
+      },
+    },
+  },
+} as const
+
+type AutoConvertThread = {
+  isDocumented: boolean
+  autoConvert: boolean
+  convertAfter: number | null
+  convertWhen: Date | null
+  _count: { messages: number }
+}
+
+/**
+ * When the thread's auto-convert settings say it should become a wiki page,
+ * or null if they never will as things stand
+ */
+function conversionRunAt(thread: AutoConvertThread, now = new Date()): Date | null {
+  if (!thread.autoConvert || thread.isDocumented) {
+    return null
+  }
+
+  if (thread.convertAfter && thread._count.messages >= thread.convertAfter) {
+    return now
+  }
+
+  if (thread.convertWhen) {
+    return thread.convertWhen > now ? thread.convertWhen : now
+  }
+
+  return null
+}
+
+/**
+ * Bring the thread's queued conversion in line with its settings
+ * Called after settings change and after every new message
+ */
+export async function scheduleThreadAutoConvert(threadId: string) {
+  const thread = await prisma.thread.findUnique({
+    where: { id: threadId },
+    select: autoConvertSelect,
+  })
+
+  const runAt = thread ? conversionRunAt(thread) : null
+
+  if (!runAt) {
+    await cancelJob(threadAutoConvertKey(threadId))
+    return null
+  }
+
+  return enqueueJob(THREAD_AUTO_CONVERT_JOB, { threadId }, {
+    dedupeKey: threadAutoConvertKey(threadId),
+    runAt,
+  })
+}
+
+/**
+ * Outcome of the thread's latest auto-conversion, for the thread APIs
+ */
+export async function getThreadAutoConvertStatus(threadId: string) {
+  const job = await getJobByKey(threadAutoConvertKey(threadId))
+
+  if (!job) {
+    return null
+  }
+
+  return {
+    status: job.status,
+    attempts: job.attempts,
+    lastError: job.lastError,
+    runAt: job.runAt,
+    completedAt: job.completedAt,
+  }
+}
+
+/**
+ * Queue threads whose convertWhen has passed but never got a job,
+ * e.g. settings saved before the runner existed
+ * Threads with a failed job are left for a person to look at
+ */
+export async function enqueueDueThreadConversions(): Promise<number> {
+  const threads = await prisma.thread.findMany({
+    where: {
+      autoConvert: true,
+      isDocumented: false,
+      convertWhen: { lte: new Date() },
+    },
+    select: { id: true },
+    orderBy: { convertWhen: "asc" },
+    take: SWEEP_BATCH_SIZE,
+  })
+
+  if (threads.length === 0) {
+    return 0
+  }
+
+  const existingJobs = await prisma.job.findMany({
+    where: {
+      dedupeKey: { in: threads.map(thread => threadAutoConvertKey(thread.id)) },
+    },
+    select: { dedupeKey: true },
+  })
+  const queued = new Set(existingJobs.map(job => job.dedupeKey))
+
+  let enqueued = 0
+  for (const thread of threads) {
+    if (!queued.has(threadAutoConvertKey(thread.id))) {
+      await enqueueJob(THREAD_AUTO_CONVERT_JOB, { threadId: thread.id }, {
+        dedupeKey: threadAutoConvertKey(thread.id),
+      })
+      enqueued++
+    }
+  }
+
+  return enqueued
+}
+
+/**
+ * Job handler: convert the thread if its settings still call for it
+ * Settings may have changed since the job was queued, and a page that
+ * already exists counts as done, so retries never create a second page
+ */
+export async function runThreadAutoConvert(job: Job): Promise<void> {
+  const { threadId } = job.payload as unknown as ThreadAutoConvertPayload
+
+  const thread = await prisma.thread.findUnique({
+    where: { id: threadId },
+    select: {
+      ...autoConvertSelect,
+      conversation: { select: { workspaceId: true } },
+    },
+  })
+
+  if (!thread) {
+    return
+  }
+
+  const runAt = conversionRunAt(thread)
+  if (!runAt || runAt > new Date()) {
+    return
+  }
+
+  // Auto-converted pages are attributed to the thread's creator
+  const result = await convertThreadToWikiPage(thread.id, thread.createdBy)
+
+  if (result.status === "created") {
+    console.log(`Auto-converted thread ${thread.id} to wiki page ${result.wikiPage.id}`)
+
+    await recordAuditLog(null, {
+      action: "thread.convert_to_wiki",
+      targetType: "thread",
+      targetId: thread.id,
+      targetLabel: result.wikiPage.title,
+      workspaceId: thread.conversation.workspaceId,
+    })
+  }
+}
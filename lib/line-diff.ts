@@ -0,0 +1,113 @@
+export interface DiffLine {
+  type: "added" | "removed" | "unchanged"
+  text: string
+  // Line numbers in the old and new text, 1-based
+  oldNumber?: number
+  newNumber?: number
+}
+
+// Above this many cells the LCS table gets too big to build in the browser
+const MAX_LCS_CELLS = 4_000_000
+
+/**
+ * Line-level diff of two texts, in the order a unified diff would show them
+ * Common leading and trailing lines are matched first, then the changed
+ * middle is aligned with a longest-common-subsequence table
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split("\n")
+  const newLines = newText.split("\n")
+
+  let start = 0
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++
+  }
+
+  let oldEnd = oldLines.length
+  let newEnd = newLines.length
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--
+    newEnd--
+  }
+
+  const result: DiffLine[] = []
+
+  for (let i = 0; i < start; i++) {
+    result.push({ type: "unchanged", text: oldLines[i], oldNumber: i + 1, newNumber: i + 1 })
+  }
+
+  const oldMiddle = oldLines.slice(start, oldEnd)
+  const newMiddle = newLines.slice(start, newEnd)
+
+  for (const line of diffMiddle(oldMiddle, newMiddle)) {
+    result.push({
+      ...line,
+      oldNumber: line.oldNumber !== undefined ? line.oldNumber + start : undefined,
+      newNumber: line.newNumber !== undefined ? line.newNumber + start : undefined,
+    })
+  }
+
+  for (let i = 0; i < oldLines.length - oldEnd; i++) {
+    result.push({
+      type: "unchanged",
+      text: oldLines[oldEnd + i],
+      oldNumber: oldEnd + i + 1,
+      newNumber: newEnd + i + 1,
+    })
+  }
+
+  return result
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length
+  const m = newLines.length
+
+  // Too large to align line by line: show the whole block as replaced
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map((text, i) => ({ type: "removed" as const, text, oldNumber: i + 1 })),
+      ...newLines.map((text, j) => ({ type: "added" as const, text, newNumber: j + 1 })),
+    ]
+  }
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: "unchanged", text: oldLines[i], oldNumber: i + 1, newNumber: j + 1 })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: "removed", text: oldLines[i], oldNumber: i + 1 })
+      i++
+    } else {
+      result.push({ type: "added", text: newLines[j], newNumber: j + 1 })
+      j++
+    }
+  }
+
+  while (i < n) {
+    result.push({ type: "removed", text: oldLines[i], oldNumber: i + 1 })
+    i++
+  }
+
+  while (j < m) {
+    result.push({ type: "added", text: newLines[j], newNumber: j + 1 })
+    j++
+  }
+
+  return result
+}
@@ -0,0 +1,99 @@
+import prisma from "@/lib/prisma"
+import type { LoginMethod } from "@/generated/prisma/client"
+
+// How many sign-ins the account settings and admin user pages show
+export const LOGIN_HISTORY_LIMIT = 20
+
+// Better Auth endpoints that sign a user in, by the method they stand for
+const LOGIN_METHODS: Record<string, LoginMethod> = {
+  "/sign-in/email": "PASSWORD",
+  "/sign-up/email": "PASSWORD",
+  "/sign-in/social": "GOOGLE",
+  "/callback/:id": "GOOGLE",
+  "/magic-link/verify": "MAGIC_LINK",
+  // The second step of a sign-in with 2FA on. lib/auth.ts records it with
+  // the method of the first step, see twoFactorSignInMethod
+  "/two-factor/verify-totp": "PASSWORD",
+  "/two-factor/verify-backup-code": "PASSWORD",
+  "/two-factor/verify-otp": "PASSWORD",
+}
+
+export interface LoginAttempt {
+  userId?: string | null
+  email?: string | null
+  method: LoginMethod
+  success: boolean
+  failureReason?: string | null
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+/**
+ * The sign-in method of a Better Auth endpoint path, or null when the path
+ * does not sign anyone in
+ */
+export function loginMethodForPath(path: string | undefined): LoginMethod | null {
+  if (!path) return null
+  return LOGIN_METHODS[path] ?? null
+}
+
+/**
+ * The client IP of a request, from the first proxy hop when behind one
+ */
+export function requestIp(headers: Headers | undefined): string | null {
+  if (!headers) return null
+  const forwarded = headers.get("x-forwarded-for")
+  if (forwarded) return forwarded.split(",")[0].trim() || null
+  return headers.get("x-real-ip")
+}
+
+/**
+ * Store a sign-in attempt. Successful ones also move the user's lastLoginAt.
+ * Failures are logged and swallowed so a broken history never blocks sign-in
+ */
+export async function recordLogin(attempt: LoginAttempt): Promise<void> {
+  try {
+    await prisma.loginEvent.create({
+      data: {
+        userId: attempt.userId ?? null,
+        email: attempt.email?.toLowerCase() ?? null,
+        method: attempt.method,
+        success: attempt.success,
+        failureReason: attempt.failureReason ?? null,
+        ipAddress: attempt.ipAddress ?? null,
+        userAgent: attempt.userAgent ?? null,
+      },
+    })
+
+    if (attempt.success && attempt.userId) {
+      await prisma.user.update({
+        where: { id: attempt.userId },
+        data: { lastLoginAt: new Date() },
+      })
+    }
+  } catch (error) {
+    console.error("Error recording login:", error)
+  }
+}
+
+/**
+ * The most recent sign-in attempts of a user, newest first
+ */
+export async function getLoginHistory(userId: string, limit = LOGIN_HISTORY_LIMIT) {
+  return prisma.loginEvent.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      method: true,
+      success: true,
+      failureReason: true,
+      ipAddress: true,
+      userAgent: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  })
+}
+
+export type LoginHistoryEntry = Awaited<ReturnType<typeof getLoginHistory>>[number]
@@ -0,0 +1,225 @@
+import prisma from "@/lib/prisma"
+import { formatAttachment } from "@/lib/attachments"
+import type { Prisma } from "@/generated/prisma/client"
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50
+export const MAX_MESSAGE_PAGE_SIZE = 200
+
+export const messageInclude = {
+  creator: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+    },
+  },
+  replyTo: {
+    include: {
+      creator: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+  attachments: {
+    orderBy: { createdAt: "asc" },
+  },
+  // Sub-threads branched from this message
+  branches: {
+    select: {
+      id: true,
+      title: true,
+    },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.MessageInclude
+
+export type MessageWithRelations = Prisma.MessageGetPayload<{
+  include: typeof messageInclude
+}>
+
+/**
+ * Shape a message for API responses and realtime events
+ * Deleted messages keep their place in the thread but lose their content
+ * and attachments
+ */
+export function formatMessage(message: MessageWithRelations) {
+  return {
+    id: message.id,
+    content: message.deletedAt ? "" : message.content,
+    contentType: message.contentType,
+    createdAt: message.createdAt,
+    updatedAt: message.updatedAt,
+    editedAt: message.editedAt,
+    deletedAt: message.deletedAt,
+    replyToId: message.replyToId,
+    replyTo: message.replyTo ? {
+      id: message.replyTo.id,
+      content: message.replyTo.deletedAt ? "" : message.replyTo.content,
+      createdAt: message.replyTo.createdAt,
+      deletedAt: message.replyTo.deletedAt,
+      createdBy: message.replyTo.creator,
+    } : null,
+    createdBy: message.creator,
+    attachments: message.deletedAt ? [] : message.attachments.map(formatAttachment),
+    branches: message.branches,
+  }
+}
+
+/**
+ * Authors can always change their own messages, OWNER and ADMIN can moderate
+ */
+export function canModifyMessage(
+  message: { createdBy: string },
+  userId: string,
+  role: string
+): boolean {
+  return message.createdBy === userId || role === "OWNER" || role === "ADMIN"
+}
+
+export interface MessageCursor {
+  createdAt: Date
+  id: string
+}
+
+/**
+ * Cursors are opaque to clients: base64url of "<createdAt ISO>|<id>"
+ */
+export function encodeMessageCursor(message: { createdAt: Date; id: string }): string {
+  return Buffer.from(`${message.createdAt.toISOString()}|${message.id}`).toString("base64url")
+}
+
+export function decodeMessageCursor(cursor: string): MessageCursor | null {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString().split("|")
+  const date = new Date(createdAt)
+
+  if (!id || isNaN(date.getTime())) {
+    return null
+  }
+
+  return { createdAt: date, id }
+}
+
+export interface MessagePageOptions {
+  before?: MessageCursor
+  after?: MessageCursor
+  // Message id to center the page on (deep links, search hits)
+  around?: string
+  limit?: number
+}
+
+export interface MessagePage {
+  messages: MessageWithRelations[]
+  hasOlder: boolean
+  hasNewer: boolean
+  olderCursor: string | null
+  newerCursor: string | null
+}
+
+function olderThan(cursor: MessageCursor): Prisma.MessageWhereInput {
+  return {
+    OR: [
+      { createdAt: { lt: cursor.createdAt } },
+      { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+    ],
+  }
+}
+
+export function newerThan(cursor: MessageCursor, inclusive = false): Prisma.MessageWhereInput {
+  return {
+    OR: [
+      { createdAt: { gt: cursor.createdAt } },
+      { createdAt: cursor.createdAt, id: inclusive ? { gte: cursor.id } : { gt: cursor.id } },
+    ],
+  }
+}
+
+async function fetchOlder(threadId: string, cursor: MessageCursor | undefined, take: number) {
+  const rows = await prisma.message.findMany({
+    where: { threadId, ...(cursor && olderThan(cursor)) },
+    include: messageInclude,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: take + 1,
+  })
+
+  return {
+    messages: rows.slice(0, take).reverse(),
+    hasMore: rows.length > take,
+  }
+}
+
+async function fetchNewer(threadId: string, cursor: MessageCursor, take: number, inclusive = false) {
+  const rows = await prisma.message.findMany({
+    where: { threadId, ...newerThan(cursor, inclusive) },
+    include: messageInclude,
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    take: take + 1,
+  })
+
+  return {
+    messages: rows.slice(0, take),
+    hasMore: rows.length > take,
+  }
+}
+
+/**
+ * Load one page of a thread's messages in chronological order
+ * Without options this is the newest page
+ * Returns null when the `around` message is not in the thread
+ */
+export async function getMessagePage(
+  threadId: string,
+  options: MessagePageOptions = {}
+): Promise<MessagePage | null> {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_MESSAGE_PAGE_SIZE, 1), MAX_MESSAGE_PAGE_SIZE)
+
+  let messages: MessageWithRelations[]
+  let hasOlder: boolean
+  let hasNewer: boolean
+
+  if (options.around) {
+    const anchor = await prisma.message.findUnique({
+      where: { id: options.around },
+      select: { id: true, threadId: true, createdAt: true },
+    })
+
+    if (!anchor || anchor.threadId !== threadId) {
+      return null
+    }
+
+    const olderCount = Math.floor(limit / 2)
+    const [older, newer] = await Promise.all([
+      fetchOlder(threadId, anchor, olderCount),
+      fetchNewer(threadId, anchor, limit - olderCount, true),
+    ])
+
+    messages = [...older.messages, ...newer.messages]
+    hasOlder = older.hasMore
+    hasNewer = newer.hasMore
+  } else if (options.after) {
+    const newer = await fetchNewer(threadId, options.after, limit)
+
+    messages = newer.messages
+    hasOlder = true
+    hasNewer = newer.hasMore
+  } else {
+    const older = await fetchOlder(threadId, options.before, limit)
+
+    messages = older.messages
+    hasOlder = older.hasMore
+    hasNewer = Boolean(options.before)
+  }
+
+  const first = messages[0]
+  const last = messages[messages.length - 1]
+
+  return {
+    messages,
+    hasOlder,
+    hasNewer,
+    olderCursor: first ? encodeMessageCursor(first) : options.before ? encodeMessageCursor(options.before) : null,
+    newerCursor: last ? encodeMessageCursor(last) : options.after ? encodeMessageCursor(options.after) : null,
+  }
+}
@@ -11,13 +11,14 @@ import type {
 
 /**
  * Initialize Resend client
- * Throws error if RESEND_API_KEY is not set
+ * Throws error if RESEND_API_KEY is not set in production. Anywhere else,
+ * including the job runner which has no NODE_ENV, emails go to the console
  */
 function getResendClient(): Resend | null {
   const apiKey = process.env.RESEND_API_KEY;
 
   if (!apiKey) {
-    if (process.env.NODE_ENV === "development") {
+    if (process.env.NODE_ENV !== "production") {
       console.warn(
         "RESEND_API_KEY is not set. Emails will be logged to console."
       );
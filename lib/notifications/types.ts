@@ -8,6 +8,7 @@ export enum EmailTemplateId {
   // User onboarding
   WORKSPACE_WELCOME = "workspace-welcome",
   EMAIL_VERIFICATION = "email-verification",
+  LIFECYCLE = "lifecycle",
 
   // Workspace management
   WORKSPACE_INVITATION = "workspace-invitation",
@@ -15,8 +16,14 @@ export enum EmailTemplateId {
   // Authentication
   PASSWORD_RESET = "password-reset",
   MAGIC_LINK = "magic-link",
+  EMAIL_CHANGE = "email-change",
 }
 
+/**
+ * Emails of the post-onboarding sequence, after the welcome email
+ */
+export type LifecycleEmailStep = "day-1" | "day-3" | "day-7";
+
 /**
  * Data required for each email template
  */
@@ -39,6 +46,16 @@ export type EmailTemplateData = {
     verificationUrl: string;
   };
 
+  [EmailTemplateId.LIFECYCLE]: {
+    firstName: string;
+    step: LifecycleEmailStep;
+    // Answers from onboarding, used to pick the tips
+    role?: string;
+    useCase?: string;
+    dashboardUrl: string;
+    unsubscribeUrl: string;
+  };
+
   [EmailTemplateId.PASSWORD_RESET]: {
     firstName: string;
     resetUrl: string;
@@ -50,6 +67,16 @@ export type EmailTemplateData = {
     magicLinkUrl: string;
     expiresInMinutes: number;
   };
+
+  [EmailTemplateId.EMAIL_CHANGE]: {
+    firstName: string;
+    // Which of the two addresses this copy goes to
+    recipient: "current" | "new";
+    currentEmail: string;
+    newEmail: string;
+    confirmUrl: string;
+    expiresInHours: number;
+  };
 };
 
 /**
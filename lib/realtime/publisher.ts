@@ -0,0 +1,152 @@
+import { EventEmitter } from "events"
+import { Client } from "pg"
+import prisma from "@/lib/prisma"
+import type { WebSocketEvent } from "@/lib/websocket"
+
+export interface RealtimeEnvelope {
+  event: WebSocketEvent
+  rooms: string[]
+  data: Record<string, unknown>
+}
+
+export type RealtimeTransport = "memory" | "postgres"
+
+const NOTIFY_CHANNEL = "realtime_events"
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_PAYLOAD = 7900
+
+// Shared through globalThis so route handlers and the embedded server see
+// the same bus even when Next.js bundles them separately
+const globalForRealtime = global as unknown as {
+  realtimeBus?: EventEmitter
+}
+
+function getBus(): EventEmitter {
+  if (!globalForRealtime.realtimeBus) {
+    globalForRealtime.realtimeBus = new EventEmitter()
+    globalForRealtime.realtimeBus.setMaxListeners(0)
+  }
+  return globalForRealtime.realtimeBus
+}
+
+/**
+ * "memory" delivers events inside this process (single node with the
+ * embedded server), "postgres" fans them out with LISTEN/NOTIFY so any
+ * number of app and realtime servers can run side by side
+ */
+export function getRealtimeTransport(): RealtimeTransport {
+  return process.env.REALTIME_TRANSPORT === "postgres" ? "postgres" : "memory"
+}
+
+/**
+ * Publish an event to realtime rooms
+ * Never throws: a failed publish must not fail the mutation that caused it
+ */
+export async function publishRealtimeEvent(
+  event: WebSocketEvent,
+  data: Record<string, unknown>,
+  rooms: string[]
+): Promise<void> {
+  const envelope: RealtimeEnvelope = { event, rooms, data }
+
+  try {
+    if (getRealtimeTransport() === "postgres") {
+      await prisma.$queryRaw`SELECT pg_notify(${NOTIFY_CHANNEL}, ${toNotifyPayload(envelope)})`
+    } else {
+      getBus().emit(NOTIFY_CHANNEL, envelope)
+    }
+  } catch (error) {
+    console.error(`Failed to publish realtime event ${event}:`, error)
+  }
+}
+
+/**
+ * Receive every published event
+ * Returns a function that stops the subscription
+ */
+export async function subscribeToRealtimeEvents(
+  handler: (envelope: RealtimeEnvelope) => void
+): Promise<() => Promise<void>> {
+  if (getRealtimeTransport() === "memory") {
+    const bus = getBus()
+    bus.on(NOTIFY_CHANNEL, handler)
+    return async () => {
+      bus.off(NOTIFY_CHANNEL, handler)
+    }
+  }
+
+  return listenToPostgres(handler)
+}
+
+function toNotifyPayload(envelope: RealtimeEnvelope): string {
+  const payload = JSON.stringify(envelope)
+  if (Buffer.byteLength(payload) < MAX_NOTIFY_PAYLOAD) {
+    return payload
+  }
+
+  // Too large for NOTIFY: send the identifiers only and let clients refetch
+  const ids = Object.fromEntries(
+    Object.entries(envelope.data).filter(([key, value]) => key.endsWith("Id") && typeof value === "string")
+  )
+
+  return JSON.stringify({ ...envelope, data: { ...ids, partial: true } })
+}
+
+async function listenToPostgres(
+  handler: (envelope: RealtimeEnvelope) => void
+): Promise<() => Promise<void>> {
+  let client: Client | null = null
+  let reconnectTimer: NodeJS.Timeout | null = null
+  let stopped = false
+
+  const connect = async () => {
+    const next = new Client({ connectionString: process.env.DATABASE_URL })
+
+    next.on("notification", (message) => {
+      if (message.channel !== NOTIFY_CHANNEL || !message.payload) return
+
+      try {
+        handler(JSON.parse(message.payload))
+      } catch (error) {
+        console.error("Failed to handle realtime notification:", error)
+      }
+    })
+
+    next.on("error", (error) => {
+      console.error("Realtime LISTEN connection lost:", error)
+      scheduleReconnect()
+    })
+
+    await next.connect()
+    await next.query(`LISTEN ${NOTIFY_CHANNEL}`)
+    client = next
+  }
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimer) return
+
+    client?.end().catch(() => {})
+    client = null
+
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null
+      connect().catch(error => {
+        console.error("Realtime LISTEN reconnect failed:", error)
+        scheduleReconnect()
+      })
+    }, 5000)
+  }
+
+  await connect()
+
+  return async () => {
+    stopped = true
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer)
+      reconnectTimer = null
+    }
+    await client?.end()
+    client = null
+  }
+}
@@ -0,0 +1,81 @@
+import prisma from "@/lib/prisma"
+import { canAccessConversation, conversationAccessInclude } from "@/lib/conversations"
+
+export type RoomKind = "workspace" | "conversation" | "thread"
+
+export interface ParsedRoom {
+  kind: RoomKind
+  id: string
+}
+
+export function workspaceRoom(workspaceId: string) {
+  return `workspace:${workspaceId}`
+}
+
+export function conversationRoom(conversationId: string) {
+  return `conversation:${conversationId}`
+}
+
+export function threadRoom(threadId: string) {
+  return `thread:${threadId}`
+}
+
+/**
+ * Parse a room id of the form `workspace:<id>`, `conversation:<id>` or `thread:<id>`
+ * Returns null for anything else
+ */
+export function parseRoomId(roomId: unknown): ParsedRoom | null {
+  if (typeof roomId !== "string") return null
+
+  const separator = roomId.indexOf(":")
+  if (separator === -1) return null
+
+  const kind = roomId.slice(0, separator)
+  const id = roomId.slice(separator + 1)
+
+  if (!id || !["workspace", "conversation", "thread"].includes(kind)) {
+    return null
+  }
+
+  return { kind: kind as RoomKind, id }
+}
+
+/**
+ * Check that a user is a member of the workspace a room belongs to, and
+ * of the conversation for rooms inside a private one
+ */
+export async function canJoinRoom(userId: string, room: ParsedRoom): Promise<boolean> {
+  if (room.kind === "workspace") {
+    const member = await prisma.workspaceMember.findUnique({
+      where: {
+        userId_workspaceId: {
+          userId,
+          workspaceId: room.id,
+        },
+      },
+      select: { id: true },
+    })
+
+    return Boolean(member)
+  }
+
+  if (room.kind === "conversation") {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: room.id },
+      include: conversationAccessInclude(userId),
+    })
+
+    return Boolean(conversation && canAccessConversation(conversation))
+  }
+
+  const thread = await prisma.thread.findUnique({
+    where: { id: room.id },
+    select: {
+      conversation: {
+        include: conversationAccessInclude(userId),
+      },
+    },
+  })
+
+  return Boolean(thread && canAccessConversation(thread.conversation))
+}
@@ -0,0 +1,401 @@
+import { createServer, type IncomingMessage, type Server } from "http"
+import type { Duplex } from "stream"
+import { WebSocketServer, WebSocket, type RawData } from "ws"
+import { auth } from "@/lib/auth"
+import prisma from "@/lib/prisma"
+import { getSessionRestriction } from "@/lib/session-access"
+import type { WebSocketEvent, WebSocketMessage } from "@/lib/websocket"
+import { subscribeToRealtimeEvents } from "./publisher"
+import { canJoinRoom, parseRoomId } from "./rooms"
+
+interface RealtimeServerConfig {
+  port: number
+  heartbeatInterval?: number
+}
+
+interface RealtimeClient {
+  socket: WebSocket
+  userId: string
+  userName: string
+  sessionId: string
+  expiresAt: Date
+  rooms: Set<string>
+  isAlive: boolean
+}
+
+// Events clients may relay to the other members of a room they have joined
+const CLIENT_RELAYED_EVENTS = new Set(["user:typing", "messages:read"])
+
+// Custom close codes (4000-4999 are reserved for applications)
+// Also used when the session was revoked
+const CLOSE_SESSION_EXPIRED = 4401
+
+export class RealtimeServer {
+  private httpServer: Server | null = null
+  private wss: WebSocketServer | null = null
+  private config: RealtimeServerConfig
+  private clients = new Set<RealtimeClient>()
+  private rooms = new Map<string, Set<RealtimeClient>>()
+  private heartbeatTimer: NodeJS.Timeout | null = null
+
+  constructor(config: RealtimeServerConfig) {
+    this.config = config
+  }
+
+  start(): Promise<void> {
+    if (this.httpServer) return Promise.resolve()
+
+    this.wss = new WebSocketServer({ noServer: true })
+    this.httpServer = createServer((request, response) => {
+      // Plain HTTP requests only get a health check
+      response.writeHead(request.url === "/health" ? 200 : 426, { "Content-Type": "application/json" })
+      response.end(JSON.stringify({ status: "ok", connections: this.clients.size }))
+    })
+
+    this.httpServer.on("upgrade", (request, socket, head) => {
+      this.handleUpgrade(request, socket, head).catch(error => {
+        console.error("WebSocket upgrade failed:", error)
+        rejectUpgrade(socket, 500, "Internal Server Error")
+      })
+    })
+
+    this.heartbeatTimer = setInterval(() => this.checkHeartbeats(), this.config.heartbeatInterval || 30000)
+
+    return new Promise((resolve, reject) => {
+      this.httpServer!.once("error", reject)
+      this.httpServer!.listen(this.config.port, () => {
+        this.httpServer!.off("error", reject)
+        console.log(`Realtime server listening on port ${this.config.port}`)
+        resolve()
+      })
+    })
+  }
+
+  async stop(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+
+    this.clients.forEach(client => client.socket.close(1001, "Server shutting down"))
+    this.clients.clear()
+    this.rooms.clear()
+
+    await new Promise<void>(resolve => {
+      if (!this.wss) return resolve()
+      this.wss.close(() => resolve())
+    })
+    await new Promise<void>(resolve => {
+      if (!this.httpServer) return resolve()
+      this.httpServer.close(() => resolve())
+    })
+
+    this.wss = null
+    this.httpServer = null
+  }
+
+  /**
+   * Send an event to every client in one or more rooms
+   * Clients that are in several of the rooms receive it once
+   */
+  broadcast(roomIds: string | string[], event: WebSocketEvent, data: unknown, except?: RealtimeClient) {
+    const targets = Array.isArray(roomIds) ? roomIds : [roomIds]
+    const recipients = new Set<RealtimeClient>()
+
+    targets.forEach(roomId => {
+      this.rooms.get(roomId)?.forEach(client => recipients.add(client))
+    })
+    if (recipients.size === 0) return
+
+    const payload = serialize({ type: event, data, roomId: targets[0] })
+    recipients.forEach(client => {
+      if (client !== except && client.socket.readyState === WebSocket.OPEN) {
+        client.socket.send(payload)
+      }
+    })
+  }
+
+  /**
+   * Take a user's sockets out of the rooms they may no longer join, after
+   * they lost access to a conversation
+   */
+  async revalidateRooms(userId: string) {
+    const clients = Array.from(this.clients).filter(client => client.userId === userId)
+    const roomIds = new Set(clients.flatMap(client => Array.from(client.rooms)))
+
+    for (const roomId of roomIds) {
+      const room = parseRoomId(roomId)
+      if (room && (await canJoinRoom(userId, room))) continue
+
+      clients.forEach(client => {
+        if (!client.rooms.has(roomId)) return
+
+        this.removeFromRoom(client, roomId)
+        this.send(client, { type: "room:left", data: { roomId } })
+      })
+    }
+  }
+
+  getConnectionCount(): number {
+    return this.clients.size
+  }
+
+  private async handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer) {
+    const url = new URL(request.url || "/", "http://localhost")
+    const token = url.searchParams.get("token")
+
+    if (!token) {
+      return rejectUpgrade(socket, 401, "Unauthorized")
+    }
+
+    // The bearer plugin turns the session token into a regular session lookup
+    const session = await auth.api.getSession({
+      headers: new Headers({ authorization: `Bearer ${token}` }),
+    })
+
+    if (!session?.user?.id) {
+      return rejectUpgrade(socket, 401, "Unauthorized")
+    }
+
+    if (await getSessionRestriction(session)) {
+      return rejectUpgrade(socket, 403, "Forbidden")
+    }
+
+    this.wss!.handleUpgrade(request, socket, head, (ws) => {
+      const client: RealtimeClient = {
+        socket: ws,
+        userId: session.user.id,
+        userName: session.user.name || "Unknown User",
+        sessionId: session.session.id,
+        expiresAt: new Date(session.session.expiresAt),
+        rooms: new Set(),
+        isAlive: true,
+      }
+
+      this.clients.add(client)
+
+      ws.on("pong", () => {
+        client.isAlive = true
+      })
+      ws.on("message", (raw) => {
+        this.handleMessage(client, raw).catch(error => {
+          console.error("Failed to handle realtime message:", error)
+          this.sendError(client, "Failed to handle message")
+        })
+      })
+      ws.on("close", () => this.handleClose(client))
+      ws.on("error", (error) => {
+        console.error("Realtime client error:", error)
+      })
+    })
+  }
+
+  private async handleMessage(client: RealtimeClient, raw: RawData) {
+    if (client.expiresAt.getTime() <= Date.now()) {
+      client.socket.close(CLOSE_SESSION_EXPIRED, "Session expired")
+      return
+    }
+
+    let message: WebSocketMessage
+    try {
+      message = JSON.parse(raw.toString())
+    } catch {
+      return this.sendError(client, "Invalid message format")
+    }
+
+    switch (message.type) {
+      case "ping":
+        return this.send(client, { type: "pong", data: {} })
+
+      case "room:join":
+        return this.joinRoom(client, message.data?.roomId)
+
+      case "room:leave":
+        return this.leaveRoom(client, message.data?.roomId)
+
+      default:
+        if (CLIENT_RELAYED_EVENTS.has(message.type)) {
+          return this.relay(client, message)
+        }
+        return this.sendError(client, `Unsupported message type: ${message.type}`)
+    }
+  }
+
+  private async joinRoom(client: RealtimeClient, roomId: unknown) {
+    const room = parseRoomId(roomId)
+    if (!room) {
+      return this.sendError(client, "Invalid room id")
+    }
+
+    const key = `${room.kind}:${room.id}`
+    if (client.rooms.has(key)) return
+
+    if (!(await canJoinRoom(client.userId, room))) {
+      return this.sendError(client, "Access denied", { roomId: key })
+    }
+
+    // The socket may have closed while the membership check was running
+    if (client.socket.readyState !== WebSocket.OPEN) return
+
+    const wasOnline = room.kind === "workspace" && this.isUserInRoom(client.userId, key)
+
+    if (!this.rooms.has(key)) {
+      this.rooms.set(key, new Set())
+    }
+    this.rooms.get(key)!.add(client)
+    client.rooms.add(key)
+
+    this.send(client, { type: "room:joined", data: { roomId: key } })
+
+    if (room.kind === "workspace" && !wasOnline) {
+      this.broadcast(key, "user:online", { userId: client.userId, workspaceId: room.id }, client)
+    }
+  }
+
+  private leaveRoom(client: RealtimeClient, roomId: unknown) {
+    if (typeof roomId !== "string" || !client.rooms.has(roomId)) return
+
+    this.removeFromRoom(client, roomId)
+    this.send(client, { type: "room:left", data: { roomId } })
+  }
+
+  private relay(client: RealtimeClient, message: WebSocketMessage) {
+    const roomId = message.roomId
+    if (!roomId || !client.rooms.has(roomId)) {
+      return this.sendError(client, "Join the room before sending to it", { roomId })
+    }
+
+    this.broadcast(
+      roomId,
+      message.type as WebSocketEvent,
+      {
+        ...(typeof message.data === "object" && message.data !== null ? message.data : {}),
+        userId: client.userId,
+        userName: client.userName,
+      },
+      client
+    )
+  }
+
+  private handleClose(client: RealtimeClient) {
+    Array.from(client.rooms).forEach(roomId => this.removeFromRoom(client, roomId))
+    this.clients.delete(client)
+  }
+
+  private removeFromRoom(client: RealtimeClient, roomId: string) {
+    const members = this.rooms.get(roomId)
+    client.rooms.delete(roomId)
+
+    if (members) {
+      members.delete(client)
+      if (members.size === 0) {
+        this.rooms.delete(roomId)
+      }
+    }
+
+    // Only announce offline once the user's last connection leaves the workspace
+    const room = parseRoomId(roomId)
+    if (room?.kind === "workspace" && !this.isUserInRoom(client.userId, roomId)) {
+      this.broadcast(roomId, "user:offline", { userId: client.userId, workspaceId: room.id })
+    }
+  }
+
+  private isUserInRoom(userId: string, roomId: string): boolean {
+    const members = this.rooms.get(roomId)
+    if (!members) return false
+
+    return Array.from(members).some(member => member.userId === userId)
+  }
+
+  private checkHeartbeats() {
+    this.clients.forEach(client => {
+      if (!client.isAlive) {
+        client.socket.terminate()
+        return
+      }
+
+      client.isAlive = false
+      client.socket.ping()
+    })
+
+    this.closeEndedSessions().catch(error => {
+      console.error("Failed to check realtime sessions:", error)
+    })
+  }
+
+  /**
+   * Close sockets whose session was revoked or has expired since they
+   * connected, so they stop receiving room broadcasts
+   */
+  private async closeEndedSessions() {
+    const clients = Array.from(this.clients)
+    if (clients.length === 0) return
+
+    const sessions = await prisma.session.findMany({
+      where: { id: { in: Array.from(new Set(clients.map(client => client.sessionId))) } },
+      select: { id: true, expiresAt: true },
+    })
+    const expiresAt = new Map(sessions.map(session => [session.id, session.expiresAt]))
+
+    clients.forEach(client => {
+      const sessionExpiresAt = expiresAt.get(client.sessionId)
+      if (!sessionExpiresAt) {
+        client.socket.close(CLOSE_SESSION_EXPIRED, "Session revoked")
+      } else if (sessionExpiresAt.getTime() <= Date.now()) {
+        client.socket.close(CLOSE_SESSION_EXPIRED, "Session expired")
+      } else {
+        // Better Auth pushes the expiry back while the session is in use
+        client.expiresAt = sessionExpiresAt
+      }
+    })
+  }
+
+  private send(client: RealtimeClient, message: Omit<WebSocketMessage, "timestamp">) {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(serialize(message))
+    }
+  }
+
+  private sendError(client: RealtimeClient, error: string, details: Record<string, unknown> = {}) {
+    this.send(client, { type: "error", data: { error, ...details } })
+  }
+}
+
+/**
+ * Start a realtime server that forwards every published event to its rooms
+ */
+export async function startRealtimeServer(config: RealtimeServerConfig) {
+  const server = new RealtimeServer(config)
+  await server.start()
+
+  const unsubscribe = await subscribeToRealtimeEvents(envelope => {
+    server.broadcast(envelope.rooms, envelope.event, envelope.data)
+
+    // The removed member hears about it first, then leaves the rooms
+    const removedUserId = envelope.data.userId
+    if (envelope.event === "conversation:member:removed" && typeof removedUserId === "string") {
+      server.revalidateRooms(removedUserId).catch(error => {
+        console.error("Failed to update realtime rooms:", error)
+      })
+    }
+  })
+
+  return {
+    server,
+    stop: async () => {
+      await unsubscribe()
+      await server.stop()
+    },
+  }
+}
+
+function serialize(message: Omit<WebSocketMessage, "timestamp">): string {
+  return JSON.stringify({ ...message, timestamp: new Date().toISOString() })
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  if (socket.destroyed) return
+
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`)
+  socket.destroy()
+}
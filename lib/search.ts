@@ -0,0 +1,358 @@
+import prisma from "@/lib/prisma"
+import { conversationUrl } from "@/lib/conversations"
+import { Prisma, type MessageType } from "@/generated/prisma/client"
+
+export const SEARCH_RESULT_TYPES = ["message", "thread", "wiki"] as const
+
+export type SearchResultType = (typeof SEARCH_RESULT_TYPES)[number]
+
+export interface SearchFilters {
+  workspaceId: string
+  // The member searching; private conversations they aren't in are skipped
+  userId: string
+  query: string
+  types?: SearchResultType[]
+  authorId?: string
+  from?: Date
+  to?: Date
+  // Tags and category only exist on wiki pages, content type only on messages,
+  // so setting them narrows results to that kind
+  tags?: string[]
+  category?: string
+  contentType?: MessageType
+  limit?: number
+  offset?: number
+}
+
+export interface SearchHit {
+  type: SearchResultType
+  id: string
+  rank: number
+  snippet: string
+  createdAt: Date
+}
+
+export interface SnippetSegment {
+  text: string
+  highlight: boolean
+}
+
+export interface SearchResult {
+  type: SearchResultType
+  id: string
+  title: string
+  snippet: SnippetSegment[]
+  rank: number
+  createdAt: Date
+  author: {
+    id: string
+    name: string | null
+    image: string | null
+  }
+  threadId: string
+  messageId?: string
+  wikiPageId?: string
+  contentType?: MessageType
+  tags?: string[]
+  conversation: {
+    id: string
+    title: string | null
+  }
+  url: string
+}
+
+// Control characters can't come out of ts_headline otherwise, so they
+// mark matches without letting user content be parsed as markup
+const HIGHLIGHT_START = "\u0002"
+const HIGHLIGHT_END = "\u0003"
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+/**
+ * Split a ts_headline snippet into plain and highlighted runs
+ */
+export function parseSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = []
+  const pattern = new RegExp(`${HIGHLIGHT_START}([^${HIGHLIGHT_END}]*)${HIGHLIGHT_END}`, "g")
+  let last = 0
+
+  for (const match of snippet.matchAll(pattern)) {
+    if (match.index > last) {
+      segments.push({ text: snippet.slice(last, match.index), highlight: false })
+    }
+    segments.push({ text: match[1], highlight: true })
+    last = match.index + match[0].length
+  }
+
+  if (last < snippet.length) {
+    segments.push({ text: snippet.slice(last), highlight: false })
+  }
+
+  return segments
+}
+
+function searchTypes(filters: SearchFilters): SearchResultType[] {
+  let types: SearchResultType[] = filters.types?.length ? filters.types : [...SEARCH_RESULT_TYPES]
+
+  if ((filters.tags && filters.tags.length > 0) || filters.category) {
+    types = types.filter(type => type === "wiki")
+  }
+  if (filters.contentType) {
+    types = types.filter(type => type === "message")
+  }
+
+  return types
+}
+
+function commonConditions(
+  filters: SearchFilters,
+  columns: { author: Prisma.Sql; createdAt: Prisma.Sql }
+): Prisma.Sql[] {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`c."workspaceId" = ${filters.workspaceId}`,
+    Prisma.sql`(c."isPrivate" = false OR EXISTS (
+      SELECT 1 FROM "conversation_member" cm
+      WHERE cm."conversationId" = c."id" AND cm."userId" = ${filters.userId}
+    ))`,
+  ]
+
+  if (filters.authorId) {
+    conditions.push(Prisma.sql`${columns.author} = ${filters.authorId}`)
+  }
+  if (filters.from) {
+    conditions.push(Prisma.sql`${columns.createdAt} >= ${filters.from}`)
+  }
+  if (filters.to) {
+    conditions.push(Prisma.sql`${columns.createdAt} <= ${filters.to}`)
+  }
+
+  return conditions
+}
+
+function matchQuery(type: SearchResultType, filters: SearchFilters): Prisma.Sql {
+  switch (type) {
+    case "message": {
+      const conditions = [
+        Prisma.sql`m."deletedAt" IS NULL`,
+        Prisma.sql`m."searchVector" @@ q.query`,
+        ...commonConditions(filters, { author: Prisma.sql`m."createdBy"`, createdAt: Prisma.sql`m."createdAt"` }),
+      ]
+      if (filters.contentType) {
+        conditions.push(Prisma.sql`m."contentType" = ${filters.contentType}::"MessageType"`)
+      }
+
+      return Prisma.sql`
+        SELECT 'message' AS "type", m."id", ts_rank_cd(m."searchVector", q.query) AS "rank", m."createdAt"
+        FROM "message" m
+        JOIN "thread" t ON t."id" = m."threadId"
+        JOIN "conversation" c ON c."id" = t."conversationId"
+        CROSS JOIN q
+        WHERE ${Prisma.join(conditions, " AND ")}
+      `
+    }
+    case "thread": {
+      const conditions = [
+        Prisma.sql`t."searchVector" @@ q.query`,
+        ...commonConditions(filters, { author: Prisma.sql`t."createdBy"`, createdAt: Prisma.sql`t."createdAt"` }),
+      ]
+
+      return Prisma.sql`
+        SELECT 'thread' AS "type", t."id", ts_rank_cd(t."searchVector", q.query) AS "rank", t."createdAt"
+        FROM "thread" t
+        JOIN "conversation" c ON c."id" = t."conversationId"
+        CROSS JOIN q
+        WHERE ${Prisma.join(conditions, " AND ")}
+      `
+    }
+    case "wiki": {
+      const conditions = [
+        Prisma.sql`w."searchVector" @@ q.query`,
+        ...commonConditions(filters, { author: Prisma.sql`w."createdBy"`, createdAt: Prisma.sql`w."createdAt"` }),
+      ]
+      if (filters.tags && filters.tags.length > 0) {
+        conditions.push(Prisma.sql`w."tags" && ${filters.tags}::text[]`)
+      }
+      if (filters.category) {
+        conditions.push(Prisma.sql`w."category" ILIKE ${`%${filters.category}%`}`)
+      }
+
+      return Prisma.sql`
+        SELECT 'wiki' AS "type", w."id", ts_rank_cd(w."searchVector", q.query) AS "rank", w."createdAt"
+        FROM "wiki_page" w
+        JOIN "thread" t ON t."id" = w."threadId"
+        JOIN "conversation" c ON c."id" = t."conversationId"
+        CROSS JOIN q
+        WHERE ${Prisma.join(conditions, " AND ")}
+      `
+    }
+  }
+}
+
+/**
+ * Ranked matches for a query across a workspace, best first
+ * Queries use web search syntax ("quoted phrases", -excluded, or), and
+ * snippets are only built for the page of results being returned
+ */
+export async function rankSearchHits(filters: SearchFilters): Promise<SearchHit[]> {
+  const types = searchTypes(filters)
+  const query = filters.query.trim()
+
+  if (!query || types.length === 0) {
+    return []
+  }
+
+  const limit = Math.min(Math.max(filters.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT)
+  const offset = Math.max(filters.offset ?? 0, 0)
+
+  return prisma.$queryRaw<SearchHit[]>`
+    WITH q AS (SELECT websearch_to_tsquery('english', ${query}) AS query),
+    hits AS (
+      SELECT * FROM (
+        ${Prisma.join(types.map(type => matchQuery(type, filters)), " UNION ALL ")}
+      ) matches
+      ORDER BY "rank" DESC, "createdAt" DESC, "id" ASC
+      LIMIT ${limit} OFFSET ${offset}
+    )
+    SELECT h."type", h."id", h."rank"::float8 AS "rank", h."createdAt",
+      ts_headline(
+        'english',
+        CASE h."type"
+          WHEN 'message' THEN m."content"
+          WHEN 'thread' THEN t."title"
+          ELSE concat_ws(E'\\n', w."summary", w."content")
+        END,
+        q.query,
+        ${HEADLINE_OPTIONS}
+      ) AS "snippet"
+    FROM hits h
+    CROSS JOIN q
+    LEFT JOIN "message" m ON h."type" = 'message' AND m."id" = h."id"
+    LEFT JOIN "thread" t ON h."type" = 'thread' AND t."id" = h."id"
+    LEFT JOIN "wiki_page" w ON h."type" = 'wiki' AND w."id" = h."id"
+    ORDER BY h."rank" DESC, h."createdAt" DESC, h."id" ASC
+  `
+}
+
+const authorSelect = {
+  id: true,
+  name: true,
+  image: true,
+} as const
+
+const conversationSelect = {
+  id: true,
+  title: true,
+} as const
+
+/**
+ * Search messages, threads and wiki pages in a workspace
+ * Returns one page of results with the details needed to link to each
+ */
+export async function searchWorkspace(filters: SearchFilters): Promise<{
+  results: SearchResult[]
+  hasMore: boolean
+}> {
+  const limit = Math.min(Math.max(filters.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT)
+  // One extra row tells us whether there is another page
+  const hits = await rankSearchHits({ ...filters, limit: limit + 1 })
+  const hasMore = hits.length > limit
+  const page = hits.slice(0, limit)
+
+  const idsOf = (type: SearchResultType) => page.filter(hit => hit.type === type).map(hit => hit.id)
+
+  const [messages, threads, wikiPages] = await Promise.all([
+    prisma.message.findMany({
+      where: { id: { in: idsOf("message") } },
+      include: {
+        creator: { select: authorSelect },
+        thread: {
+          select: {
+            id: true,
+            title: true,
+            conversation: { select: conversationSelect },
+          },
+        },
+      },
+    }),
+    prisma.thread.findMany({
+      where: { id: { in: idsOf("thread") } },
+      include: {
+        creator: { select: authorSelect },
+        conversation: { select: conversationSelect },
+      },
+    }),
+    prisma.wikiPage.findMany({
+      where: { id: { in: idsOf("wiki") } },
+      include: {
+        creator: { select: authorSelect },
+        thread: {
+          select: {
+            conversation: { select: conversationSelect },
+          },
+        },
+      },
+    }),
+  ])
+
+  const messageById = new Map(messages.map(message => [message.id, message]))
+  const threadById = new Map(threads.map(thread => [thread.id, thread]))
+  const wikiPageById = new Map(wikiPages.map(wikiPage => [wikiPage.id, wikiPage]))
+
+  const results: SearchResult[] = []
+
+  for (const hit of page) {
+    const base = {
+      type: hit.type,
+      id: hit.id,
+      snippet: parseSnippet(hit.snippet),
+      rank: hit.rank,
+      createdAt: hit.createdAt,
+    }
+
+    if (hit.type === "message") {
+      const message = messageById.get(hit.id)
+      if (!message) continue
+
+      results.push({
+        ...base,
+        title: message.thread.title,
+        author: message.creator,
+        threadId: message.threadId,
+        messageId: message.id,
+        contentType: message.contentType,
+        conversation: message.thread.conversation,
+        url: `${conversationUrl(message.thread.conversation.id, message.threadId)}?message=${message.id}`,
+      })
+    } else if (hit.type === "thread") {
+      const thread = threadById.get(hit.id)
+      if (!thread) continue
+
+      results.push({
+        ...base,
+        title: thread.title,
+        author: thread.creator,
+        threadId: thread.id,
+        conversation: thread.conversation,
+        url: conversationUrl(thread.conversation.id, thread.id),
+      })
+    } else {
+      const wikiPage = wikiPageById.get(hit.id)
+      if (!wikiPage) continue
+
+      results.push({
+        ...base,
+        title: wikiPage.title,
+        author: wikiPage.creator,
+        threadId: wikiPage.threadId,
+        wikiPageId: wikiPage.id,
+        tags: wikiPage.tags,
+        conversation: wikiPage.thread.conversation,
+        url: `/dashboard/wiki/${wikiPage.id}`,
+      })
+    }
+  }
+
+  return { results, hasMore }
+}
@@ -0,0 +1,74 @@
+import prisma from "@/lib/prisma"
+import type { UserStatus } from "@/generated/prisma/client"
+import { isEmailVerificationRequired } from "@/lib/email-verification"
+
+/**
+ * Why a signed-in session is kept out of workspace data. The user can still
+ * reach their account, the setup pages and sign out, and an account waiting
+ * to be deleted can still export its data and cancel the deletion
+ */
+export type SessionRestriction = "pending_deletion" | "email_verification" | "two_factor"
+
+export const SESSION_RESTRICTION_ERRORS: Record<SessionRestriction, string> = {
+  pending_deletion: "This account is scheduled for deletion",
+  email_verification: "Verify your email address to continue",
+  two_factor: "Your workspace requires two-factor authentication for this session",
+}
+
+interface RestrictableSession {
+  session: {
+    twoFactorVerified?: boolean | null
+  }
+  user: {
+    id: string
+    emailVerified: boolean
+  }
+}
+
+interface RestrictableUser {
+  status: UserStatus
+  workspaces: { workspace: { requireTwoFactor: boolean } }[]
+}
+
+/**
+ * The restriction for a session, given its user's status and workspaces
+ * Accounts waiting to be deleted can only be restored.
+ * EMAIL_VERIFICATION_POLICY=dashboard holds back unverified users. A
+ * workspace requiring 2FA needs the session itself to have passed the
+ * second step, not just the account to have 2FA on
+ */
+export function sessionRestriction(
+  session: RestrictableSession,
+  user: RestrictableUser
+): SessionRestriction | null {
+  if (user.status === "DELETED") {
+    return "pending_deletion"
+  }
+
+  if (!session.user.emailVerified && isEmailVerificationRequired("dashboard")) {
+    return "email_verification"
+  }
+
+  if (!session.session.twoFactorVerified && user.workspaces.some((member) => member.workspace.requireTwoFactor)) {
+    return "two_factor"
+  }
+
+  return null
+}
+
+/**
+ * The restriction for a session, looking up its user's status and workspaces
+ */
+export async function getSessionRestriction(session: RestrictableSession): Promise<SessionRestriction | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: {
+      status: true,
+      workspaces: {
+        select: { workspace: { select: { requireTwoFactor: true } } },
+      },
+    },
+  })
+
+  return user ? sessionRestriction(session, user) : null
+}
@@ -0,0 +1,144 @@
+import prisma from "@/lib/prisma"
+
+export type DeviceType = "desktop" | "mobile" | "tablet"
+
+export interface ParsedUserAgent {
+  browser: string | null
+  os: string | null
+  deviceType: DeviceType
+}
+
+export interface ActiveSession extends ParsedUserAgent {
+  id: string
+  ipAddress: string | null
+  location: string | null
+  createdAt: Date
+  lastActiveAt: Date
+  isCurrent: boolean
+  // Opened by an admin impersonating the user
+  impersonated: boolean
+}
+
+// Checked in order, so Edge and Opera come before the Chrome they contain
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+]
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/CrOS/, "ChromeOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+]
+
+/**
+ * Browser, OS and device type from a user agent, good enough to tell
+ * a user's own devices apart. Unknown agents come back as nulls
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  if (!userAgent) {
+    return { browser: null, os: null, deviceType: "desktop" }
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null
+
+  let deviceType: DeviceType = "desktop"
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    deviceType = "tablet"
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    deviceType = "mobile"
+  }
+
+  return { browser, os, deviceType }
+}
+
+// Vercel URL-encodes the city; a malformed value must not fail the sign-in
+function decodeCity(city: string): string {
+  try {
+    return decodeURIComponent(city)
+  } catch {
+    return city
+  }
+}
+
+/**
+ * Approximate location from the geo headers a hosting platform adds
+ * (Vercel, Cloudflare). Null when the app runs without one
+ */
+export function requestLocation(headers: Headers | undefined): string | null {
+  if (!headers) return null
+
+  const city = headers.get("x-vercel-ip-city")
+  const country = headers.get("x-vercel-ip-country") || headers.get("cf-ipcountry")
+
+  const parts = [city && decodeCity(city), country].filter(Boolean)
+  return parts.length > 0 ? parts.join(", ") : null
+}
+
+/**
+ * The sessions a user is signed in with, most recently used first
+ */
+export async function listActiveSessions(
+  userId: string,
+  currentSessionId?: string
+): Promise<ActiveSession[]> {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      ipAddress: true,
+      userAgent: true,
+      location: true,
+      impersonatedBy: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+    orderBy: { updatedAt: "desc" },
+  })
+
+  return sessions.map((session) => ({
+    id: session.id,
+    ...parseUserAgent(session.userAgent),
+    ipAddress: session.ipAddress,
+    location: session.location,
+    createdAt: session.createdAt,
+    // Better Auth refreshes a session once a day while it is used
+    lastActiveAt: session.updatedAt,
+    isCurrent: session.id === currentSessionId,
+    impersonated: Boolean(session.impersonatedBy),
+  }))
+}
+
+/**
+ * Sign a user out of one session. Returns false if it isn't theirs
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.session.deleteMany({
+    where: { id: sessionId, userId },
+  })
+  return count > 0
+}
+
+/**
+ * Sign a user out everywhere, except the session in `keepSessionId`
+ */
+export async function revokeSessions(userId: string, keepSessionId?: string): Promise<number> {
+  const { count } = await prisma.session.deleteMany({
+    where: {
+      userId,
+      ...(keepSessionId && { id: { not: keepSessionId } }),
+    },
+  })
+  return count
+}
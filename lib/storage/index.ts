@@ -0,0 +1,45 @@
+import { LocalStorageDriver } from "./local"
+import { S3StorageDriver } from "./s3"
+import type { StorageDriver } from "./types"
+
+export type { StorageDriver, StoredObject, SignedUrlOptions } from "./types"
+
+export type StorageDriverName = "local" | "s3"
+
+const globalForStorage = global as unknown as {
+  storageDriver?: StorageDriver
+}
+
+/**
+ * "local" keeps files under STORAGE_LOCAL_DIR (default .data/uploads),
+ * "s3" stores them in S3_BUCKET on S3 or any S3-compatible service
+ */
+export function getStorageDriverName(): StorageDriverName {
+  return process.env.STORAGE_DRIVER === "s3" ? "s3" : "local"
+}
+
+function createStorageDriver(): StorageDriver {
+  if (getStorageDriverName() === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when STORAGE_DRIVER=s3")
+    }
+
+    return new S3StorageDriver({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || "auto",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    })
+  }
+
+  return new LocalStorageDriver(process.env.STORAGE_LOCAL_DIR || ".data/uploads")
+}
+
+export function getStorage(): StorageDriver {
+  if (!globalForStorage.storageDriver) {
+    globalForStorage.storageDriver = createStorageDriver()
+  }
+  return globalForStorage.storageDriver
+}
@@ -0,0 +1,48 @@
+import { createReadStream } from "fs"
+import { mkdir, rm, stat, writeFile } from "fs/promises"
+import path from "path"
+import type { StorageDriver, StoredObject } from "./types"
+
+/**
+ * Files on local disk, for development and tests
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string
+
+  constructor(root: string) {
+    this.root = path.resolve(root)
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key)
+    // Keys are generated by us, but never let one escape the storage root
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return filePath
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key)
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, body)
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const filePath = this.resolve(key)
+
+    try {
+      const stats = await stat(filePath)
+      return { body: createReadStream(filePath), size: stats.size }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true })
+  }
+}
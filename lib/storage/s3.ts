@@ -0,0 +1,81 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3"
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner"
+import type { Readable } from "stream"
+import type { SignedUrlOptions, StorageDriver, StoredObject } from "./types"
+
+export interface S3StorageConfig {
+  bucket: string
+  region: string
+  // Set for S3-compatible services (R2, MinIO, ...)
+  endpoint?: string
+  forcePathStyle?: boolean
+  accessKeyId?: string
+  secretAccessKey?: string
+}
+
+/**
+ * Objects in an S3-compatible bucket, for production
+ * The bucket should stay private: downloads go through signed URLs
+ */
+export class S3StorageDriver implements StorageDriver {
+  private readonly client: S3Client
+  private readonly bucket: string
+
+  constructor(config: S3StorageConfig) {
+    this.bucket = config.bucket
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    })
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    }))
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }))
+      return { body: object.Body as Readable, size: object.ContentLength }
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }))
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ResponseContentType: options.contentType,
+      ResponseContentDisposition: options.disposition,
+    }), { expiresIn: options.expiresIn })
+  }
+}
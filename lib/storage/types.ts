@@ -0,0 +1,25 @@
+import type { Readable } from "stream"
+
+export interface StoredObject {
+  body: Readable
+  size?: number
+}
+
+export interface SignedUrlOptions {
+  contentType: string
+  // Content-Disposition the storage service should send
+  disposition: string
+  expiresIn: number
+}
+
+/**
+ * Where attachment bytes live. Keys are opaque paths chosen by lib/attachments
+ */
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<StoredObject | null>
+  delete(key: string): Promise<void>
+  // Drivers that can hand out short-lived URLs let clients download directly
+  // from storage; the rest are streamed through the app
+  getSignedUrl?(key: string, options: SignedUrlOptions): Promise<string>
+}
@@ -0,0 +1,120 @@
+import prisma from "@/lib/prisma"
+
+// Sub-threads can nest this deep below a top-level thread
+export const MAX_THREAD_DEPTH = 5
+
+export interface ThreadAncestor {
+  id: string
+  title: string
+}
+
+export interface ThreadCounts {
+  // Unread messages in the thread itself
+  unreadCount: number
+  // Messages and unread messages in the thread and all of its sub-threads
+  totalMessageCount: number
+  totalUnreadCount: number
+  descendantCount: number
+}
+
+const EMPTY_COUNTS: ThreadCounts = {
+  unreadCount: 0,
+  totalMessageCount: 0,
+  totalUnreadCount: 0,
+  descendantCount: 0,
+}
+
+/**
+ * The parents of a thread, from its top-level thread down to its direct parent
+ */
+export async function getThreadAncestors(threadId: string): Promise<ThreadAncestor[]> {
+  const rows = await prisma.$queryRaw<Array<ThreadAncestor & { depth: number }>>`
+    WITH RECURSIVE ancestors AS (
+      SELECT p."id", p."title", p."parentId", 1 AS "depth"
+      FROM "thread" t
+      JOIN "thread" p ON p."id" = t."parentId"
+      WHERE t."id" = ${threadId}
+      UNION ALL
+      SELECT p."id", p."title", p."parentId", a."depth" + 1
+      FROM "thread" p
+      JOIN ancestors a ON p."id" = a."parentId"
+      WHERE a."depth" < ${MAX_THREAD_DEPTH + 1}
+    )
+    SELECT "id", "title", "depth" FROM ancestors
+  `
+
+  return rows
+    .sort((a, b) => b.depth - a.depth)
+    .map(({ id, title }) => ({ id, title }))
+}
+
+/**
+ * Unread counts for a member, and message counts rolled up over each
+ * thread's sub-threads. A message is unread when someone else posted it
+ * after the member last opened that thread
+ */
+export async function getThreadCounts(
+  threadIds: string[],
+  userId: string
+): Promise<Map<string, ThreadCounts>> {
+  if (threadIds.length === 0) {
+    return new Map()
+  }
+
+  const rows = await prisma.$queryRaw<Array<ThreadCounts & { threadId: string }>>`
+    WITH RECURSIVE tree AS (
+      SELECT t."id" AS "rootId", t."id", 0 AS "depth"
+      FROM "thread" t
+      WHERE t."id" = ANY(${threadIds})
+      UNION ALL
+      SELECT tree."rootId", c."id", tree."depth" + 1
+      FROM "thread" c
+      JOIN tree ON c."parentId" = tree."id"
+      WHERE tree."depth" < ${MAX_THREAD_DEPTH}
+    ),
+    counts AS (
+      SELECT tree."rootId", tree."id", tree."depth",
+        COUNT(m."id") AS "messages",
+        COUNT(m."id") FILTER (
+          WHERE m."createdBy" <> ${userId}
+            AND (r."lastReadAt" IS NULL OR m."createdAt" > r."lastReadAt")
+        ) AS "unread"
+      FROM tree
+      LEFT JOIN "message" m ON m."threadId" = tree."id" AND m."deletedAt" IS NULL
+      LEFT JOIN "thread_read" r ON r."threadId" = tree."id" AND r."userId" = ${userId}
+      GROUP BY tree."rootId", tree."id", tree."depth"
+    )
+    SELECT "rootId" AS "threadId",
+      COALESCE(SUM("unread") FILTER (WHERE "depth" = 0), 0)::int AS "unreadCount",
+      COALESCE(SUM("messages"), 0)::int AS "totalMessageCount",
+      COALESCE(SUM("unread"), 0)::int AS "totalUnreadCount",
+      (COUNT(*) - 1)::int AS "descendantCount"
+    FROM counts
+    GROUP BY "rootId"
+  `
+
+  const counts = new Map(rows.map(({ threadId, ...row }) => [threadId, row]))
+  threadIds.forEach((id) => {
+    if (!counts.has(id)) counts.set(id, EMPTY_COUNTS)
+  })
+
+  return counts
+}
+
+/**
+ * Record that a member has read a thread up to now
+ * Returns how many unread messages that cleared
+ */
+export async function markThreadRead(threadId: string, userId: string): Promise<number> {
+  const before = (await getThreadCounts([threadId], userId)).get(threadId)?.unreadCount ?? 0
+
+  await prisma.threadRead.upsert({
+    where: {
+      threadId_userId: { threadId, userId },
+    },
+    create: { threadId, userId },
+    update: { lastReadAt: new Date() },
+  })
+
+  return before
+}
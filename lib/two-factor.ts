@@ -0,0 +1,174 @@
+import { createHmac } from "crypto"
+import type { BetterAuthPlugin, GenericEndpointContext } from "better-auth"
+import { createAuthMiddleware } from "better-auth/api"
+import { deleteSessionCookie } from "better-auth/cookies"
+import { generateRandomString } from "better-auth/crypto"
+import prisma from "@/lib/prisma"
+import { loginMethodForPath } from "@/lib/login-history"
+import { LoginMethod } from "@/generated/prisma/client"
+
+// Cookie names and lifetime used by Better Auth's twoFactor plugin, so its
+// /two-factor endpoints pick up the challenges started here
+const TWO_FACTOR_COOKIE_NAME = "two_factor"
+const TRUST_DEVICE_COOKIE_NAME = "trust_device"
+const CHALLENGE_MAX_AGE = 3 * 60
+// Our own: how the first step signed in, as `<method>!<challenge identifier>`
+const SIGN_IN_METHOD_COOKIE_NAME = "two_factor_method"
+
+// Sign-ins the twoFactor plugin lets through without the second step
+const UNCHALLENGED_SIGN_IN_PATHS = ["/magic-link/verify", "/callback/:id"]
+
+/**
+ * Names of the user's workspaces that require two-factor authentication
+ */
+export async function workspacesRequiringTwoFactor(userId: string): Promise<string[]> {
+  const memberships = await prisma.workspaceMember.findMany({
+    where: {
+      userId,
+      workspace: { requireTwoFactor: true },
+    },
+    select: { workspace: { select: { name: true } } },
+    orderBy: { joinedAt: "asc" },
+  })
+
+  return memberships.map((membership) => membership.workspace.name)
+}
+
+/**
+ * Turn 2FA off for a user who lost their authenticator and backup codes.
+ * Drops the secret and backup codes so enrolling again starts over
+ */
+export async function resetTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.twoFactor.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabled: false },
+    }),
+  ])
+}
+
+function trustDeviceToken(secret: string, userId: string, sessionToken: string): string {
+  return createHmac("sha256", secret).update(`${userId}!${sessionToken}`).digest("base64url")
+}
+
+/**
+ * Where the challenge continues: /two-factor, returning to the page the
+ * sign-in was headed for when that is on this site
+ */
+function twoFactorPageUrl(location: string, baseURL: string): string {
+  const url = new URL("/two-factor", baseURL)
+  const target = new URL(location, baseURL)
+
+  if (target.origin === url.origin) {
+    url.searchParams.set("callbackUrl", `${target.pathname}${target.search}${target.hash}`)
+  }
+
+  return url.toString()
+}
+
+/**
+ * Better Auth's twoFactor plugin only challenges password sign-ins. This
+ * puts magic link and Google sign-ins of users with 2FA through the same
+ * challenge: the new session is dropped and the browser goes to /two-factor,
+ * unless the device was trusted when a code was last entered on it
+ */
+export function twoFactorForAllSignIns() {
+  return {
+    id: "two-factor-all-sign-ins",
+    hooks: {
+      after: [
+        {
+          matcher: (ctx) => UNCHALLENGED_SIGN_IN_PATHS.includes(ctx.path),
+          handler: createAuthMiddleware(async (ctx) => {
+            const data = ctx.context.newSession
+            if (!data || !(data.user as { twoFactorEnabled?: boolean | null }).twoFactorEnabled) {
+              return
+            }
+
+            const trustDeviceCookie = ctx.context.createAuthCookie(TRUST_DEVICE_COOKIE_NAME)
+            const trusted = await ctx.getSignedCookie(trustDeviceCookie.name, ctx.context.secret)
+            if (trusted) {
+              const [token, sessionToken] = trusted.split("!")
+              if (token === trustDeviceToken(ctx.context.secret, data.user.id, sessionToken)) {
+                await ctx.setSignedCookie(
+                  trustDeviceCookie.name,
+                  `${trustDeviceToken(ctx.context.secret, data.user.id, data.session.token)}!${data.session.token}`,
+                  ctx.context.secret,
+                  trustDeviceCookie.attributes
+                )
+                return
+              }
+            }
+
+            deleteSessionCookie(ctx, true)
+            await ctx.context.internalAdapter.deleteSession(data.session.token)
+
+            const challengeCookie = ctx.context.createAuthCookie(TWO_FACTOR_COOKIE_NAME, {
+              maxAge: CHALLENGE_MAX_AGE,
+            })
+            const identifier = `2fa-${generateRandomString(20)}`
+            await ctx.context.internalAdapter.createVerificationValue(
+              {
+                value: data.user.id,
+                identifier,
+                expiresAt: new Date(Date.now() + CHALLENGE_MAX_AGE * 1000),
+              },
+              ctx
+            )
+            await ctx.setSignedCookie(
+              challengeCookie.name,
+              identifier,
+              ctx.context.secret,
+              challengeCookie.attributes
+            )
+
+            const method = loginMethodForPath(ctx.path)
+            if (method) {
+              const methodCookie = ctx.context.createAuthCookie(SIGN_IN_METHOD_COOKIE_NAME, {
+                maxAge: CHALLENGE_MAX_AGE,
+              })
+              await ctx.setSignedCookie(
+                methodCookie.name,
+                `${method}!${identifier}`,
+                ctx.context.secret,
+                methodCookie.attributes
+              )
+            }
+
+            // Both endpoints normally redirect to where the sign-in started
+            const location = ctx.context.responseHeaders?.get("location")
+            if (!location) {
+              return ctx.json({ twoFactorRedirect: true })
+            }
+
+            throw ctx.redirect(twoFactorPageUrl(location, ctx.context.baseURL))
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+}
+
+/**
+ * How a sign-in finishing its second step started. Challenges started here
+ * leave their method in a cookie tied to the challenge; the twoFactor
+ * plugin's own challenges are password sign-ins
+ */
+export async function twoFactorSignInMethod(ctx: GenericEndpointContext): Promise<LoginMethod> {
+  const challenge = await ctx.getSignedCookie(
+    ctx.context.createAuthCookie(TWO_FACTOR_COOKIE_NAME).name,
+    ctx.context.secret
+  )
+  const stored = await ctx.getSignedCookie(
+    ctx.context.createAuthCookie(SIGN_IN_METHOD_COOKIE_NAME).name,
+    ctx.context.secret
+  )
+  const [method, identifier] = stored ? stored.split("!") : []
+
+  if (challenge && identifier === challenge && Object.hasOwn(LoginMethod, method)) {
+    return method as LoginMethod
+  }
+
+  return LoginMethod.PASSWORD
+}
@@ -17,4 +17,70 @@ export const updateProfileSchema = z.object({
     .or(z.literal("")),
 });
 
+/**
+ * Schema for signing out one of the current user's sessions
+ */
+export const revokeSessionSchema = z.object({
+  sessionId: z.string().min(1, "Session ID is required"),
+});
+
+/**
+ * Password rules, the same the reset password page checks
+ */
+const newPasswordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must be less than 128 characters")
+  .regex(/[A-Z]/, "Password must contain an uppercase letter")
+  .regex(/[a-z]/, "Password must contain a lowercase letter")
+  .regex(/[0-9]/, "Password must contain a number")
+  .regex(/[!@#$%^&*(),.?":{}|<>]/, "Password must contain a special character");
+
+/**
+ * Schema for starting a change of the current user's email address
+ */
+export const changeEmailSchema = z.object({
+  newEmail: z.string().email("Invalid email address"),
+});
+
+/**
+ * Schema for changing the password of an account that has one
+ */
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Current password is required"),
+    newPassword: newPasswordSchema,
+    confirmPassword: z.string(),
+    revokeOtherSessions: z.boolean(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+/**
+ * Schema for adding a password to an account that signs in with Google only
+ */
+export const setPasswordSchema = z
+  .object({
+    newPassword: newPasswordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+/**
+ * Schema for disconnecting a social account
+ */
+export const unlinkAccountSchema = z.object({
+  providerId: z.string().min(1, "Provider is required"),
+});
+
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type RevokeSessionInput = z.infer<typeof revokeSessionSchema>;
+export type ChangeEmailInput = z.infer<typeof changeEmailSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type SetPasswordInput = z.infer<typeof setPasswordSchema>;
+export type UnlinkAccountInput = z.infer<typeof unlinkAccountSchema>;
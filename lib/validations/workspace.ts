@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/types/workspace";
 
 // Schema for creating a new workspace
 export const createWorkspaceSchema = z.object({
@@ -28,6 +29,30 @@ export const updateWorkspaceSchema = z.object({
   image: z.string().url("Invalid image URL").optional().or(z.literal("")),
 });
 
+// Schema for updating the session's active workspace from its settings
+export const updateActiveWorkspaceSchema = updateWorkspaceSchema.omit({ id: true });
+
+// Schema for a workspace's attachment limits; null/empty means the app defaults
+export const updateAttachmentSettingsSchema = z.object({
+  maxSizeMb: z
+    .number()
+    .positive("Size limit must be greater than 0")
+    .max(1024, "Size limit can be at most 1024 MB")
+    .nullable(),
+  mimeTypes: z
+    .array(
+      z
+        .string()
+        .regex(/^[\w.+-]+\/(\*|[\w.+-]+\*?)$/, "Use MIME types like image/png or image/*")
+    )
+    .max(50, "Too many file types"),
+});
+
+// Schema for a workspace's security policy
+export const updateSecuritySettingsSchema = z.object({
+  requireTwoFactor: z.boolean(),
+});
+
 // Schema for deleting a workspace
 export const deleteWorkspaceSchema = z.object({
   id: z.string().min(1, "Workspace ID is required"),
@@ -36,9 +61,8 @@ export const deleteWorkspaceSchema = z.object({
 // Workspace role enum
 export const workspaceRoleEnum = z.enum(["OWNER", "ADMIN", "MEMBER", "VIEWER"]);
 
-// Schema for inviting a member to workspace
+// Schema for inviting a member to the active workspace
 export const inviteMemberSchema = z.object({
-  workspaceId: z.string().min(1, "Workspace ID is required"),
   email: z.string().email("Invalid email address"),
   role: workspaceRoleEnum.default("MEMBER"),
 });
@@ -64,12 +88,31 @@ export const acceptInvitationSchema = z.object({
   token: z.string().min(1, "Invitation token is required"),
 });
 
+// Schema for creating an API key; no expiry when expiresInDays is null
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Key name is required").max(100, "Name is too long"),
+  scopes: z
+    .array(z.enum(Object.keys(API_KEY_SCOPES) as [ApiKeyScope, ...ApiKeyScope[]]))
+    .min(1, "Select at least one scope"),
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+});
+
+// Schema for rotating or revoking an API key
+export const apiKeyIdSchema = z.object({
+  apiKeyId: z.string().min(1, "API key ID is required"),
+});
+
 // TypeScript types from schemas
 export type CreateWorkspaceInput = z.infer<typeof createWorkspaceSchema>;
 export type UpdateWorkspaceInput = z.infer<typeof updateWorkspaceSchema>;
+export type UpdateActiveWorkspaceInput = z.infer<typeof updateActiveWorkspaceSchema>;
+export type UpdateAttachmentSettingsInput = z.infer<typeof updateAttachmentSettingsSchema>;
+export type UpdateSecuritySettingsInput = z.infer<typeof updateSecuritySettingsSchema>;
 export type DeleteWorkspaceInput = z.infer<typeof deleteWorkspaceSchema>;
 export type InviteMemberInput = z.infer<typeof inviteMemberSchema>;
 export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>;
 export type RemoveMemberInput = z.infer<typeof removeMemberSchema>;
 export type CancelInvitationInput = z.infer<typeof cancelInvitationSchema>;
 export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type ApiKeyIdInput = z.infer<typeof apiKeyIdSchema>;
@@ -1,4 +1,4 @@
-interface WebSocketMessage {
+export interface WebSocketMessage {
   type: string
   data: any
   timestamp: string
@@ -16,6 +16,9 @@ export type WebSocketEvent =
   | "thread:message:new"
   | "thread:message:edit"
   | "thread:message:delete"
+  | "conversation:new"
+  | "conversation:update"
+  | "conversation:member:removed"
   | "thread:new"
   | "thread:update"
   | "wiki:created"
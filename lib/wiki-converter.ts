@@ -1,3 +1,15 @@
+import { attachmentUrl, isInlineImage } from "@/lib/attachments"
+import { conversationUrl } from "@/lib/conversations"
+import { formatFileSize } from "@/lib/format"
+
+interface MessageAttachment {
+  id: string
+  fileName: string
+  mimeType: string
+  size: number
+  thumbnailKey: string | null
+}
+
 interface Thread {
   id: string
   title: string
@@ -10,7 +22,20 @@ interface Thread {
       name: string
       email: string
     }
+    attachments?: MessageAttachment[]
   }>
+  // Sub-threads become pages of their own; these link the pages together
+  related?: {
+    parent?: RelatedThread | null
+    children: RelatedThread[]
+  }
+}
+
+interface RelatedThread {
+  id: string
+  title: string
+  conversationId: string
+  wikiPage?: { id: string } | null
 }
 
 interface WikiConversionResult {
@@ -49,6 +74,32 @@ export async function convertThreadToWiki(thread: Thread): Promise<WikiConversio
   }
 }
 
+interface WikiUpdateResult {
+  content: string
+  tags: string[]
+}
+
+/**
+ * Convert only the messages posted since a page was generated into a section
+ * that can be appended to it. `thread.messages` holds just the new messages
+ */
+export async function convertThreadUpdateToWiki(thread: Thread): Promise<WikiUpdateResult> {
+  const messages = thread.messages.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+
+  const lines: string[] = []
+  lines.push(`## Update - ${new Date().toLocaleString()}`)
+  lines.push('')
+  lines.push(`> **New messages:** ${messages.length}`)
+  lines.push('')
+  lines.push(...formatDiscussion(messages))
+
+  return {
+    content: lines.join('\n'),
+    // Only tags the messages name themselves; size and age tags describe the whole thread
+    tags: Array.from(extractMessageTags(messages)),
+  }
+}
+
 function generateWikiTitle(thread: Thread, messages: any[]): string {
   // Use thread title if available
   if (thread.title && thread.title.trim()) {
@@ -149,6 +200,49 @@ function structureContent(messages: any[], thread: Thread): string {
   lines.push('## Discussion')
   lines.push('')
 
+  lines.push(...formatDiscussion(messages))
+
+  lines.push(...formatRelatedThreads(thread))
+
+  // Metadata section
+  lines.push('## Metadata')
+  lines.push('')
+  lines.push(`- **Original Thread ID:** ${thread.id}`)
+  lines.push(`- **Generated:** ${new Date().toLocaleString()}`)
+  lines.push(`- **Message Count:** ${messages.length}`)
+  lines.push(`- **Participant Count:** ${participants.length}`)
+  lines.push('')
+
+  return lines.join('\n')
+}
+
+function formatRelatedThreads(thread: Thread): string[] {
+  const parent = thread.related?.parent
+  const children = thread.related?.children || []
+  if (!parent && children.length === 0) {
+    return []
+  }
+
+  // Link to the documented page when there is one, otherwise to the thread
+  const link = (related: RelatedThread) => related.wikiPage
+    ? `[${related.title}](/dashboard/wiki/${related.wikiPage.id})`
+    : `[${related.title}](${conversationUrl(related.conversationId, related.id)}) (not documented yet)`
+
+  const lines: string[] = ['## Related threads', '']
+  if (parent) {
+    lines.push(`- **Parent thread:** ${link(parent)}`)
+  }
+  children.forEach(child => {
+    lines.push(`- **Sub-thread:** ${link(child)}`)
+  })
+  lines.push('')
+
+  return lines
+}
+
+function formatDiscussion(messages: Thread["messages"]): string[] {
+  const lines: string[] = []
+
   // Group messages chronologically with formatting
   messages.forEach((message, index) => {
     const timestamp = new Date(message.createdAt).toLocaleString()
@@ -158,9 +252,16 @@ function structureContent(messages: any[], thread: Thread): string {
     lines.push('')
 
     // Format the message content
-    const formattedContent = formatMessageContent(message.content, message.contentType)
-    lines.push(formattedContent)
-    lines.push('')
+    if (message.content) {
+      const formattedContent = formatMessageContent(message.content, message.contentType)
+      lines.push(formattedContent)
+      lines.push('')
+    }
+
+    if (message.attachments && message.attachments.length > 0) {
+      lines.push(...formatAttachments(message.attachments))
+      lines.push('')
+    }
 
     // Add separator between messages
     if (index < messages.length - 1) {
@@ -169,16 +270,7 @@ function structureContent(messages: any[], thread: Thread): string {
     }
   })
 
-  // Metadata section
-  lines.push('## Metadata')
-  lines.push('')
-  lines.push(`- **Original Thread ID:** ${thread.id}`)
-  lines.push(`- **Generated:** ${new Date().toLocaleString()}`)
-  lines.push(`- **Message Count:** ${messages.length}`)
-  lines.push(`- **Participant Count:** ${participants.length}`)
-  lines.push('')
-
-  return lines.join('\n')
+  return lines
 }
 
 function formatMessageContent(content: string, contentType: string): string {
@@ -198,7 +290,7 @@ function formatMessageContent(content: string, contentType: string): string {
 
     case 'IMAGE':
     case 'FILE':
-      // For now, just return as text
+      // The files themselves are listed by formatAttachments, this is the caption
       return content
 
     case 'TEXT':
@@ -220,24 +312,27 @@ function formatMessageContent(content: string, contentType: string): string {
   }
 }
 
-function extractTags(messages: any[], thread: Thread): string[] {
-  const tags = new Set<string>()
+function escapeLinkText(text: string): string {
+  return text.replace(/([\\`*_[\]()<>!])/g, '\\$1')
+}
 
-  // Extract hashtags from messages
-  messages.forEach(message => {
-    const hashtags = message.content.match(/#(\w+)/gi)
-    if (hashtags) {
-      hashtags.forEach(tag => tags.add(tag.toLowerCase().replace('#', '')))
-    }
-  })
+// Images are embedded as their thumbnail linking to the original, other files
+// become download links. URLs need a workspace session, like the page itself
+function formatAttachments(attachments: MessageAttachment[]): string[] {
+  return attachments.map((attachment) => {
+    const name = escapeLinkText(attachment.fileName)
 
-  // Extract @mentions as potential tags
-  messages.forEach(message => {
-    const mentions = message.content.match(/@(\w+)/gi)
-    if (mentions) {
-      mentions.forEach(mention => tags.add(mention.toLowerCase().replace('@', '')))
+    if (isInlineImage(attachment.mimeType)) {
+      const src = attachmentUrl(attachment.id, attachment.thumbnailKey ? "thumbnail" : undefined)
+      return `[![${name}](${src})](${attachmentUrl(attachment.id)})`
     }
+
+    return `- 📎 [${name}](${attachmentUrl(attachment.id)}) (${formatFileSize(attachment.size)})`
   })
+}
+
+function extractTags(messages: any[], thread: Thread): string[] {
+  const tags = extractMessageTags(messages)
 
   // Extract keywords from thread title
   if (thread.title) {
@@ -277,6 +372,28 @@ function extractTags(messages: any[], thread: Thread): string[] {
   return Array.from(tags).slice(0, 10) // Limit to 10 tags
 }
 
+function extractMessageTags(messages: Thread["messages"]): Set<string> {
+  const tags = new Set<string>()
+
+  // Extract hashtags from messages
+  messages.forEach(message => {
+    const hashtags = message.content.match(/#(\w+)/gi)
+    if (hashtags) {
+      hashtags.forEach(tag => tags.add(tag.toLowerCase().replace('#', '')))
+    }
+  })
+
+  // Extract @mentions as potential tags
+  messages.forEach(message => {
+    const mentions = message.content.match(/@(\w+)/gi)
+    if (mentions) {
+      mentions.forEach(mention => tags.add(mention.toLowerCase().replace('@', '')))
+    }
+  })
+
+  return tags
+}
+
 function detectCategory(messages: any[], thread: Thread): string | undefined {
   const allContent = messages.map(m => m.content.toLowerCase()).join(' ')
   const title = (thread.title || '').toLowerCase()
@@ -0,0 +1,373 @@
+import prisma from "@/lib/prisma"
+import { Prisma } from "@/generated/prisma/client"
+import { publishRealtimeEvent } from "@/lib/realtime/publisher"
+import { conversationRoom, threadRoom } from "@/lib/realtime/rooms"
+import { newerThan, type MessageCursor } from "@/lib/messages"
+import { convertThreadToWiki, convertThreadUpdateToWiki } from "@/lib/wiki-converter"
+
+export const wikiPageInclude = {
+  creator: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      image: true,
+    },
+  },
+} satisfies Prisma.WikiPageInclude
+
+export type WikiPageWithCreator = Prisma.WikiPageGetPayload<{
+  include: typeof wikiPageInclude
+}>
+
+const conversionMessageInclude = {
+  creator: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  attachments: {
+    select: {
+      id: true,
+      fileName: true,
+      mimeType: true,
+      size: true,
+      thumbnailKey: true,
+    },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.MessageInclude
+
+type ConversionMessage = Prisma.MessageGetPayload<{
+  include: typeof conversionMessageInclude
+}>
+
+function forConversion(messages: ConversionMessage[]) {
+  return messages.map(msg => ({
+    ...msg,
+    creator: {
+      ...msg.creator,
+      name: msg.creator.name || "Unknown User"
+    }
+  }))
+}
+
+function syncCursor(page: { syncedMessageId: string | null; syncedMessageAt: Date | null }): MessageCursor | null {
+  return page.syncedMessageId && page.syncedMessageAt
+    ? { id: page.syncedMessageId, createdAt: page.syncedMessageAt }
+    : null
+}
+
+// Each sub-thread is documented on its own page, linked to its parent and children
+const relatedThreadSelect = {
+  id: true,
+  title: true,
+  conversationId: true,
+  wikiPage: {
+    select: { id: true },
+  },
+} satisfies Prisma.ThreadSelect
+
+export type ThreadConversionResult =
+  | { status: "created"; wikiPage: WikiPageWithCreator }
+  | { status: "exists"; wikiPage: WikiPageWithCreator }
+  | { status: "not_found" }
+
+/**
+ * Turn a thread into its wiki page and mark the thread as documented
+ * Shared by the manual convert route and the auto-convert job, so both
+ * produce the same page and the same realtime events
+ * Safe to call twice: the unique threadId on wiki_page decides the winner
+ */
+export async function convertThreadToWikiPage(
+  threadId: string,
+  createdBy: string
+): Promise<ThreadConversionResult> {
+  const thread = await prisma.thread.findUnique({
+    where: { id: threadId },
+    include: {
+      messages: {
+        where: {
+          deletedAt: null,
+        },
+        include: conversionMessageInclude,
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      },
+      parent: {
+        select: relatedThreadSelect,
+      },
+      children: {
+        select: relatedThreadSelect,
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  })
+
+  if (!thread) {
+    return { status: "not_found" }
+  }
+
+  const existingWikiPage = await prisma.wikiPage.findUnique({
+    where: { threadId },
+    include: wikiPageInclude,
+  })
+
+  if (existingWikiPage) {
+    return { status: "exists", wikiPage: existingWikiPage }
+  }
+
+  const lastMessage = thread.messages[thread.messages.length - 1]
+  const wikiContent = await convertThreadToWiki({
+    ...thread,
+    messages: forConversion(thread.messages),
+    related: {
+      parent: thread.parent,
+      children: thread.children,
+    },
+  })
+
+  let wikiPage: WikiPageWithCreator
+  try {
+    wikiPage = await prisma.$transaction(async (tx) => {
+      const created = await tx.wikiPage.create({
+        data: {
+          threadId,
+          title: wikiContent.title,
+          content: wikiContent.content,
+          summary: wikiContent.summary,
+          tags: wikiContent.tags,
+          category: wikiContent.category,
+          isPublic: false, // Default to private
+          createdBy,
+          syncedMessageId: lastMessage?.id,
+          syncedMessageAt: lastMessage?.createdAt,
+          revisions: {
+            create: {
+              version: 1,
+              title: wikiContent.title,
+              content: wikiContent.content,
+              summary: wikiContent.summary,
+              tags: wikiContent.tags,
+              category: wikiContent.category,
+              reason: "create",
+              editedBy: createdBy,
+            },
+          },
+        },
+        include: wikiPageInclude,
+      })
+
+      await tx.thread.update({
+        where: { id: threadId },
+        data: { isDocumented: true },
+      })
+
+      return created
+    })
+  } catch (error) {
+    // Lost a race with another conversion of the same thread
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      const winner = await prisma.wikiPage.findUnique({
+        where: { threadId },
+        include: wikiPageInclude,
+      })
+      if (winner) {
+        return { status: "exists", wikiPage: winner }
+      }
+    }
+    throw error
+  }
+
+  const rooms = [conversationRoom(thread.conversationId), threadRoom(threadId)]
+
+  await publishRealtimeEvent("wiki:created", {
+    threadId,
+    wikiPage: {
+      id: wikiPage.id,
+      title: wikiPage.title,
+      summary: wikiPage.summary,
+      tags: wikiPage.tags,
+      category: wikiPage.category,
+      createdBy: wikiPage.creator,
+    },
+  }, rooms)
+
+  await publishRealtimeEvent("thread:update", {
+    threadId,
+    isDocumented: true,
+    undocumentedMessageCount: 0,
+  }, rooms)
+
+  return { status: "created", wikiPage }
+}
+
+/**
+ * Messages posted to the thread after the page was generated or last merged
+ */
+export async function countMessagesSinceSync(page: {
+  threadId: string
+  syncedMessageId: string | null
+  syncedMessageAt: Date | null
+  createdAt: Date
+}): Promise<number> {
+  const cursor = syncCursor(page)
+
+  return prisma.message.count({
+    where: {
+      threadId: page.threadId,
+      deletedAt: null,
+      ...(cursor ? newerThan(cursor) : { createdAt: { gt: page.createdAt } }),
+    },
+  })
+}
+
+export type WikiRevisionReason = "create" | "edit" | "merge" | "restore"
+
+/**
+ * What the audit log records of a page before and after an edit. Content is
+ * left out, the page's revisions keep every version of it
+ */
+export function wikiPageAuditFields(page: {
+  title: string
+  summary: string | null
+  tags: string[]
+  category: string | null
+  isPublic: boolean
+  version: number
+}) {
+  return {
+    title: page.title,
+    summary: page.summary,
+    tags: page.tags,
+    category: page.category,
+    isPublic: page.isPublic,
+    version: page.version,
+  }
+}
+
+/**
+ * Apply changes as the next version of a page and snapshot the result
+ * Returns null when the page has moved past `baseVersion`, i.e. the caller
+ * was editing a stale copy
+ */
+export async function saveWikiPageVersion(
+  wikiPageId: string,
+  baseVersion: number,
+  changes: Omit<Prisma.WikiPageUpdateManyMutationInput, "version">,
+  editedBy: string,
+  reason: WikiRevisionReason
+): Promise<WikiPageWithCreator | null> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.wikiPage.updateMany({
+      where: { id: wikiPageId, version: baseVersion },
+      data: {
+        ...changes,
+        version: { increment: 1 },
+      },
+    })
+
+    if (count === 0) {
+      return null
+    }
+
+    const wikiPage = await tx.wikiPage.findUniqueOrThrow({
+      where: { id: wikiPageId },
+      include: wikiPageInclude,
+    })
+
+    await tx.wikiPageRevision.create({
+      data: {
+        wikiPageId,
+        version: wikiPage.version,
+        title: wikiPage.title,
+        content: wikiPage.content,
+        summary: wikiPage.summary,
+        tags: wikiPage.tags,
+        category: wikiPage.category,
+        reason,
+        editedBy,
+      },
+    })
+
+    return wikiPage
+  })
+}
+
+export type WikiMergeResult =
+  | { status: "merged"; wikiPage: WikiPageWithCreator; previous: WikiPageWithCreator; messageCount: number }
+  | { status: "up_to_date"; wikiPage: WikiPageWithCreator }
+  | { status: "conflict" }
+  | { status: "not_found" }
+
+/**
+ * Append the messages posted since the last sync to the thread's wiki page
+ * Title, summary, category and everything already in the content are left as
+ * they are, so manual edits survive; new tags are added alongside existing ones
+ */
+export async function mergeNewMessagesIntoWikiPage(
+  threadId: string,
+  editedBy: string
+): Promise<WikiMergeResult> {
+  const page = await prisma.wikiPage.findUnique({
+    where: { threadId },
+    include: {
+      ...wikiPageInclude,
+      thread: {
+        select: {
+          id: true,
+          title: true,
+          createdAt: true,
+          conversationId: true,
+        },
+      },
+    },
+  })
+
+  if (!page) {
+    return { status: "not_found" }
+  }
+
+  const cursor = syncCursor(page)
+  const newMessages = await prisma.message.findMany({
+    where: {
+      threadId,
+      deletedAt: null,
+      ...(cursor ? newerThan(cursor) : { createdAt: { gt: page.createdAt } }),
+    },
+    include: conversionMessageInclude,
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  })
+
+  const { thread, ...wikiPage } = page
+
+  if (newMessages.length === 0) {
+    return { status: "up_to_date", wikiPage }
+  }
+
+  const update = await convertThreadUpdateToWiki({
+    ...thread,
+    messages: forConversion(newMessages),
+  })
+  const lastMessage = newMessages[newMessages.length - 1]
+
+  // Only write if nobody edited or merged the page since we read it
+  const merged = await saveWikiPageVersion(page.id, page.version, {
+    content: `${page.content.trimEnd()}\n\n${update.content}`,
+    tags: Array.from(new Set([...page.tags, ...update.tags])),
+    syncedMessageId: lastMessage.id,
+    syncedMessageAt: lastMessage.createdAt,
+  }, editedBy, "merge")
+
+  if (!merged) {
+    return { status: "conflict" }
+  }
+
+  await publishRealtimeEvent("thread:update", {
+    threadId,
+    undocumentedMessageCount: 0,
+  }, [conversationRoom(thread.conversationId), threadRoom(threadId)])
+
+  return { status: "merged", wikiPage: merged, previous: wikiPage, messageCount: newMessages.length }
+}
@@ -0,0 +1,82 @@
+import prisma from "@/lib/prisma"
+import { sessionRestriction } from "@/lib/session-access"
+
+interface WorkspaceSession {
+  session: {
+    id: string
+    activeWorkspaceId?: string | null
+    twoFactorVerified?: boolean | null
+  }
+  user: {
+    id: string
+    emailVerified: boolean
+  }
+}
+
+/**
+ * The workspace a session works in: the one picked in the workspace
+ * switcher, else the user's default workspace, else the first one they joined
+ * Membership is checked on every call, so a session whose active workspace
+ * the user has left falls back instead of keeping access. A restricted
+ * session (see lib/session-access.ts) gets no workspace at all
+ */
+export async function getActiveWorkspace(session: WorkspaceSession) {
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: {
+      status: true,
+      defaultWorkspaceId: true,
+      workspaces: {
+        include: {
+          workspace: true,
+        },
+        orderBy: { joinedAt: "asc" },
+      },
+    },
+  })
+
+  if (!user || sessionRestriction(session, user)) {
+    return null
+  }
+
+  const membership =
+    user.workspaces.find((member) => member.workspaceId === session.session.activeWorkspaceId) ||
+    user.workspaces.find((member) => member.workspaceId === user.defaultWorkspaceId) ||
+    user.workspaces[0]
+
+  if (!membership) {
+    return null
+  }
+
+  return {
+    workspace: membership.workspace,
+    role: membership.role,
+  }
+}
+
+/**
+ * Make a workspace the active one for a single session
+ * Returns false when the user isn't a member of it
+ */
+export async function setActiveWorkspace(session: WorkspaceSession, workspaceId: string): Promise<boolean> {
+  const member = await prisma.workspaceMember.findUnique({
+    where: {
+      userId_workspaceId: {
+        userId: session.user.id,
+        workspaceId,
+      },
+    },
+    select: { id: true },
+  })
+
+  if (!member) {
+    return false
+  }
+
+  await prisma.session.update({
+    where: { id: session.session.id },
+    data: { activeWorkspaceId: workspaceId },
+  })
+
+  return true
+}
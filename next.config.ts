@@ -42,6 +42,8 @@ const nextConfig: NextConfig = {
     ],
   },
   typescript: { ignoreBuildErrors: true },
+  // The realtime server runs inside the Node.js server process (instrumentation.ts)
+  serverExternalPackages: ["ws"],
 };
 
 // withContentCollections must be the outermost plugin
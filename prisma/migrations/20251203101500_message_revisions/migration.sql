@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "message" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "message_revision" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "contentType" "MessageType" NOT NULL,
+    "editedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_revision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_revision_messageId_idx" ON "message_revision"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "message_revision" ADD CONSTRAINT "message_revision_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_revision" ADD CONSTRAINT "message_revision_editedBy_fkey" FOREIGN KEY ("editedBy") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
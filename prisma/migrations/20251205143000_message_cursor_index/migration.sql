@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "message_threadId_createdAt_id_idx" ON "message"("threadId", "createdAt", "id");
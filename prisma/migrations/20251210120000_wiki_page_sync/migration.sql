@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "wiki_page" ADD COLUMN     "syncedMessageAt" TIMESTAMP(3),
+ADD COLUMN     "syncedMessageId" TEXT;
+
+-- Existing pages were generated from every message posted before they were created
+UPDATE "wiki_page" AS w
+SET "syncedMessageId" = latest."id",
+    "syncedMessageAt" = latest."createdAt"
+FROM (
+    SELECT DISTINCT ON (m."threadId") m."threadId", m."id", m."createdAt"
+    FROM "message" AS m
+    JOIN "wiki_page" AS p ON p."threadId" = m."threadId"
+    WHERE m."createdAt" <= p."createdAt"
+    ORDER BY m."threadId", m."createdAt" DESC, m."id" DESC
+) AS latest
+WHERE latest."threadId" = w."threadId";
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "wiki_page" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "wiki_page_revision" (
+    "id" TEXT NOT NULL,
+    "wikiPageId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "summary" TEXT,
+    "tags" TEXT[],
+    "category" TEXT,
+    "reason" TEXT NOT NULL,
+    "editedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wiki_page_revision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wiki_page_revision_wikiPageId_version_key" ON "wiki_page_revision"("wikiPageId", "version");
+
+-- AddForeignKey
+ALTER TABLE "wiki_page_revision" ADD CONSTRAINT "wiki_page_revision_wikiPageId_fkey" FOREIGN KEY ("wikiPageId") REFERENCES "wiki_page"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wiki_page_revision" ADD CONSTRAINT "wiki_page_revision_editedBy_fkey" FOREIGN KEY ("editedBy") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Existing pages start their history at their current content
+INSERT INTO "wiki_page_revision" ("id", "wikiPageId", "version", "title", "content", "summary", "tags", "category", "reason", "editedBy", "createdAt")
+SELECT gen_random_uuid()::text, "id", 1, "title", "content", "summary", "tags", "category", 'create', "createdBy", "updatedAt"
+FROM "wiki_page";
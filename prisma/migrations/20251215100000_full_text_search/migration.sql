@@ -0,0 +1,31 @@
+-- Full-text search vectors, kept up to date by Postgres itself.
+-- Weights: A = titles, B = summaries and categories, C = body text
+
+-- AlterTable
+ALTER TABLE "message" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (setweight(to_tsvector('english', "content"), 'C')) STORED;
+
+-- AlterTable
+ALTER TABLE "thread" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (setweight(to_tsvector('english', "title"), 'A')) STORED;
+
+-- AlterTable
+ALTER TABLE "wiki_page" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', "title"), 'A') ||
+        setweight(to_tsvector('english', coalesce("summary", '')), 'B') ||
+        setweight(to_tsvector('english', coalesce("category", '')), 'B') ||
+        setweight(to_tsvector('english', "content"), 'C')
+    ) STORED;
+
+-- CreateIndex
+CREATE INDEX "message_searchVector_idx" ON "message" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "thread_searchVector_idx" ON "thread" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "wiki_page_searchVector_idx" ON "wiki_page" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "wiki_page_tags_idx" ON "wiki_page" USING GIN ("tags");
@@ -0,0 +1,37 @@
+-- DropIndex
+DROP INDEX "conversation_workspaceId_idx";
+
+-- AlterTable
+ALTER TABLE "conversation" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "createdBy" TEXT,
+ADD COLUMN     "description" TEXT,
+ADD COLUMN     "isPrivate" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "conversation_member" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "addedBy" TEXT,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "conversation_member_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "conversation_workspaceId_archivedAt_idx" ON "conversation"("workspaceId", "archivedAt");
+
+-- CreateIndex
+CREATE INDEX "conversation_member_userId_idx" ON "conversation_member"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversation_member_conversationId_userId_key" ON "conversation_member"("conversationId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "conversation" ADD CONSTRAINT "conversation_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversation_member" ADD CONSTRAINT "conversation_member_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversation_member" ADD CONSTRAINT "conversation_member_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
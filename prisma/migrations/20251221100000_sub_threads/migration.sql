@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "thread" ADD COLUMN     "branchedFromId" TEXT;
+
+-- CreateTable
+CREATE TABLE "thread_read" (
+    "id" TEXT NOT NULL,
+    "threadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lastReadAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "thread_read_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "thread_parentId_idx" ON "thread"("parentId");
+
+-- CreateIndex
+CREATE INDEX "thread_branchedFromId_idx" ON "thread"("branchedFromId");
+
+-- CreateIndex
+CREATE INDEX "thread_read_userId_idx" ON "thread_read"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "thread_read_threadId_userId_key" ON "thread_read"("threadId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "thread" ADD CONSTRAINT "thread_branchedFromId_fkey" FOREIGN KEY ("branchedFromId") REFERENCES "message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "thread_read" ADD CONSTRAINT "thread_read_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "thread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "thread_read" ADD CONSTRAINT "thread_read_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
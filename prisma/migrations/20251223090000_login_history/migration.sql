@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "LoginMethod" AS ENUM ('PASSWORD', 'GOOGLE', 'MAGIC_LINK', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "login_event" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "email" TEXT,
+    "method" "LoginMethod" NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "failureReason" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "login_event_userId_createdAt_idx" ON "login_event"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "login_event_createdAt_idx" ON "login_event"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "login_event" ADD CONSTRAINT "login_event_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
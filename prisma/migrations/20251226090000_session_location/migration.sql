@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "session" ADD COLUMN     "location" TEXT;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "email_change_request" (
+    "id" TEXT NOT NULL,
+    "newEmail" TEXT NOT NULL,
+    "currentToken" TEXT NOT NULL,
+    "newToken" TEXT NOT NULL,
+    "currentConfirmedAt" TIMESTAMP(3),
+    "newConfirmedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "email_change_request_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_change_request_currentToken_key" ON "email_change_request"("currentToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_change_request_newToken_key" ON "email_change_request"("newToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_change_request_userId_key" ON "email_change_request"("userId");
+
+-- AddForeignKey
+ALTER TABLE "email_change_request" ADD CONSTRAINT "email_change_request_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "deletionScheduledAt" TIMESTAMP(3);
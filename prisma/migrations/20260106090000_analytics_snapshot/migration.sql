@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "analytics_snapshot" (
+    "key" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "analytics_snapshot_pkey" PRIMARY KEY ("key")
+);
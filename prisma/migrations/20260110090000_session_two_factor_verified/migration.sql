@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "session" ADD COLUMN     "twoFactorVerified" BOOLEAN NOT NULL DEFAULT false;
+
+-- Sessions of users with 2FA on were only kept after the second step
+UPDATE "session" SET "twoFactorVerified" = true
+WHERE "userId" IN (SELECT "id" FROM "user" WHERE "twoFactorEnabled" = true);
@@ -0,0 +1,33 @@
+import { config } from "dotenv"
+
+config({ path: [".env.local", ".env"], quiet: true })
+
+async function main() {
+  // Imported after the env is loaded so Prisma sees DATABASE_URL
+  const { runDueJobs, startJobWorker } = await import("@/lib/jobs/runner")
+
+  // `pnpm jobs --once` runs a single pass and exits, handy when testing a job locally
+  if (process.argv.includes("--once")) {
+    const result = await runDueJobs()
+    console.log(`Jobs finished: ${result.succeeded} succeeded, ${result.failed} failed`)
+    process.exit(0)
+  }
+
+  const worker = startJobWorker({
+    pollInterval: Number(process.env.JOB_POLL_INTERVAL || 15000),
+  })
+  console.log("Job runner started")
+
+  const shutdown = async () => {
+    await worker.stop()
+    process.exit(0)
+  }
+
+  process.on("SIGINT", shutdown)
+  process.on("SIGTERM", shutdown)
+}
+
+main().catch(error => {
+  console.error("Job runner failed:", error)
+  process.exit(1)
+})
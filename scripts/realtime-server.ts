@@ -0,0 +1,32 @@
+import { config } from "dotenv"
+
+config({ path: [".env.local", ".env"], quiet: true })
+
+async function main() {
+  // Imported after the env is loaded so Prisma and Better Auth see DATABASE_URL
+  const { startRealtimeServer } = await import("@/lib/realtime/server")
+  const { getRealtimeTransport } = await import("@/lib/realtime/publisher")
+
+  if (getRealtimeTransport() !== "postgres") {
+    console.warn(
+      "REALTIME_TRANSPORT is not \"postgres\": events published by the app server will not reach this process."
+    )
+  }
+
+  const realtime = await startRealtimeServer({
+    port: Number(process.env.WS_PORT || 3001),
+  })
+
+  const shutdown = async () => {
+    await realtime.stop()
+    process.exit(0)
+  }
+
+  process.on("SIGINT", shutdown)
+  process.on("SIGTERM", shutdown)
+}
+
+main().catch(error => {
+  console.error("Failed to start realtime server:", error)
+  process.exit(1)
+})
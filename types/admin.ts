@@ -111,3 +111,146 @@ export type ImpersonateUserFields = Pick<
   AdminUser,
   "id" | "email" | "name" | "image" | "role" | "status" | "lastLoginAt"
 >;
+
+/**
+ * Audited actions and how the audit log names them
+ */
+export const AUDIT_ACTION_LABELS = {
+  "user.update": "User updated",
+  "user.delete": "User deleted",
+  "user.impersonate": "Impersonation started",
+  "user.impersonate_stop": "Impersonation stopped",
+  "user.session_revoke": "Session revoked",
+  "user.sessions_revoke": "All sessions revoked",
+  "user.two_factor_reset": "Two-factor authentication reset",
+  "workspace.delete": "Workspace deleted",
+  "member.invite": "Member invited",
+  "member.invite_cancel": "Invitation cancelled",
+  "member.join": "Member joined",
+  "member.role_update": "Member role changed",
+  "member.remove": "Member removed",
+  "thread.convert_to_wiki": "Thread converted to wiki",
+  "wiki_page.update": "Wiki page edited",
+  "wiki_page.merge": "New messages merged into wiki page",
+  "wiki_page.visibility_update": "Wiki page visibility changed",
+  "wiki_page.restore": "Wiki page restored",
+  "api_key.create": "API key created",
+  "api_key.rotate": "API key rotated",
+  "api_key.revoke": "API key revoked",
+} as const;
+
+export type AuditAction = keyof typeof AUDIT_ACTION_LABELS;
+
+export type AuditTargetType =
+  | "user"
+  | "workspace"
+  | "member"
+  | "invitation"
+  | "thread"
+  | "wiki_page"
+  | "api_key";
+
+/**
+ * Changed fields of an audit log entry, before and after
+ */
+export type AuditLogChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * Audit log entry as listed in the admin timeline
+ */
+export interface AdminAuditLog {
+  id: string;
+  action: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  impersonatorId: string | null;
+  impersonatorEmail: string | null;
+  targetType: string;
+  targetId: string | null;
+  targetLabel: string | null;
+  workspaceId: string | null;
+  changes: AuditLogChanges | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Windows the admin overview can be viewed over, in days
+ */
+export const DASHBOARD_RANGE_DAYS = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+} as const;
+
+export type DashboardRange = keyof typeof DASHBOARD_RANGE_DAYS;
+
+/**
+ * Users who reached each step of the signup funnel, each step counting
+ * only users who also reached the ones before it
+ */
+export interface AnalyticsFunnel {
+  signedUp: number;
+  onboarded: number;
+  firstThread: number;
+  firstWikiPage: number;
+}
+
+export interface AnalyticsCohort {
+  week: string; // First day of the signup week, yyyy-mm-dd
+  users: number;
+  // Users active in each week since signing up, starting with the signup week
+  active: number[];
+}
+
+export interface AnalyticsBreakdownRow {
+  value: string; // Empty when the question was skipped
+  users: number;
+  firstThread: number;
+  firstWikiPage: number;
+}
+
+export interface AnalyticsWorkspaceEngagement {
+  id: string;
+  name: string;
+  members: number;
+  activeMembers: number;
+  messages: number;
+  threads: number;
+  wikiPages: number;
+}
+
+export interface AdminAnalytics {
+  funnel: AnalyticsFunnel;
+  cohorts: AnalyticsCohort[];
+  breakdowns: {
+    role: AnalyticsBreakdownRow[];
+    useCase: AnalyticsBreakdownRow[];
+    discoverySource: AnalyticsBreakdownRow[];
+  };
+  workspaces: AnalyticsWorkspaceEngagement[];
+  computedAt: Date;
+}
+
+/**
+ * API key as listed across all workspaces in the admin panel
+ */
+export interface AdminApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  workspace: {
+    id: string;
+    name: string;
+  };
+  createdBy: {
+    id: string;
+    email: string;
+  };
+}
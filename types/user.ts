@@ -13,10 +13,20 @@ export type CurrentUser = {
   role: "user" | "admin";
   status: "ACTIVE" | "SUSPENDED" | "DELETED";
   emailVerified: boolean;
+  twoFactorEnabled: boolean | null;
+  deletionScheduledAt: Date | null;
   onboardingCompleted: boolean;
   createdAt: Date;
 } | null;
 
+/**
+ * A way the user can sign in; providerId "credential" is the password
+ */
+export type LinkedAccount = {
+  providerId: string;
+  createdAt: Date;
+};
+
 /**
  * Simplified user type for sidebar components
  */
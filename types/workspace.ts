@@ -2,6 +2,8 @@
  * Workspace-related type definitions
  */
 
+import type { AuditLogChanges } from "@/types/admin";
+
 export type WorkspaceRole = "OWNER" | "ADMIN" | "MEMBER" | "VIEWER";
 
 export interface WorkspaceMemberWithUser {
@@ -39,3 +41,66 @@ export interface WorkspaceWithRole {
   createdAt: Date;
   updatedAt: Date;
 }
+
+export interface WorkspaceAttachmentSettings {
+  // null and [] mean the workspace uses the app defaults
+  maxSize: number | null;
+  mimeTypes: string[];
+  defaults: {
+    maxSize: number;
+    mimeTypes: string[];
+  };
+}
+
+export interface WorkspaceSecuritySettings {
+  requireTwoFactor: boolean;
+}
+
+export interface WorkspaceActivityEntry {
+  id: string;
+  action: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  targetType: string;
+  targetLabel: string | null;
+  changes: AuditLogChanges | null;
+  createdAt: Date;
+}
+
+export interface WorkspaceActivityFilters {
+  // Start of the first and last day to include, in the browser's time zone
+  from?: number;
+  to?: number;
+  actorId?: string;
+}
+
+/**
+ * What an API key may do, with the description shown when picking scopes
+ */
+export const API_KEY_SCOPES = {
+  "read:conversations": "Read conversations, threads and messages",
+  "write:conversations": "Create and update conversations and threads",
+  "write:messages": "Post, edit and delete messages",
+  "admin:members": "Add and remove conversation members",
+  "read:wiki": "Read wiki pages and their history",
+  "write:wiki": "Edit, restore and create wiki pages from threads",
+} as const;
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES;
+
+export interface WorkspaceApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  createdBy: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+}